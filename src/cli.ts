@@ -1,5 +1,5 @@
-import { stat, writeFile } from "node:fs/promises";
-import { basename, join } from "node:path";
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
 import { createRequire } from "node:module";
 
 import {
@@ -10,20 +10,98 @@ import {
   EXIT_CODES,
   mapErrorCodeToExitCode,
   toCliAppError,
+  type CliWarning,
+  type MetaConfigValue,
 } from "./core/index.js";
 
+import { CACHE_ACTIONS, renderCacheOutput, runCacheCommand } from "./commands/cache.js";
+import { CONFIG_ACTIONS, renderConfigOutput, runConfigCommand } from "./commands/config.js";
+import { renderConvertOutput, runConvertCommand } from "./commands/convert.js";
+import {
+  renderConvertScriptOutput,
+  runConvertScriptCommand,
+} from "./commands/convert-script.js";
 import { getDoctorFailureCode, renderDoctorOutput, runDoctorCommand } from "./commands/doctor.js";
 import { renderDownloadOutput, runDownloadCommand } from "./commands/download.js";
-import { renderFetchOutput, runFetchCommand } from "./commands/fetch.js";
+import { renderExplainOutput, runExplainCommand } from "./commands/explain.js";
+import {
+  FETCH_FALLBACK_POLICIES,
+  renderFetchOutput,
+  runFetchCommand,
+} from "./commands/fetch.js";
+import { renderLanguagesOutput, runLanguagesCommand } from "./commands/languages.js";
+import { renderLintOutput, runLintCommand } from "./commands/lint.js";
+import { renderMergeOutput, runMergeCommand } from "./commands/merge.js";
+import { PROFILE_ACTIONS, renderProfileOutput, runProfileCommand } from "./commands/profile.js";
 import { renderProvidersOutput, runProvidersCommand } from "./commands/providers.js";
+import { renderScanOutput, runScanCommand, type DirectoryEntry } from "./commands/scan.js";
 import { renderSearchOutput, runSearchCommand } from "./commands/search.js";
+import { renderShiftOutput, runShiftCommand } from "./commands/shift.js";
+import { renderSyncOutput, runSyncCommand } from "./commands/sync.js";
+import { createBsdtarArchiveTool, type ArchiveTool } from "./domain/archive.js";
+import { CHINESE_SCRIPTS, isChineseScript } from "./domain/chinese-script.js";
+import {
+  commandReadsConfig,
+  CONFIG_KEYS,
+  createEmptyConfig,
+  loadConfig,
+  parseRankingWeights,
+  stringifyConfigValue,
+  type ConfigValue,
+  type LoadedConfig,
+} from "./domain/config.js";
+import {
+  createFileDownloadCacheStore,
+  withDownloadCache,
+  type DownloadCacheStore,
+} from "./domain/download-cache.js";
+import { parseLanguageFallbacks } from "./domain/languages.js";
+import {
+  applyNamingScheme,
+  NAMING_SCHEMES,
+  validateNamingTemplate,
+  type OutputNaming,
+  type SubtitleNamingDetails,
+} from "./domain/naming.js";
 import {
   createDefaultProviderMap,
+  findIdProvider,
   listProviders,
   resolveProvider,
+  resolveProviders,
   type SubtitleProviderMap,
 } from "./domain/providers.js";
-import { normalizeSubtitleRequest } from "./domain/request-normalization.js";
+import type { SubhdProviderOptions } from "./domain/providers/subhd.js";
+import {
+  findProfile,
+  loadProfiles,
+  PROFILE_KEYS,
+  resolveProfilesPath,
+  type Profile,
+} from "./domain/profiles.js";
+import {
+  createRankingPolicy,
+  HEARING_IMPAIRED_MODES,
+  type RankingPolicy,
+} from "./domain/ranking.js";
+import { isVideoFileName, parseReleaseName, videoFileStem } from "./domain/release-name.js";
+import {
+  normalizeLanguage,
+  normalizeLanguages,
+  normalizeSubtitleRequest,
+} from "./domain/request-normalization.js";
+import {
+  createFileSearchCacheStore,
+  createSearchCache,
+  DEFAULT_SEARCH_CACHE_TTL_MS,
+  resolveCacheDir,
+  type SearchCache,
+  type SearchCacheStore,
+} from "./domain/search-cache.js";
+import { LINT_RULE_IDS, LINT_RULES } from "./domain/subtitle-lint.js";
+import { SUBTITLE_FORMATS, type SubtitleShiftOptions } from "./domain/subtitles.js";
+import { OUTPUT_ENCODING_MODES } from "./domain/text-encoding.js";
+import type { SubtitleProvider, SubtitleRequestInput } from "./domain/types.js";
 
 type FlagValue = string | string[] | boolean;
 
@@ -36,6 +114,21 @@ export interface SubCliDeps {
   stdout?: WritableLike;
   stderr?: WritableLike;
   fileWriter?: (path: string, content: Uint8Array) => Promise<void>;
+  fileReader?: (path: string) => Promise<Uint8Array>;
+  directoryReader?: (path: string) => Promise<DirectoryEntry[]>;
+  archiveTool?: ArchiveTool;
+  /**
+   * Search result and download caches. Default to the XDG cache directory for
+   * the built-in providers; an injected provider map gets no cache unless one
+   * is passed.
+   */
+  searchCacheStore?: SearchCacheStore;
+  downloadCacheStore?: DownloadCacheStore;
+  /** Config sources; default to the process environment and working directory. */
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  configReader?: (path: string) => Promise<string | undefined>;
+  configWriter?: (path: string, text: string) => Promise<void>;
   clock?: () => number;
   now?: () => Date;
   requestIdFactory?: () => string;
@@ -59,6 +152,7 @@ interface VersionInfo {
 interface DispatchResult {
   data: unknown;
   humanOutput: string;
+  warnings?: CliWarning[];
 }
 
 const SHORT_FLAG_ALIASES: Record<string, string> = {
@@ -67,8 +161,17 @@ const SHORT_FLAG_ALIASES: Record<string, string> = {
   "-v": "verbose",
 };
 
+const NEGATIVE_NUMBER_PATTERN = /^-\d/;
 const DEFAULT_SEARCH_LIMIT = 10;
 const DEFAULT_FETCH_LIMIT = 5;
+const DEFAULT_SCAN_LANGUAGES = ["zh"];
+const CACHE_TTL_UNITS_MS: Record<string, number> = {
+  "": 1000,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
 const CLI_VERSION = loadVersionInfo();
 
 export async function runCli(argv: string[], deps: SubCliDeps = {}): Promise<number> {
@@ -112,15 +215,77 @@ export async function runCli(argv: string[], deps: SubCliDeps = {}): Promise<num
   }
 
   try {
+    const cwd = deps.cwd ?? process.cwd();
+    const configReader = deps.configReader ?? readConfigFile;
+    const env = deps.env ?? process.env;
+    const config = commandReadsConfig(parsed.command ?? "")
+      ? await loadConfig({ env, cwd, readTextFile: configReader })
+      : createEmptyConfig(env);
+    // `sub config` reports these itself so that a broken file can be inspected and fixed.
+    if (parsed.command !== "config" && config.problems.length > 0) {
+      throw config.problems[0].error;
+    }
+    const profilesPath = resolveProfilesPath(env);
+    const passedFlags = new Set(parsed.flags.keys());
+    const profile = await loadActiveProfile(parsed, config, profilesPath, configReader);
+    const profileKeys = profile === undefined ? [] : applyFlagDefaults(parsed, profile.values);
+    applyFlagDefaults(
+      parsed,
+      Object.fromEntries([...config.entries].map(([key, entry]) => [key, entry.value])),
+    );
+
+    const builtInProviders = deps.providers === undefined;
+    const currentTimeMs = () => (deps.now?.() ?? new Date()).getTime();
+    const downloadCacheStore =
+      deps.downloadCacheStore ??
+      (builtInProviders
+        ? createFileDownloadCacheStore(resolveCacheDir("downloads", env))
+        : undefined);
     const result = await dispatch(parsed, {
-      providers: deps.providers ?? createDefaultProviderMap(),
+      providers: applyDownloadCache(
+        parsed.flags,
+        deps.providers ?? createDefaultProviderMap({ subhd: getSubhdOptions(config) }),
+        downloadCacheStore,
+        currentTimeMs,
+      ),
       fileWriter: deps.fileWriter ?? writeFile,
+      fileReader: deps.fileReader ?? readFile,
+      directoryReader: deps.directoryReader ?? readDirectoryEntries,
+      archiveTool: deps.archiveTool ?? createBsdtarArchiveTool(),
+      searchCacheStore:
+        deps.searchCacheStore ??
+        (builtInProviders ? createFileSearchCacheStore(resolveCacheDir("search", env)) : undefined),
+      downloadCacheStore,
+      currentTimeMs,
+      config,
+      env,
+      cwd,
+      configReader,
+      configWriter: deps.configWriter ?? writeConfigFile,
+      profilesPath,
+      passedFlags,
     });
-
+    const warnings =
+      parsed.command === "config"
+        ? result.warnings
+        : [...config.warnings, ...(result.warnings ?? [])];
+
+    const effectiveConfig = verbose
+      ? describeEffectiveConfig(config, passedFlags, profile, profileKeys)
+      : undefined;
     if (json) {
-      stdout.write(`${JSON.stringify(createSuccessEnvelope(result.data, context.toMeta()))}\n`);
+      const meta = { ...context.toMeta(), profile: profile?.name, config: effectiveConfig };
+      stdout.write(
+        `${JSON.stringify(createSuccessEnvelope(result.data, meta, warnings))}\n`,
+      );
     } else {
       stdout.write(`${result.humanOutput}\n`);
+      for (const item of effectiveConfig ?? []) {
+        stderr.write(formatHumanConfigValue(item));
+      }
+      for (const warning of warnings ?? []) {
+        stderr.write(formatHumanWarning(warning));
+      }
     }
 
     return EXIT_CODES.SUCCESS;
@@ -143,6 +308,20 @@ export async function runCli(argv: string[], deps: SubCliDeps = {}): Promise<num
 interface DispatchDeps {
   providers: SubtitleProviderMap;
   fileWriter: (path: string, content: Uint8Array) => Promise<void>;
+  fileReader: (path: string) => Promise<Uint8Array>;
+  directoryReader: (path: string) => Promise<DirectoryEntry[]>;
+  archiveTool: ArchiveTool;
+  searchCacheStore?: SearchCacheStore;
+  downloadCacheStore?: DownloadCacheStore;
+  currentTimeMs: () => number;
+  config: LoadedConfig;
+  env: NodeJS.ProcessEnv;
+  cwd: string;
+  configReader: (path: string) => Promise<string | undefined>;
+  configWriter: (path: string, text: string) => Promise<void>;
+  profilesPath: string;
+  /** Flags given on the command line, before profile and config defaults. */
+  passedFlags: ReadonlySet<string>;
 }
 
 async function dispatch(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
@@ -151,12 +330,36 @@ async function dispatch(parsed: ParsedArgs, deps: DispatchDeps): Promise<Dispatc
       return dispatchProviders(parsed, deps);
     case "doctor":
       return dispatchDoctor(parsed, deps);
+    case "languages":
+      return dispatchLanguages(parsed);
     case "search":
       return dispatchSearch(parsed, deps);
+    case "explain":
+      return dispatchExplain(parsed, deps);
     case "download":
       return dispatchDownload(parsed, deps);
     case "fetch":
       return dispatchFetch(parsed, deps);
+    case "scan":
+      return dispatchScan(parsed, deps);
+    case "cache":
+      return dispatchCache(parsed, deps);
+    case "config":
+      return dispatchConfig(parsed, deps);
+    case "profile":
+      return dispatchProfile(parsed, deps);
+    case "convert":
+      return dispatchConvert(parsed, deps);
+    case "lint":
+      return dispatchLint(parsed, deps);
+    case "convert-script":
+      return dispatchConvertScript(parsed, deps);
+    case "shift":
+      return dispatchShift(parsed, deps);
+    case "merge":
+      return dispatchMerge(parsed, deps);
+    case "sync":
+      return dispatchSync(parsed, deps);
     default:
       throw createArgumentError("E_ARG_UNSUPPORTED", `Unknown command: ${parsed.command}`, {
         command: parsed.command,
@@ -182,6 +385,24 @@ async function dispatchProviders(parsed: ParsedArgs, deps: DispatchDeps): Promis
   };
 }
 
+async function dispatchLanguages(parsed: ParsedArgs): Promise<DispatchResult> {
+  if (parsed.positional.length > 0) {
+    throw createArgumentError(
+      "E_ARG_UNSUPPORTED",
+      "languages command does not accept subcommands",
+      {
+        positional: parsed.positional,
+      },
+    );
+  }
+
+  const output = runLanguagesCommand(getOptionalString(parsed.flags, "search"));
+  return {
+    data: output,
+    humanOutput: renderLanguagesOutput(output),
+  };
+}
+
 async function dispatchDoctor(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
   if (parsed.positional.length > 0) {
     throw createArgumentError("E_ARG_UNSUPPORTED", "doctor command does not accept subcommands", {
@@ -214,11 +435,8 @@ async function dispatchSearch(parsed: ParsedArgs, deps: DispatchDeps): Promise<D
     });
   }
 
-  const provider = getProviderOrThrow(parsed.flags, deps.providers);
-  const query = getRequiredString(parsed.flags, "query");
-  const year = getOptionalPositiveInteger(parsed.flags, "year");
-  const season = getOptionalPositiveInteger(parsed.flags, "season");
-  const episode = getOptionalPositiveInteger(parsed.flags, "episode");
+  const providers = getProvidersOrThrow(parsed.flags, deps.providers);
+  const target = getRequestTarget(parsed.flags);
   const limit = getPositiveInteger(parsed.flags, "limit", DEFAULT_SEARCH_LIMIT);
   const languages = [
     ...getStringValues(parsed.flags, "lang"),
@@ -226,22 +444,63 @@ async function dispatchSearch(parsed: ParsedArgs, deps: DispatchDeps): Promise<D
   ];
 
   const request = normalizeSubtitleRequest({
-    query,
-    year,
-    season,
-    episode,
+    ...target,
     languages: splitCommaSeparated(languages),
   });
 
   const output = await runSearchCommand({
-    provider,
+    providers,
     request,
     limit,
+    cache: getSearchCache(parsed.flags, deps),
+    ranking: getRankingPolicy(parsed.flags),
   });
 
+  const { warnings, ...data } = output;
   return {
-    data: output,
-    humanOutput: renderSearchOutput(output),
+    data,
+    humanOutput: renderSearchOutput(output, { explain: getBooleanFlag(parsed.flags, "explain") }),
+    warnings,
+  };
+}
+
+async function dispatchExplain(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
+  if (parsed.positional.length > 0) {
+    throw createArgumentError("E_ARG_UNSUPPORTED", "explain command does not accept subcommands", {
+      positional: parsed.positional,
+    });
+  }
+
+  const id = getRequiredString(parsed.flags, "id");
+  // Without provider flags on the command line, search the provider the id belongs to; a
+  // configured or profile `providers` list may not include it.
+  const owner = findIdProvider(deps.providers, id);
+  const providers =
+    owner !== undefined && !deps.passedFlags.has("provider") && !deps.passedFlags.has("providers")
+      ? [owner]
+      : getProvidersOrThrow(parsed.flags, deps.providers);
+  const target = getRequestTarget(parsed.flags);
+  const languages = [
+    ...getStringValues(parsed.flags, "lang"),
+    ...getStringValues(parsed.flags, "language"),
+  ];
+
+  const output = await runExplainCommand({
+    providers,
+    request: normalizeSubtitleRequest({
+      ...target,
+      languages: splitCommaSeparated(languages),
+    }),
+    id,
+    cache: getSearchCache(parsed.flags, deps),
+    ranking: getRankingPolicy(parsed.flags),
+  });
+
+  const { warnings, ...data } = output;
+  return {
+    data,
+    humanOutput: renderExplainOutput(output),
+    warnings,
   };
 }
 
@@ -256,6 +515,11 @@ async function dispatchDownload(parsed: ParsedArgs, deps: DispatchDeps): Promise
   const id = getRequiredString(parsed.flags, "id");
   const outputPath = getRequiredString(parsed.flags, "output");
   const dryRun = getBooleanFlag(parsed.flags, "dry-run");
+  const entryPattern = getOptionalString(parsed.flags, "entry");
+  const allEntries = getBooleanFlag(parsed.flags, "all-entries");
+  const encoding = getOptionalChoice(parsed.flags, "encoding", OUTPUT_ENCODING_MODES);
+  const format = getOptionalChoice(parsed.flags, "format", SUBTITLE_FORMATS);
+  const naming = getOutputNaming(parsed.flags, outputPath);
 
   const output = await runDownloadCommand({
     provider,
@@ -263,12 +527,23 @@ async function dispatchDownload(parsed: ParsedArgs, deps: DispatchDeps): Promise
     outputPath,
     dryRun,
     writeFile: deps.fileWriter,
-    resolveOutputPath: resolveDownloadOutputPath,
+    resolveOutputPath: (path, fileName, details) =>
+      resolveDownloadOutputPath(path, fileName, details, naming),
+    naming: naming.scheme,
+    archiveTool: deps.archiveTool,
+    entryPattern,
+    allEntries,
+    encoding,
+    format,
+    validate: getBooleanFlag(parsed.flags, "validate"),
+    lintDisabled: getLintDisabled(parsed.flags),
   });
 
+  const { warnings, ...data } = output;
   return {
-    data: output,
+    data,
     humanOutput: renderDownloadOutput(output),
+    warnings,
   };
 }
 
@@ -279,48 +554,499 @@ async function dispatchFetch(parsed: ParsedArgs, deps: DispatchDeps): Promise<Di
     });
   }
 
-  const provider = getProviderOrThrow(parsed.flags, deps.providers);
-  const query = getRequiredString(parsed.flags, "query");
-  const year = getOptionalPositiveInteger(parsed.flags, "year");
-  const season = getOptionalPositiveInteger(parsed.flags, "season");
-  const episode = getOptionalPositiveInteger(parsed.flags, "episode");
-  const outputPath = getRequiredString(parsed.flags, "output");
+  const providers = getProvidersOrThrow(parsed.flags, deps.providers);
+  const target = getRequestTarget(parsed.flags);
+  const video = getOptionalString(parsed.flags, "video");
+  const outputPath =
+    video === undefined || hasFlag(parsed.flags, "output")
+      ? getRequiredString(parsed.flags, "output")
+      : dirname(video);
+  const naming = getOutputNaming(parsed.flags, video ?? outputPath);
   const dryRun = getBooleanFlag(parsed.flags, "dry-run");
   const limit = getPositiveInteger(parsed.flags, "limit", DEFAULT_FETCH_LIMIT);
+  const entryPattern = getOptionalString(parsed.flags, "entry");
+  const allEntries = getBooleanFlag(parsed.flags, "all-entries");
+  const encoding = getOptionalChoice(parsed.flags, "encoding", OUTPUT_ENCODING_MODES);
+  const format = getOptionalChoice(parsed.flags, "format", SUBTITLE_FORMATS);
+  const shift = getShiftOptions(parsed.flags);
+  const convertScript = getBooleanFlag(parsed.flags, "convert-script");
+  const bilingual = getBilingualLanguages(parsed.flags);
+  const verifyLanguage = getBooleanFlag(parsed.flags, "verify-language");
+  const fallback = getOptionalChoice(parsed.flags, "fallback", FETCH_FALLBACK_POLICIES);
+  const maxAttempts = getOptionalPositiveInteger(parsed.flags, "max-attempts");
   const languages = [
     ...getStringValues(parsed.flags, "lang"),
     ...getStringValues(parsed.flags, "language"),
   ];
 
+  // --verify-language falls back to the next candidate unless told otherwise.
+  const effectiveFallback = fallback ?? (verifyLanguage ? "candidates" : "none");
+  if (effectiveFallback === "none" && maxAttempts !== undefined) {
+    throw createArgumentError("E_ARG_CONFLICT", "--max-attempts requires --fallback", {
+      arg: "max-attempts",
+      fallback: effectiveFallback,
+    });
+  }
+
+  if (bilingual !== undefined) {
+    const conflicting = [
+      "all-entries",
+      "convert-script",
+      "offset",
+      "from-fps",
+      "to-fps",
+    ].filter((key) => hasFlag(parsed.flags, key));
+    if (conflicting.length > 0) {
+      throw createArgumentError(
+        "E_ARG_CONFLICT",
+        `--bilingual cannot be combined with --${conflicting[0]}`,
+        {
+          arg: "bilingual",
+          conflicts: conflicting,
+        },
+      );
+    }
+  }
+
   const request = normalizeSubtitleRequest({
-    query,
-    year,
-    season,
-    episode,
-    languages: splitCommaSeparated(languages),
+    ...target,
+    languages: languages.length > 0 ? splitCommaSeparated(languages) : bilingual,
   });
 
   const output = await runFetchCommand({
-    provider,
+    providers,
     request,
     outputPath,
     dryRun,
     limit,
     writeFile: deps.fileWriter,
+    resolveOutputPath: (path, fileName, details) =>
+      resolveDownloadOutputPath(path, fileName, details, naming),
+    naming: naming.scheme,
+    archiveTool: deps.archiveTool,
+    entryPattern,
+    allEntries,
+    encoding,
+    format,
+    shift,
+    convertScript,
+    bilingual,
+    verifyLanguage,
+    validate: getBooleanFlag(parsed.flags, "validate"),
+    lintDisabled: getLintDisabled(parsed.flags),
+    fallback,
+    maxAttempts,
+    fallbackProviders: resolveProviders(deps.providers, ["all"]).providers.filter(
+      (provider) => !providers.includes(provider),
+    ),
+    cache: getSearchCache(parsed.flags, deps),
+    ranking: getRankingPolicy(parsed.flags),
+  });
+
+  const { warnings, ...data } = output;
+  return {
+    data,
+    humanOutput: renderFetchOutput(output),
+    warnings,
+  };
+}
+
+async function dispatchScan(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
+  if (parsed.positional.length > 0) {
+    throw createArgumentError("E_ARG_UNSUPPORTED", "scan command does not accept subcommands", {
+      positional: parsed.positional,
+    });
+  }
+
+  const providers = getProvidersOrThrow(parsed.flags, deps.providers);
+  const languages = normalizeLanguages(
+    splitCommaSeparated([
+      ...getStringValues(parsed.flags, "lang"),
+      ...getStringValues(parsed.flags, "language"),
+    ]),
+  );
+  const naming = getOutputNaming(parsed.flags);
+
+  const output = await runScanCommand({
+    providers,
+    dir: getRequiredString(parsed.flags, "dir"),
+    languages: languages.length > 0 ? languages : DEFAULT_SCAN_LANGUAGES,
+    recursive: getBooleanFlag(parsed.flags, "recursive"),
+    dryRun: getBooleanFlag(parsed.flags, "dry-run"),
+    limit: getPositiveInteger(parsed.flags, "limit", DEFAULT_FETCH_LIMIT),
+    listDirectory: deps.directoryReader,
+    writeFile: deps.fileWriter,
+    resolveOutputPath: (path, fileName, details) =>
+      resolveDownloadOutputPath(path, fileName, details, naming),
+    naming: naming.scheme,
+    archiveTool: deps.archiveTool,
+    format: getOptionalChoice(parsed.flags, "format", SUBTITLE_FORMATS),
+    cache: getSearchCache(parsed.flags, deps),
+    ranking: getRankingPolicy(parsed.flags),
+  });
+
+  const { warnings, ...data } = output;
+  return {
+    data,
+    humanOutput: renderScanOutput(output),
+    warnings,
+  };
+}
+
+async function dispatchCache(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
+  const [action, ...rest] = parsed.positional;
+  if (action === undefined) {
+    throw createArgumentError("E_ARG_MISSING", "cache command requires stats, clear or prune", {
+      arg: "action",
+      allowed: CACHE_ACTIONS,
+    });
+  }
+
+  if (!(CACHE_ACTIONS as readonly string[]).includes(action)) {
+    throw createArgumentError("E_ARG_INVALID", `Unknown cache action: ${action}`, {
+      arg: "action",
+      value: action,
+      allowed: CACHE_ACTIONS,
+    });
+  }
+
+  if (rest.length > 0) {
+    throw createArgumentError("E_ARG_UNSUPPORTED", `cache ${action} does not accept arguments`, {
+      positional: rest,
+    });
+  }
+
+  const output = await runCacheCommand({
+    action: action as (typeof CACHE_ACTIONS)[number],
+    store: deps.searchCacheStore ?? createFileSearchCacheStore(resolveCacheDir("search", deps.env)),
+    downloadStore:
+      deps.downloadCacheStore ??
+      createFileDownloadCacheStore(resolveCacheDir("downloads", deps.env)),
+    ttlMs: getCacheTtl(parsed.flags),
+    now: deps.currentTimeMs,
+  });
+
+  return {
+    data: output,
+    humanOutput: renderCacheOutput(output),
+  };
+}
+
+async function dispatchConfig(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
+  const [action, key, value, ...rest] = parsed.positional;
+  if (action === undefined) {
+    throw createArgumentError("E_ARG_MISSING", "config command requires get, set, list or path", {
+      arg: "action",
+      allowed: CONFIG_ACTIONS,
+    });
+  }
+
+  if (!(CONFIG_ACTIONS as readonly string[]).includes(action)) {
+    throw createArgumentError("E_ARG_INVALID", `Unknown config action: ${action}`, {
+      arg: "action",
+      value: action,
+      allowed: CONFIG_ACTIONS,
+    });
+  }
+
+  const accepted = action === "set" ? 2 : action === "get" ? 1 : 0;
+  const extra = [key, value, ...rest].filter((item) => item !== undefined).slice(accepted);
+  if (extra.length > 0) {
+    throw createArgumentError("E_ARG_UNSUPPORTED", `Too many arguments for config ${action}`, {
+      positional: extra,
+    });
+  }
+
+  const output = await runConfigCommand({
+    action: action as (typeof CONFIG_ACTIONS)[number],
+    key,
+    value,
+    project: getBooleanFlag(parsed.flags, "project"),
+    config: deps.config,
+    cwd: deps.cwd,
+    readTextFile: deps.configReader,
+    writeTextFile: deps.configWriter,
+  });
+  const { warnings, ...data } = output;
+
+  return {
+    data,
+    humanOutput: renderConfigOutput(output),
+    warnings,
+  };
+}
+
+async function dispatchProfile(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
+  const [action, name, ...rest] = parsed.positional;
+  if (action === undefined) {
+    throw createArgumentError(
+      "E_ARG_MISSING",
+      "profile command requires list, show, create or delete",
+      {
+        arg: "action",
+        allowed: PROFILE_ACTIONS,
+      },
+    );
+  }
+
+  if (!(PROFILE_ACTIONS as readonly string[]).includes(action)) {
+    throw createArgumentError("E_ARG_INVALID", `Unknown profile action: ${action}`, {
+      arg: "action",
+      value: action,
+      allowed: PROFILE_ACTIONS,
+    });
+  }
+
+  const extra = action === "list" ? [name, ...rest].filter((item) => item !== undefined) : rest;
+  if (extra.length > 0) {
+    throw createArgumentError("E_ARG_UNSUPPORTED", `Too many arguments for profile ${action}`, {
+      positional: extra,
+    });
+  }
+
+  // Lists also take their alias flags (`--language`, `--provider`); `--weight` repeats.
+  const values: Record<string, string> = {};
+  for (const definition of PROFILE_KEYS) {
+    const flag = definition.flag ?? definition.key;
+    const given =
+      definition.type === "list" || definition.type === "weights"
+        ? (definition.overriddenBy ?? [flag]).flatMap((name) => getStringValues(parsed.flags, name))
+        : getStringValues(parsed.flags, flag).slice(-1);
+    if (given.length > 0) {
+      values[definition.key] = given.join(",");
+    }
+  }
+
+  const output = await runProfileCommand({
+    action: action as (typeof PROFILE_ACTIONS)[number],
+    name,
+    values,
+    force: getBooleanFlag(parsed.flags, "force"),
+    path: deps.profilesPath,
+    readTextFile: deps.configReader,
+    writeTextFile: deps.configWriter,
+  });
+
+  return {
+    data: output,
+    humanOutput: renderProfileOutput(output),
+  };
+}
+
+async function dispatchConvert(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
+  if (parsed.positional.length > 0) {
+    throw createArgumentError("E_ARG_UNSUPPORTED", "convert command does not accept subcommands", {
+      positional: parsed.positional,
+    });
+  }
+
+  const inputPath = getRequiredString(parsed.flags, "input");
+  const outputPath = getRequiredString(parsed.flags, "output");
+  const to = getOptionalChoice(parsed.flags, "to", SUBTITLE_FORMATS);
+  if (to === undefined) {
+    throw createArgumentError("E_ARG_MISSING", "--to is required", {
+      arg: "to",
+      allowed: SUBTITLE_FORMATS,
+    });
+  }
+
+  const output = await runConvertCommand({
+    inputPath,
+    outputPath,
+    to,
+    from: getOptionalChoice(parsed.flags, "from", SUBTITLE_FORMATS),
+    dryRun: getBooleanFlag(parsed.flags, "dry-run"),
+    readFile: deps.fileReader,
+    writeFile: deps.fileWriter,
     resolveOutputPath: resolveDownloadOutputPath,
   });
 
+  const { warnings, ...data } = output;
+  return {
+    data,
+    humanOutput: renderConvertOutput(output),
+    warnings,
+  };
+}
+
+async function dispatchLint(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
+  if (parsed.positional.length > 0) {
+    throw createArgumentError("E_ARG_UNSUPPORTED", "lint command does not accept subcommands", {
+      positional: parsed.positional,
+    });
+  }
+
+  const output = await runLintCommand({
+    inputPath: getRequiredString(parsed.flags, "input"),
+    from: getOptionalChoice(parsed.flags, "from", SUBTITLE_FORMATS),
+    disabled: getLintDisabled(parsed.flags),
+    readFile: deps.fileReader,
+  });
+
+  if (!output.valid) {
+    throw new CliAppError({
+      code: "E_SUBTITLE_VALIDATION_FAILED",
+      message: `Lint found ${output.summary.errors} error(s) in ${output.inputPath}.`,
+      details: output,
+    });
+  }
+
   return {
     data: output,
-    humanOutput: renderFetchOutput(output),
+    humanOutput: renderLintOutput(output),
   };
 }
 
-async function resolveDownloadOutputPath(path: string, fileName: string): Promise<string> {
+async function dispatchConvertScript(
+  parsed: ParsedArgs,
+  deps: DispatchDeps,
+): Promise<DispatchResult> {
+  if (parsed.positional.length > 0) {
+    throw createArgumentError(
+      "E_ARG_UNSUPPORTED",
+      "convert-script command does not accept subcommands",
+      {
+        positional: parsed.positional,
+      },
+    );
+  }
+
+  const inputPath = getRequiredString(parsed.flags, "input");
+  const to = normalizeLanguage(getRequiredString(parsed.flags, "to"), "to");
+  if (!isChineseScript(to)) {
+    throw createArgumentError(
+      "E_ARG_INVALID",
+      `--to must be one of: ${CHINESE_SCRIPTS.join(", ")}`,
+      {
+        arg: "to",
+        value: getOptionalString(parsed.flags, "to"),
+        allowed: CHINESE_SCRIPTS,
+      },
+    );
+  }
+
+  const output = await runConvertScriptCommand({
+    inputPath,
+    outputPath: getOptionalString(parsed.flags, "output"),
+    to,
+    dryRun: getBooleanFlag(parsed.flags, "dry-run"),
+    readFile: deps.fileReader,
+    writeFile: deps.fileWriter,
+  });
+
+  const { warnings, ...data } = output;
+  return {
+    data,
+    humanOutput: renderConvertScriptOutput(output),
+    warnings,
+  };
+}
+
+async function dispatchMerge(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
+  if (parsed.positional.length > 0) {
+    throw createArgumentError("E_ARG_UNSUPPORTED", "merge command does not accept subcommands", {
+      positional: parsed.positional,
+    });
+  }
+
+  const output = await runMergeCommand({
+    topPath: getRequiredString(parsed.flags, "top"),
+    bottomPath: getRequiredString(parsed.flags, "bottom"),
+    outputPath: getRequiredString(parsed.flags, "output"),
+    format: getOptionalChoice(parsed.flags, "format", SUBTITLE_FORMATS),
+    dryRun: getBooleanFlag(parsed.flags, "dry-run"),
+    readFile: deps.fileReader,
+    writeFile: deps.fileWriter,
+  });
+
+  const { warnings, ...data } = output;
+  return {
+    data,
+    humanOutput: renderMergeOutput(output),
+    warnings,
+  };
+}
+
+async function dispatchShift(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
+  if (parsed.positional.length > 0) {
+    throw createArgumentError("E_ARG_UNSUPPORTED", "shift command does not accept subcommands", {
+      positional: parsed.positional,
+    });
+  }
+
+  const inputPath = getRequiredString(parsed.flags, "input");
+  const shift = getShiftOptions(parsed.flags);
+  if (shift === undefined) {
+    throw createArgumentError("E_ARG_MISSING", "--offset or --from-fps/--to-fps is required", {
+      arg: "offset",
+    });
+  }
+
+  const output = await runShiftCommand({
+    inputPath,
+    outputPath: getOptionalString(parsed.flags, "output"),
+    shift,
+    dryRun: getBooleanFlag(parsed.flags, "dry-run"),
+    readFile: deps.fileReader,
+    writeFile: deps.fileWriter,
+  });
+
+  const { warnings, ...data } = output;
+  return {
+    data,
+    humanOutput: renderShiftOutput(output),
+    warnings,
+  };
+}
+
+async function dispatchSync(parsed: ParsedArgs, deps: DispatchDeps): Promise<DispatchResult> {
+  if (parsed.positional.length > 0) {
+    throw createArgumentError("E_ARG_UNSUPPORTED", "sync command does not accept subcommands", {
+      positional: parsed.positional,
+    });
+  }
+
+  const output = await runSyncCommand({
+    inputPath: getRequiredString(parsed.flags, "input"),
+    referencePath: getRequiredString(parsed.flags, "reference"),
+    outputPath: getRequiredString(parsed.flags, "output"),
+    dryRun: getBooleanFlag(parsed.flags, "dry-run"),
+    readFile: deps.fileReader,
+    writeFile: deps.fileWriter,
+  });
+
+  const { warnings, ...data } = output;
+  return {
+    data,
+    humanOutput: renderSyncOutput(output),
+    warnings,
+  };
+}
+
+/**
+ * A directory receives the planned file name, renamed by the naming scheme;
+ * a video file path puts the subtitle next to the video. Any other path is
+ * written as given.
+ */
+async function resolveDownloadOutputPath(
+  path: string,
+  fileName: string,
+  details?: SubtitleNamingDetails,
+  naming?: OutputNaming,
+): Promise<string> {
+  const stem = isVideoFileName(path) ? videoFileStem(path) : undefined;
+  const named =
+    naming === undefined || details === undefined
+      ? fileName
+      : applyNamingScheme({ ...naming, stem: naming.stem ?? stem }, fileName, details);
+  if (stem !== undefined) {
+    return join(dirname(path), basename(named));
+  }
+
   try {
     const fileStat = await stat(path);
     if (fileStat.isDirectory()) {
-      return join(path, basename(fileName));
+      return join(path, basename(named));
     }
   } catch (error) {
     const nodeError = error as NodeJS.ErrnoException;
@@ -332,6 +1058,11 @@ async function resolveDownloadOutputPath(path: string, fileName: string): Promis
   return path;
 }
 
+async function readDirectoryEntries(path: string): Promise<DirectoryEntry[]> {
+  const entries = await readdir(path, { withFileTypes: true });
+  return entries.map((entry) => ({ name: entry.name, directory: entry.isDirectory() }));
+}
+
 function getProviderOrThrow(
   flags: Map<string, FlagValue>,
   providers: SubtitleProviderMap,
@@ -350,6 +1081,244 @@ function getProviderOrThrow(
   });
 }
 
+async function readConfigFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function writeConfigFile(path: string, text: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, text);
+}
+
+/**
+ * Profile and config values fill in flags the command takes but was not
+ * given; any flag in a key's `overriddenBy` leaves the key unused. Returns the
+ * keys that were applied.
+ */
+function applyFlagDefaults(parsed: ParsedArgs, values: Record<string, ConfigValue>): string[] {
+  const applied: string[] = [];
+  for (const definition of CONFIG_KEYS) {
+    const value = values[definition.key];
+    if (
+      value === undefined ||
+      definition.flag === undefined ||
+      !definition.commands?.includes(parsed.command ?? "") ||
+      (definition.overriddenBy ?? [definition.flag]).some((flag) => hasFlag(parsed.flags, flag))
+    ) {
+      continue;
+    }
+
+    parsed.flags.set(definition.flag, stringifyConfigValue(value));
+    applied.push(definition.key);
+  }
+  return applied;
+}
+
+/**
+ * `--profile`, or the configured `profile` key, names the profile for
+ * commands that take profile settings.
+ */
+async function loadActiveProfile(
+  parsed: ParsedArgs,
+  config: LoadedConfig,
+  profilesPath: string,
+  readTextFile: (path: string) => Promise<string | undefined>,
+): Promise<Profile | undefined> {
+  const applies = PROFILE_KEYS.some((definition) =>
+    definition.commands?.includes(parsed.command ?? ""),
+  );
+  const entry = config.entries.get("profile");
+  const name = getOptionalString(parsed.flags, "profile") ?? entry?.value;
+  if (!applies || typeof name !== "string") {
+    return undefined;
+  }
+
+  const profiles = await loadProfiles(profilesPath, readTextFile);
+  return findProfile(
+    profiles,
+    name,
+    hasFlag(parsed.flags, "profile") ? { arg: "profile" } : { origin: entry?.origin },
+  );
+}
+
+function getSubhdOptions(config: LoadedConfig): SubhdProviderOptions {
+  const value = (key: string) => config.entries.get(key)?.value;
+  return {
+    baseUrl: value("subhd.base-url") as string | undefined,
+    timeoutMs: value("subhd.timeout-ms") as number | undefined,
+    retries: value("subhd.retries") as number | undefined,
+    backoffMs: value("subhd.backoff-ms") as number | undefined,
+  };
+}
+
+/** Each key's value and source, with flags given on the command line winning. */
+function describeEffectiveConfig(
+  config: LoadedConfig,
+  passedFlags: ReadonlySet<string>,
+  profile: Profile | undefined,
+  profileKeys: string[],
+): MetaConfigValue[] {
+  return CONFIG_KEYS.map((definition) => {
+    const flag = (definition.overriddenBy ?? (definition.flag ? [definition.flag] : [])).find(
+      (name) => passedFlags.has(name),
+    );
+    if (flag !== undefined) {
+      return { key: definition.key, source: "flag", origin: `--${flag}` };
+    }
+
+    if (profile !== undefined && profileKeys.includes(definition.key)) {
+      return {
+        key: definition.key,
+        value: profile.values[definition.key],
+        source: "profile",
+        origin: profile.name,
+      };
+    }
+
+    const entry = config.entries.get(definition.key);
+    return entry === undefined
+      ? { key: definition.key, source: "default" }
+      : { key: definition.key, value: entry.value, source: entry.source, origin: entry.origin };
+  });
+}
+
+/**
+ * `--weight name=value` (repeatable), `--prefer-format`, `--hi` and
+ * `--lang-fallback`, after profile and config.
+ */
+function getRankingPolicy(flags: Map<string, FlagValue>): RankingPolicy {
+  const weights = getStringValues(flags, "weight");
+  return createRankingPolicy({
+    weights: weights.length > 0 ? parseRankingWeights(weights, "--weight") : undefined,
+    preferFormat: getOptionalChoice(flags, "prefer-format", SUBTITLE_FORMATS),
+    hearingImpaired: getOptionalChoice(flags, "hi", HEARING_IMPAIRED_MODES),
+    languageFallbacks: parseLanguageFallbacks(
+      splitCommaSeparated(getStringValues(flags, "lang-fallback")),
+      "lang-fallback",
+    ),
+  });
+}
+
+/**
+ * `--no-cache` bypasses the search cache entirely; `--refresh` skips stored
+ * entries but still writes the fresh results. Offline searches are answered
+ * by the cache, expired entries included.
+ */
+function getSearchCache(
+  flags: Map<string, FlagValue>,
+  deps: Pick<DispatchDeps, "searchCacheStore" | "currentTimeMs">,
+): SearchCache | undefined {
+  const disabled = getBooleanFlag(flags, "no-cache");
+  const refresh = getBooleanFlag(flags, "refresh");
+  if (disabled && refresh) {
+    throw createArgumentError("E_ARG_CONFLICT", "--refresh cannot be combined with --no-cache", {
+      arg: "refresh",
+      conflicts: ["no-cache"],
+    });
+  }
+
+  const ttlMs = getCacheTtl(flags);
+  if (disabled || deps.searchCacheStore === undefined) {
+    return undefined;
+  }
+
+  return createSearchCache({
+    store: deps.searchCacheStore,
+    ttlMs,
+    refresh,
+    now: deps.currentTimeMs,
+  });
+}
+
+/**
+ * Wraps every provider with the download cache (skipped by `--no-cache`);
+ * `--offline` keeps them from going upstream at all.
+ */
+function applyDownloadCache(
+  flags: Map<string, FlagValue>,
+  providerMap: SubtitleProviderMap,
+  store: DownloadCacheStore | undefined,
+  now: () => number,
+): SubtitleProviderMap {
+  const offline = getBooleanFlag(flags, "offline");
+  const disabled = getBooleanFlag(flags, "no-cache");
+  const conflicting = ["no-cache", "refresh"].filter((key) => hasFlag(flags, key));
+  if (offline && conflicting.length > 0) {
+    throw createArgumentError(
+      "E_ARG_CONFLICT",
+      `--offline cannot be combined with --${conflicting[0]}`,
+      {
+        arg: "offline",
+        conflicts: conflicting,
+      },
+    );
+  }
+
+  return Object.fromEntries(
+    Object.entries(providerMap).map(([id, provider]) => [
+      id,
+      withDownloadCache(provider, { store: disabled ? undefined : store, offline, now }),
+    ]),
+  );
+}
+
+/** `--cache-ttl` in seconds, or with an s/m/h/d unit (`90m`, `7d`). */
+function getCacheTtl(flags: Map<string, FlagValue>): number {
+  const value = getOptionalString(flags, "cache-ttl");
+  if (value === undefined) {
+    return DEFAULT_SEARCH_CACHE_TTL_MS;
+  }
+
+  const match = /^(\d+)([smhd]?)$/.exec(value.trim().toLowerCase());
+  if (match === null) {
+    throw createArgumentError(
+      "E_ARG_INVALID",
+      "--cache-ttl must be a duration such as 3600, 30m, 12h or 7d",
+      {
+        arg: "cache-ttl",
+        value,
+      },
+    );
+  }
+
+  return Number(match[1]) * CACHE_TTL_UNITS_MS[match[2]];
+}
+
+/**
+ * `--providers a,b` or `--provider all|a,b` select several providers for one
+ * merged search; without either flag the default provider is used.
+ */
+function getProvidersOrThrow(
+  flags: Map<string, FlagValue>,
+  providerMap: SubtitleProviderMap,
+): SubtitleProvider[] {
+  const providerIds = splitCommaSeparated([
+    ...getStringValues(flags, "providers"),
+    ...getStringValues(flags, "provider"),
+  ]);
+  if (providerIds.length === 0) {
+    return [getProviderOrThrow(flags, providerMap)];
+  }
+
+  const { providers, unknown } = resolveProviders(providerMap, providerIds);
+  if (unknown.length > 0) {
+    throw createArgumentError("E_ARG_INVALID", `Unknown provider: ${unknown[0]}`, {
+      arg: hasFlag(flags, "providers") ? "providers" : "provider",
+      value: unknown[0],
+      allowed: ["all", ...listProviders(providerMap).map((item) => item.id)],
+    });
+  }
+
+  return providers;
+}
+
 function parseArgs(argv: string[]): ParsedArgs {
   let command: string | undefined;
   const flags = new Map<string, FlagValue>();
@@ -375,7 +1344,7 @@ function parseArgs(argv: string[]): ParsedArgs {
       }
 
       const next = argv[index + 1];
-      if (next !== undefined && !next.startsWith("-")) {
+      if (next !== undefined && (!next.startsWith("-") || NEGATIVE_NUMBER_PATTERN.test(next))) {
         appendFlagValue(flags, stripped, next);
         index += 1;
         continue;
@@ -488,6 +1457,29 @@ function getOptionalString(flags: Map<string, FlagValue>, key: string): string |
   return value.trim().length > 0 ? value : undefined;
 }
 
+function getOptionalChoice<T extends string>(
+  flags: Map<string, FlagValue>,
+  key: string,
+  allowed: readonly T[],
+): T | undefined {
+  const value = getOptionalString(flags, key);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  const match = allowed.find((item) => item === normalized);
+  if (match === undefined) {
+    throw createArgumentError("E_ARG_INVALID", `--${key} must be one of: ${allowed.join(", ")}`, {
+      arg: key,
+      value,
+      allowed,
+    });
+  }
+
+  return match;
+}
+
 function getStringValues(flags: Map<string, FlagValue>, key: string): string[] {
   const value = flags.get(key);
 
@@ -536,6 +1528,152 @@ function getOptionalPositiveInteger(
   return parsed;
 }
 
+function getOptionalInteger(flags: Map<string, FlagValue>, key: string): number | undefined {
+  const value = getOptionalString(flags, key);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!/^[+-]?\d+$/.test(value.trim())) {
+    throw createArgumentError("E_ARG_INVALID", `--${key} must be an integer`, {
+      arg: key,
+      value,
+    });
+  }
+
+  return Number.parseInt(value, 10);
+}
+
+function getOptionalPositiveNumber(
+  flags: Map<string, FlagValue>,
+  key: string,
+): number | undefined {
+  const value = getOptionalString(flags, key);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw createArgumentError("E_ARG_INVALID", `--${key} must be a positive number`, {
+      arg: key,
+      value,
+    });
+  }
+
+  return parsed;
+}
+
+/**
+ * Reads the title and episode target from --query or, with --video, from the
+ * release name of the video file. Explicit flags win over parsed values.
+ */
+function getRequestTarget(
+  flags: Map<string, FlagValue>,
+): Omit<SubtitleRequestInput, "languages"> {
+  const video = getOptionalString(flags, "video");
+  const release = video === undefined ? undefined : parseReleaseName(basename(video));
+  const query =
+    release === undefined ? getRequiredString(flags, "query") : getOptionalString(flags, "query");
+
+  if (release !== undefined && query === undefined && release.title.length === 0) {
+    throw createArgumentError(
+      "E_ARG_INVALID",
+      "--video file name has no recognizable title; pass --query",
+      {
+        arg: "video",
+        value: video,
+      },
+    );
+  }
+
+  return {
+    query: query ?? release?.title ?? "",
+    year: getOptionalPositiveInteger(flags, "year") ?? release?.year,
+    season: getOptionalPositiveInteger(flags, "season") ?? release?.season,
+    episode: getOptionalPositiveInteger(flags, "episode") ?? release?.episode,
+    release,
+  };
+}
+
+/**
+ * Media-server naming is the default when a video is known, either from
+ * --video or because --output points at a video file. Without a path the
+ * caller writes next to each video it finds (`sub scan`), so the same holds.
+ */
+function getOutputNaming(flags: Map<string, FlagValue>, videoOrOutput?: string): OutputNaming {
+  const template = getOptionalString(flags, "naming-template");
+  if (template !== undefined) {
+    validateNamingTemplate(template);
+  }
+
+  const stem =
+    videoOrOutput !== undefined && isVideoFileName(videoOrOutput)
+      ? videoFileStem(videoOrOutput)
+      : undefined;
+  const videoKnown = videoOrOutput === undefined || stem !== undefined;
+  const scheme =
+    getOptionalChoice(flags, "naming", NAMING_SCHEMES) ??
+    (template !== undefined ? "template" : videoKnown ? "plex" : "provider");
+
+  if (scheme === "template" && template === undefined) {
+    throw createArgumentError("E_ARG_MISSING", "--naming template needs --naming-template", {
+      arg: "naming-template",
+    });
+  }
+
+  return { scheme, template, stem };
+}
+
+function getShiftOptions(flags: Map<string, FlagValue>): SubtitleShiftOptions | undefined {
+  const offsetMs = getOptionalInteger(flags, "offset");
+  const fromFps = getOptionalPositiveNumber(flags, "from-fps");
+  const toFps = getOptionalPositiveNumber(flags, "to-fps");
+
+  if ((fromFps === undefined) !== (toFps === undefined)) {
+    throw createArgumentError("E_ARG_MISSING", "--from-fps and --to-fps must be used together", {
+      arg: fromFps === undefined ? "from-fps" : "to-fps",
+    });
+  }
+
+  if (offsetMs === undefined && fromFps === undefined) {
+    return undefined;
+  }
+
+  return { offsetMs, fromFps, toFps };
+}
+
+function getBilingualLanguages(flags: Map<string, FlagValue>): string[] | undefined {
+  const values = getStringValues(flags, "bilingual");
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  const languages = normalizeLanguages(splitCommaSeparated(values), "bilingual");
+  if (languages.length !== 2) {
+    throw createArgumentError("E_ARG_INVALID", "--bilingual takes two languages, e.g. zh,en", {
+      arg: "bilingual",
+      value: values.join(","),
+    });
+  }
+
+  return languages;
+}
+
+/** `--lint-disable <rules>`, comma-separated and repeatable, after profile and config. */
+function getLintDisabled(flags: Map<string, FlagValue>): string[] {
+  const rules = splitCommaSeparated(getStringValues(flags, "lint-disable"));
+  const unknown = rules.find((rule) => !(LINT_RULE_IDS as string[]).includes(rule));
+  if (unknown !== undefined) {
+    throw createArgumentError("E_ARG_INVALID", `Unknown lint rule: ${unknown}`, {
+      arg: "lint-disable",
+      value: unknown,
+      allowed: LINT_RULE_IDS,
+    });
+  }
+  return rules;
+}
+
 function splitCommaSeparated(values: string[]): string[] {
   return values
     .flatMap((item) => item.split(","))
@@ -565,7 +1703,67 @@ function renderHelp(command?: string): string {
       "sub search",
       "",
       "Usage:",
-      "  sub search --query <text> [--lang <code>] [--year <yyyy>] [--season <n>] [--episode <n>] [--provider <id>] [--limit <n, default 10>] [--json]",
+      "  sub search --query <text>|--video <path> [--lang <code>] [--year <yyyy>] [--season <n>] [--episode <n>] [--provider <id|all>] [--providers <ids>] [--limit <n, default 10>] [--prefer-format <fmt>] [--hi <mode>] [--lang-fallback <chains>] [--weight <name>=<n>]... [--profile <name>] [--cache-ttl <dur>] [--no-cache] [--refresh] [--offline] [--explain] [--json]",
+      "Notes:",
+      "  --video reads title, year, season and episode from the release name and prefers subtitles for the same release",
+      "  --provider all or --providers subhd,assrt searches concurrently and ranks the merged results; data.providers reports each provider",
+      "  results are cached per provider and request for --cache-ttl (default 24h); data.cache is hit, miss or stale",
+      "  --prefer-format adds the format.preferred weight to that format; --hi exclude drops hearing-impaired subtitles",
+      "  --explain prints each candidate's score factors; JSON items always carry factors (data.factorsVersion)",
+    ].join("\n");
+  }
+
+  if (command === "explain") {
+    return [
+      "sub explain",
+      "",
+      "Usage:",
+      "  sub explain --id <subtitle-id> --query <text>|--video <path> [--lang <code>] [--year <yyyy>] [--season <n>] [--episode <n>] [--provider <id|all>] [--providers <ids>] [--prefer-format <fmt>] [--hi <mode>] [--lang-fallback <chains>] [--weight <name>=<n>]... [--profile <name>] [--json]",
+      "Notes:",
+      "  runs the search and reports each score factor of the candidate: id, weight, value, contribution and detail",
+      "  without --provider the provider is taken from the id prefix (subhd:..., assrt:...)",
+    ].join("\n");
+  }
+
+  if (command === "cache") {
+    return [
+      "sub cache",
+      "",
+      "Usage:",
+      "  sub cache stats|clear|prune [--cache-ttl <dur>] [--json]",
+      "Notes:",
+      "  the search cache lives in $XDG_CACHE_HOME/subchef/search (default ~/.cache/subchef/search)",
+      "  prune removes search entries older than --cache-ttl (default 24h); clear also empties the download cache",
+      "  downloads are stored by content hash in $XDG_CACHE_HOME/subchef/downloads and never expire",
+    ].join("\n");
+  }
+
+  if (command === "config") {
+    return [
+      "sub config",
+      "",
+      "Usage:",
+      "  sub config get <key>|set <key> <value> [--project]|list|path [--json]",
+      "Notes:",
+      "  user config: $XDG_CONFIG_HOME/subchef/config.json (default ~/.config/subchef/config.json)",
+      "  project config: the nearest .subchefrc from the working directory up; set --project writes it",
+      "  precedence: command-line flags, then the active profile, then SUBCHEF_* variables (SUBCHEF_SUBHD_TIMEOUT_MS), then .subchefrc, then the user config",
+      "  set <key> \"\" removes the key; run with --verbose to see where each effective value came from",
+      `  keys: ${CONFIG_KEYS.map((definition) => definition.key).join(", ")}`,
+    ].join("\n");
+  }
+
+  if (command === "profile") {
+    return [
+      "sub profile",
+      "",
+      "Usage:",
+      "  sub profile list|show <name>|delete <name> [--json]",
+      "  sub profile create <name> [--lang <codes>] [--providers <ids>] [--limit <n>] [--format <fmt>] [--prefer-format <fmt>] [--hi <mode>] [--lang-fallback <chains>] [--weight <name>=<n>]... [--naming <scheme>] [--naming-template <tpl>] [--output <dir>] [--force] [--json]",
+      "Notes:",
+      "  profiles live in profiles.json next to the user config; --profile <name> or the profile config key selects one",
+      "  a profile's values apply to search, fetch, download and scan unless the flag is given; meta.profile names it",
+      "  weights: query-overlap, language.primary|secondary|convertible|regional|fallback|mismatch|bilingual, format.srt|ass|vtt|preferred, hearing-impaired, provider.<id>",
     ].join("\n");
   }
 
@@ -574,9 +1772,35 @@ function renderHelp(command?: string): string {
       "sub fetch",
       "",
       "Usage:",
-      "  sub fetch --query <text> --output <path|directory> [--lang <code>] [--year <yyyy>] [--season <n>] [--episode <n>] [--provider <id>] [--limit <n, default 5>] [--dry-run] [--json]",
+      "  sub fetch --query <text>|--video <path> --output <path|directory> [--lang <code>] [--year <yyyy>] [--season <n>] [--episode <n>] [--provider <id|all>] [--providers <ids>] [--limit <n, default 5>] [--entry <glob>] [--all-entries] [--encoding <mode>] [--format <fmt>] [--offset <±ms>] [--from-fps <fps> --to-fps <fps>] [--convert-script] [--bilingual <top,bottom>] [--fallback <policy>] [--max-attempts <n>] [--verify-language] [--validate] [--lint-disable <rules>] [--naming <scheme>] [--naming-template <tpl>] [--prefer-format <fmt>] [--hi <mode>] [--lang-fallback <chains>] [--weight <name>=<n>]... [--profile <name>] [--cache-ttl <dur>] [--no-cache] [--refresh] [--offline] [--dry-run] [--json]",
       "Notes:",
       "  fetch = search + ranking + top candidate download",
+      "  --provider all or --providers subhd,assrt ranks all providers together; a failing provider is reported, not fatal",
+      "  --output defaults to the --video directory; a video file as --output writes the subtitle next to it",
+      "  --naming plex|jellyfin|kodi writes <video-stem>.<lang>[.forced][.sdh].<ext>; provider keeps the provider file name",
+      "  --naming-template uses {stem} {name} {lang} {format} {forced} {sdh} {season} {episode} {provider}",
+      "  --video reads title, year, season and episode from the release name and prefers subtitles for the same release",
+      "  --bilingual zh,en downloads the best candidate for each language and merges them",
+      "  --fallback candidates tries the next ranked candidate when a download fails; providers tries the other providers; all does both",
+      "  --max-attempts caps the downloads tried with --fallback (default 3); data.attempts lists each attempt and its error",
+      "  --verify-language rejects a download whose text is in none of the --lang languages (E_SUBTITLE_LANGUAGE_MISMATCH) and, unless --fallback says otherwise, tries the next candidate",
+      "  data.detectedLanguages lists the languages found in the downloaded text, with the share of lines in each",
+      "  --validate lints each subtitle before it is written and fails with E_SUBTITLE_VALIDATION_FAILED on errors; --fallback moves on to the next candidate",
+      "  --convert-script converts a zh-cn/zh-tw candidate to the first --lang when they differ",
+      "  archives: the entry matching --season/--episode and --lang is extracted; --all-entries extracts every episode",
+    ].join("\n");
+  }
+
+  if (command === "scan") {
+    return [
+      "sub scan",
+      "",
+      "Usage:",
+      "  sub scan --dir <library> [--lang <codes, default zh>] [--recursive] [--provider <id|all>] [--providers <ids>] [--limit <n, default 5>] [--format <fmt>] [--naming <scheme>] [--naming-template <tpl>] [--prefer-format <fmt>] [--hi <mode>] [--lang-fallback <chains>] [--weight <name>=<n>]... [--profile <name>] [--cache-ttl <dur>] [--no-cache] [--refresh] [--offline] [--dry-run] [--json]",
+      "Notes:",
+      "  videos with a <video-stem>.<lang>.<ext> sidecar for a language are reported as found",
+      "  every gap runs fetch for the release parsed from the video name; failures are reported per video",
+      "  --dry-run searches and plans file names without writing (status: missing)",
     ].join("\n");
   }
 
@@ -585,7 +1809,82 @@ function renderHelp(command?: string): string {
       "sub download",
       "",
       "Usage:",
-      "  sub download --id <subtitle-id> --output <path|directory> [--provider <id>] [--dry-run] [--json]",
+      "  sub download --id <subtitle-id> --output <path|directory> [--provider <id>] [--entry <glob>] [--all-entries] [--encoding <mode>] [--format <fmt>] [--validate] [--lint-disable <rules>] [--naming <scheme>] [--naming-template <tpl>] [--profile <name>] [--offline] [--dry-run] [--json]",
+      "Notes:",
+      "  a video file as --output writes <video-stem>.<lang>.<ext> next to it",
+      "  data.detectedLanguages lists the languages found in the downloaded text, with the share of lines in each",
+      "  --validate lints each subtitle before it is written and fails with E_SUBTITLE_VALIDATION_FAILED on errors",
+    ].join("\n");
+  }
+
+  if (command === "convert") {
+    return [
+      "sub convert",
+      "",
+      "Usage:",
+      "  sub convert --input <file> --to <srt|ass|vtt> --output <path|directory> [--from <srt|ass|vtt>] [--dry-run] [--json]",
+      "Notes:",
+      "  ASS styles are kept as far as the target allows; dropped styles are reported as warnings",
+    ].join("\n");
+  }
+
+  if (command === "lint") {
+    return [
+      "sub lint",
+      "",
+      "Usage:",
+      "  sub lint --input <file> [--from <fmt>] [--lint-disable <rules>] [--json]",
+      "Rules:",
+      ...LINT_RULES.map((rule) => `  ${rule.id} (${rule.severity}): ${rule.description}`),
+      "Notes:",
+      "  issues are listed as [severity] rule: cue N: message; syntax errors are always reported",
+      "  exits with E_SUBTITLE_VALIDATION_FAILED (exit code 6) when an error is found",
+    ].join("\n");
+  }
+
+  if (command === "convert-script") {
+    return [
+      "sub convert-script",
+      "",
+      "Usage:",
+      "  sub convert-script --input <file> --to <zh-cn|zh-tw> [--output <path>] [--dry-run] [--json]",
+      "Notes:",
+      "  converts cue text between Simplified and Traditional Chinese with the bundled dictionary",
+    ].join("\n");
+  }
+
+  if (command === "merge") {
+    return [
+      "sub merge",
+      "",
+      "Usage:",
+      "  sub merge --top <file> --bottom <file> --output <path> [--format <srt|ass|vtt>] [--dry-run] [--json]",
+      "Notes:",
+      "  cues are paired by time overlap; ASS output uses Top/Bottom styles, SRT and WebVTT stack two lines",
+      "  the format defaults to the --output extension, then to the top file's format",
+    ].join("\n");
+  }
+
+  if (command === "shift") {
+    return [
+      "sub shift",
+      "",
+      "Usage:",
+      "  sub shift --input <file> [--offset <±ms>] [--from-fps <fps> --to-fps <fps>] [--output <path>] [--dry-run] [--json]",
+      "Notes:",
+      "  timestamps are rescaled by from-fps/to-fps, then offset; without --output the input is rewritten in place",
+    ].join("\n");
+  }
+
+  if (command === "sync") {
+    return [
+      "sub sync",
+      "",
+      "Usage:",
+      "  sub sync --input <file> --reference <file> --output <path> [--dry-run] [--json]",
+      "Notes:",
+      "  cue timing patterns are matched against the reference to find an offset and framerate drift",
+      "  the result reports offsetMs, scale and a 0..1 confidence",
     ].join("\n");
   }
 
@@ -597,6 +1896,18 @@ function renderHelp(command?: string): string {
     return ["sub providers", "", "Usage:", "  sub providers [--json]"].join("\n");
   }
 
+  if (command === "languages") {
+    return [
+      "sub languages",
+      "",
+      "Usage:",
+      "  sub languages [--search <text>] [--json]",
+      "Notes:",
+      "  --lang and other language flags accept any listed code, alias or name: fre, pt_BR, zh-Hant, Korean, 韩语",
+      "  regional and script tags without their own entry keep the subtag, e.g. en-AU -> en-au",
+    ].join("\n");
+  }
+
   if (command === "version") {
     return ["sub version", "", "Usage:", "  sub version [--json]"].join("\n");
   }
@@ -609,17 +1920,53 @@ function renderHelp(command?: string): string {
     "  sub help [command]",
     "  sub version [--json]",
     "  sub providers [--json]",
+    "  sub languages [--search <text>] [--json]",
     "  sub doctor [--provider <id>] [--json]",
-    "  sub search --query <text> [--lang <code>] [--year <yyyy>] [--season <n>] [--episode <n>] [--provider <id>] [--limit <n>] [--json]",
-    "  sub fetch --query <text> --output <path|directory> [--lang <code>] [--year <yyyy>] [--season <n>] [--episode <n>] [--provider <id>] [--limit <n>] [--dry-run] [--json]",
-    "  sub download --id <subtitle-id> --output <path|directory> [--provider <id>] [--dry-run] [--json]",
+    "  sub search --query <text>|--video <path> [--lang <code>] [--year <yyyy>] [--season <n>] [--episode <n>] [--provider <id|all>] [--providers <ids>] [--limit <n>] [--prefer-format <fmt>] [--hi <mode>] [--lang-fallback <chains>] [--weight <name>=<n>]... [--profile <name>] [--cache-ttl <dur>] [--no-cache] [--refresh] [--offline] [--explain] [--json]",
+    "  sub fetch --query <text>|--video <path> --output <path|directory> [--lang <code>] [--year <yyyy>] [--season <n>] [--episode <n>] [--provider <id|all>] [--providers <ids>] [--limit <n>] [--entry <glob>] [--all-entries] [--encoding <mode>] [--format <fmt>] [--offset <±ms>] [--from-fps <fps> --to-fps <fps>] [--convert-script] [--bilingual <top,bottom>] [--fallback <policy>] [--max-attempts <n>] [--verify-language] [--validate] [--lint-disable <rules>] [--naming <scheme>] [--naming-template <tpl>] [--prefer-format <fmt>] [--hi <mode>] [--lang-fallback <chains>] [--weight <name>=<n>]... [--profile <name>] [--cache-ttl <dur>] [--no-cache] [--refresh] [--offline] [--dry-run] [--json]",
+    "  sub scan --dir <library> [--lang <codes>] [--recursive] [--provider <id|all>] [--providers <ids>] [--limit <n>] [--format <fmt>] [--naming <scheme>] [--naming-template <tpl>] [--prefer-format <fmt>] [--hi <mode>] [--lang-fallback <chains>] [--weight <name>=<n>]... [--profile <name>] [--cache-ttl <dur>] [--no-cache] [--refresh] [--offline] [--dry-run] [--json]",
+    "  sub download --id <subtitle-id> --output <path|directory> [--provider <id>] [--entry <glob>] [--all-entries] [--encoding <mode>] [--format <fmt>] [--validate] [--lint-disable <rules>] [--naming <scheme>] [--naming-template <tpl>] [--profile <name>] [--offline] [--dry-run] [--json]",
+    "  sub convert --input <file> --to <srt|ass|vtt> --output <path|directory> [--from <fmt>] [--dry-run] [--json]",
+    "  sub convert-script --input <file> --to <zh-cn|zh-tw> [--output <path>] [--dry-run] [--json]",
+    "  sub lint --input <file> [--from <fmt>] [--lint-disable <rules>] [--json]",
+    "  sub merge --top <file> --bottom <file> --output <path> [--format <fmt>] [--dry-run] [--json]",
+    "  sub shift --input <file> [--offset <±ms>] [--from-fps <fps> --to-fps <fps>] [--output <path>] [--dry-run] [--json]",
+    "  sub sync --input <file> --reference <file> --output <path> [--dry-run] [--json]",
+    "  sub explain --id <subtitle-id> --query <text>|--video <path> [--lang <code>] [--provider <id|all>] [--prefer-format <fmt>] [--hi <mode>] [--lang-fallback <chains>] [--weight <name>=<n>]... [--profile <name>] [--json]",
+    "  sub cache stats|clear|prune [--cache-ttl <dur>] [--json]",
+    "  sub config get <key>|set <key> <value> [--project]|list|path [--json]",
+    "  sub profile list|show <name>|create <name> [--weight <name>=<n>]... [--force]|delete <name> [--json]",
     "",
     "Flags:",
     "  -h, --help      Show help",
     "  -V, --version   Show CLI version",
     "  --json          Output CliEnvelope JSON",
     "  --dry-run       Validate and show write plan without writing files",
-    "  -v, --verbose   Include verbose mode in metadata",
+    "  --entry <glob>  Extract the archive entry matching the glob",
+    "  --all-entries   Extract every episode from a season-pack archive",
+    "  --encoding <m>  Output text encoding: auto (default), keep, utf-8, utf-8-bom",
+    "  --format <fmt>  Convert downloaded subtitles to srt, ass or vtt",
+    "  --offset <ms>   Shift cue times by a signed number of milliseconds",
+    "  --video <path>  Derive the search from a video release name",
+    "  --providers <l> Search several providers (comma-separated, or --provider all)",
+    "  --naming <s>    Output file naming: plex, jellyfin, kodi, provider or template",
+    "  --fallback <p>  On a failed download try: none (default), candidates, providers or all",
+    "  --verify-language fetch: reject downloads whose text is not in the requested language",
+    "  --validate      download/fetch: lint subtitles before writing and fail on errors",
+    "  --lint-disable <r> Lint rules to skip, comma-separated, such as cue-overlap,html-tags",
+    "  --cache-ttl <d> Reuse cached search results this long: seconds or 30m, 12h, 7d (default 24h)",
+    "  --no-cache      Search upstream without reading or writing the cache",
+    "  --refresh       Search upstream and overwrite the cached results",
+    "  --offline       Serve only from the search and download caches; fail when not cached",
+    "  --profile <n>   Apply a named profile's languages, format, naming, providers and ranking weights",
+    "  --weight <w>=<n> Override a ranking weight such as format.ass=10 or provider.subhd=20 (repeatable)",
+    "  --prefer-format <f> Rank srt, ass or vtt subtitles ahead of the other formats",
+    "  --hi <mode>     Hearing-impaired subtitles: include (default), exclude or prefer",
+    "  --lang-fallback <c> Language fallback chains such as zh-hk:zh-tw:zh (comma-separated)",
+    "  --explain       search: print each candidate's score factors",
+    "  --search <t>    languages: list only codes, aliases and names containing the text",
+    "  --project       With config set, write the project .subchefrc instead of the user config",
+    "  -v, --verbose   Include verbose mode and the effective config in metadata",
   ].join("\n");
 }
 
@@ -651,6 +1998,17 @@ function createArgumentError(
   });
 }
 
+function formatHumanConfigValue(item: MetaConfigValue): string {
+  const value =
+    item.value === undefined ? undefined : stringifyConfigValue(item.value as ConfigValue);
+  const origin = item.origin === undefined ? "" : ` (${item.origin})`;
+  return `Config: ${item.key} = ${value ?? "(default)"} [${item.source}${origin}]\n`;
+}
+
+function formatHumanWarning(warning: CliWarning): string {
+  return `Warning (${warning.code}): ${warning.message}\n`;
+}
+
 function formatHumanError(error: CliAppError): string {
   const details = error.details === undefined ? "" : `\nDetails: ${JSON.stringify(error.details)}`;
   return `Error (${error.code}): ${error.message}${details}\n`;
@@ -0,0 +1,121 @@
+import type { DownloadCacheStore } from "../domain/download-cache.js";
+import type { SearchCacheStore, StoredSearchCacheEntry } from "../domain/search-cache.js";
+
+export const CACHE_ACTIONS = ["stats", "clear", "prune"] as const;
+
+export type CacheAction = (typeof CACHE_ACTIONS)[number];
+
+export interface CacheCommandInput {
+  action: CacheAction;
+  store: SearchCacheStore;
+  downloadStore: DownloadCacheStore;
+  ttlMs: number;
+  now: () => number;
+}
+
+export interface CacheCommandOutput {
+  action: CacheAction;
+  dir: string;
+  ttlSeconds: number;
+  /** Entries removed by `clear` or `prune`; 0 for `stats`. */
+  removed: number;
+  /** Counts below describe the cache after the action. */
+  entries: number;
+  bytes: number;
+  fresh: number;
+  expired: number;
+  providers: Record<string, number>;
+  oldest?: string;
+  newest?: string;
+  /** Downloaded payloads never expire; only `clear` removes them. */
+  downloads: DownloadCacheSummary;
+}
+
+export interface DownloadCacheSummary {
+  dir: string;
+  removed: number;
+  entries: number;
+  /** Stored content size; payloads with the same hash are counted once. */
+  bytes: number;
+}
+
+/**
+ * `stats` reports the search and download caches, `clear` empties both and
+ * `prune` drops the search entries older than the TTL.
+ */
+export async function runCacheCommand(input: CacheCommandInput): Promise<CacheCommandOutput> {
+  const isExpired = (stored: StoredSearchCacheEntry) =>
+    input.now() - stored.entry.storedAt >= input.ttlMs;
+  const listed = await input.store.list();
+  const doomed =
+    input.action === "clear"
+      ? listed
+      : input.action === "prune"
+        ? listed.filter(isExpired)
+        : [];
+
+  for (const stored of doomed) {
+    await input.store.delete(stored.key);
+  }
+
+  const remaining = listed.filter((stored) => !doomed.includes(stored));
+  const storedAt = remaining.map((stored) => stored.entry.storedAt).sort((a, b) => a - b);
+  const providers: Record<string, number> = {};
+  for (const stored of remaining) {
+    providers[stored.entry.providerId] = (providers[stored.entry.providerId] ?? 0) + 1;
+  }
+  const expired = remaining.filter(isExpired).length;
+  const downloadsRemoved = input.action === "clear" ? await input.downloadStore.clear() : 0;
+  const downloads = await input.downloadStore.list();
+  const blobs = new Map(downloads.map((entry) => [entry.sha256, entry.bytes]));
+
+  return {
+    action: input.action,
+    dir: input.store.location,
+    ttlSeconds: Math.round(input.ttlMs / 1000),
+    removed: doomed.length,
+    entries: remaining.length,
+    bytes: remaining.reduce((total, stored) => total + stored.bytes, 0),
+    fresh: remaining.length - expired,
+    expired,
+    providers,
+    oldest: storedAt.length > 0 ? new Date(storedAt[0]).toISOString() : undefined,
+    newest: storedAt.length > 0 ? new Date(storedAt[storedAt.length - 1]).toISOString() : undefined,
+    downloads: {
+      dir: input.downloadStore.location,
+      removed: downloadsRemoved,
+      entries: downloads.length,
+      bytes: [...blobs.values()].reduce((total, bytes) => total + bytes, 0),
+    },
+  };
+}
+
+export function renderCacheOutput(output: CacheCommandOutput): string {
+  const lines = [`Cache: ${output.dir}`];
+  if (output.action !== "stats") {
+    lines.push(`Removed: ${output.removed}`);
+  }
+
+  lines.push(
+    `Entries: ${output.entries} (${output.fresh} fresh, ${output.expired} expired, TTL ${output.ttlSeconds}s)`,
+    `Bytes: ${output.bytes}`,
+  );
+  const providers = Object.entries(output.providers).sort(([left], [right]) =>
+    left.localeCompare(right),
+  );
+  if (providers.length > 0) {
+    lines.push(`Providers: ${providers.map(([id, count]) => `${id} ${count}`).join(", ")}`);
+  }
+  if (output.oldest !== undefined && output.newest !== undefined) {
+    lines.push(`Stored: ${output.oldest} .. ${output.newest}`);
+  }
+
+  const { downloads } = output;
+  lines.push(`Downloads: ${downloads.dir}`);
+  if (output.action === "clear") {
+    lines.push(`  Removed: ${downloads.removed}`);
+  }
+  lines.push(`  Entries: ${downloads.entries}`, `  Bytes: ${downloads.bytes}`);
+
+  return lines.join("\n");
+}
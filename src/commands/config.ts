@@ -0,0 +1,228 @@
+import { join } from "node:path";
+
+import { CliAppError, type CliWarning } from "../core/index.js";
+
+import {
+  CONFIG_KEYS,
+  CONFIG_SOURCES,
+  coerceConfigValue,
+  findConfigKey,
+  parseJsonObject,
+  PROJECT_CONFIG_FILE,
+  serializeConfigFile,
+  stringifyConfigValue,
+  unknownKeyError,
+  type ConfigProblem,
+  type ConfigSource,
+  type ConfigValue,
+  type LoadedConfig,
+} from "../domain/config.js";
+
+export const CONFIG_ACTIONS = ["get", "set", "list", "path"] as const;
+
+export type ConfigAction = (typeof CONFIG_ACTIONS)[number];
+
+export interface ConfigCommandInput {
+  action: ConfigAction;
+  key?: string;
+  /** `set` value; an empty string removes the key. */
+  value?: string;
+  /** `set` writes the project `.subchefrc` instead of the user config. */
+  project: boolean;
+  config: LoadedConfig;
+  cwd: string;
+  readTextFile: (path: string) => Promise<string | undefined>;
+  writeTextFile: (path: string, text: string) => Promise<void>;
+}
+
+export interface ConfigValueReport {
+  key: string;
+  value?: ConfigValue;
+  source: ConfigSource | "unset";
+  origin?: string;
+  description: string;
+}
+
+export interface ConfigCommandOutput {
+  action: ConfigAction;
+  /** `get` and `set`. */
+  key?: string;
+  value?: ConfigValue;
+  source?: ConfigSource | "unset";
+  origin?: string;
+  /** `set`: the file written; `path`: the user config file. */
+  path?: string;
+  removed?: boolean;
+  /** `path`: the project file in use, when one exists. */
+  project?: string;
+  values?: ConfigValueReport[];
+  warnings: CliWarning[];
+}
+
+export async function runConfigCommand(input: ConfigCommandInput): Promise<ConfigCommandOutput> {
+  if (input.action === "path") {
+    return {
+      action: "path",
+      path: input.config.userPath,
+      project: input.config.projectPath,
+      warnings: describeConfigProblems(input.config),
+    };
+  }
+
+  if (input.action === "list") {
+    return {
+      action: "list",
+      values: CONFIG_KEYS.map((definition) => describeValue(input.config, definition.key)),
+      warnings: describeConfigProblems(input.config),
+    };
+  }
+
+  const key = input.key;
+  if (key === undefined) {
+    throw new CliAppError({
+      code: "E_ARG_MISSING",
+      message: `config ${input.action} requires a key`,
+      details: {
+        arg: "key",
+        allowed: CONFIG_KEYS.map((definition) => definition.key),
+      },
+    });
+  }
+
+  const definition = findConfigKey(key);
+  if (definition === undefined) {
+    throw unknownKeyError(key, { arg: "key" });
+  }
+
+  if (input.action === "get") {
+    const report = describeValue(input.config, key);
+    return {
+      action: "get",
+      key,
+      value: report.value,
+      source: report.source,
+      origin: report.origin,
+      warnings: describeConfigProblems(input.config),
+    };
+  }
+
+  if (input.value === undefined) {
+    throw new CliAppError({
+      code: "E_ARG_MISSING",
+      message: "config set requires a value",
+      details: {
+        arg: "value",
+        key,
+      },
+    });
+  }
+
+  const path = input.project
+    ? (input.config.projectPath ?? join(input.cwd, PROJECT_CONFIG_FILE))
+    : input.config.userPath;
+  // Other keys are kept as written, so that a bad value can be fixed one key at a time.
+  const existing = await input.readTextFile(path);
+  const values = existing === undefined ? {} : parseJsonObject(existing, path);
+  const removed = input.value.trim().length === 0;
+  if (removed) {
+    delete values[key];
+  } else {
+    values[key] = coerceConfigValue(definition, input.value, "command line");
+  }
+  await input.writeTextFile(path, serializeConfigFile(values));
+
+  const source: ConfigSource = input.project ? "project" : "user";
+  const effective = input.config.entries.get(key);
+  // The value just written replaces a bad one read from the same file.
+  const warnings = describeConfigProblems(
+    input.config,
+    input.config.problems.filter(
+      ({ origin, error }) =>
+        origin !== path || (error.details as { key?: string } | undefined)?.key !== key,
+    ),
+  );
+  if (
+    effective !== undefined &&
+    CONFIG_SOURCES.indexOf(effective.source) > CONFIG_SOURCES.indexOf(source)
+  ) {
+    warnings.push({
+      code: "W_CONFIG_OVERRIDDEN",
+      message: `${key} is also set by ${effective.origin}, which takes precedence`,
+      details: {
+        key,
+        source: effective.source,
+        origin: effective.origin,
+      },
+    });
+  }
+
+  return {
+    action: "set",
+    key,
+    value: removed ? undefined : (values[key] as ConfigValue),
+    source,
+    path,
+    removed,
+    warnings,
+  };
+}
+
+/** Unknown keys, and files or values that could not be read, one warning each. */
+function describeConfigProblems(
+  config: LoadedConfig,
+  problems: ConfigProblem[] = config.problems,
+): CliWarning[] {
+  return [
+    ...config.warnings,
+    ...problems.map(({ source, origin, error }) => ({
+      code: "W_CONFIG_INVALID",
+      message: error.message,
+      details: { source, origin, code: error.code, ...(error.details as object | undefined) },
+    })),
+  ];
+}
+
+function describeValue(config: LoadedConfig, key: string): ConfigValueReport {
+  const entry = config.entries.get(key);
+  return {
+    key,
+    value: entry?.value,
+    source: entry?.source ?? "unset",
+    origin: entry?.origin,
+    description: findConfigKey(key)?.description ?? "",
+  };
+}
+
+export function formatConfigValue(value: ConfigValue | undefined): string {
+  if (value === undefined) {
+    return "(unset)";
+  }
+  return stringifyConfigValue(value);
+}
+
+export function renderConfigOutput(output: ConfigCommandOutput): string {
+  if (output.action === "path") {
+    return [`User: ${output.path}`, `Project: ${output.project ?? "(none)"}`].join("\n");
+  }
+
+  if (output.action === "list") {
+    return (output.values ?? [])
+      .map(
+        (item) =>
+          `${item.key} = ${formatConfigValue(item.value)}${formatConfigOrigin(item)}`,
+      )
+      .join("\n");
+  }
+
+  if (output.action === "set") {
+    return output.removed
+      ? `Removed ${output.key} from ${output.path}`
+      : `Set ${output.key} = ${formatConfigValue(output.value)} in ${output.path}`;
+  }
+
+  return `${output.key} = ${formatConfigValue(output.value)}${formatConfigOrigin(output)}`;
+}
+
+function formatConfigOrigin(item: { source?: string; origin?: string }): string {
+  return item.origin === undefined ? "" : ` (${item.source}: ${item.origin})`;
+}
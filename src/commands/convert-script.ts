@@ -0,0 +1,66 @@
+import type { CliWarning } from "../core/index.js";
+
+import { loadSubtitleFile, writeOutputFile } from "./delivery.js";
+import type { ChineseScript } from "../domain/chinese-script.js";
+import { rewriteSubtitleText } from "../domain/subtitles.js";
+import { encodeUtf8Text, type EncodingReport } from "../domain/text-encoding.js";
+import type { SubtitleFormat } from "../domain/types.js";
+
+export interface ConvertScriptCommandInput {
+  inputPath: string;
+  outputPath?: string;
+  to: ChineseScript;
+  dryRun: boolean;
+  readFile: (path: string) => Promise<Uint8Array>;
+  writeFile: (path: string, content: Uint8Array) => Promise<void>;
+}
+
+export interface ConvertScriptCommandOutput {
+  inputPath: string;
+  outputPath: string;
+  format: SubtitleFormat;
+  to: ChineseScript;
+  cues: number;
+  changedCharacters: number;
+  dryRun: boolean;
+  bytesWritten: number;
+  encoding: EncodingReport;
+  warnings: CliWarning[];
+}
+
+export async function runConvertScriptCommand(
+  input: ConvertScriptCommandInput,
+): Promise<ConvertScriptCommandOutput> {
+  const source = await loadSubtitleFile(input.readFile, input.inputPath);
+  const rewritten = rewriteSubtitleText(source.text, source.format, { script: input.to });
+  const content = encodeUtf8Text(rewritten.text, false);
+  const outputPath = input.outputPath ?? input.inputPath;
+
+  if (!input.dryRun) {
+    await writeOutputFile(input.writeFile, outputPath, content);
+  }
+
+  return {
+    inputPath: input.inputPath,
+    outputPath,
+    format: source.format,
+    to: input.to,
+    cues: rewritten.cues,
+    changedCharacters: rewritten.script?.changedCharacters ?? 0,
+    dryRun: input.dryRun,
+    bytesWritten: input.dryRun ? 0 : content.byteLength,
+    encoding: source.encoding,
+    warnings: rewritten.warnings,
+  };
+}
+
+export function renderConvertScriptOutput(output: ConvertScriptCommandOutput): string {
+  return [
+    `Input: ${output.inputPath} (${output.format})`,
+    `Output: ${output.outputPath}`,
+    `Script: ${output.to} (${output.changedCharacters} characters changed)`,
+    `Cues: ${output.cues}`,
+    `Dry run: ${output.dryRun ? "yes" : "no"}`,
+    `Bytes written: ${output.bytesWritten}`,
+  ].join("\n");
+}
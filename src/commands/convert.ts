@@ -0,0 +1,67 @@
+import type { CliWarning } from "../core/index.js";
+
+import { loadSubtitleFile, writeOutputFile } from "./delivery.js";
+import { convertSubtitleText, replaceSubtitleExtension } from "../domain/subtitles.js";
+import { encodeUtf8Text, type EncodingReport } from "../domain/text-encoding.js";
+import type { SubtitleFormat } from "../domain/types.js";
+
+export interface ConvertCommandInput {
+  inputPath: string;
+  outputPath: string;
+  to: SubtitleFormat;
+  from?: SubtitleFormat;
+  dryRun: boolean;
+  readFile: (path: string) => Promise<Uint8Array>;
+  writeFile: (path: string, content: Uint8Array) => Promise<void>;
+  resolveOutputPath?: (path: string, fileName: string) => Promise<string>;
+}
+
+export interface ConvertCommandOutput {
+  inputPath: string;
+  outputPath: string;
+  from: SubtitleFormat;
+  to: SubtitleFormat;
+  cues: number;
+  dryRun: boolean;
+  bytesWritten: number;
+  encoding: EncodingReport;
+  warnings: CliWarning[];
+}
+
+export async function runConvertCommand(input: ConvertCommandInput): Promise<ConvertCommandOutput> {
+  const resolveOutputPath = input.resolveOutputPath ?? (async (path: string) => path);
+  const source = await loadSubtitleFile(input.readFile, input.inputPath, input.from);
+  const conversion = convertSubtitleText(source.text, source.format, input.to);
+  const content = encodeUtf8Text(conversion.text, false);
+  const outputPath = await resolveOutputPath(
+    input.outputPath,
+    replaceSubtitleExtension(input.inputPath, input.to),
+  );
+
+  if (!input.dryRun) {
+    await writeOutputFile(input.writeFile, outputPath, content);
+  }
+
+  return {
+    inputPath: input.inputPath,
+    outputPath,
+    from: source.format,
+    to: input.to,
+    cues: conversion.cues,
+    dryRun: input.dryRun,
+    bytesWritten: input.dryRun ? 0 : content.byteLength,
+    encoding: source.encoding,
+    warnings: conversion.warnings,
+  };
+}
+
+export function renderConvertOutput(output: ConvertCommandOutput): string {
+  return [
+    `Input: ${output.inputPath} (${output.from})`,
+    `Output: ${output.outputPath} (${output.to})`,
+    `Cues: ${output.cues}`,
+    `Encoding: ${output.encoding.detectedEncoding} -> ${output.encoding.outputEncoding}`,
+    `Dry run: ${output.dryRun ? "yes" : "no"}`,
+    `Bytes written: ${output.bytesWritten}`,
+  ].join("\n");
+}
@@ -0,0 +1,398 @@
+import { CliAppError, type CliWarning } from "../core/index.js";
+
+import {
+  inferSubtitleFormatFromPath,
+  unpackSubtitlePayload,
+  type ArchiveEntrySelection,
+  type ArchiveReport,
+  type ArchiveTool,
+} from "../domain/archive.js";
+import type { ChineseScript } from "../domain/chinese-script.js";
+import {
+  detectSubtitleLanguages,
+  matchesDetectedLanguage,
+  type DetectedLanguage,
+} from "../domain/language-detection.js";
+import type { SubtitleNamingDetails } from "../domain/naming.js";
+import {
+  createLintFailureError,
+  lintSubtitleText,
+  type LintReport,
+} from "../domain/subtitle-lint.js";
+import {
+  detectSubtitleFormat,
+  replaceSubtitleExtension,
+  rewriteSubtitleText,
+  type SubtitleScriptReport,
+  type SubtitleShiftOptions,
+  type SubtitleShiftReport,
+} from "../domain/subtitles.js";
+import {
+  encodeUtf8Text,
+  transcodeSubtitleText,
+  type EncodingReport,
+  type OutputEncodingMode,
+} from "../domain/text-encoding.js";
+import type {
+  ProviderSubtitleResult,
+  SubtitleFormat,
+  SubtitlePayload,
+} from "../domain/types.js";
+
+/** Turns `--output` plus a planned file name into the path that is written. */
+export type OutputPathResolver = (
+  path: string,
+  fileName: string,
+  details?: SubtitleNamingDetails,
+) => Promise<string>;
+
+export interface SubtitleDeliveryInput {
+  payload: SubtitlePayload;
+  outputPath: string;
+  writeFile: (path: string, content: Uint8Array) => Promise<void>;
+  resolveOutputPath: OutputPathResolver;
+  /** The ranked candidate behind the payload, when known; feeds output naming. */
+  candidate?: DeliveryCandidate;
+  archiveTool?: ArchiveTool;
+  selection?: ArchiveEntrySelection;
+  encoding?: OutputEncodingMode;
+  format?: SubtitleFormat;
+  shift?: SubtitleShiftOptions;
+  script?: ChineseScript;
+  /** Refuse, before writing anything, files whose text is in none of these languages. */
+  verifyLanguages?: string[];
+  /** Lint every file and refuse, before writing anything, one with errors. */
+  validate?: boolean;
+  /** Lint rules `validate` skips. */
+  lintDisabled?: string[];
+}
+
+export type DeliveryCandidate = Pick<
+  ProviderSubtitleResult,
+  "providerId" | "language" | "hearingImpaired" | "forced"
+>;
+
+export interface DeliveredFile {
+  outputPath: string;
+  fileName: string;
+  format: SubtitleFormat;
+  bytesWritten: number;
+  encoding: EncodingReport;
+  convertedFrom?: SubtitleFormat;
+  shift?: SubtitleShiftReport;
+  script?: SubtitleScriptReport;
+  entry?: string;
+  language?: string;
+  /** Languages the cue text is written in, read before any script conversion. */
+  detectedLanguages: DetectedLanguage[];
+  /** The lint of the downloaded text, with `validate`. */
+  lint?: LintReport;
+  season?: number;
+  episode?: number;
+}
+
+export interface SubtitleDelivery {
+  outputPath: string;
+  fileName: string;
+  format: SubtitleFormat;
+  bytesWritten: number;
+  encoding: EncodingReport;
+  detectedLanguages: DetectedLanguage[];
+  files: DeliveredFile[];
+  archive?: ArchiveReport;
+  warnings: CliWarning[];
+}
+
+export interface LoadedSubtitleFile {
+  text: string;
+  format: SubtitleFormat;
+  encoding: EncodingReport;
+}
+
+export interface LoadedSubtitlePayload extends LoadedSubtitleFile {
+  fileName: string;
+  entry?: string;
+  archive?: ArchiveReport;
+}
+
+/**
+ * Shared tail of download and fetch: unpack the provider payload, transcode
+ * the text, convert, retime and re-script it as requested and write the
+ * resulting subtitle files. Top-level fields describe the primary file while
+ * `bytesWritten` totals every file written.
+ */
+export async function deliverSubtitlePayload(
+  input: SubtitleDeliveryInput,
+): Promise<SubtitleDelivery> {
+  // A 0-byte archive would otherwise fail as an unreadable archive.
+  if (input.validate && input.payload.content.byteLength === 0) {
+    const lint = lintSubtitleText("", input.payload.format, { disabled: input.lintDisabled });
+    if (!lint.valid) {
+      throw createLintFailureError(lint, "Downloaded file", { fileName: input.payload.fileName });
+    }
+  }
+
+  const unpacked = await unpackSubtitlePayload(input.payload, {
+    tool: input.archiveTool,
+    selection: input.selection,
+  });
+
+  const planned: Array<{
+    outputPath: string;
+    fileName: string;
+    file: (typeof unpacked.files)[number];
+  }> = [];
+  for (const file of unpacked.files) {
+    const fileName = planDeliveryFileName(file.fileName, input.format);
+    const outputPath = await input.resolveOutputPath(input.outputPath, fileName, {
+      format: input.format ?? file.format,
+      language: file.language ?? input.candidate?.language,
+      hearingImpaired: input.candidate?.hearingImpaired,
+      forced: input.candidate?.forced,
+      season: file.season,
+      episode: file.episode,
+      providerId: input.candidate?.providerId ?? input.payload.providerId,
+    });
+    planned.push({ outputPath, fileName, file });
+  }
+
+  if (planned.length > 1 && planned.some((item) => item.outputPath === input.outputPath)) {
+    throw new CliAppError({
+      code: "E_ARG_INVALID",
+      message: "--output must be an existing directory when extracting multiple entries",
+      details: {
+        arg: "output",
+        outputPath: input.outputPath,
+        entries: planned.map((item) => item.file.entry),
+      },
+    });
+  }
+
+  const outputPaths = planned.map((item) => item.outputPath);
+  const duplicate = outputPaths.find((path, index) => outputPaths.indexOf(path) !== index);
+  if (duplicate !== undefined) {
+    throw new CliAppError({
+      code: "E_ARG_CONFLICT",
+      message: "Output naming gives several archive entries the same file name",
+      details: {
+        arg: "naming",
+        outputPath: duplicate,
+        entries: planned.map((item) => item.file.entry),
+      },
+    });
+  }
+
+  const prepared: Array<{ content: Uint8Array; file: DeliveredFile }> = [];
+  const warnings: CliWarning[] = [];
+  for (const { outputPath, fileName, file } of planned) {
+    const transcoded = transcodeSubtitleText(file.content, input.encoding);
+    let { content, encoding } = transcoded;
+    let format = file.format;
+    let convertedFrom: SubtitleFormat | undefined;
+    let shift: SubtitleShiftReport | undefined;
+    let script: SubtitleScriptReport | undefined;
+
+    const source = detectSubtitleFormat(transcoded.text, file.format) ?? file.format;
+    const lint = input.validate
+      ? lintSubtitleText(transcoded.text, source, { disabled: input.lintDisabled })
+      : undefined;
+    if (lint !== undefined && !lint.valid) {
+      throw createLintFailureError(lint, file.entry ?? file.fileName, { entry: file.entry });
+    }
+
+    const detectedLanguages = detectSubtitleLanguages(transcoded.text, source);
+    if (
+      input.verifyLanguages !== undefined &&
+      !matchesDetectedLanguage(detectedLanguages, input.verifyLanguages)
+    ) {
+      throw new CliAppError({
+        code: "E_SUBTITLE_LANGUAGE_MISMATCH",
+        message: `Subtitle text is not in ${input.verifyLanguages.join(", ")}`,
+        details: {
+          expected: input.verifyLanguages,
+          detectedLanguages,
+          entry: file.entry,
+        },
+      });
+    }
+
+    const target = input.format ?? source;
+    if (target !== source || input.shift !== undefined || input.script !== undefined) {
+      const rewritten = rewriteSubtitleText(transcoded.text, source, {
+        to: target,
+        shift: input.shift,
+        script: input.script,
+      });
+      const bom = input.encoding === "utf-8-bom";
+      content = encodeUtf8Text(rewritten.text, bom);
+      encoding = { ...encoding, outputEncoding: bom ? "utf-8-bom" : "utf-8" };
+      format = target;
+      convertedFrom = target === source ? undefined : source;
+      shift = rewritten.shift;
+      script = rewritten.script;
+      warnings.push(...rewritten.warnings);
+    }
+
+    prepared.push({
+      content,
+      file: {
+        outputPath,
+        fileName,
+        format,
+        bytesWritten: content.byteLength,
+        encoding,
+        convertedFrom,
+        shift,
+        script,
+        entry: file.entry,
+        language: file.language,
+        detectedLanguages,
+        lint,
+        season: file.season,
+        episode: file.episode,
+      },
+    });
+  }
+
+  const files: DeliveredFile[] = [];
+  for (const { content, file } of prepared) {
+    await writeOutputFile(input.writeFile, file.outputPath, content);
+    files.push(file);
+  }
+
+  const primary = files[0];
+  return {
+    outputPath: primary.outputPath,
+    fileName: primary.fileName,
+    format: primary.format,
+    bytesWritten: files.reduce((total, file) => total + file.bytesWritten, 0),
+    encoding: primary.encoding,
+    detectedLanguages: primary.detectedLanguages,
+    files,
+    archive: unpacked.archive,
+    warnings,
+  };
+}
+
+/**
+ * Decodes the first subtitle of a provider payload without writing it, for
+ * callers that combine several downloads into one file.
+ */
+export async function loadSubtitlePayload(
+  payload: SubtitlePayload,
+  options: { archiveTool?: ArchiveTool; selection?: ArchiveEntrySelection },
+): Promise<LoadedSubtitlePayload> {
+  const unpacked = await unpackSubtitlePayload(payload, {
+    tool: options.archiveTool,
+    selection: options.selection,
+  });
+  const [file] = unpacked.files;
+  const transcoded = transcodeSubtitleText(file.content);
+
+  return {
+    text: transcoded.text,
+    format: detectSubtitleFormat(transcoded.text, file.format) ?? file.format,
+    encoding: { ...transcoded.encoding, outputEncoding: "utf-8" },
+    fileName: file.fileName,
+    entry: file.entry,
+    archive: unpacked.archive,
+  };
+}
+
+/**
+ * Name a delivered file will get after `--format` conversion. Archive names
+ * are left alone since the entry names are only known after unpacking.
+ */
+export function planDeliveryFileName(fileName: string, format?: SubtitleFormat): string {
+  if (format === undefined || inferSubtitleFormatFromPath(fileName) === undefined) {
+    return fileName;
+  }
+
+  return replaceSubtitleExtension(fileName, format);
+}
+
+export async function writeOutputFile(
+  writeFile: (path: string, content: Uint8Array) => Promise<void>,
+  outputPath: string,
+  content: Uint8Array,
+): Promise<void> {
+  try {
+    await writeFile(outputPath, content);
+  } catch (error) {
+    const nodeError = error as NodeJS.ErrnoException;
+    if (nodeError.code === "EISDIR") {
+      throw new CliAppError({
+        code: "E_ARG_INVALID",
+        message: "--output must be a file path, not a directory",
+        details: {
+          arg: "output",
+          outputPath,
+        },
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads a local subtitle for the file-based commands: decodes it to text and
+ * sniffs the format, falling back to the extension.
+ */
+export async function loadSubtitleFile(
+  readFile: (path: string) => Promise<Uint8Array>,
+  inputPath: string,
+  format?: SubtitleFormat,
+): Promise<LoadedSubtitleFile> {
+  const transcoded = transcodeSubtitleText(await readInputFile(readFile, inputPath));
+  const detected =
+    format ?? detectSubtitleFormat(transcoded.text, inferSubtitleFormatFromPath(inputPath));
+
+  if (detected === undefined) {
+    throw new CliAppError({
+      code: "E_SUBTITLE_INVALID",
+      message: `Cannot determine the subtitle format of ${inputPath}`,
+      details: {
+        inputPath,
+        reason: "unknown-format",
+      },
+    });
+  }
+
+  return {
+    text: transcoded.text,
+    format: detected,
+    encoding: { ...transcoded.encoding, outputEncoding: "utf-8" },
+  };
+}
+
+async function readInputFile(
+  readFile: (path: string) => Promise<Uint8Array>,
+  inputPath: string,
+): Promise<Uint8Array> {
+  try {
+    return await readFile(inputPath);
+  } catch (error) {
+    const nodeError = error as NodeJS.ErrnoException;
+    if (nodeError.code === "ENOENT") {
+      throw new CliAppError({
+        code: "E_NOT_FOUND_RESOURCE",
+        message: `Input file not found: ${inputPath}`,
+        details: {
+          arg: "input",
+          inputPath,
+        },
+      });
+    }
+    if (nodeError.code === "EISDIR") {
+      throw new CliAppError({
+        code: "E_ARG_INVALID",
+        message: "--input must be a file path, not a directory",
+        details: {
+          arg: "input",
+          inputPath,
+        },
+      });
+    }
+    throw error;
+  }
+}
@@ -1,6 +1,16 @@
-import { CliAppError } from "../core/index.js";
+import { CliAppError, type CliWarning } from "../core/index.js";
 
-import type { SubtitleProvider } from "../domain/types.js";
+import {
+  deliverSubtitlePayload,
+  planDeliveryFileName,
+  type DeliveredFile,
+  type OutputPathResolver,
+} from "./delivery.js";
+import type { ArchiveReport, ArchiveTool } from "../domain/archive.js";
+import { formatDetectedLanguages, type DetectedLanguage } from "../domain/language-detection.js";
+import type { NamingScheme } from "../domain/naming.js";
+import type { EncodingReport, OutputEncodingMode } from "../domain/text-encoding.js";
+import type { SubtitleFormat, SubtitleProvider } from "../domain/types.js";
 
 export interface DownloadCommandInput {
   provider: SubtitleProvider;
@@ -8,7 +18,17 @@ export interface DownloadCommandInput {
   outputPath: string;
   dryRun: boolean;
   writeFile: (path: string, content: Uint8Array) => Promise<void>;
-  resolveOutputPath?: (path: string, fileName: string) => Promise<string>;
+  resolveOutputPath?: OutputPathResolver;
+  /** Scheme the resolver applies; reported only. */
+  naming?: NamingScheme;
+  archiveTool?: ArchiveTool;
+  entryPattern?: string;
+  allEntries?: boolean;
+  encoding?: OutputEncodingMode;
+  format?: SubtitleFormat;
+  /** Fail with `E_SUBTITLE_VALIDATION_FAILED` instead of writing a broken subtitle. */
+  validate?: boolean;
+  lintDisabled?: string[];
 }
 
 export interface DownloadCommandOutput {
@@ -18,8 +38,18 @@ export interface DownloadCommandOutput {
   fileName: string;
   sourceUrl: string;
   format: string;
+  naming: NamingScheme;
   dryRun: boolean;
   bytesWritten: number;
+  /** SHA-256 of the downloaded payload, when it went through the download cache. */
+  sha256?: string;
+  downloadCache?: "hit" | "miss";
+  encoding?: EncodingReport;
+  /** Languages the downloaded text is written in; absent on dry runs. */
+  detectedLanguages?: DetectedLanguage[];
+  files?: DeliveredFile[];
+  archive?: ArchiveReport;
+  warnings?: CliWarning[];
 }
 
 export async function runDownloadCommand(
@@ -46,63 +76,104 @@ export async function runDownloadCommand(
   }
 
   const resolveOutputPath = input.resolveOutputPath ?? (async (path: string) => path);
+  const naming = input.naming ?? "provider";
 
   if (input.dryRun) {
     const plan = await input.provider.getDownloadPlan(input.id);
-    const outputPath = await resolveOutputPath(input.outputPath, plan.fileName);
+    const fileName = planDeliveryFileName(plan.fileName, input.format);
+    const format = input.format ?? plan.format;
+    const outputPath = await resolveOutputPath(input.outputPath, fileName, {
+      format,
+      providerId: plan.providerId,
+    });
     return {
       provider: input.provider.descriptor.id,
       id: plan.id,
       outputPath,
-      fileName: plan.fileName,
+      fileName,
       sourceUrl: plan.sourceUrl,
-      format: plan.format,
+      format,
+      naming,
       dryRun: true,
       bytesWritten: 0,
     };
   }
 
   const payload = await input.provider.downloadSubtitle(input.id);
-  const outputPath = await resolveOutputPath(input.outputPath, payload.fileName);
-
-  try {
-    await input.writeFile(outputPath, payload.content);
-  } catch (error) {
-    const nodeError = error as NodeJS.ErrnoException;
-    if (nodeError.code === "EISDIR") {
-      throw new CliAppError({
-        code: "E_ARG_INVALID",
-        message: "--output must be a file path, not a directory",
-        details: {
-          arg: "output",
-          outputPath,
-        },
-      });
-    }
-    throw error;
-  }
+  const delivery = await deliverSubtitlePayload({
+    payload,
+    outputPath: input.outputPath,
+    writeFile: input.writeFile,
+    resolveOutputPath,
+    archiveTool: input.archiveTool,
+    selection: {
+      pattern: input.entryPattern,
+      all: input.allEntries,
+    },
+    encoding: input.encoding,
+    format: input.format,
+    validate: input.validate,
+    lintDisabled: input.lintDisabled,
+  });
 
   return {
     provider: input.provider.descriptor.id,
     id: payload.id,
-    outputPath,
-    fileName: payload.fileName,
+    outputPath: delivery.outputPath,
+    fileName: delivery.fileName,
     sourceUrl: payload.sourceUrl,
-    format: payload.format,
+    format: delivery.format,
+    naming,
     dryRun: false,
-    bytesWritten: payload.content.byteLength,
+    bytesWritten: delivery.bytesWritten,
+    sha256: payload.sha256,
+    downloadCache: payload.cache,
+    encoding: delivery.encoding,
+    detectedLanguages: delivery.detectedLanguages,
+    files: delivery.files,
+    archive: delivery.archive,
+    warnings: delivery.warnings,
   };
 }
 
 export function renderDownloadOutput(output: DownloadCommandOutput): string {
-  return [
+  const lines = [
     `Provider: ${output.provider}`,
     `ID: ${output.id}`,
     `File: ${output.fileName}`,
     `Output: ${output.outputPath}`,
     `Format: ${output.format}`,
+    ...(output.naming === "provider" ? [] : [`Naming: ${output.naming}`]),
     `Source: ${output.sourceUrl}`,
     `Dry run: ${output.dryRun ? "yes" : "no"}`,
     `Bytes written: ${output.bytesWritten}`,
-  ].join("\n");
+    ...(output.downloadCache === undefined ? [] : [`Download cache: ${output.downloadCache}`]),
+  ];
+
+  if (output.encoding !== undefined) {
+    lines.push(
+      `Encoding: ${output.encoding.detectedEncoding} -> ${output.encoding.outputEncoding} (confidence ${output.encoding.confidence.toFixed(2)})`,
+    );
+  }
+
+  if (output.detectedLanguages !== undefined && output.detectedLanguages.length > 0) {
+    lines.push(`Languages: ${formatDetectedLanguages(output.detectedLanguages)}`);
+  }
+
+  const convertedFrom = output.files?.[0]?.convertedFrom;
+  if (convertedFrom !== undefined) {
+    lines.push(`Converted: ${convertedFrom} -> ${output.format}`);
+  }
+
+  if (output.archive !== undefined) {
+    lines.push(
+      `Archive: ${output.archive.format} (${output.archive.entries.length} entries) -> ${output.archive.selectedEntries.join(", ")}`,
+    );
+  }
+
+  if (output.files !== undefined && output.files.length > 1) {
+    lines.push(...output.files.map((file) => `  ${file.outputPath} (${file.bytesWritten} bytes)`));
+  }
+
+  return lines.join("\n");
 }
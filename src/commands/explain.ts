@@ -0,0 +1,106 @@
+import { CliAppError, type CliWarning } from "../core/index.js";
+
+import {
+  createCacheWarnings,
+  formatProviderStatus,
+  searchProviders,
+  type ProviderSearchStatus,
+} from "../domain/providers.js";
+import {
+  DEFAULT_RANKING_POLICY,
+  explainSubtitleCandidate,
+  formatRankingFactor,
+  RANKING_FACTORS_VERSION,
+  rankSubtitleCandidates,
+  type RankingPolicy,
+} from "../domain/ranking.js";
+import type { CacheStatus, SearchCache } from "../domain/search-cache.js";
+import type {
+  NormalizedSubtitleRequest,
+  ProviderSubtitleResult,
+  RankingFactor,
+  SubtitleProvider,
+} from "../domain/types.js";
+
+export interface ExplainCommandInput {
+  providers: SubtitleProvider[];
+  request: NormalizedSubtitleRequest;
+  /** Candidate to explain; it must be among the search results. */
+  id: string;
+  cache?: SearchCache;
+  ranking?: RankingPolicy;
+}
+
+export interface ExplainCommandOutput {
+  provider: string;
+  providers?: ProviderSearchStatus[];
+  cache?: CacheStatus;
+  request: NormalizedSubtitleRequest;
+  candidate: ProviderSubtitleResult;
+  /** Position among all candidates; absent when the policy excludes the candidate. */
+  rank?: number;
+  totalCandidates: number;
+  score: number;
+  factorsVersion: number;
+  factors: RankingFactor[];
+  policy: RankingPolicy;
+  warnings: CliWarning[];
+}
+
+/** Runs the search `id` came from and breaks the candidate's score down per factor. */
+export async function runExplainCommand(input: ExplainCommandInput): Promise<ExplainCommandOutput> {
+  const policy = input.ranking ?? DEFAULT_RANKING_POLICY;
+  const search = await searchProviders(input.providers, input.request, input.cache);
+  const candidate = search.results.find((result) => result.id === input.id);
+  if (candidate === undefined) {
+    throw new CliAppError({
+      code: "E_NOT_FOUND_RESOURCE",
+      message: `Subtitle ${input.id} is not among the results for the query`,
+      details: {
+        id: input.id,
+        query: input.request.query,
+        totalCandidates: search.results.length,
+      },
+    });
+  }
+
+  const ranked = rankSubtitleCandidates(input.request, search.results, undefined, policy);
+  const explanation = explainSubtitleCandidate(input.request, candidate, policy);
+
+  return {
+    provider: input.providers.map((provider) => provider.descriptor.id).join(","),
+    providers: input.providers.length > 1 ? search.statuses : undefined,
+    cache: search.cache,
+    request: input.request,
+    candidate,
+    rank: ranked.find((item) => item.id === candidate.id)?.rank,
+    totalCandidates: search.results.length,
+    score: explanation.score,
+    factorsVersion: RANKING_FACTORS_VERSION,
+    factors: explanation.factors,
+    policy,
+    warnings: createCacheWarnings(search),
+  };
+}
+
+export function renderExplainOutput(output: ExplainCommandOutput): string {
+  const { candidate } = output;
+  const lines = [
+    `Provider: ${output.provider}`,
+    ...(output.providers === undefined
+      ? []
+      : [`Providers: ${output.providers.map(formatProviderStatus).join(", ")}`]),
+    `Query: ${output.request.query}`,
+    ...(output.cache === undefined ? [] : [`Cache: ${output.cache}`]),
+    `Candidate: ${candidate.id} | ${candidate.title} | ${candidate.language} | ${candidate.format}`,
+    `Rank: ${output.rank === undefined ? "excluded" : `${output.rank}/${output.totalCandidates}`}`,
+    `Score: ${output.score.toFixed(3)}`,
+    "Factors:",
+  ];
+
+  for (const factor of output.factors) {
+    lines.push(`  ${formatRankingFactor(factor)}`);
+  }
+
+  return lines.join("\n");
+}
@@ -1,35 +1,171 @@
-import { CliAppError } from "../core/index.js";
+import {
+  CliAppError,
+  toCliAppError,
+  type CliErrorCode,
+  type CliWarning,
+} from "../core/index.js";
 
-import { rankSubtitleCandidates } from "../domain/ranking.js";
+import {
+  deliverSubtitlePayload,
+  loadSubtitlePayload,
+  planDeliveryFileName,
+  writeOutputFile,
+  type DeliveredFile,
+  type LoadedSubtitlePayload,
+  type OutputPathResolver,
+  type SubtitleDelivery,
+} from "./delivery.js";
+import { formatMergeSummary, mergeSubtitleFiles } from "./merge.js";
+import { formatShiftSummary } from "./shift.js";
+import type { ArchiveReport, ArchiveTool } from "../domain/archive.js";
+import { resolveScriptConversion } from "../domain/chinese-script.js";
+import {
+  detectSubtitleLanguages,
+  formatDetectedLanguages,
+  matchesDetectedLanguage,
+  type DetectedLanguage,
+} from "../domain/language-detection.js";
+import type { NamingScheme, SubtitleNamingDetails } from "../domain/naming.js";
+import {
+  createCacheWarnings,
+  findResultProvider,
+  formatProviderStatus,
+  searchProvider,
+  searchProviders,
+  type AggregatedSearch,
+  type ProviderSearchStatus,
+} from "../domain/providers.js";
+import {
+  RANKING_FACTORS_VERSION,
+  rankSubtitleCandidates,
+  type RankingPolicy,
+} from "../domain/ranking.js";
+import { formatReleaseInfo } from "../domain/release-name.js";
+import type { CacheStatus, SearchCache } from "../domain/search-cache.js";
+import { createLintFailureError, lintSubtitleText } from "../domain/subtitle-lint.js";
+import type { SubtitleMergeReport, SubtitleShiftOptions } from "../domain/subtitles.js";
+import {
+  encodeUtf8Text,
+  type EncodingReport,
+  type OutputEncodingMode,
+} from "../domain/text-encoding.js";
 import type {
   NormalizedSubtitleRequest,
+  ProviderSubtitleResult,
   RankedSubtitleResult,
+  SubtitleFormat,
+  SubtitlePayload,
   SubtitleProvider,
 } from "../domain/types.js";
 
 export interface FetchCommandInput {
-  provider: SubtitleProvider;
+  /** Several providers are searched concurrently; the download goes to the winner's provider. */
+  providers: SubtitleProvider[];
   request: NormalizedSubtitleRequest;
   outputPath: string;
   dryRun: boolean;
   limit: number;
   writeFile: (path: string, content: Uint8Array) => Promise<void>;
-  resolveOutputPath?: (path: string, fileName: string) => Promise<string>;
+  resolveOutputPath?: OutputPathResolver;
+  /** Scheme the resolver applies; reported only. */
+  naming?: NamingScheme;
+  archiveTool?: ArchiveTool;
+  entryPattern?: string;
+  allEntries?: boolean;
+  encoding?: OutputEncodingMode;
+  format?: SubtitleFormat;
+  shift?: SubtitleShiftOptions;
+  /** Convert a zh-cn/zh-tw candidate to the primary language when they differ. */
+  convertScript?: boolean;
+  /** Two languages: the best candidate of each is downloaded and merged top/bottom. */
+  bilingual?: string[];
+  /** Skip candidates outside the requested languages instead of taking the top one. */
+  requireLanguage?: boolean;
+  /**
+   * Reject a download whose text is in none of the requested languages. The
+   * fallback policy then defaults to `candidates`.
+   */
+  verifyLanguage?: boolean;
+  /** Fail with `E_SUBTITLE_VALIDATION_FAILED` instead of writing a broken subtitle. */
+  validate?: boolean;
+  lintDisabled?: string[];
+  /** What to try when the download of the top candidate fails; defaults to `none`. */
+  fallback?: FetchFallbackPolicy;
+  /** Download attempts allowed across all fallbacks; defaults to 3. */
+  maxAttempts?: number;
+  /** Providers not searched up front; the `providers` and `all` policies query them lazily. */
+  fallbackProviders?: SubtitleProvider[];
+  cache?: SearchCache;
+  /** Weights, format and HI preferences; the defaults otherwise. */
+  ranking?: RankingPolicy;
+}
+
+export const FETCH_FALLBACK_POLICIES = ["none", "candidates", "providers", "all"] as const;
+
+export type FetchFallbackPolicy = (typeof FETCH_FALLBACK_POLICIES)[number];
+
+export interface FetchAttempt {
+  /** `search` entries record a fallback provider whose search failed. */
+  stage: "search" | "download";
+  providerId: string;
+  candidateId?: string;
+  ok: boolean;
+  error?: {
+    code: CliErrorCode;
+    message: string;
+    /** Upstream classification such as `anti-bot` or `rate-limit`, when the provider gave one. */
+    classification?: string;
+  };
+}
+
+export interface BilingualFetchReport {
+  languages: string[];
+  selected: RankedSubtitleResult[];
+  merge?: SubtitleMergeReport;
 }
 
 export interface FetchCommandOutput {
   provider: string;
+  /** Per-provider search outcome; present when more than one provider was searched. */
+  providers?: ProviderSearchStatus[];
+  /** Absent when the result cache is disabled. */
+  cache?: CacheStatus;
   request: NormalizedSubtitleRequest;
   selected: RankedSubtitleResult;
   candidates: RankedSubtitleResult[];
+  /** Version of the `factors` carried by `selected` and each candidate. */
+  factorsVersion: number;
   outputPath: string;
   fileName: string;
   sourceUrl: string;
   format: string;
+  naming: NamingScheme;
   dryRun: boolean;
   bytesWritten: number;
+  /** SHA-256 of the downloaded payload, when it went through the download cache. */
+  sha256?: string;
+  downloadCache?: "hit" | "miss";
+  encoding?: EncodingReport;
+  /** Languages the downloaded text is written in; absent on dry runs. */
+  detectedLanguages?: DetectedLanguage[];
+  files?: DeliveredFile[];
+  archive?: ArchiveReport;
+  bilingual?: BilingualFetchReport;
+  attempts?: FetchAttempt[];
+  warnings?: CliWarning[];
 }
 
+const BILINGUAL_STEM_PATTERN = /\.(srt|ass|ssa|vtt|zip|rar|7z)$/i;
+const DEFAULT_MAX_ATTEMPTS = 3;
+/** Failures another candidate or provider may not hit; argument and local errors are final. */
+const FALLBACK_ERROR_PREFIXES = [
+  "E_UPSTREAM_",
+  "E_NOT_FOUND_",
+  "E_ARCHIVE_",
+  "E_SUBTITLE_",
+  "E_AUTH_",
+];
+
 export async function runFetchCommand(input: FetchCommandInput): Promise<FetchCommandOutput> {
   if (input.outputPath.trim().length === 0) {
     throw new CliAppError({
@@ -53,12 +189,21 @@ export async function runFetchCommand(input: FetchCommandInput): Promise<FetchCo
   }
 
   const resolveOutputPath = input.resolveOutputPath ?? (async (path: string) => path);
+  const naming = input.naming ?? "provider";
+  const search = await searchProviders(input.providers, input.request, input.cache);
+  const providers = describeProviders(input.providers, search);
+  if (input.bilingual !== undefined) {
+    return runBilingualFetch(input, input.bilingual, search, resolveOutputPath, naming);
+  }
+
   const candidates = rankSubtitleCandidates(
     input.request,
-    await input.provider.search(input.request),
+    search.results,
     input.limit,
+    input.ranking,
   );
-  const selected = candidates[0];
+  const eligible = filterEligible(input, candidates);
+  const selected = eligible[0];
 
   if (selected === undefined) {
     throw new CliAppError({
@@ -66,71 +211,646 @@ export async function runFetchCommand(input: FetchCommandInput): Promise<FetchCo
       message: "No subtitle candidates found for the request",
       details: {
         query: input.request.query,
-        provider: input.provider.descriptor.id,
+        provider: providers.provider,
       },
     });
   }
 
   if (input.dryRun) {
-    const plan = await input.provider.getDownloadPlan(selected.id);
-    const outputPath = await resolveOutputPath(input.outputPath, plan.fileName);
+    const plan = await findResultProvider(input.providers, selected).getDownloadPlan(selected.id);
+    const fileName = planDeliveryFileName(plan.fileName, input.format);
+    const format = input.format ?? plan.format;
+    const outputPath = await resolveOutputPath(input.outputPath, fileName, {
+      ...namingDetails(selected, input.request),
+      format,
+    });
     return {
-      provider: input.provider.descriptor.id,
+      ...providers,
       request: input.request,
       selected,
       candidates,
+      factorsVersion: RANKING_FACTORS_VERSION,
       outputPath,
-      fileName: plan.fileName,
+      fileName,
       sourceUrl: plan.sourceUrl,
-      format: plan.format,
+      format,
+      naming,
       dryRun: true,
       bytesWritten: 0,
+      warnings: createCacheWarnings(search),
     };
   }
 
-  const payload = await input.provider.downloadSubtitle(selected.id);
-  const outputPath = await resolveOutputPath(input.outputPath, payload.fileName);
+  const { downloaded, payload, delivery, attempts } = await downloadWithFallback(
+    input,
+    eligible,
+    resolveOutputPath,
+  );
+
+  return {
+    ...providers,
+    request: input.request,
+    selected: downloaded,
+    candidates,
+    factorsVersion: RANKING_FACTORS_VERSION,
+    outputPath: delivery.outputPath,
+    fileName: delivery.fileName,
+    sourceUrl: payload.sourceUrl,
+    format: delivery.format,
+    naming,
+    dryRun: false,
+    bytesWritten: delivery.bytesWritten,
+    sha256: payload.sha256,
+    downloadCache: payload.cache,
+    encoding: delivery.encoding,
+    detectedLanguages: delivery.detectedLanguages,
+    files: delivery.files,
+    archive: delivery.archive,
+    attempts,
+    warnings: [...createCacheWarnings(search), ...delivery.warnings],
+  };
+}
+
+/**
+ * Downloads the top candidate and, as the policy allows, the next ones:
+ * `candidates` walks the ranked list, `providers` tries the best candidate of
+ * every other provider (searching `fallbackProviders` on demand) and `all`
+ * does both. With `none`, or when the error is not worth retrying, the
+ * original error is thrown; otherwise exhaustion fails with the last error
+ * code and every attempt in the details.
+ */
+async function downloadWithFallback(
+  input: FetchCommandInput,
+  ranked: RankedSubtitleResult[],
+  resolveOutputPath: OutputPathResolver,
+): Promise<{
+  downloaded: RankedSubtitleResult;
+  payload: SubtitlePayload;
+  delivery: SubtitleDelivery;
+  attempts: FetchAttempt[];
+}> {
+  const { policy, maxAttempts } = resolveFallbackPolicy(input);
+  const { pools, providers } = createFallbackPools(input, policy, ranked, (results) =>
+    filterEligible(
+      input,
+      rankSubtitleCandidates(input.request, results, input.limit, input.ranking),
+    ),
+  );
+  const attempts: FetchAttempt[] = [];
+  const { candidate, result } = await walkFallbackPools(
+    pools,
+    policy,
+    maxAttempts,
+    attempts,
+    (candidate) => downloadCandidate(input, candidate, providers, resolveOutputPath),
+    (lastError) => createExhaustedError(input, policy, attempts, lastError),
+  );
+  return { downloaded: candidate, ...result, attempts };
+}
+
+interface FallbackPool {
+  /** Absent for the up-front ranking. */
+  providerId?: string;
+  load: () => Promise<RankedSubtitleResult[]>;
+}
+
+/**
+ * The up-front ranking, then, for the `providers` and `all` policies, one
+ * pool per fallback provider whose search runs only when the pool is loaded.
+ */
+function createFallbackPools(
+  input: FetchCommandInput,
+  policy: FetchFallbackPolicy,
+  ranked: RankedSubtitleResult[],
+  rank: (results: ProviderSubtitleResult[]) => RankedSubtitleResult[],
+): { pools: FallbackPool[]; providers: SubtitleProvider[] } {
+  const acrossProviders = policy === "providers" || policy === "all";
+  const fallbackProviders = acrossProviders ? (input.fallbackProviders ?? []) : [];
+  return {
+    pools: [
+      { load: async () => ranked },
+      ...fallbackProviders.map((provider) => ({
+        providerId: provider.descriptor.id,
+        load: async () =>
+          rank((await searchProvider(provider, input.request, input.cache)).results),
+      })),
+    ],
+    providers: [...input.providers, ...fallbackProviders],
+  };
+}
+
+/**
+ * Tries the candidates the policy picks from each pool in turn until one
+ * succeeds or `maxAttempts` downloads are spent. With `none`, or when the
+ * error is not worth retrying, the original error is thrown; exhaustion
+ * throws what `exhausted` builds from the last error.
+ */
+async function walkFallbackPools<T>(
+  pools: FallbackPool[],
+  policy: FetchFallbackPolicy,
+  maxAttempts: number,
+  attempts: FetchAttempt[],
+  attempt: (candidate: RankedSubtitleResult) => Promise<T>,
+  exhausted: (lastError: CliAppError | undefined) => CliAppError,
+): Promise<{ candidate: RankedSubtitleResult; result: T }> {
+  let tried = 0;
+  let lastError: CliAppError | undefined;
+  // Loading a fallback pool is an upstream search, so stop before it once the budget is spent.
+  for (const [index, pool] of pools.entries()) {
+    if (tried >= maxAttempts) {
+      break;
+    }
+
+    let pooled: RankedSubtitleResult[];
+    try {
+      pooled = await pool.load();
+    } catch (error) {
+      const appError = toCliAppError(error);
+      attempts.push(failedAttempt("search", pool.providerId ?? "", undefined, appError));
+      continue;
+    }
+
+    for (const candidate of pickFallbackCandidates(pooled, policy, index === 0)) {
+      if (tried >= maxAttempts) {
+        break;
+      }
+
+      tried += 1;
+      try {
+        const result = await attempt(candidate);
+        attempts.push({
+          stage: "download",
+          providerId: candidate.providerId,
+          candidateId: candidate.id,
+          ok: true,
+        });
+        return { candidate, result };
+      } catch (error) {
+        const appError = toCliAppError(error);
+        attempts.push(failedAttempt("download", candidate.providerId, candidate.id, appError));
+        if (policy === "none" || !isFallbackError(appError.code)) {
+          throw error;
+        }
+        lastError = appError;
+      }
+    }
+  }
+
+  throw exhausted(lastError);
+}
+
+function createExhaustedError(
+  input: FetchCommandInput,
+  policy: FetchFallbackPolicy,
+  attempts: FetchAttempt[],
+  lastError: CliAppError | undefined,
+  language?: string,
+): CliAppError {
+  const downloads = attempts.filter((attempt) => attempt.stage === "download").length;
+  return new CliAppError({
+    code: lastError?.code ?? "E_NOT_FOUND_RESOURCE",
+    message: `All ${downloads} download attempts failed${lastError ? `: ${lastError.message}` : ""}`,
+    details: {
+      query: input.request.query,
+      language,
+      fallback: policy,
+      attempts,
+    },
+  });
+}
+
+async function downloadCandidate(
+  input: FetchCommandInput,
+  candidate: RankedSubtitleResult,
+  providers: SubtitleProvider[],
+  resolveOutputPath: OutputPathResolver,
+): Promise<{ payload: SubtitlePayload; delivery: SubtitleDelivery }> {
+  const script = input.convertScript
+    ? resolveScriptConversion(candidate.language, input.request.languagePreferences[0])
+    : undefined;
+  const payload = await findResultProvider(providers, candidate).downloadSubtitle(candidate.id);
+  const delivery = await deliverSubtitlePayload({
+    payload,
+    outputPath: input.outputPath,
+    writeFile: input.writeFile,
+    resolveOutputPath,
+    candidate: { ...candidate, language: script ?? candidate.language },
+    archiveTool: input.archiveTool,
+    selection: {
+      season: input.request.season,
+      episode: input.request.episode,
+      languages: input.request.languagePreferences,
+      pattern: input.entryPattern,
+      all: input.allEntries,
+    },
+    encoding: input.encoding,
+    format: input.format,
+    shift: input.shift,
+    script,
+    verifyLanguages: getVerifiedLanguages(input, input.request.languagePreferences),
+    validate: input.validate,
+    lintDisabled: input.lintDisabled,
+  });
+
+  return { payload, delivery };
+}
+
+/** The first pool is the up-front ranking; later pools are single fallback providers. */
+function pickFallbackCandidates(
+  pool: RankedSubtitleResult[],
+  policy: FetchFallbackPolicy,
+  first: boolean,
+): RankedSubtitleResult[] {
+  if (policy === "none") {
+    return pool.slice(0, 1);
+  }
+
+  if (policy === "providers") {
+    return pool.filter(
+      (candidate, index) =>
+        pool.findIndex((item) => item.providerId === candidate.providerId) === index,
+    );
+  }
+
+  return first || policy === "all" ? pool : [];
+}
+
+function filterEligible(
+  input: FetchCommandInput,
+  candidates: RankedSubtitleResult[],
+): RankedSubtitleResult[] {
+  if (!input.requireLanguage) {
+    return candidates;
+  }
+
+  return candidates.filter((candidate) =>
+    input.request.languagePreferences.some((language) =>
+      isLanguageMatch(candidate.language, language),
+    ),
+  );
+}
+
+/** `--verify-language` implies `candidates`; `none` allows a single download. */
+function resolveFallbackPolicy(input: FetchCommandInput): {
+  policy: FetchFallbackPolicy;
+  maxAttempts: number;
+} {
+  const policy = input.fallback ?? (input.verifyLanguage ? "candidates" : "none");
+  const maxAttempts = policy === "none" ? 1 : (input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  return { policy, maxAttempts };
+}
+
+/** Languages to check downloaded text against; nothing to check without preferences. */
+function getVerifiedLanguages(
+  input: FetchCommandInput,
+  languages: string[],
+): string[] | undefined {
+  return input.verifyLanguage && languages.length > 0 ? languages : undefined;
+}
 
-  try {
-    await input.writeFile(outputPath, payload.content);
-  } catch (error) {
-    const nodeError = error as NodeJS.ErrnoException;
-    if (nodeError.code === "EISDIR") {
+function failedAttempt(
+  stage: FetchAttempt["stage"],
+  providerId: string,
+  candidateId: string | undefined,
+  error: CliAppError,
+): FetchAttempt {
+  const details = error.details as { classification?: unknown } | undefined;
+  return {
+    stage,
+    providerId,
+    candidateId,
+    ok: false,
+    error: {
+      code: error.code,
+      message: error.message,
+      classification:
+        typeof details?.classification === "string" ? details.classification : undefined,
+    },
+  };
+}
+
+function isFallbackError(code: CliErrorCode): boolean {
+  return FALLBACK_ERROR_PREFIXES.some((prefix) => code.startsWith(prefix));
+}
+
+async function runBilingualFetch(
+  input: FetchCommandInput,
+  languages: string[],
+  search: AggregatedSearch,
+  resolveOutputPath: OutputPathResolver,
+  naming: NamingScheme,
+): Promise<FetchCommandOutput> {
+  const results = search.results;
+  const providers = describeProviders(input.providers, search);
+  const tracks = languages.map((language) => {
+    const ranked = rankSubtitleCandidates(
+      { ...input.request, languagePreferences: [language] },
+      results,
+      results.length,
+      input.ranking,
+    );
+    const matches = ranked.filter((candidate) => isLanguageMatch(candidate.language, language));
+    if (matches.length === 0) {
       throw new CliAppError({
-        code: "E_ARG_INVALID",
-        message: "--output must be a file path, not a directory",
+        code: "E_NOT_FOUND_RESOURCE",
+        message: `No ${language} subtitle candidates found for the request`,
         details: {
-          arg: "output",
-          outputPath,
+          query: input.request.query,
+          provider: providers.provider,
+          language,
         },
       });
     }
-    throw error;
+
+    return matches;
+  });
+  const candidates = rankSubtitleCandidates(input.request, results, input.limit, input.ranking);
+
+  if (input.dryRun) {
+    const selected = tracks.map((track) => track[0]);
+    const top = selected[0];
+    const plan = await findResultProvider(input.providers, top).getDownloadPlan(top.id);
+    const format = input.format ?? plan.format;
+    const fileName = planBilingualFileName(plan.fileName, languages, format);
+    return {
+      ...providers,
+      request: input.request,
+      selected: top,
+      candidates,
+      factorsVersion: RANKING_FACTORS_VERSION,
+      outputPath: await resolveOutputPath(input.outputPath, fileName, {
+        ...namingDetails(top, input.request),
+        format,
+      }),
+      fileName,
+      sourceUrl: plan.sourceUrl,
+      format,
+      naming,
+      dryRun: true,
+      bytesWritten: 0,
+      bilingual: { languages, selected },
+      warnings: createCacheWarnings(search),
+    };
   }
 
+  const { policy, maxAttempts } = resolveFallbackPolicy(input);
+  const attempts: FetchAttempt[] = [];
+  const payloads: BilingualTrack[] = [];
+  for (const [index, language] of languages.entries()) {
+    payloads.push(
+      await downloadBilingualTrack(input, language, tracks[index], policy, maxAttempts, attempts),
+    );
+  }
+
+  const [topFile, bottomFile] = payloads;
+  const [top, bottom] = [topFile.candidate, bottomFile.candidate];
+  const format = input.format ?? topFile.loaded.format;
+  const merged = mergeSubtitleFiles(topFile.loaded, bottomFile.loaded, format);
+  const bom = input.encoding === "utf-8-bom";
+  const content = encodeUtf8Text(merged.text, bom);
+  const encoding: EncodingReport = {
+    ...topFile.loaded.encoding,
+    outputEncoding: bom ? "utf-8-bom" : "utf-8",
+  };
+  const fileName = planBilingualFileName(topFile.loaded.fileName, languages, format);
+  const outputPath = await resolveOutputPath(input.outputPath, fileName, {
+    ...namingDetails(top, input.request),
+    format,
+  });
+  await writeOutputFile(input.writeFile, outputPath, content);
+  const detectedLanguages = detectSubtitleLanguages(merged.text, format);
+
   return {
-    provider: input.provider.descriptor.id,
+    ...providers,
     request: input.request,
-    selected,
+    selected: top,
     candidates,
+    factorsVersion: RANKING_FACTORS_VERSION,
     outputPath,
-    fileName: payload.fileName,
-    sourceUrl: payload.sourceUrl,
-    format: payload.format,
+    fileName,
+    sourceUrl: topFile.payload.sourceUrl,
+    format,
+    naming,
     dryRun: false,
-    bytesWritten: payload.content.byteLength,
+    bytesWritten: content.byteLength,
+    encoding,
+    detectedLanguages,
+    files: [
+      {
+        outputPath,
+        fileName,
+        format,
+        bytesWritten: content.byteLength,
+        encoding,
+        detectedLanguages,
+      },
+    ],
+    bilingual: { languages, selected: [top, bottom], merge: merged.report },
+    attempts,
+    warnings: [...createCacheWarnings(search), ...merged.warnings],
   };
 }
 
+interface BilingualTrack {
+  candidate: RankedSubtitleResult;
+  payload: SubtitlePayload;
+  loaded: LoadedSubtitlePayload;
+}
+
+/**
+ * Downloads the best candidate of one bilingual language and, as the policy
+ * allows, the next ones of that language; each language has its own
+ * `maxAttempts` budget. Attempts are appended to the shared list.
+ */
+async function downloadBilingualTrack(
+  input: FetchCommandInput,
+  language: string,
+  track: RankedSubtitleResult[],
+  policy: FetchFallbackPolicy,
+  maxAttempts: number,
+  attempts: FetchAttempt[],
+): Promise<BilingualTrack> {
+  const { pools, providers } = createFallbackPools(input, policy, track, (results) =>
+    rankSubtitleCandidates(
+      { ...input.request, languagePreferences: [language] },
+      results,
+      input.limit,
+      input.ranking,
+    ).filter((candidate) => isLanguageMatch(candidate.language, language)),
+  );
+  const { candidate, result } = await walkFallbackPools(
+    pools,
+    policy,
+    maxAttempts,
+    attempts,
+    (candidate) => loadBilingualCandidate(input, language, candidate, providers),
+    (lastError) => createExhaustedError(input, policy, attempts, lastError, language),
+  );
+  return { candidate, ...result };
+}
+
+async function loadBilingualCandidate(
+  input: FetchCommandInput,
+  language: string,
+  candidate: RankedSubtitleResult,
+  providers: SubtitleProvider[],
+): Promise<Omit<BilingualTrack, "candidate">> {
+  const payload = await findResultProvider(providers, candidate).downloadSubtitle(candidate.id);
+  const loaded = await loadSubtitlePayload(payload, {
+    archiveTool: input.archiveTool,
+    selection: {
+      season: input.request.season,
+      episode: input.request.episode,
+      languages: [language],
+      pattern: input.entryPattern,
+    },
+  });
+  if (input.validate) {
+    const lint = lintSubtitleText(loaded.text, loaded.format, {
+      disabled: input.lintDisabled,
+    });
+    if (!lint.valid) {
+      throw createLintFailureError(lint, candidate.id, { candidateId: candidate.id });
+    }
+  }
+
+  const verified = getVerifiedLanguages(input, [language]);
+  const detected = detectSubtitleLanguages(loaded.text, loaded.format);
+  if (verified !== undefined && !matchesDetectedLanguage(detected, verified)) {
+    throw new CliAppError({
+      code: "E_SUBTITLE_LANGUAGE_MISMATCH",
+      message: `Subtitle text of ${candidate.id} is not in ${language}`,
+      details: {
+        candidateId: candidate.id,
+        expected: verified,
+        detectedLanguages: detected,
+      },
+    });
+  }
+
+  return { payload, loaded };
+}
+
+/** Naming inputs known before the download; a bilingual file takes its top language. */
+function namingDetails(
+  candidate: RankedSubtitleResult,
+  request: NormalizedSubtitleRequest,
+): Omit<SubtitleNamingDetails, "format"> {
+  return {
+    language: candidate.language,
+    hearingImpaired: candidate.hearingImpaired,
+    forced: candidate.forced,
+    season: request.season,
+    episode: request.episode,
+    providerId: candidate.providerId,
+  };
+}
+
+function describeProviders(
+  providers: SubtitleProvider[],
+  search: AggregatedSearch,
+): Pick<FetchCommandOutput, "provider" | "providers" | "cache"> {
+  return {
+    provider: providers.map((provider) => provider.descriptor.id).join(","),
+    providers: providers.length > 1 ? search.statuses : undefined,
+    cache: search.cache,
+  };
+}
+
+/** `zh` accepts its regional variants; `zh-cn` only itself. */
+function isLanguageMatch(candidate: string, language: string): boolean {
+  return candidate === language || candidate.startsWith(`${language}-`);
+}
+
+function planBilingualFileName(
+  fileName: string,
+  languages: string[],
+  format: SubtitleFormat,
+): string {
+  return `${fileName.replace(BILINGUAL_STEM_PATTERN, "")}.${languages.join("-")}.${format}`;
+}
+
 export function renderFetchOutput(output: FetchCommandOutput): string {
-  return [
+  const lines = [
     `Provider: ${output.provider}`,
+    ...(output.providers === undefined
+      ? []
+      : [`Providers: ${output.providers.map(formatProviderStatus).join(", ")}`]),
     `Query: ${output.request.query}`,
-    `Selected: ${output.selected.id} (${output.selected.language}, score ${output.selected.score.toFixed(3)})`,
+    ...(output.cache === undefined ? [] : [`Cache: ${output.cache}`]),
+    ...(output.request.release === undefined
+      ? []
+      : [`Release: ${formatReleaseInfo(output.request.release)}`]),
+    ...(output.bilingual?.selected ?? [output.selected]).map(
+      (selected) =>
+        `Selected: ${selected.id} (${selected.language}, score ${selected.score.toFixed(3)})`,
+    ),
     `Output: ${output.outputPath}`,
     `File: ${output.fileName}`,
+    ...(output.naming === "provider" ? [] : [`Naming: ${output.naming}`]),
     `Source: ${output.sourceUrl}`,
     `Dry run: ${output.dryRun ? "yes" : "no"}`,
     `Bytes written: ${output.bytesWritten}`,
-  ].join("\n");
+    ...(output.downloadCache === undefined ? [] : [`Download cache: ${output.downloadCache}`]),
+  ];
+
+  if (output.encoding !== undefined) {
+    lines.push(
+      `Encoding: ${output.encoding.detectedEncoding} -> ${output.encoding.outputEncoding} (confidence ${output.encoding.confidence.toFixed(2)})`,
+    );
+  }
+
+  if (output.detectedLanguages !== undefined && output.detectedLanguages.length > 0) {
+    lines.push(`Languages: ${formatDetectedLanguages(output.detectedLanguages)}`);
+  }
+
+  const convertedFrom = output.files?.[0]?.convertedFrom;
+  if (convertedFrom !== undefined) {
+    lines.push(`Converted: ${convertedFrom} -> ${output.format}`);
+  }
+
+  const shift = output.files?.[0]?.shift;
+  if (shift !== undefined) {
+    lines.push(`Shift: ${formatShiftSummary(shift)}`);
+  }
+
+  const script = output.files?.[0]?.script;
+  if (script !== undefined) {
+    lines.push(
+      `Script: ${output.selected.language} -> ${script.to} (${script.changedCharacters} characters)`,
+    );
+  }
+
+  const merge = output.bilingual?.merge;
+  if (merge !== undefined) {
+    lines.push(`Merged: ${output.bilingual?.languages.join(" + ")} (${formatMergeSummary(merge)})`);
+  }
+
+  if (output.archive !== undefined) {
+    lines.push(
+      `Archive: ${output.archive.format} (${output.archive.entries.length} entries) -> ${output.archive.selectedEntries.join(", ")}`,
+    );
+  }
+
+  if (output.files !== undefined && output.files.length > 1) {
+    lines.push(...output.files.map((file) => `  ${file.outputPath} (${file.bytesWritten} bytes)`));
+  }
+
+  if (output.attempts !== undefined && output.attempts.length > 1) {
+    lines.push(`Attempts: ${output.attempts.length}`);
+    lines.push(...output.attempts.map((attempt) => `  ${formatFetchAttempt(attempt)}`));
+  }
+
+  return lines.join("\n");
+}
+
+function formatFetchAttempt(attempt: FetchAttempt): string {
+  const target = attempt.candidateId ?? `${attempt.providerId} (search)`;
+  if (attempt.error === undefined) {
+    return `${target}: ok`;
+  }
+
+  const classification =
+    attempt.error.classification === undefined ? "" : ` [${attempt.error.classification}]`;
+  return `${target}: ${attempt.error.code}${classification} ${attempt.error.message}`;
 }
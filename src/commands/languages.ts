@@ -0,0 +1,32 @@
+import { LANGUAGES, searchLanguages, type LanguageInfo } from "../domain/languages.js";
+
+export interface LanguagesCommandOutput {
+  /** The `--search` text, when given. */
+  search?: string;
+  total: number;
+  languages: LanguageInfo[];
+}
+
+export function runLanguagesCommand(search?: string): LanguagesCommandOutput {
+  const languages = search === undefined ? [...LANGUAGES] : searchLanguages(search);
+  return {
+    search,
+    total: languages.length,
+    languages,
+  };
+}
+
+export function renderLanguagesOutput(output: LanguagesCommandOutput): string {
+  if (output.languages.length === 0) {
+    return `No languages match ${output.search ?? ""}`.trim();
+  }
+
+  return [
+    `Languages: ${output.total}`,
+    ...output.languages.map((language) => {
+      const names = [language.name, language.nativeName, ...language.chineseNames];
+      const aliases = language.aliases.length > 0 ? ` | ${language.aliases.join(" ")}` : "";
+      return `${language.code} | ${[...new Set(names)].join(", ")}${aliases}`;
+    }),
+  ].join("\n");
+}
@@ -0,0 +1,38 @@
+import { loadSubtitleFile } from "./delivery.js";
+import { formatLintIssue, lintSubtitleText, type LintReport } from "../domain/subtitle-lint.js";
+import type { EncodingReport } from "../domain/text-encoding.js";
+import type { SubtitleFormat } from "../domain/types.js";
+
+export interface LintCommandInput {
+  inputPath: string;
+  from?: SubtitleFormat;
+  /** Rule ids to skip. */
+  disabled?: string[];
+  readFile: (path: string) => Promise<Uint8Array>;
+}
+
+export interface LintCommandOutput extends LintReport {
+  inputPath: string;
+  encoding: EncodingReport;
+  disabled: string[];
+}
+
+export async function runLintCommand(input: LintCommandInput): Promise<LintCommandOutput> {
+  const source = await loadSubtitleFile(input.readFile, input.inputPath, input.from);
+  const disabled = input.disabled ?? [];
+
+  return {
+    inputPath: input.inputPath,
+    ...lintSubtitleText(source.text, source.format, { disabled }),
+    encoding: source.encoding,
+    disabled,
+  };
+}
+
+export function renderLintOutput(output: LintCommandOutput): string {
+  return [
+    `Input: ${output.inputPath} (${output.format}, ${output.cues} cues)`,
+    `Lint summary: ${output.summary.errors} error(s), ${output.summary.warnings} warning(s)`,
+    ...output.issues.map(formatLintIssue),
+  ].join("\n");
+}
@@ -0,0 +1,95 @@
+import type { CliWarning } from "../core/index.js";
+
+import { loadSubtitleFile, writeOutputFile, type LoadedSubtitleFile } from "./delivery.js";
+import { inferSubtitleFormatFromPath } from "../domain/archive.js";
+import {
+  mergeSubtitleDocuments,
+  parseSubtitle,
+  serializeSubtitle,
+  type SubtitleMergeReport,
+} from "../domain/subtitles.js";
+import { encodeUtf8Text } from "../domain/text-encoding.js";
+import type { SubtitleFormat } from "../domain/types.js";
+
+export interface MergeCommandInput {
+  topPath: string;
+  bottomPath: string;
+  outputPath: string;
+  format?: SubtitleFormat;
+  dryRun: boolean;
+  readFile: (path: string) => Promise<Uint8Array>;
+  writeFile: (path: string, content: Uint8Array) => Promise<void>;
+}
+
+export interface MergeCommandOutput extends SubtitleMergeReport {
+  topPath: string;
+  bottomPath: string;
+  outputPath: string;
+  format: SubtitleFormat;
+  dryRun: boolean;
+  bytesWritten: number;
+  warnings: CliWarning[];
+}
+
+export interface MergedSubtitle {
+  text: string;
+  report: SubtitleMergeReport;
+  warnings: CliWarning[];
+}
+
+export async function runMergeCommand(input: MergeCommandInput): Promise<MergeCommandOutput> {
+  const top = await loadSubtitleFile(input.readFile, input.topPath);
+  const bottom = await loadSubtitleFile(input.readFile, input.bottomPath);
+  const format = input.format ?? inferSubtitleFormatFromPath(input.outputPath) ?? top.format;
+  const merged = mergeSubtitleFiles(top, bottom, format);
+  const content = encodeUtf8Text(merged.text, false);
+
+  if (!input.dryRun) {
+    await writeOutputFile(input.writeFile, input.outputPath, content);
+  }
+
+  return {
+    topPath: input.topPath,
+    bottomPath: input.bottomPath,
+    outputPath: input.outputPath,
+    format,
+    ...merged.report,
+    dryRun: input.dryRun,
+    bytesWritten: input.dryRun ? 0 : content.byteLength,
+    warnings: merged.warnings,
+  };
+}
+
+export function mergeSubtitleFiles(
+  top: LoadedSubtitleFile,
+  bottom: LoadedSubtitleFile,
+  format: SubtitleFormat,
+): MergedSubtitle {
+  const merged = mergeSubtitleDocuments(
+    parseSubtitle(top.text, top.format),
+    parseSubtitle(bottom.text, bottom.format),
+    format,
+  );
+  const serialized = serializeSubtitle(merged.document, format);
+
+  return {
+    text: serialized.text,
+    report: merged.report,
+    warnings: serialized.warnings,
+  };
+}
+
+export function renderMergeOutput(output: MergeCommandOutput): string {
+  return [
+    `Top: ${output.topPath}`,
+    `Bottom: ${output.bottomPath}`,
+    `Output: ${output.outputPath} (${output.format})`,
+    `Cues: ${output.cues} (${formatMergeSummary(output)})`,
+    `Dry run: ${output.dryRun ? "yes" : "no"}`,
+    `Bytes written: ${output.bytesWritten}`,
+  ].join("\n");
+}
+
+export function formatMergeSummary(report: SubtitleMergeReport): string {
+  return `${report.paired} paired, ${report.topOnly} top only, ${report.bottomOnly} bottom only`;
+}
@@ -0,0 +1,159 @@
+import { CliAppError } from "../core/index.js";
+
+import { formatConfigValue } from "./config.js";
+import { coerceConfigValue } from "../domain/config.js";
+import {
+  createProfileRankingPolicy,
+  findProfile,
+  loadProfiles,
+  PROFILE_KEYS,
+  serializeProfilesFile,
+  validateProfileName,
+  type Profile,
+} from "../domain/profiles.js";
+import type { RankingPolicy } from "../domain/ranking.js";
+
+export const PROFILE_ACTIONS = ["list", "show", "create", "delete"] as const;
+
+export type ProfileAction = (typeof PROFILE_ACTIONS)[number];
+
+export interface ProfileCommandInput {
+  action: ProfileAction;
+  name?: string;
+  /** `create`: raw values keyed by profile key, as given on the command line. */
+  values: Record<string, string>;
+  /** `create` replaces a profile of the same name instead of failing. */
+  force: boolean;
+  path: string;
+  readTextFile: (path: string) => Promise<string | undefined>;
+  writeTextFile: (path: string, text: string) => Promise<void>;
+}
+
+export interface ProfileCommandOutput {
+  action: ProfileAction;
+  path: string;
+  /** `list`. */
+  profiles?: Profile[];
+  /** `show`, `create` and `delete`. */
+  profile?: Profile;
+  /** `show` and `create`: the ranking policy this profile produces. */
+  ranking?: RankingPolicy;
+  /** `create`: an existing profile was overwritten with `--force`. */
+  replaced?: boolean;
+}
+
+export async function runProfileCommand(input: ProfileCommandInput): Promise<ProfileCommandOutput> {
+  const profiles = await loadProfiles(input.path, input.readTextFile);
+  if (input.action === "list") {
+    return { action: "list", path: input.path, profiles };
+  }
+
+  const name = input.name;
+  if (name === undefined) {
+    throw new CliAppError({
+      code: "E_ARG_MISSING",
+      message: `profile ${input.action} requires a name`,
+      details: {
+        arg: "name",
+        allowed: profiles.map((profile) => profile.name),
+      },
+    });
+  }
+
+  if (input.action === "show") {
+    const profile = findProfile(profiles, name, { arg: "name" });
+    return {
+      action: "show",
+      path: input.path,
+      profile,
+      ranking: createProfileRankingPolicy(profile),
+    };
+  }
+
+  if (input.action === "delete") {
+    const profile = findProfile(profiles, name, { arg: "name" });
+    await input.writeTextFile(
+      input.path,
+      serializeProfilesFile(profiles.filter((item) => item !== profile)),
+    );
+    return { action: "delete", path: input.path, profile };
+  }
+
+  validateProfileName(name);
+  const existing = profiles.find((profile) => profile.name === name);
+  if (existing !== undefined && !input.force) {
+    throw new CliAppError({
+      code: "E_ARG_CONFLICT",
+      message: `Profile ${name} already exists; pass --force to replace it`,
+      details: {
+        arg: "name",
+        profile: name,
+        path: input.path,
+      },
+    });
+  }
+
+  const profile = createProfile(name, input.values);
+  await input.writeTextFile(
+    input.path,
+    serializeProfilesFile([...profiles.filter((item) => item !== existing), profile]),
+  );
+
+  return {
+    action: "create",
+    path: input.path,
+    profile,
+    ranking: createProfileRankingPolicy(profile),
+    replaced: existing !== undefined,
+  };
+}
+
+function createProfile(name: string, values: Record<string, string>): Profile {
+  const profile: Profile = { name, values: {} };
+  for (const definition of PROFILE_KEYS) {
+    const raw = values[definition.key];
+    if (raw !== undefined) {
+      profile.values[definition.key] = coerceConfigValue(
+        definition,
+        raw,
+        `--${definition.flag}`,
+      );
+    }
+  }
+  return profile;
+}
+
+export function renderProfileOutput(output: ProfileCommandOutput): string {
+  if (output.action === "list") {
+    const profiles = output.profiles ?? [];
+    if (profiles.length === 0) {
+      return `No profiles in ${output.path}`;
+    }
+    return profiles.map((profile) => `${profile.name}: ${summarizeProfile(profile)}`).join("\n");
+  }
+
+  const profile = output.profile;
+  if (profile === undefined) {
+    return output.path;
+  }
+  if (output.action === "delete") {
+    return `Deleted profile ${profile.name} from ${output.path}`;
+  }
+  if (output.action === "create") {
+    const verb = output.replaced ? "Replaced" : "Created";
+    return `${verb} profile ${profile.name} in ${output.path}: ${summarizeProfile(profile)}`;
+  }
+
+  const lines = [`Profile: ${profile.name}`];
+  for (const [key, value] of Object.entries(profile.values)) {
+    lines.push(`  ${key} = ${formatConfigValue(value)}`);
+  }
+  return lines.join("\n");
+}
+
+function summarizeProfile(profile: Profile): string {
+  const parts = Object.entries(profile.values).map(
+    ([key, value]) => `${key}=${formatConfigValue(value)}`,
+  );
+  return parts.length > 0 ? parts.join(" ") : "(empty)";
+}
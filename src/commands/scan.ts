@@ -0,0 +1,333 @@
+import { join } from "node:path";
+
+import { CliAppError, toCliAppError, type CliWarning } from "../core/index.js";
+
+import type { OutputPathResolver } from "./delivery.js";
+import { runFetchCommand } from "./fetch.js";
+import type { ArchiveTool } from "../domain/archive.js";
+import { resolveLanguage } from "../domain/languages.js";
+import type { NamingScheme } from "../domain/naming.js";
+import type { RankingPolicy } from "../domain/ranking.js";
+import { isVideoFileName, parseReleaseName, videoFileStem } from "../domain/release-name.js";
+import { normalizeSubtitleRequest } from "../domain/request-normalization.js";
+import type { CacheStatus, SearchCache } from "../domain/search-cache.js";
+import type { ReleaseInfo, SubtitleFormat, SubtitleProvider } from "../domain/types.js";
+
+export interface DirectoryEntry {
+  name: string;
+  directory: boolean;
+}
+
+export interface ScanCommandInput {
+  providers: SubtitleProvider[];
+  dir: string;
+  languages: string[];
+  recursive: boolean;
+  dryRun: boolean;
+  limit: number;
+  listDirectory: (path: string) => Promise<DirectoryEntry[]>;
+  writeFile: (path: string, content: Uint8Array) => Promise<void>;
+  resolveOutputPath: OutputPathResolver;
+  naming: NamingScheme;
+  archiveTool?: ArchiveTool;
+  format?: SubtitleFormat;
+  cache?: SearchCache;
+  ranking?: RankingPolicy;
+}
+
+export type ScanStatus = "found" | "missing" | "fetched" | "failed";
+
+export interface ScanLanguageReport {
+  language: string;
+  status: ScanStatus;
+  /** Existing sidecar for `found`, written (or planned, in a dry run) file otherwise. */
+  path?: string;
+  candidateId?: string;
+  cache?: CacheStatus;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface ScanVideoReport {
+  path: string;
+  title: string;
+  season?: number;
+  episode?: number;
+  languages: ScanLanguageReport[];
+}
+
+export interface ScanSummary {
+  videos: number;
+  found: number;
+  missing: number;
+  fetched: number;
+  failed: number;
+}
+
+export interface ScanCommandOutput {
+  provider: string;
+  dir: string;
+  languages: string[];
+  recursive: boolean;
+  dryRun: boolean;
+  naming: NamingScheme;
+  videos: ScanVideoReport[];
+  summary: ScanSummary;
+  warnings: CliWarning[];
+}
+
+interface ScannedVideo {
+  path: string;
+  stem: string;
+  sidecars: Array<{ path: string; language?: string }>;
+}
+
+/** Sidecar name parts that describe the track rather than its language. */
+const SIDECAR_FLAGS = new Set(["forced", "sdh", "hi", "cc", "default", "foreign"]);
+const SIDECAR_EXTENSION_PATTERN = /\.(srt|ass|ssa|vtt|sub|idx|sup)$/i;
+
+/**
+ * Walks a media directory and fetches a subtitle for every video and
+ * language without a sidecar. Per-language failures are recorded in the
+ * report instead of aborting the scan; only an unreadable `--dir` throws.
+ */
+export async function runScanCommand(input: ScanCommandInput): Promise<ScanCommandOutput> {
+  const scanned = await collectVideos(input.listDirectory, input.dir, input.recursive);
+  const videos: ScanVideoReport[] = [];
+
+  for (const video of scanned) {
+    const release = parseReleaseName(video.path);
+    const languages: ScanLanguageReport[] = [];
+
+    for (const language of input.languages) {
+      const sidecar = video.sidecars.find(
+        (item) => item.language !== undefined && isLanguageCovered(item.language, language),
+      );
+      if (sidecar !== undefined) {
+        languages.push({ language, status: "found", path: sidecar.path });
+        continue;
+      }
+
+      languages.push(await fetchMissing(input, video, release, language));
+    }
+
+    videos.push({
+      path: video.path,
+      title: release.title,
+      season: release.season,
+      episode: release.episode,
+      languages,
+    });
+  }
+
+  const summary = summarizeScan(videos);
+  const warnings: CliWarning[] = [];
+  if (summary.failed > 0) {
+    warnings.push({
+      code: "W_SCAN_INCOMPLETE",
+      message: `${summary.failed} subtitle(s) could not be fetched`,
+      details: {
+        failed: videos.flatMap((video) =>
+          video.languages
+            .filter((item) => item.status === "failed")
+            .map((item) => ({ path: video.path, language: item.language, code: item.error?.code })),
+        ),
+      },
+    });
+  }
+
+  return {
+    provider: input.providers.map((provider) => provider.descriptor.id).join(","),
+    dir: input.dir,
+    languages: input.languages,
+    recursive: input.recursive,
+    dryRun: input.dryRun,
+    naming: input.naming,
+    videos,
+    summary,
+    warnings,
+  };
+}
+
+async function fetchMissing(
+  input: ScanCommandInput,
+  video: ScannedVideo,
+  release: ReleaseInfo,
+  language: string,
+): Promise<ScanLanguageReport> {
+  try {
+    const output = await runFetchCommand({
+      providers: input.providers,
+      request: normalizeSubtitleRequest({
+        query: release.title.length > 0 ? release.title : video.stem,
+        year: release.year,
+        season: release.season,
+        episode: release.episode,
+        languages: [language],
+        release,
+      }),
+      outputPath: video.path,
+      dryRun: input.dryRun,
+      limit: input.limit,
+      writeFile: input.writeFile,
+      resolveOutputPath: input.resolveOutputPath,
+      naming: input.naming,
+      archiveTool: input.archiveTool,
+      format: input.format,
+      requireLanguage: true,
+      cache: input.cache,
+      ranking: input.ranking,
+    });
+
+    return {
+      language,
+      status: input.dryRun ? "missing" : "fetched",
+      path: output.outputPath,
+      candidateId: output.selected.id,
+      cache: output.cache,
+    };
+  } catch (error) {
+    const appError = toCliAppError(error);
+    return {
+      language,
+      status: "failed",
+      error: { code: appError.code, message: appError.message },
+    };
+  }
+}
+
+async function collectVideos(
+  listDirectory: (path: string) => Promise<DirectoryEntry[]>,
+  dir: string,
+  recursive: boolean,
+): Promise<ScannedVideo[]> {
+  const entries = await readDirectory(listDirectory, dir);
+  const files = entries.filter((entry) => !entry.directory).map((entry) => entry.name);
+  const subtitles = files.filter((name) => SIDECAR_EXTENSION_PATTERN.test(name));
+  const videos: ScannedVideo[] = files
+    .filter((name) => isVideoFileName(name))
+    .sort((left, right) => left.localeCompare(right))
+    .map((name) => {
+      const stem = videoFileStem(name);
+      return {
+        path: join(dir, name),
+        stem,
+        sidecars: subtitles
+          .filter((subtitle) => subtitle.startsWith(`${stem}.`))
+          .flatMap((subtitle) => {
+            const sidecar = parseSidecarTags(subtitle.slice(stem.length + 1));
+            return sidecar === undefined ? [] : [{ path: join(dir, subtitle), ...sidecar }];
+          }),
+      };
+    });
+
+  if (recursive) {
+    const directories = entries
+      .filter((entry) => entry.directory && !entry.name.startsWith("."))
+      .map((entry) => entry.name)
+      .sort((left, right) => left.localeCompare(right));
+    for (const name of directories) {
+      videos.push(...(await collectVideos(listDirectory, join(dir, name), true)));
+    }
+  }
+
+  return videos;
+}
+
+async function readDirectory(
+  listDirectory: (path: string) => Promise<DirectoryEntry[]>,
+  dir: string,
+): Promise<DirectoryEntry[]> {
+  try {
+    return await listDirectory(dir);
+  } catch (error) {
+    const nodeError = error as NodeJS.ErrnoException;
+    if (nodeError.code === "ENOENT") {
+      throw new CliAppError({
+        code: "E_NOT_FOUND_RESOURCE",
+        message: `Directory not found: ${dir}`,
+        details: {
+          arg: "dir",
+          dir,
+        },
+      });
+    }
+    if (nodeError.code === "ENOTDIR") {
+      throw new CliAppError({
+        code: "E_ARG_INVALID",
+        message: "--dir must be a directory",
+        details: {
+          arg: "dir",
+          dir,
+        },
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * `en.sdh.srt` -> `en`, `srt` -> no language. Undefined when a tag is neither
+ * a language nor a flag: `Movie.Extended.zh.srt` belongs to `Movie.Extended`,
+ * not to `Movie`.
+ */
+function parseSidecarTags(suffix: string): { language?: string } | undefined {
+  const tags = suffix
+    .replace(SIDECAR_EXTENSION_PATTERN, "")
+    .split(".")
+    .filter((tag) => tag.length > 0 && !SIDECAR_FLAGS.has(tag.toLowerCase()));
+  const languages = tags.map((tag) => resolveLanguage(tag));
+  if (languages.some((language) => language === undefined)) {
+    return undefined;
+  }
+
+  return { language: languages.at(-1) };
+}
+
+/** A `zh-cn` sidecar covers a `zh` request; a `zh` sidecar does not cover `zh-tw`. */
+function isLanguageCovered(sidecar: string, language: string): boolean {
+  return sidecar === language || sidecar.startsWith(`${language}-`);
+}
+
+function summarizeScan(videos: ScanVideoReport[]): ScanSummary {
+  const summary: ScanSummary = {
+    videos: videos.length,
+    found: 0,
+    missing: 0,
+    fetched: 0,
+    failed: 0,
+  };
+  for (const video of videos) {
+    for (const item of video.languages) {
+      summary[item.status] += 1;
+    }
+  }
+
+  return summary;
+}
+
+export function renderScanOutput(output: ScanCommandOutput): string {
+  const lines = [
+    `Provider: ${output.provider}`,
+    `Directory: ${output.dir}${output.recursive ? " (recursive)" : ""}`,
+    `Languages: ${output.languages.join(", ")}`,
+    `Dry run: ${output.dryRun ? "yes" : "no"}`,
+  ];
+
+  for (const video of output.videos) {
+    lines.push(video.path);
+    for (const item of video.languages) {
+      const detail =
+        item.error === undefined ? item.path : `${item.error.code}: ${item.error.message}`;
+      lines.push(`  ${item.language}: ${item.status}${detail === undefined ? "" : ` ${detail}`}`);
+    }
+  }
+
+  const { summary } = output;
+  lines.push(
+    `Summary: ${summary.videos} videos, ${summary.found} found, ${summary.missing} missing, ${summary.fetched} fetched, ${summary.failed} failed`,
+  );
+  return lines.join("\n");
+}
@@ -1,6 +1,19 @@
-import { CliAppError } from "../core/index.js";
+import { CliAppError, type CliWarning } from "../core/index.js";
 
-import { rankSubtitleCandidates } from "../domain/ranking.js";
+import {
+  createCacheWarnings,
+  formatProviderStatus,
+  searchProviders,
+  type ProviderSearchStatus,
+} from "../domain/providers.js";
+import {
+  formatRankingFactor,
+  RANKING_FACTORS_VERSION,
+  rankSubtitleCandidates,
+  type RankingPolicy,
+} from "../domain/ranking.js";
+import { formatReleaseInfo } from "../domain/release-name.js";
+import type { CacheStatus, SearchCache } from "../domain/search-cache.js";
 import type {
   NormalizedSubtitleRequest,
   RankedSubtitleResult,
@@ -8,17 +21,33 @@ import type {
 } from "../domain/types.js";
 
 export interface SearchCommandInput {
-  provider: SubtitleProvider;
+  /** Several providers are searched concurrently and ranked together. */
+  providers: SubtitleProvider[];
   request: NormalizedSubtitleRequest;
   limit: number;
+  cache?: SearchCache;
+  /** Weights, format and HI preferences; the defaults otherwise. */
+  ranking?: RankingPolicy;
 }
 
 export interface SearchCommandOutput {
   provider: string;
+  /** Per-provider outcome; present when more than one provider was searched. */
+  providers?: ProviderSearchStatus[];
+  /** Absent when the result cache is disabled. */
+  cache?: CacheStatus;
   request: NormalizedSubtitleRequest;
   returned: number;
   totalCandidates: number;
+  /** Version of the `factors` carried by each item. */
+  factorsVersion: number;
   items: RankedSubtitleResult[];
+  warnings: CliWarning[];
+}
+
+export interface SearchRenderOptions {
+  /** Print each candidate's score factors under it. */
+  explain?: boolean;
 }
 
 export async function runSearchCommand(input: SearchCommandInput): Promise<SearchCommandOutput> {
@@ -33,22 +62,37 @@ export async function runSearchCommand(input: SearchCommandInput): Promise<Searc
     });
   }
 
-  const candidates = await input.provider.search(input.request);
-  const ranked = rankSubtitleCandidates(input.request, candidates, input.limit);
+  const search = await searchProviders(input.providers, input.request, input.cache);
+  const candidates = search.results;
+  const ranked = rankSubtitleCandidates(input.request, candidates, input.limit, input.ranking);
 
   return {
-    provider: input.provider.descriptor.id,
+    provider: input.providers.map((provider) => provider.descriptor.id).join(","),
+    providers: input.providers.length > 1 ? search.statuses : undefined,
+    cache: search.cache,
     request: input.request,
     returned: ranked.length,
     totalCandidates: candidates.length,
+    factorsVersion: RANKING_FACTORS_VERSION,
     items: ranked,
+    warnings: createCacheWarnings(search),
   };
 }
 
-export function renderSearchOutput(output: SearchCommandOutput): string {
+export function renderSearchOutput(
+  output: SearchCommandOutput,
+  options: SearchRenderOptions = {},
+): string {
   const lines: string[] = [
     `Provider: ${output.provider}`,
+    ...(output.providers === undefined
+      ? []
+      : [`Providers: ${output.providers.map(formatProviderStatus).join(", ")}`]),
     `Query: ${output.request.query}`,
+    ...(output.cache === undefined ? [] : [`Cache: ${output.cache}`]),
+    ...(output.request.release === undefined
+      ? []
+      : [`Release: ${formatReleaseInfo(output.request.release)}`]),
     `Fingerprint: ${output.request.fingerprint}`,
     `Returned: ${output.returned}/${output.totalCandidates}`,
   ];
@@ -57,6 +101,9 @@ export function renderSearchOutput(output: SearchCommandOutput): string {
     lines.push(
       `${item.rank}. ${item.id} | ${item.title} | ${item.language} | ${item.format} | score:${item.score.toFixed(3)}`,
     );
+    if (options.explain) {
+      lines.push(...item.factors.map((factor) => `   ${formatRankingFactor(factor)}`));
+    }
   }
 
   return lines.join("\n");
@@ -0,0 +1,90 @@
+import type { CliWarning } from "../core/index.js";
+
+import { loadSubtitleFile, writeOutputFile } from "./delivery.js";
+import {
+  formatTimestamp,
+  parseSubtitle,
+  serializeSubtitle,
+  shiftSubtitleDocument,
+  type SubtitleShiftOptions,
+  type SubtitleShiftReport,
+  type SubtitleTimingSummary,
+} from "../domain/subtitles.js";
+import { encodeUtf8Text, type EncodingReport } from "../domain/text-encoding.js";
+import type { SubtitleFormat } from "../domain/types.js";
+
+export interface ShiftCommandInput {
+  inputPath: string;
+  outputPath?: string;
+  shift: SubtitleShiftOptions;
+  dryRun: boolean;
+  readFile: (path: string) => Promise<Uint8Array>;
+  writeFile: (path: string, content: Uint8Array) => Promise<void>;
+}
+
+export interface ShiftCommandOutput extends SubtitleShiftReport {
+  inputPath: string;
+  outputPath: string;
+  format: SubtitleFormat;
+  cues: number;
+  dryRun: boolean;
+  bytesWritten: number;
+  encoding: EncodingReport;
+  warnings: CliWarning[];
+}
+
+export async function runShiftCommand(input: ShiftCommandInput): Promise<ShiftCommandOutput> {
+  const source = await loadSubtitleFile(input.readFile, input.inputPath);
+  const shifted = shiftSubtitleDocument(parseSubtitle(source.text, source.format), input.shift);
+  const serialized = serializeSubtitle(shifted.document, source.format);
+  const content = encodeUtf8Text(serialized.text, false);
+  const outputPath = input.outputPath ?? input.inputPath;
+
+  if (!input.dryRun) {
+    await writeOutputFile(input.writeFile, outputPath, content);
+  }
+
+  return {
+    inputPath: input.inputPath,
+    outputPath,
+    format: source.format,
+    cues: shifted.document.cues.length,
+    ...shifted.report,
+    dryRun: input.dryRun,
+    bytesWritten: input.dryRun ? 0 : content.byteLength,
+    encoding: source.encoding,
+    warnings: serialized.warnings,
+  };
+}
+
+export function renderShiftOutput(output: ShiftCommandOutput): string {
+  const lines = [
+    `Input: ${output.inputPath} (${output.format})`,
+    `Output: ${output.outputPath}`,
+    `Shift: ${formatShiftSummary(output)}`,
+    `Cues: ${output.cues}${output.droppedCues > 0 ? ` (${output.droppedCues} dropped before 00:00:00)` : ""}`,
+    `Before: ${formatTimingSummary(output.before)}`,
+    `After: ${formatTimingSummary(output.after)}`,
+    `Dry run: ${output.dryRun ? "yes" : "no"}`,
+    `Bytes written: ${output.bytesWritten}`,
+  ];
+
+  return lines.join("\n");
+}
+
+export function formatShiftSummary(shift: SubtitleShiftReport): string {
+  const parts = [`offset ${shift.offsetMs >= 0 ? "+" : ""}${shift.offsetMs} ms`];
+  if (shift.fromFps !== undefined && shift.toFps !== undefined) {
+    parts.push(`${shift.fromFps} -> ${shift.toFps} fps (x${shift.scale})`);
+  }
+
+  return parts.join(", ");
+}
+
+function formatTimingSummary(summary: SubtitleTimingSummary): string {
+  if (summary.first === undefined || summary.last === undefined) {
+    return "no cues";
+  }
+
+  return `first ${formatTimestamp(summary.first.start, ".")}, last ends ${formatTimestamp(summary.last.end, ".")}`;
+}
@@ -0,0 +1,99 @@
+import type { CliWarning } from "../core/index.js";
+
+import { loadSubtitleFile, writeOutputFile } from "./delivery.js";
+import {
+  estimateSubtitleSync,
+  parseSubtitle,
+  serializeSubtitle,
+  shiftSubtitleDocument,
+  type SubtitleShiftReport,
+  type SubtitleSyncEstimate,
+} from "../domain/subtitles.js";
+import { encodeUtf8Text, type EncodingReport } from "../domain/text-encoding.js";
+import type { SubtitleFormat } from "../domain/types.js";
+
+/** Below this an agent should not accept the alignment without a look. */
+export const LOW_SYNC_CONFIDENCE = 0.5;
+
+export interface SyncCommandInput {
+  inputPath: string;
+  referencePath: string;
+  outputPath: string;
+  dryRun: boolean;
+  readFile: (path: string) => Promise<Uint8Array>;
+  writeFile: (path: string, content: Uint8Array) => Promise<void>;
+}
+
+export interface SyncCommandOutput extends SubtitleShiftReport, SubtitleSyncEstimate {
+  inputPath: string;
+  referencePath: string;
+  outputPath: string;
+  format: SubtitleFormat;
+  referenceFormat: SubtitleFormat;
+  cues: number;
+  referenceCues: number;
+  dryRun: boolean;
+  bytesWritten: number;
+  encoding: EncodingReport;
+  warnings: CliWarning[];
+}
+
+export async function runSyncCommand(input: SyncCommandInput): Promise<SyncCommandOutput> {
+  const source = await loadSubtitleFile(input.readFile, input.inputPath);
+  const reference = await loadSubtitleFile(input.readFile, input.referencePath);
+  const document = parseSubtitle(source.text, source.format);
+  const referenceDocument = parseSubtitle(reference.text, reference.format);
+
+  const estimate = estimateSubtitleSync(document.cues, referenceDocument.cues);
+  const shifted = shiftSubtitleDocument(document, {
+    offsetMs: estimate.offsetMs,
+    scale: estimate.scale,
+  });
+  const serialized = serializeSubtitle(shifted.document, source.format);
+  const content = encodeUtf8Text(serialized.text, false);
+
+  if (!input.dryRun) {
+    await writeOutputFile(input.writeFile, input.outputPath, content);
+  }
+
+  const warnings = [...serialized.warnings];
+  if (estimate.confidence < LOW_SYNC_CONFIDENCE) {
+    warnings.push({
+      code: "W_SYNC_LOW_CONFIDENCE",
+      message: `Only ${estimate.matchedCues} cue(s) lined up with the reference; check the result before using it`,
+      details: {
+        confidence: estimate.confidence,
+        threshold: LOW_SYNC_CONFIDENCE,
+      },
+    });
+  }
+
+  return {
+    inputPath: input.inputPath,
+    referencePath: input.referencePath,
+    outputPath: input.outputPath,
+    format: source.format,
+    referenceFormat: reference.format,
+    cues: shifted.document.cues.length,
+    referenceCues: referenceDocument.cues.length,
+    ...shifted.report,
+    ...estimate,
+    dryRun: input.dryRun,
+    bytesWritten: input.dryRun ? 0 : content.byteLength,
+    encoding: source.encoding,
+    warnings,
+  };
+}
+
+export function renderSyncOutput(output: SyncCommandOutput): string {
+  return [
+    `Input: ${output.inputPath} (${output.format})`,
+    `Reference: ${output.referencePath} (${output.referenceFormat})`,
+    `Output: ${output.outputPath}`,
+    `Offset: ${output.offsetMs >= 0 ? "+" : ""}${output.offsetMs} ms`,
+    `Scale: x${output.scale}`,
+    `Confidence: ${output.confidence} (${output.matchedCues} cue(s) matched, median residual ${output.residualMs} ms)`,
+    `Dry run: ${output.dryRun ? "yes" : "no"}`,
+    `Bytes written: ${output.bytesWritten}`,
+  ].join("\n");
+}
@@ -6,11 +6,30 @@ export interface Meta {
   finishedAt: string;
   durationMs: number;
   verbose: boolean;
+  /** Profile whose settings the command ran with, when one was active. */
+  profile?: string;
+  /** Effective configuration and where each value came from; verbose runs only. */
+  config?: MetaConfigValue[];
+}
+
+export interface MetaConfigValue {
+  key: string;
+  value?: unknown;
+  /** `flag`, `profile`, `env`, `project`, `user` or `default`; `origin` names the profile. */
+  source: string;
+  origin?: string;
+}
+
+export interface CliWarning {
+  code: string;
+  message: string;
+  details?: unknown;
 }
 
 export interface CliSuccess<T> {
   ok: true;
   data: T;
+  warnings?: CliWarning[];
   meta: Meta;
 }
 
@@ -25,8 +44,16 @@ export interface CliError {
 
 export type CliEnvelope<T> = CliSuccess<T> | CliError;
 
-export function createSuccessEnvelope<T>(data: T, meta: Meta): CliSuccess<T> {
-  return { ok: true, data, meta };
+export function createSuccessEnvelope<T>(
+  data: T,
+  meta: Meta,
+  warnings: CliWarning[] = [],
+): CliSuccess<T> {
+  if (warnings.length === 0) {
+    return { ok: true, data, meta };
+  }
+
+  return { ok: true, data, warnings, meta };
 }
 
 export function createErrorEnvelope(
@@ -9,6 +9,11 @@ export const CLI_ERROR_CODES = [
   "E_UPSTREAM_NETWORK",
   "E_UPSTREAM_TIMEOUT",
   "E_UPSTREAM_BAD_RESPONSE",
+  "E_ARCHIVE_INVALID",
+  "E_ARCHIVE_UNSUPPORTED",
+  "E_SUBTITLE_INVALID",
+  "E_SUBTITLE_LANGUAGE_MISMATCH",
+  "E_SUBTITLE_VALIDATION_FAILED",
   "E_UNKNOWN",
 ] as const;
 
@@ -1,6 +1,6 @@
 import type { CliErrorCode } from "./errors.js";
 
-export type CliExitCode = 0 | 2 | 3 | 4 | 5 | 10;
+export type CliExitCode = 0 | 2 | 3 | 4 | 5 | 6 | 10;
 
 export const EXIT_CODES = {
   SUCCESS: 0,
@@ -8,6 +8,7 @@ export const EXIT_CODES = {
   AUTH_OR_CONFIG_ERROR: 3,
   NOT_FOUND: 4,
   UPSTREAM_ERROR: 5,
+  CONTENT_ERROR: 6,
   UNKNOWN_ERROR: 10,
 } as const satisfies Record<string, CliExitCode>;
 
@@ -28,5 +29,9 @@ export function mapErrorCodeToExitCode(code: CliErrorCode): CliExitCode {
     return EXIT_CODES.UPSTREAM_ERROR;
   }
 
+  if (code.startsWith("E_ARCHIVE_") || code.startsWith("E_SUBTITLE_")) {
+    return EXIT_CODES.CONTENT_ERROR;
+  }
+
   return EXIT_CODES.UNKNOWN_ERROR;
 }
@@ -0,0 +1,238 @@
+import { CliAppError } from "../core/index.js";
+
+import type { ArchiveTool } from "./archive/archive-tool.js";
+import { createArchiveInvalidError, type NativeArchiveEntry } from "./archive/binary.js";
+import { readRarArchive } from "./archive/rar.js";
+import { readSevenZipArchive } from "./archive/seven-zip.js";
+import {
+  isSubtitleEntry,
+  selectSubtitleEntries,
+  type ArchiveEntrySelection,
+} from "./archive/selection.js";
+import { readZipArchive } from "./archive/zip.js";
+import type { ArchiveEntry, ArchiveFormat, SubtitleFormat, SubtitlePayload } from "./types.js";
+
+export { createBsdtarArchiveTool, type ArchiveTool } from "./archive/archive-tool.js";
+export {
+  inferEntryLanguage,
+  inferSubtitleFormatFromPath,
+  isSubtitleEntry,
+  selectSubtitleEntries,
+  type ArchiveEntrySelection,
+  type SelectedArchiveEntry,
+} from "./archive/selection.js";
+
+export interface ArchiveOptions {
+  tool?: ArchiveTool;
+}
+
+export interface UnpackOptions extends ArchiveOptions {
+  selection?: ArchiveEntrySelection;
+}
+
+export interface OpenedArchive {
+  format: ArchiveFormat;
+  entries: ArchiveEntry[];
+  extract(path: string): Promise<Uint8Array>;
+}
+
+export interface ArchiveEntryReport extends ArchiveEntry {
+  subtitle: boolean;
+}
+
+export interface ArchiveReport {
+  format: ArchiveFormat;
+  fileName: string;
+  entries: ArchiveEntryReport[];
+  selectedEntry: string;
+  selectedEntries: string[];
+}
+
+export interface UnpackedSubtitle {
+  fileName: string;
+  format: SubtitleFormat;
+  content: Uint8Array;
+  entry?: string;
+  language?: string;
+  season?: number;
+  episode?: number;
+}
+
+export interface UnpackedSubtitlePayload {
+  files: UnpackedSubtitle[];
+  archive?: ArchiveReport;
+}
+
+const ARCHIVE_SIGNATURES: Array<{ format: ArchiveFormat; bytes: number[] }> = [
+  { format: "zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { format: "zip", bytes: [0x50, 0x4b, 0x05, 0x06] },
+  { format: "rar", bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  { format: "7z", bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+];
+
+export function detectArchiveFormat(content: Uint8Array): ArchiveFormat | undefined {
+  const match = ARCHIVE_SIGNATURES.find((signature) =>
+    signature.bytes.every((byte, index) => content[index] === byte),
+  );
+  return match?.format;
+}
+
+export async function openArchive(
+  content: Uint8Array,
+  format: ArchiveFormat,
+  options: ArchiveOptions = {},
+): Promise<OpenedArchive> {
+  const nativeEntries = readNativeEntries(content, format);
+  const entries: NativeArchiveEntry[] =
+    nativeEntries ?? (await requireTool(options.tool, format, "headers").list(content, format));
+
+  return {
+    format,
+    entries: entries.map(({ read: _read, ...entry }) => entry),
+
+    async extract(path: string) {
+      const entry = entries.find((item) => item.path === path && !item.directory);
+      if (entry === undefined) {
+        throw new CliAppError({
+          code: "E_NOT_FOUND_RESOURCE",
+          message: `Archive entry not found: ${path}`,
+          details: {
+            format,
+            entry: path,
+          },
+        });
+      }
+
+      if (entry.encrypted) {
+        throw new CliAppError({
+          code: "E_ARCHIVE_UNSUPPORTED",
+          message: `Archive entry is password protected: ${path}`,
+          details: {
+            format,
+            entry: path,
+            reason: "encrypted",
+          },
+        });
+      }
+
+      if (entry.read !== undefined) {
+        return guardTruncation(format, entry.read);
+      }
+
+      return requireTool(options.tool, format, entry.method).extract(content, format, path);
+    },
+  };
+}
+
+/**
+ * Providers hand back whatever the upload was; archives are opened and the
+ * selected subtitle entries are returned in place of the container bytes.
+ */
+export async function unpackSubtitlePayload(
+  payload: SubtitlePayload,
+  options: UnpackOptions = {},
+): Promise<UnpackedSubtitlePayload> {
+  const format = detectArchiveFormat(payload.content);
+  if (format === undefined) {
+    return {
+      files: [
+        {
+          fileName: payload.fileName,
+          format: payload.format,
+          content: payload.content,
+        },
+      ],
+    };
+  }
+
+  const archive = await openArchive(payload.content, format, options);
+  const entries = archive.entries.map((entry) => ({
+    ...entry,
+    subtitle: isSubtitleEntry(entry),
+  }));
+
+  if (!entries.some((entry) => entry.subtitle)) {
+    throw new CliAppError({
+      code: "E_NOT_FOUND_RESOURCE",
+      message: `Archive contains no subtitle files: ${payload.fileName}`,
+      details: {
+        format,
+        fileName: payload.fileName,
+        entries: entries.map((entry) => entry.path),
+      },
+    });
+  }
+
+  const selected = selectSubtitleEntries(archive.entries, options.selection);
+  const files: UnpackedSubtitle[] = [];
+  for (const entry of selected) {
+    files.push({
+      fileName: entry.fileName,
+      format: entry.format,
+      content: await archive.extract(entry.path),
+      entry: entry.path,
+      language: entry.language,
+      season: entry.season,
+      episode: entry.episode,
+    });
+  }
+
+  return {
+    files,
+    archive: {
+      format,
+      fileName: payload.fileName,
+      entries,
+      selectedEntry: selected[0].path,
+      selectedEntries: selected.map((entry) => entry.path),
+    },
+  };
+}
+
+function readNativeEntries(
+  content: Uint8Array,
+  format: ArchiveFormat,
+): NativeArchiveEntry[] | undefined {
+  return guardTruncation(format, () => {
+    if (format === "zip") {
+      return readZipArchive(content);
+    }
+
+    if (format === "rar") {
+      return readRarArchive(content);
+    }
+
+    return readSevenZipArchive(content);
+  });
+}
+
+function guardTruncation<T>(format: ArchiveFormat, action: () => T): T {
+  try {
+    return action();
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw createArchiveInvalidError(format, "truncated", { message: error.message });
+    }
+    throw error;
+  }
+}
+
+function requireTool(
+  tool: ArchiveTool | undefined,
+  format: ArchiveFormat,
+  method: string,
+): ArchiveTool {
+  if (tool !== undefined) {
+    return tool;
+  }
+
+  throw new CliAppError({
+    code: "E_ARCHIVE_UNSUPPORTED",
+    message: `Reading ${method} data from ${format} archives requires an archive tool`,
+    details: {
+      format,
+      method,
+      reason: "tool-missing",
+    },
+  });
+}
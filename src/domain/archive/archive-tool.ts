@@ -0,0 +1,134 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { CliAppError } from "../../core/index.js";
+
+import { normalizeEntryPath } from "./binary.js";
+import type { ArchiveEntry, ArchiveFormat } from "../types.js";
+
+export interface ArchiveTool {
+  id: string;
+  list(content: Uint8Array, format: ArchiveFormat): Promise<ArchiveEntry[]>;
+  extract(content: Uint8Array, format: ArchiveFormat, path: string): Promise<Uint8Array>;
+}
+
+export interface BsdtarArchiveToolOptions {
+  command?: string;
+  timeoutMs?: number;
+}
+
+const LISTING_LINE_PATTERN = /^(\S+)\s+\S+\s+\S+\s+\S+\s+(\d+)\s+\S+\s+\S+\s+\S+\s(.+)$/u;
+const MAX_TOOL_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+/**
+ * libarchive's bsdtar reads compressed RAR and 7z streams that the built-in
+ * readers cannot decode. It ships as `tar` on macOS and Windows.
+ */
+export function createBsdtarArchiveTool(options: BsdtarArchiveToolOptions = {}): ArchiveTool {
+  const command = options.command ?? "bsdtar";
+  const timeoutMs = options.timeoutMs ?? 30_000;
+
+  return {
+    id: command,
+
+    async list(content, format) {
+      const output = await withTemporaryArchive(content, format, (archivePath) =>
+        runTool(command, ["-tvf", archivePath], timeoutMs, format),
+      );
+
+      return new TextDecoder("utf-8")
+        .decode(output)
+        .split(/\r?\n/u)
+        .map((line) => LISTING_LINE_PATTERN.exec(line))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map((match) => {
+          const path = normalizeEntryPath(match[3]).replace(/\/+$/u, "");
+          return {
+            path,
+            size: Number.parseInt(match[2], 10),
+            packedSize: 0,
+            method: command,
+            directory: match[1].startsWith("d"),
+            encrypted: false,
+          };
+        });
+    },
+
+    async extract(content, format, path) {
+      const output = await withTemporaryArchive(content, format, (archivePath) =>
+        runTool(command, ["-xOf", archivePath, path], timeoutMs, format),
+      );
+      return new Uint8Array(output);
+    },
+  };
+}
+
+async function withTemporaryArchive<T>(
+  content: Uint8Array,
+  format: ArchiveFormat,
+  action: (archivePath: string) => Promise<T>,
+): Promise<T> {
+  const directory = await mkdtemp(join(tmpdir(), "subchef-archive-"));
+  const archivePath = join(directory, `payload.${format}`);
+
+  try {
+    await writeFile(archivePath, content);
+    return await action(archivePath);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+function runTool(
+  command: string,
+  args: string[],
+  timeoutMs: number,
+  format: ArchiveFormat,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      command,
+      args,
+      { encoding: "buffer", maxBuffer: MAX_TOOL_OUTPUT_BYTES, timeout: timeoutMs },
+      (error, stdout, stderr) => {
+        if (error === null) {
+          resolve(stdout);
+          return;
+        }
+
+        const nodeError = error as NodeJS.ErrnoException;
+        if (nodeError.code === "ENOENT") {
+          reject(
+            new CliAppError({
+              code: "E_ARCHIVE_UNSUPPORTED",
+              message: `Reading this ${format} archive requires ${command}, which is not installed`,
+              details: {
+                format,
+                tool: command,
+                reason: "tool-missing",
+              },
+              cause: error,
+            }),
+          );
+          return;
+        }
+
+        reject(
+          new CliAppError({
+            code: "E_ARCHIVE_INVALID",
+            message: `${command} failed to read the ${format} archive`,
+            details: {
+              format,
+              tool: command,
+              reason: "tool-failed",
+              stderr: stderr.toString("utf8").trim().slice(0, 320),
+            },
+            cause: error,
+          }),
+        );
+      },
+    );
+  });
+}
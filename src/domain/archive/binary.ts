@@ -0,0 +1,106 @@
+import { CliAppError } from "../../core/index.js";
+
+import type { ArchiveEntry, ArchiveFormat } from "../types.js";
+
+const CRC32_TABLE = buildCrc32Table();
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+
+  for (let index = 0; index < bytes.length; index += 1) {
+    crc = CRC32_TABLE[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function readUint16(bytes: Uint8Array, offset: number): number {
+  ensureRange(bytes, offset, 2);
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+export function readUint32(bytes: Uint8Array, offset: number): number {
+  ensureRange(bytes, offset, 4);
+  return (
+    (bytes[offset] |
+      (bytes[offset + 1] << 8) |
+      (bytes[offset + 2] << 16) |
+      (bytes[offset + 3] << 24)) >>>
+    0
+  );
+}
+
+export function readUint64(bytes: Uint8Array, offset: number): number {
+  const low = readUint32(bytes, offset);
+  const high = readUint32(bytes, offset + 4);
+  return high * 0x1_0000_0000 + low;
+}
+
+export function sliceBytes(bytes: Uint8Array, offset: number, length: number): Uint8Array {
+  ensureRange(bytes, offset, length);
+  return bytes.subarray(offset, offset + length);
+}
+
+/**
+ * Archive entry names are UTF-8 when the archiver says so, but archives built on
+ * Chinese Windows commonly store names in the legacy GBK code page.
+ */
+export function decodeEntryName(bytes: Uint8Array, utf8: boolean): string {
+  if (utf8) {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder("gb18030").decode(bytes);
+  }
+}
+
+export function normalizeEntryPath(value: string): string {
+  return value.replaceAll("\\", "/").replace(/^\/+/u, "");
+}
+
+export function createArchiveInvalidError(
+  format: ArchiveFormat,
+  reason: string,
+  details: Record<string, unknown> = {},
+): CliAppError {
+  return new CliAppError({
+    code: "E_ARCHIVE_INVALID",
+    message: `Downloaded ${format} archive is corrupt or truncated`,
+    details: {
+      format,
+      reason,
+      ...details,
+    },
+  });
+}
+
+function ensureRange(bytes: Uint8Array, offset: number, length: number): void {
+  if (offset < 0 || length < 0 || offset + length > bytes.length) {
+    throw new RangeError(`Read of ${length} byte(s) at ${offset} exceeds ${bytes.length} byte(s)`);
+  }
+}
+
+function buildCrc32Table(): Uint32Array {
+  const table = new Uint32Array(256);
+
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+
+  return table;
+}
+
+/**
+ * Entries a reader can decode without external tools carry a `read` callback;
+ * entries without one need the archive tool fallback.
+ */
+export interface NativeArchiveEntry extends ArchiveEntry {
+  read?: () => Uint8Array;
+}
@@ -0,0 +1,364 @@
+import { CliAppError } from "../../core/index.js";
+
+import {
+  crc32,
+  createArchiveInvalidError,
+  decodeEntryName,
+  normalizeEntryPath,
+  readUint16,
+  readUint32,
+  sliceBytes,
+  type NativeArchiveEntry,
+} from "./binary.js";
+
+const RAR4_SIGNATURE_LENGTH = 7;
+const RAR5_SIGNATURE_LENGTH = 8;
+
+const RAR4_BLOCK_MAIN = 0x73;
+const RAR4_BLOCK_FILE = 0x74;
+const RAR4_BLOCK_END = 0x7b;
+const RAR4_MAIN_ENCRYPTED_HEADERS = 0x0080;
+const RAR4_FILE_SPLIT = 0x0003;
+const RAR4_FILE_ENCRYPTED = 0x0004;
+const RAR4_FILE_DIRECTORY = 0x00e0;
+const RAR4_FILE_LARGE = 0x0100;
+const RAR4_FILE_UNICODE = 0x0200;
+const RAR4_LONG_BLOCK = 0x8000;
+const RAR4_METHOD_STORE = 0x30;
+
+const RAR5_HEADER_FILE = 2;
+const RAR5_HEADER_ENCRYPTION = 4;
+const RAR5_HEADER_END = 5;
+const RAR5_FLAG_EXTRA = 0x0001;
+const RAR5_FLAG_DATA = 0x0002;
+const RAR5_FLAG_SPLIT = 0x0018;
+const RAR5_FILE_DIRECTORY = 0x0001;
+const RAR5_FILE_MTIME = 0x0002;
+const RAR5_FILE_CRC = 0x0004;
+const RAR5_EXTRA_ENCRYPTION = 0x01;
+
+const RAR4_METHOD_NAMES: Record<number, string> = {
+  0x30: "store",
+  0x31: "fastest",
+  0x32: "fast",
+  0x33: "normal",
+  0x34: "good",
+  0x35: "best",
+};
+
+const RAR5_METHOD_NAMES = ["store", "fastest", "fast", "normal", "good", "best"];
+
+interface VarInt {
+  value: number;
+  length: number;
+}
+
+export function readRarArchive(content: Uint8Array): NativeArchiveEntry[] {
+  if (content[6] === 0x01 && content[7] === 0x00) {
+    return readRar5Archive(content);
+  }
+
+  return readRar4Archive(content);
+}
+
+function readRar5Archive(content: Uint8Array): NativeArchiveEntry[] {
+  const entries: NativeArchiveEntry[] = [];
+  let offset = RAR5_SIGNATURE_LENGTH;
+
+  while (offset < content.length) {
+    const headerCrc = readUint32(content, offset);
+    const headerSize = readVarInt(content, offset + 4);
+    const headerStart = offset + 4 + headerSize.length;
+    const headerEnd = headerStart + headerSize.value;
+
+    if (crc32(sliceBytes(content, offset + 4, headerEnd - offset - 4)) !== headerCrc) {
+      throw createArchiveInvalidError("rar", "header-checksum-mismatch", { offset });
+    }
+
+    let cursor = headerStart;
+    const type = readVarInt(content, cursor);
+    cursor += type.length;
+    const flags = readVarInt(content, cursor);
+    cursor += flags.length;
+
+    let extraSize = 0;
+    if ((flags.value & RAR5_FLAG_EXTRA) !== 0) {
+      const extra = readVarInt(content, cursor);
+      extraSize = extra.value;
+      cursor += extra.length;
+    }
+
+    let dataSize = 0;
+    if ((flags.value & RAR5_FLAG_DATA) !== 0) {
+      const data = readVarInt(content, cursor);
+      dataSize = data.value;
+      cursor += data.length;
+    }
+
+    if (type.value === RAR5_HEADER_ENCRYPTION) {
+      throw createEncryptedHeadersError();
+    }
+
+    if (type.value === RAR5_HEADER_END) {
+      break;
+    }
+
+    if (type.value === RAR5_HEADER_FILE) {
+      const fileFlags = readVarInt(content, cursor);
+      cursor += fileFlags.length;
+      const unpackedSize = readVarInt(content, cursor);
+      cursor += unpackedSize.length;
+      const attributes = readVarInt(content, cursor);
+      cursor += attributes.length;
+
+      if ((fileFlags.value & RAR5_FILE_MTIME) !== 0) {
+        cursor += 4;
+      }
+
+      let dataCrc: number | undefined;
+      if ((fileFlags.value & RAR5_FILE_CRC) !== 0) {
+        dataCrc = readUint32(content, cursor);
+        cursor += 4;
+      }
+
+      const compression = readVarInt(content, cursor);
+      cursor += compression.length;
+      const hostOs = readVarInt(content, cursor);
+      cursor += hostOs.length;
+      const nameLength = readVarInt(content, cursor);
+      cursor += nameLength.length;
+
+      const path = normalizeEntryPath(
+        decodeEntryName(sliceBytes(content, cursor, nameLength.value), true),
+      );
+      const directory = (fileFlags.value & RAR5_FILE_DIRECTORY) !== 0;
+      const encrypted = hasRar5EncryptionRecord(content, headerEnd - extraSize, headerEnd);
+      const method = (compression.value >> 7) & 0x07;
+      const split = (flags.value & RAR5_FLAG_SPLIT) !== 0;
+      const dataOffset = headerEnd;
+      const size = unpackedSize.value;
+
+      entries.push({
+        path,
+        size,
+        packedSize: dataSize,
+        method: RAR5_METHOD_NAMES[method] ?? `method-${method}`,
+        directory,
+        encrypted,
+        read:
+          !directory && !encrypted && !split && method === 0
+            ? () => readStoredData(content, path, dataOffset, dataSize, size, dataCrc)
+            : undefined,
+      });
+    }
+
+    offset = headerEnd + dataSize;
+  }
+
+  return entries;
+}
+
+function readRar4Archive(content: Uint8Array): NativeArchiveEntry[] {
+  const entries: NativeArchiveEntry[] = [];
+  let offset = RAR4_SIGNATURE_LENGTH;
+
+  while (offset + 7 <= content.length) {
+    const headerCrc = readUint16(content, offset);
+    const type = content[offset + 2];
+    const flags = readUint16(content, offset + 3);
+    const headerSize = readUint16(content, offset + 5);
+
+    if (headerSize < 7) {
+      throw createArchiveInvalidError("rar", "bad-header-size", { offset });
+    }
+
+    if ((crc32(sliceBytes(content, offset + 2, headerSize - 2)) & 0xffff) !== headerCrc) {
+      throw createArchiveInvalidError("rar", "header-checksum-mismatch", { offset });
+    }
+
+    if (type === RAR4_BLOCK_END) {
+      break;
+    }
+
+    let dataSize = (flags & RAR4_LONG_BLOCK) !== 0 ? readUint32(content, offset + 7) : 0;
+
+    if (type === RAR4_BLOCK_MAIN && (flags & RAR4_MAIN_ENCRYPTED_HEADERS) !== 0) {
+      throw createEncryptedHeadersError();
+    }
+
+    if (type === RAR4_BLOCK_FILE) {
+      const unpackedLow = readUint32(content, offset + 11);
+      const dataCrc = readUint32(content, offset + 16);
+      const method = content[offset + 25];
+      const nameLength = readUint16(content, offset + 26);
+      let cursor = offset + 32;
+      let packedSize = readUint32(content, offset + 7);
+      let size = unpackedLow;
+
+      if ((flags & RAR4_FILE_LARGE) !== 0) {
+        packedSize += readUint32(content, cursor) * 0x1_0000_0000;
+        size += readUint32(content, cursor + 4) * 0x1_0000_0000;
+        cursor += 8;
+      }
+
+      const nameBytes = sliceBytes(content, cursor, nameLength);
+      const path = normalizeEntryPath(
+        (flags & RAR4_FILE_UNICODE) !== 0
+          ? decodeRar4UnicodeName(nameBytes)
+          : decodeEntryName(nameBytes, false),
+      );
+      const directory = (flags & RAR4_FILE_DIRECTORY) === RAR4_FILE_DIRECTORY;
+      const encrypted = (flags & RAR4_FILE_ENCRYPTED) !== 0;
+      const split = (flags & RAR4_FILE_SPLIT) !== 0;
+      const dataOffset = offset + headerSize;
+      dataSize = packedSize;
+
+      entries.push({
+        path,
+        size,
+        packedSize,
+        method: RAR4_METHOD_NAMES[method] ?? `method-${method}`,
+        directory,
+        encrypted,
+        read:
+          !directory && !encrypted && !split && method === RAR4_METHOD_STORE
+            ? () => readStoredData(content, path, dataOffset, packedSize, size, dataCrc)
+            : undefined,
+      });
+    }
+
+    offset += headerSize + dataSize;
+  }
+
+  return entries;
+}
+
+function readStoredData(
+  content: Uint8Array,
+  path: string,
+  offset: number,
+  packedSize: number,
+  size: number,
+  expectedCrc: number | undefined,
+): Uint8Array {
+  const data = sliceBytes(content, offset, packedSize);
+  if (data.byteLength !== size || (expectedCrc !== undefined && crc32(data) !== expectedCrc)) {
+    throw createArchiveInvalidError("rar", "checksum-mismatch", { entry: path });
+  }
+
+  return data;
+}
+
+function hasRar5EncryptionRecord(content: Uint8Array, start: number, end: number): boolean {
+  let cursor = start;
+
+  while (cursor < end) {
+    const size = readVarInt(content, cursor);
+    const recordStart = cursor + size.length;
+    const type = readVarInt(content, recordStart);
+
+    if (type.value === RAR5_EXTRA_ENCRYPTION) {
+      return true;
+    }
+
+    cursor = recordStart + size.value;
+  }
+
+  return false;
+}
+
+/**
+ * RAR 3.x stores Unicode names as an ASCII fallback, a NUL separator and a
+ * compact high-byte encoding of the UTF-16 code units.
+ */
+function decodeRar4UnicodeName(bytes: Uint8Array): string {
+  const separator = bytes.indexOf(0);
+  if (separator < 0) {
+    return decodeEntryName(bytes, true);
+  }
+
+  const ascii = bytes.subarray(0, separator);
+  const encoded = bytes.subarray(separator + 1);
+  const maxLength = ascii.length;
+  const units: number[] = [];
+  const highByte = encoded[0] ?? 0;
+  let position = 1;
+  let flags = 0;
+  let flagBits = 0;
+
+  while (position < encoded.length && units.length < maxLength) {
+    if (flagBits === 0) {
+      flags = encoded[position];
+      position += 1;
+      flagBits = 8;
+    }
+
+    switch (flags >> 6) {
+      case 0:
+        units.push(encoded[position] ?? 0);
+        position += 1;
+        break;
+      case 1:
+        units.push((encoded[position] ?? 0) + (highByte << 8));
+        position += 1;
+        break;
+      case 2:
+        units.push((encoded[position] ?? 0) + ((encoded[position + 1] ?? 0) << 8));
+        position += 2;
+        break;
+      default: {
+        let length = encoded[position] ?? 0;
+        position += 1;
+
+        if ((length & 0x80) !== 0) {
+          const correction = encoded[position] ?? 0;
+          position += 1;
+          for (length = (length & 0x7f) + 2; length > 0 && units.length < maxLength; length -= 1) {
+            units.push(((ascii[units.length] + correction) & 0xff) + (highByte << 8));
+          }
+        } else {
+          for (length += 2; length > 0 && units.length < maxLength; length -= 1) {
+            units.push(ascii[units.length]);
+          }
+        }
+      }
+    }
+
+    flags = (flags << 2) & 0xff;
+    flagBits -= 2;
+  }
+
+  return String.fromCharCode(...units);
+}
+
+function readVarInt(content: Uint8Array, offset: number): VarInt {
+  let value = 0;
+  let multiplier = 1;
+
+  for (let length = 1; length <= 10; length += 1) {
+    const byte = content[offset + length - 1];
+    if (byte === undefined) {
+      throw createArchiveInvalidError("rar", "truncated-header", { offset });
+    }
+
+    value += (byte & 0x7f) * multiplier;
+    multiplier *= 0x80;
+
+    if ((byte & 0x80) === 0) {
+      return { value, length };
+    }
+  }
+
+  throw createArchiveInvalidError("rar", "bad-varint", { offset });
+}
+
+function createEncryptedHeadersError(): CliAppError {
+  return new CliAppError({
+    code: "E_ARCHIVE_UNSUPPORTED",
+    message: "RAR archive has encrypted headers and cannot be listed",
+    details: {
+      format: "rar",
+      reason: "encrypted-headers",
+    },
+  });
+}
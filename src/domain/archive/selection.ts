@@ -0,0 +1,286 @@
+import { CliAppError } from "../../core/index.js";
+
+import {
+  formatEpisodeMarker,
+  parseEpisodeMarkers,
+  type EpisodeMarkers,
+} from "../episode-markers.js";
+import type { ArchiveEntry, SubtitleFormat } from "../types.js";
+
+export interface ArchiveEntrySelection {
+  season?: number;
+  episode?: number;
+  languages?: string[];
+  pattern?: string;
+  all?: boolean;
+}
+
+export interface SelectedArchiveEntry extends EpisodeMarkers {
+  path: string;
+  fileName: string;
+  format: SubtitleFormat;
+  language?: string;
+}
+
+interface EntryCandidate extends SelectedArchiveEntry {
+  baseName: string;
+}
+
+const SUBTITLE_EXTENSIONS: Record<string, SubtitleFormat> = {
+  srt: "srt",
+  ass: "ass",
+  ssa: "ass",
+  vtt: "vtt",
+};
+
+const FORMAT_ORDER: SubtitleFormat[] = ["srt", "ass", "vtt"];
+
+const ENTRY_LANGUAGE_PATTERNS: Array<{ language: string; pattern: RegExp }> = [
+  {
+    language: "zh-cn",
+    pattern: /简体|简中|简英|(?<![a-z])(?:chs|sc|gb|zh[-_]?cn|zh[-_]?hans)(?![a-z])/iu,
+  },
+  {
+    language: "zh-tw",
+    pattern: /繁体|繁體|繁中|繁英|(?<![a-z])(?:cht|tc|big5|zh[-_]?tw|zh[-_]?hant)(?![a-z])/iu,
+  },
+  { language: "zh", pattern: /中文|中字|双语|中英|(?<![a-z])(?:chi|zho|zh)(?![a-z])/iu },
+  { language: "en", pattern: /英文|英语|(?<![a-z])(?:en|eng|english)(?![a-z])/iu },
+  { language: "ja", pattern: /日文|日语|(?<![a-z])(?:ja|jp|jpn|japanese)(?![a-z])/iu },
+];
+
+export function inferSubtitleFormatFromPath(path: string): SubtitleFormat | undefined {
+  const extension = /\.([A-Za-z0-9]+)$/u.exec(path)?.[1]?.toLowerCase();
+  return extension === undefined ? undefined : SUBTITLE_EXTENSIONS[extension];
+}
+
+export function isSubtitleEntry(entry: ArchiveEntry): boolean {
+  if (entry.directory || inferSubtitleFormatFromPath(entry.path) === undefined) {
+    return false;
+  }
+
+  const segments = entry.path.split("/");
+  return !segments.includes("__MACOSX") && !(segments.at(-1) ?? "").startsWith("._");
+}
+
+export function inferEntryLanguage(path: string): string | undefined {
+  return ENTRY_LANGUAGE_PATTERNS.find((item) => item.pattern.test(path))?.language;
+}
+
+/**
+ * Picks the archive entries to extract. Season packs are narrowed to the
+ * requested episode, then ranked by language preference and format; with
+ * `all` the best entry of every episode is kept under an episode-aware name.
+ */
+export function selectSubtitleEntries(
+  entries: ArchiveEntry[],
+  selection: ArchiveEntrySelection = {},
+): SelectedArchiveEntry[] {
+  let candidates = entries.filter(isSubtitleEntry).map(describeEntry);
+
+  if (selection.pattern !== undefined) {
+    const matcher = compileEntryPattern(selection.pattern);
+    candidates = candidates.filter((candidate) => matcher(candidate.path));
+    if (candidates.length === 0) {
+      throw createNoEntryError(entries, "entry-pattern", { pattern: selection.pattern });
+    }
+  }
+
+  const hasEpisodeTarget =
+    typeof selection.season === "number" || typeof selection.episode === "number";
+  const hasEpisodeEntries = candidates.some(
+    (candidate) => candidate.season !== undefined || candidate.episode !== undefined,
+  );
+
+  if (hasEpisodeTarget && hasEpisodeEntries) {
+    candidates = candidates.filter((candidate) => matchesSelectionEpisode(candidate, selection));
+    if (candidates.length === 0) {
+      throw createNoEntryError(entries, "episode", {
+        season: selection.season,
+        episode: selection.episode,
+      });
+    }
+  }
+
+  const languages = selection.languages ?? [];
+  const ranked = [...candidates].sort((left, right) => {
+    const languageDelta = rankLanguage(left, languages) - rankLanguage(right, languages);
+    if (languageDelta !== 0) {
+      return languageDelta;
+    }
+
+    const formatDelta = FORMAT_ORDER.indexOf(left.format) - FORMAT_ORDER.indexOf(right.format);
+    if (formatDelta !== 0) {
+      return formatDelta;
+    }
+
+    return left.path.localeCompare(right.path);
+  });
+
+  if (!selection.all) {
+    return ranked.slice(0, 1).map(toSelectedEntry);
+  }
+
+  const bestPerEpisode = new Map<string, EntryCandidate>();
+  for (const candidate of ranked) {
+    const key = formatEpisodeMarker(candidate) ?? candidate.path;
+    if (!bestPerEpisode.has(key)) {
+      bestPerEpisode.set(key, candidate);
+    }
+  }
+
+  const usedNames = new Set<string>();
+  return [...bestPerEpisode.values()]
+    .sort(compareEpisodeOrder)
+    .map((candidate) => ({
+      ...toSelectedEntry(candidate),
+      fileName: reserveFileName(buildEpisodeFileName(candidate), usedNames),
+    }));
+}
+
+function describeEntry(entry: ArchiveEntry): EntryCandidate {
+  const baseName = entry.path.split("/").at(-1) ?? entry.path;
+  const markers = parseEpisodeMarkers(baseName);
+  const directoryMarkers = parseEpisodeMarkers(entry.path);
+
+  return {
+    path: entry.path,
+    baseName,
+    fileName: baseName,
+    format: inferSubtitleFormatFromPath(entry.path) ?? "srt",
+    language: inferEntryLanguage(baseName) ?? inferEntryLanguage(entry.path),
+    season: markers.season ?? directoryMarkers.season,
+    episode: markers.episode,
+  };
+}
+
+function matchesSelectionEpisode(
+  candidate: EntryCandidate,
+  selection: ArchiveEntrySelection,
+): boolean {
+  if (
+    typeof selection.season === "number" &&
+    candidate.season !== undefined &&
+    candidate.season !== selection.season
+  ) {
+    return false;
+  }
+
+  if (typeof selection.episode === "number") {
+    return candidate.episode === selection.episode;
+  }
+
+  return true;
+}
+
+function rankLanguage(candidate: EntryCandidate, languages: string[]): number {
+  if (candidate.language === undefined) {
+    return languages.length;
+  }
+
+  const exact = languages.indexOf(candidate.language);
+  if (exact >= 0) {
+    return exact;
+  }
+
+  const family = languages.findIndex(
+    (language) => language.split("-")[0] === candidate.language?.split("-")[0],
+  );
+  return family >= 0 ? family + 0.5 : languages.length + 1;
+}
+
+function compareEpisodeOrder(left: EntryCandidate, right: EntryCandidate): number {
+  const seasonDelta = (left.season ?? 0) - (right.season ?? 0);
+  if (seasonDelta !== 0) {
+    return seasonDelta;
+  }
+
+  const episodeDelta = (left.episode ?? 0) - (right.episode ?? 0);
+  if (episodeDelta !== 0) {
+    return episodeDelta;
+  }
+
+  return left.path.localeCompare(right.path);
+}
+
+function buildEpisodeFileName(candidate: EntryCandidate): string {
+  const marker = formatEpisodeMarker(candidate);
+  if (marker === undefined) {
+    return candidate.baseName;
+  }
+
+  const own = parseEpisodeMarkers(candidate.baseName);
+  if (own.episode === candidate.episode && own.season === candidate.season) {
+    return candidate.baseName;
+  }
+
+  const extensionIndex = candidate.baseName.lastIndexOf(".");
+  const stem = candidate.baseName.slice(0, extensionIndex);
+  const extension = candidate.baseName.slice(extensionIndex + 1);
+  return `${stem}.${marker}.${extension}`;
+}
+
+function reserveFileName(fileName: string, usedNames: Set<string>): string {
+  let candidate = fileName;
+  const extensionIndex = fileName.lastIndexOf(".");
+
+  for (let suffix = 2; usedNames.has(candidate.toLowerCase()); suffix += 1) {
+    candidate = `${fileName.slice(0, extensionIndex)}.${suffix}${fileName.slice(extensionIndex)}`;
+  }
+
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function toSelectedEntry(candidate: EntryCandidate): SelectedArchiveEntry {
+  return {
+    path: candidate.path,
+    fileName: candidate.fileName,
+    format: candidate.format,
+    language: candidate.language,
+    season: candidate.season,
+    episode: candidate.episode,
+  };
+}
+
+function compileEntryPattern(pattern: string): (path: string) => boolean {
+  let source = "";
+
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === "*" && pattern[index + 1] === "*") {
+      source += ".*";
+      index += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/gu, "\\$&");
+    }
+  }
+
+  const expression = new RegExp(`^${source}$`, "iu");
+  const matchBaseName = !pattern.includes("/");
+
+  return (path) => expression.test(matchBaseName ? (path.split("/").at(-1) ?? path) : path);
+}
+
+function createNoEntryError(
+  entries: ArchiveEntry[],
+  reason: string,
+  details: Record<string, unknown>,
+): CliAppError {
+  return new CliAppError({
+    code: "E_NOT_FOUND_RESOURCE",
+    message:
+      reason === "episode"
+        ? "Archive has no subtitle entry for the requested season/episode"
+        : "No archive entry matches --entry",
+    details: {
+      reason,
+      ...details,
+      entries: entries.filter((entry) => !entry.directory).map((entry) => entry.path),
+    },
+  });
+}
@@ -0,0 +1,490 @@
+import {
+  crc32,
+  createArchiveInvalidError,
+  normalizeEntryPath,
+  readUint32,
+  readUint64,
+  sliceBytes,
+  type NativeArchiveEntry,
+} from "./binary.js";
+
+const SIGNATURE_HEADER_SIZE = 32;
+
+const ID_END = 0x00;
+const ID_HEADER = 0x01;
+const ID_ARCHIVE_PROPERTIES = 0x02;
+const ID_ADDITIONAL_STREAMS_INFO = 0x03;
+const ID_MAIN_STREAMS_INFO = 0x04;
+const ID_FILES_INFO = 0x05;
+const ID_PACK_INFO = 0x06;
+const ID_UNPACK_INFO = 0x07;
+const ID_SUBSTREAMS_INFO = 0x08;
+const ID_SIZE = 0x09;
+const ID_CRC = 0x0a;
+const ID_FOLDER = 0x0b;
+const ID_CODERS_UNPACK_SIZE = 0x0c;
+const ID_NUM_UNPACK_STREAM = 0x0d;
+const ID_EMPTY_STREAM = 0x0e;
+const ID_EMPTY_FILE = 0x0f;
+const ID_NAME = 0x11;
+const ID_ENCODED_HEADER = 0x17;
+
+const CODER_NAMES: Record<string, string> = {
+  "00": "copy",
+  "21": "lzma2",
+  "030101": "lzma",
+  "03030103": "bcj",
+  "030401": "ppmd",
+  "040108": "deflate",
+  "040202": "bzip2",
+  "06f10701": "aes",
+};
+
+interface SevenZipCoder {
+  id: string;
+  inStreams: number;
+  outStreams: number;
+}
+
+interface SevenZipFolder {
+  coders: SevenZipCoder[];
+  boundOutStreams: Set<number>;
+  packedStreams: number;
+  unpackSizes: number[];
+}
+
+interface SevenZipStreams {
+  packPosition: number;
+  packSizes: number[];
+  folders: SevenZipFolder[];
+  streamCounts: number[];
+  streamSizes: number[];
+  streamCrcs: Array<number | undefined>;
+}
+
+class HeaderCursor {
+  public offset = 0;
+
+  public constructor(private readonly bytes: Uint8Array) {}
+
+  public readByte(): number {
+    const value = this.bytes[this.offset];
+    if (value === undefined) {
+      throw createArchiveInvalidError("7z", "truncated-header", { offset: this.offset });
+    }
+
+    this.offset += 1;
+    return value;
+  }
+
+  public readNumber(): number {
+    const first = this.readByte();
+    let mask = 0x80;
+    let value = 0;
+    let multiplier = 1;
+
+    for (let index = 0; index < 8; index += 1) {
+      if ((first & mask) === 0) {
+        return value + (first & (mask - 1)) * multiplier;
+      }
+
+      value += this.readByte() * multiplier;
+      multiplier *= 0x100;
+      mask >>= 1;
+    }
+
+    return value;
+  }
+
+  public readUint32(): number {
+    const value = readUint32(this.bytes, this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  public readBytes(length: number): Uint8Array {
+    const value = sliceBytes(this.bytes, this.offset, length);
+    this.offset += length;
+    return value;
+  }
+
+  public readBits(count: number): boolean[] {
+    const bits: boolean[] = [];
+    let current = 0;
+
+    for (let index = 0; index < count; index += 1) {
+      if (index % 8 === 0) {
+        current = this.readByte();
+      }
+      bits.push((current & (0x80 >> index % 8)) !== 0);
+    }
+
+    return bits;
+  }
+
+  public readDefinedBits(count: number): boolean[] {
+    const allDefined = this.readByte();
+    return allDefined !== 0 ? Array.from({ length: count }, () => true) : this.readBits(count);
+  }
+}
+
+/**
+ * Returns undefined when the header itself is compressed (the 7-Zip default),
+ * which needs an LZMA decoder and therefore the archive tool fallback.
+ */
+export function readSevenZipArchive(content: Uint8Array): NativeArchiveEntry[] | undefined {
+  const nextHeaderOffset = readUint64(content, 12);
+  const nextHeaderSize = readUint64(content, 20);
+  const nextHeaderCrc = readUint32(content, 28);
+
+  if (nextHeaderSize === 0) {
+    return [];
+  }
+
+  const header = sliceBytes(content, SIGNATURE_HEADER_SIZE + nextHeaderOffset, nextHeaderSize);
+  if (crc32(header) !== nextHeaderCrc) {
+    throw createArchiveInvalidError("7z", "header-checksum-mismatch");
+  }
+
+  const cursor = new HeaderCursor(header);
+  const kind = cursor.readByte();
+
+  if (kind === ID_ENCODED_HEADER) {
+    return undefined;
+  }
+
+  if (kind !== ID_HEADER) {
+    throw createArchiveInvalidError("7z", "unknown-header", { kind });
+  }
+
+  let streams: SevenZipStreams | undefined;
+  let entries: NativeArchiveEntry[] = [];
+
+  for (let id = cursor.readByte(); id !== ID_END; id = cursor.readByte()) {
+    if (id === ID_ARCHIVE_PROPERTIES) {
+      skipArchiveProperties(cursor);
+    } else if (id === ID_ADDITIONAL_STREAMS_INFO) {
+      readStreamsInfo(cursor);
+    } else if (id === ID_MAIN_STREAMS_INFO) {
+      streams = readStreamsInfo(cursor);
+    } else if (id === ID_FILES_INFO) {
+      entries = readFilesInfo(cursor, content, streams ?? createEmptyStreams());
+    } else {
+      throw createArchiveInvalidError("7z", "unexpected-property", { id });
+    }
+  }
+
+  return entries;
+}
+
+function readStreamsInfo(cursor: HeaderCursor): SevenZipStreams {
+  const streams = createEmptyStreams();
+  let folderCrcs: Array<number | undefined> = [];
+
+  for (let id = cursor.readByte(); id !== ID_END; id = cursor.readByte()) {
+    if (id === ID_PACK_INFO) {
+      streams.packPosition = cursor.readNumber();
+      const count = cursor.readNumber();
+      for (let inner = cursor.readByte(); inner !== ID_END; inner = cursor.readByte()) {
+        if (inner === ID_SIZE) {
+          streams.packSizes = Array.from({ length: count }, () => cursor.readNumber());
+        } else if (inner === ID_CRC) {
+          readDigests(cursor, count);
+        } else {
+          throw createArchiveInvalidError("7z", "unexpected-pack-property", { id: inner });
+        }
+      }
+    } else if (id === ID_UNPACK_INFO) {
+      if (cursor.readByte() !== ID_FOLDER) {
+        throw createArchiveInvalidError("7z", "missing-folders");
+      }
+
+      const count = cursor.readNumber();
+      if (cursor.readByte() !== 0) {
+        throw createArchiveInvalidError("7z", "external-folders");
+      }
+
+      streams.folders = Array.from({ length: count }, () => readFolder(cursor));
+
+      if (cursor.readByte() !== ID_CODERS_UNPACK_SIZE) {
+        throw createArchiveInvalidError("7z", "missing-unpack-sizes");
+      }
+
+      for (const folder of streams.folders) {
+        const outStreams = folder.coders.reduce((total, coder) => total + coder.outStreams, 0);
+        folder.unpackSizes = Array.from({ length: outStreams }, () => cursor.readNumber());
+      }
+
+      for (let inner = cursor.readByte(); inner !== ID_END; inner = cursor.readByte()) {
+        if (inner === ID_CRC) {
+          folderCrcs = readDigests(cursor, count);
+        } else {
+          throw createArchiveInvalidError("7z", "unexpected-unpack-property", { id: inner });
+        }
+      }
+
+      streams.streamCounts = streams.folders.map(() => 1);
+      streams.streamSizes = streams.folders.map(getFolderUnpackSize);
+      streams.streamCrcs = folderCrcs;
+    } else if (id === ID_SUBSTREAMS_INFO) {
+      readSubStreamsInfo(cursor, streams, folderCrcs);
+    } else {
+      throw createArchiveInvalidError("7z", "unexpected-streams-property", { id });
+    }
+  }
+
+  return streams;
+}
+
+function readSubStreamsInfo(
+  cursor: HeaderCursor,
+  streams: SevenZipStreams,
+  folderCrcs: Array<number | undefined>,
+): void {
+  let id = cursor.readByte();
+
+  if (id === ID_NUM_UNPACK_STREAM) {
+    streams.streamCounts = streams.folders.map(() => cursor.readNumber());
+    id = cursor.readByte();
+  }
+
+  const hasSizes = id === ID_SIZE;
+  streams.streamSizes = [];
+  streams.folders.forEach((folder, index) => {
+    const count = streams.streamCounts[index] ?? 1;
+    if (count === 0) {
+      return;
+    }
+
+    let consumed = 0;
+    for (let stream = 1; stream < count && hasSizes; stream += 1) {
+      const size = cursor.readNumber();
+      streams.streamSizes.push(size);
+      consumed += size;
+    }
+    streams.streamSizes.push(getFolderUnpackSize(folder) - consumed);
+  });
+
+  if (hasSizes) {
+    id = cursor.readByte();
+  }
+
+  streams.streamCrcs = [];
+  const pendingCrcs: number[] = [];
+  streams.folders.forEach((_, index) => {
+    const count = streams.streamCounts[index] ?? 1;
+    const knownCrc = count === 1 ? folderCrcs[index] : undefined;
+    for (let stream = 0; stream < count; stream += 1) {
+      if (knownCrc === undefined) {
+        pendingCrcs.push(streams.streamCrcs.length);
+      }
+      streams.streamCrcs.push(knownCrc);
+    }
+  });
+
+  for (; id !== ID_END; id = cursor.readByte()) {
+    if (id !== ID_CRC) {
+      throw createArchiveInvalidError("7z", "unexpected-substreams-property", { id });
+    }
+
+    const digests = readDigests(cursor, pendingCrcs.length);
+    pendingCrcs.forEach((streamIndex, index) => {
+      streams.streamCrcs[streamIndex] = digests[index];
+    });
+  }
+}
+
+function readFolder(cursor: HeaderCursor): SevenZipFolder {
+  const coderCount = cursor.readNumber();
+  const coders: SevenZipCoder[] = [];
+
+  for (let index = 0; index < coderCount; index += 1) {
+    const flags = cursor.readByte();
+    const id = Array.from(cursor.readBytes(flags & 0x0f), (byte) =>
+      byte.toString(16).padStart(2, "0"),
+    ).join("");
+    const complex = (flags & 0x10) !== 0;
+    const inStreams = complex ? cursor.readNumber() : 1;
+    const outStreams = complex ? cursor.readNumber() : 1;
+
+    if ((flags & 0x20) !== 0) {
+      cursor.readBytes(cursor.readNumber());
+    }
+
+    coders.push({ id, inStreams, outStreams });
+  }
+
+  const totalOut = coders.reduce((total, coder) => total + coder.outStreams, 0);
+  const totalIn = coders.reduce((total, coder) => total + coder.inStreams, 0);
+  const boundOutStreams = new Set<number>();
+
+  for (let index = 0; index < totalOut - 1; index += 1) {
+    cursor.readNumber();
+    boundOutStreams.add(cursor.readNumber());
+  }
+
+  const packedStreams = totalIn - (totalOut - 1);
+  if (packedStreams > 1) {
+    for (let index = 0; index < packedStreams; index += 1) {
+      cursor.readNumber();
+    }
+  }
+
+  return {
+    coders,
+    boundOutStreams,
+    packedStreams,
+    unpackSizes: [],
+  };
+}
+
+function readFilesInfo(
+  cursor: HeaderCursor,
+  content: Uint8Array,
+  streams: SevenZipStreams,
+): NativeArchiveEntry[] {
+  const fileCount = cursor.readNumber();
+  let emptyStream: boolean[] = Array.from({ length: fileCount }, () => false);
+  let emptyFile: boolean[] = [];
+  let names: string[] = [];
+
+  for (let type = cursor.readNumber(); type !== ID_END; type = cursor.readNumber()) {
+    const size = cursor.readNumber();
+    const end = cursor.offset + size;
+
+    if (type === ID_EMPTY_STREAM) {
+      emptyStream = cursor.readBits(fileCount);
+    } else if (type === ID_EMPTY_FILE) {
+      emptyFile = cursor.readBits(emptyStream.filter(Boolean).length);
+    } else if (type === ID_NAME) {
+      if (cursor.readByte() !== 0) {
+        throw createArchiveInvalidError("7z", "external-names");
+      }
+      names = decodeUtf16Names(cursor.readBytes(end - cursor.offset));
+    }
+
+    cursor.offset = end;
+  }
+
+  const folderStreamStarts = buildFolderStreamStarts(streams);
+  const entries: NativeArchiveEntry[] = [];
+  let emptyIndex = 0;
+  let streamIndex = 0;
+
+  for (let index = 0; index < fileCount; index += 1) {
+    const path = normalizeEntryPath(names[index] ?? `entry-${index}`);
+
+    if (emptyStream[index]) {
+      const isFile = emptyFile[emptyIndex] ?? false;
+      emptyIndex += 1;
+      entries.push({
+        path,
+        size: 0,
+        packedSize: 0,
+        method: "store",
+        directory: !isFile,
+        encrypted: false,
+        read: isFile ? () => new Uint8Array(0) : undefined,
+      });
+      continue;
+    }
+
+    const folderIndex = folderStreamStarts.findLastIndex((start) => start <= streamIndex);
+    const folder = streams.folders[folderIndex];
+    const size = streams.streamSizes[streamIndex] ?? 0;
+    const crc = streams.streamCrcs[streamIndex];
+    const offsetInFolder = streams.streamSizes
+      .slice(folderStreamStarts[folderIndex] ?? 0, streamIndex)
+      .reduce((total, value) => total + value, 0);
+    const methods = folder?.coders.map((coder) => CODER_NAMES[coder.id] ?? coder.id) ?? [];
+    const copyOnly = folder !== undefined && methods.length === 1 && methods[0] === "copy";
+
+    entries.push({
+      path,
+      size,
+      packedSize: copyOnly ? size : 0,
+      method: methods.join("+"),
+      directory: false,
+      encrypted: methods.includes("aes"),
+      read: copyOnly
+        ? () => readCopiedStream(content, streams, folderIndex, offsetInFolder, size, crc, path)
+        : undefined,
+    });
+    streamIndex += 1;
+  }
+
+  return entries;
+}
+
+function readCopiedStream(
+  content: Uint8Array,
+  streams: SevenZipStreams,
+  folderIndex: number,
+  offsetInFolder: number,
+  size: number,
+  crc: number | undefined,
+  path: string,
+): Uint8Array {
+  const firstPackStream = streams.folders
+    .slice(0, folderIndex)
+    .reduce((total, folder) => total + folder.packedStreams, 0);
+  const packOffset = streams.packSizes
+    .slice(0, firstPackStream)
+    .reduce((total, value) => total + value, SIGNATURE_HEADER_SIZE + streams.packPosition);
+
+  const data = sliceBytes(content, packOffset + offsetInFolder, size);
+  if (crc !== undefined && crc32(data) !== crc) {
+    throw createArchiveInvalidError("7z", "checksum-mismatch", { entry: path });
+  }
+
+  return data;
+}
+
+function buildFolderStreamStarts(streams: SevenZipStreams): number[] {
+  const starts: number[] = [];
+  let total = 0;
+
+  streams.folders.forEach((_, index) => {
+    starts.push(total);
+    total += streams.streamCounts[index] ?? 1;
+  });
+
+  return starts;
+}
+
+function getFolderUnpackSize(folder: SevenZipFolder): number {
+  for (let index = folder.unpackSizes.length - 1; index >= 0; index -= 1) {
+    if (!folder.boundOutStreams.has(index)) {
+      return folder.unpackSizes[index];
+    }
+  }
+
+  return 0;
+}
+
+function readDigests(cursor: HeaderCursor, count: number): Array<number | undefined> {
+  const defined = cursor.readDefinedBits(count);
+  return defined.map((isDefined) => (isDefined ? cursor.readUint32() : undefined));
+}
+
+function skipArchiveProperties(cursor: HeaderCursor): void {
+  for (let type = cursor.readByte(); type !== ID_END; type = cursor.readByte()) {
+    cursor.readBytes(cursor.readNumber());
+  }
+}
+
+function decodeUtf16Names(bytes: Uint8Array): string[] {
+  const decoded = new TextDecoder("utf-16le").decode(bytes);
+  return decoded.split("\u0000").slice(0, -1);
+}
+
+function createEmptyStreams(): SevenZipStreams {
+  return {
+    packPosition: 0,
+    packSizes: [],
+    folders: [],
+    streamCounts: [],
+    streamSizes: [],
+    streamCrcs: [],
+  };
+}
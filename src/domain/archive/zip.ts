@@ -0,0 +1,163 @@
+import { inflateRawSync } from "node:zlib";
+
+import { CliAppError } from "../../core/index.js";
+
+import {
+  crc32,
+  createArchiveInvalidError,
+  decodeEntryName,
+  normalizeEntryPath,
+  readUint16,
+  readUint32,
+  sliceBytes,
+  type NativeArchiveEntry,
+} from "./binary.js";
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_DIRECTORY_MIN_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8_NAME = 0x0800;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const ZIP_METHOD_NAMES: Record<number, string> = {
+  0: "store",
+  8: "deflate",
+  9: "deflate64",
+  12: "bzip2",
+  14: "lzma",
+  93: "zstd",
+  95: "xz",
+  99: "aes",
+};
+
+interface ZipCentralRecord {
+  path: string;
+  method: number;
+  crc: number;
+  size: number;
+  packedSize: number;
+  localHeaderOffset: number;
+}
+
+export function readZipArchive(content: Uint8Array): NativeArchiveEntry[] {
+  const endOffset = findEndOfCentralDirectory(content);
+  if (endOffset === undefined) {
+    throw createArchiveInvalidError("zip", "missing-end-of-central-directory");
+  }
+
+  const entryCount = readUint16(content, endOffset + 10);
+  const directoryOffset = readUint32(content, endOffset + 16);
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new CliAppError({
+      code: "E_ARCHIVE_UNSUPPORTED",
+      message: "ZIP64 archives are not supported",
+      details: {
+        format: "zip",
+        reason: "zip64",
+      },
+    });
+  }
+
+  const entries: NativeArchiveEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (readUint32(content, offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw createArchiveInvalidError("zip", "bad-central-directory", { offset });
+    }
+
+    const flags = readUint16(content, offset + 8);
+    const method = readUint16(content, offset + 10);
+    const nameLength = readUint16(content, offset + 28);
+    const extraLength = readUint16(content, offset + 30);
+    const commentLength = readUint16(content, offset + 32);
+    const rawPath = normalizeEntryPath(
+      decodeEntryName(
+        sliceBytes(content, offset + 46, nameLength),
+        (flags & FLAG_UTF8_NAME) !== 0,
+      ),
+    );
+
+    const directory = rawPath.endsWith("/");
+    const encrypted = (flags & FLAG_ENCRYPTED) !== 0;
+    const record: ZipCentralRecord = {
+      path: directory ? rawPath.slice(0, -1) : rawPath,
+      method,
+      crc: readUint32(content, offset + 16),
+      packedSize: readUint32(content, offset + 20),
+      size: readUint32(content, offset + 24),
+      localHeaderOffset: readUint32(content, offset + 42),
+    };
+
+    const nativelyReadable =
+      !directory && !encrypted && (method === METHOD_STORE || method === METHOD_DEFLATE);
+
+    entries.push({
+      path: record.path,
+      size: record.size,
+      packedSize: record.packedSize,
+      method: ZIP_METHOD_NAMES[method] ?? `method-${method}`,
+      directory,
+      encrypted,
+      read: nativelyReadable ? () => extractZipRecord(content, record) : undefined,
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function extractZipRecord(content: Uint8Array, record: ZipCentralRecord): Uint8Array {
+  const headerOffset = record.localHeaderOffset;
+  if (readUint32(content, headerOffset) !== LOCAL_HEADER_SIGNATURE) {
+    throw createArchiveInvalidError("zip", "bad-local-header", { entry: record.path });
+  }
+
+  const nameLength = readUint16(content, headerOffset + 26);
+  const extraLength = readUint16(content, headerOffset + 28);
+  const packed = sliceBytes(
+    content,
+    headerOffset + 30 + nameLength + extraLength,
+    record.packedSize,
+  );
+
+  let data: Uint8Array;
+  if (record.method === METHOD_STORE) {
+    data = packed;
+  } else {
+    try {
+      data = new Uint8Array(inflateRawSync(packed));
+    } catch (error) {
+      throw createArchiveInvalidError("zip", "inflate-failed", {
+        entry: record.path,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (data.byteLength !== record.size || crc32(data) !== record.crc) {
+    throw createArchiveInvalidError("zip", "checksum-mismatch", { entry: record.path });
+  }
+
+  return data;
+}
+
+function findEndOfCentralDirectory(content: Uint8Array): number | undefined {
+  const lowerBound = Math.max(0, content.length - END_OF_DIRECTORY_MIN_SIZE - MAX_COMMENT_LENGTH);
+
+  for (let offset = content.length - END_OF_DIRECTORY_MIN_SIZE; offset >= lowerBound; offset -= 1) {
+    if (readUint32(content, offset) === END_OF_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,146 @@
+import {
+  CHARACTER_PAIRS,
+  PHRASE_PAIRS,
+  TRADITIONAL_VARIANTS,
+} from "./chinese-script/dictionary.js";
+
+export type ChineseScript = "zh-cn" | "zh-tw";
+
+export interface ScriptConversionResult {
+  text: string;
+  /** Characters that differ from the input. */
+  changed: number;
+}
+
+interface ScriptTable {
+  characters: Map<string, string>;
+  phrases: Map<string, string>;
+  longestPhrase: number;
+}
+
+export const CHINESE_SCRIPTS: ChineseScript[] = ["zh-cn", "zh-tw"];
+
+const CHINESE_LANGUAGES = new Set(["zh", ...CHINESE_SCRIPTS]);
+
+const TABLES = buildTables();
+
+/**
+ * Converts between Simplified (`zh-cn`) and Traditional (`zh-tw`) characters
+ * offline. Phrases are matched longest-first so ambiguous characters such as
+ * 发 (發/髮) or 干 (幹/乾) follow their context; everything else maps one
+ * character at a time and unknown characters pass through.
+ */
+export function convertChineseScript(text: string, to: ChineseScript): ScriptConversionResult {
+  const table = TABLES[to];
+  const characters = Array.from(text);
+  let output = "";
+  let changed = 0;
+
+  for (let index = 0; index < characters.length; ) {
+    const phrase = matchPhrase(table, characters, index);
+    const source = phrase?.source ?? characters[index];
+    const target = phrase?.target ?? table.characters.get(source) ?? source;
+
+    output += target;
+    changed += countChanged(source, target);
+    index += Array.from(source).length;
+  }
+
+  return { text: output, changed };
+}
+
+export function isChineseLanguage(language: string): boolean {
+  return CHINESE_LANGUAGES.has(language);
+}
+
+export function isChineseScript(language: string): language is ChineseScript {
+  return (CHINESE_SCRIPTS as string[]).includes(language);
+}
+
+/**
+ * The script a candidate in `language` has to be converted to for a user who
+ * asked for `preferred`, or undefined when no conversion applies.
+ */
+export function resolveScriptConversion(
+  language: string,
+  preferred: string | undefined,
+): ChineseScript | undefined {
+  if (preferred === undefined || !isChineseScript(preferred)) {
+    return undefined;
+  }
+
+  return language !== preferred && isChineseLanguage(language) ? preferred : undefined;
+}
+
+/**
+ * Characters written one way in Simplified and another in Traditional text,
+ * counted by the script they belong to; shared characters are skipped.
+ */
+export function countScriptCharacters(text: string): Record<ChineseScript, number> {
+  const counts: Record<ChineseScript, number> = { "zh-cn": 0, "zh-tw": 0 };
+  for (const character of text) {
+    const simplified = TABLES["zh-tw"].characters.has(character);
+    const traditional = TABLES["zh-cn"].characters.has(character);
+    if (simplified !== traditional) {
+      counts[simplified ? "zh-cn" : "zh-tw"] += 1;
+    }
+  }
+
+  return counts;
+}
+
+function matchPhrase(
+  table: ScriptTable,
+  characters: string[],
+  index: number,
+): { source: string; target: string } | undefined {
+  const maxLength = Math.min(table.longestPhrase, characters.length - index);
+  for (let length = maxLength; length >= 2; length -= 1) {
+    const source = characters.slice(index, index + length).join("");
+    const target = table.phrases.get(source);
+    if (target !== undefined) {
+      return { source, target };
+    }
+  }
+
+  return undefined;
+}
+
+function countChanged(source: string, target: string): number {
+  const left = Array.from(source);
+  const right = Array.from(target);
+  return left.reduce((count, character, index) => count + (character === right[index] ? 0 : 1), 0);
+}
+
+function buildTables(): Record<ChineseScript, ScriptTable> {
+  const toTraditional = new Map<string, string>();
+  const toSimplified = new Map<string, string>();
+  const pairs = Array.from(CHARACTER_PAIRS);
+  for (let index = 0; index + 1 < pairs.length; index += 2) {
+    const [simplified, traditional] = [pairs[index], pairs[index + 1]];
+    if (!toTraditional.has(simplified)) {
+      toTraditional.set(simplified, traditional);
+    }
+    if (!toSimplified.has(traditional)) {
+      toSimplified.set(traditional, simplified);
+    }
+  }
+
+  const variants = Array.from(TRADITIONAL_VARIANTS);
+  for (let index = 0; index + 1 < variants.length; index += 2) {
+    if (!toSimplified.has(variants[index])) {
+      toSimplified.set(variants[index], variants[index + 1]);
+    }
+  }
+
+  const phrasesToTraditional = new Map(PHRASE_PAIRS);
+  const phrasesToSimplified = new Map(
+    PHRASE_PAIRS.map(([simplified, traditional]) => [traditional, simplified]),
+  );
+  const longestPhrase = Math.max(...PHRASE_PAIRS.map(([phrase]) => Array.from(phrase).length));
+
+  return {
+    "zh-tw": { characters: toTraditional, phrases: phrasesToTraditional, longestPhrase },
+    "zh-cn": { characters: toSimplified, phrases: phrasesToSimplified, longestPhrase },
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Bundled Simplified/Traditional tables (Taiwan forms). Each string is a run
+ * of `simplified + traditional` character pairs; the first pair for a
+ * character is its default, phrases override ambiguous characters in context.
+ */
+export const CHARACTER_PAIRS = [
+  "爱愛碍礙袄襖罢罷摆擺败敗办辦帮幫绑綁宝寶报報备備贝貝笔筆币幣毕畢边邊变變标標宾賓",
+  "饼餅补補参參蚕蠶残殘惭慚惨慘灿燦仓倉层層产產长長尝嘗厂廠场場畅暢车車彻徹尘塵陈陳",
+  "衬襯称稱惩懲诚誠迟遲齿齒冲衝虫蟲丑醜筹籌处處触觸传傳创創疮瘡闯闖锤錘词詞辞辭聪聰",
+  "从從丛叢错錯达達带帶单單担擔胆膽弹彈当當挡擋党黨导導岛島灯燈邓鄧敌敵递遞点點电電",
+  "垫墊钓釣调調顶頂订訂东東动動冻凍斗鬥独獨读讀赌賭断斷队隊对對吨噸夺奪堕墮额額儿兒",
+  "尔爾饿餓发發罚罰阀閥范範饭飯访訪纺紡飞飛废廢费費坟墳奋奮愤憤粪糞丰豐风風疯瘋冯馮",
+  "缝縫凤鳳肤膚妇婦复復负負该該盖蓋干乾赶趕冈岡刚剛钢鋼纲綱岗崗个個给給巩鞏贡貢构構",
+  "购購够夠顾顧关關观觀馆館惯慣贯貫广廣归歸规規轨軌贵貴柜櫃国國过過锅鍋汉漢号號贺賀",
+  "红紅后後护護沪滬话話划劃画畫华華欢歡环環还還换換唤喚黄黃谎謊挥揮辉輝汇匯会會绘繪",
+  "贿賄荤葷浑渾伙夥获獲货貨祸禍机機积積鸡雞级級极極际際计計记記纪紀济濟继繼迹跡挤擠",
+  "绩績价價驾駕坚堅间間艰艱监監拣揀俭儉减減检檢简簡见見舰艦剑劍键鍵荐薦将將奖獎讲講",
+  "酱醬胶膠骄驕娇嬌脚腳饺餃绞絞较較轿轎阶階节節洁潔结結届屆紧緊仅僅尽盡进進劲勁惊驚",
+  "经經径徑静靜镜鏡竞競旧舊举舉剧劇惧懼据據觉覺绝絕军軍开開凯凱壳殼课課垦墾恳懇库庫",
+  "裤褲块塊夸誇宽寬矿礦亏虧扩擴阔闊蜡蠟腊臘来來赖賴兰蘭拦攔栏欄蓝藍篮籃览覽懒懶烂爛",
+  "滥濫劳勞乐樂垒壘类類泪淚离離里裡礼禮丽麗厉厲励勵历歷连連联聯怜憐帘簾脸臉练練炼煉",
+  "恋戀凉涼粮糧两兩辆輛谅諒疗療辽遼猎獵临臨邻鄰灵靈岭嶺领領龄齡刘劉浏瀏龙龍楼樓芦蘆",
+  "炉爐卢盧陆陸录錄虑慮乱亂轮輪论論罗羅逻邏锣鑼骡騾驴驢铝鋁绿綠妈媽马馬吗嗎骂罵买買",
+  "卖賣麦麥满滿馒饅猫貓贸貿么麼没沒门門们們梦夢弥彌谜謎绵綿庙廟灭滅鸣鳴铭銘谋謀亩畝",
+  "难難脑腦恼惱闹鬧内內拟擬鸟鳥宁寧农農浓濃脓膿欧歐盘盤赔賠喷噴鹏鵬骗騙飘飄贫貧频頻",
+  "苹蘋凭憑评評扑撲铺鋪齐齊骑騎岂豈启啟气氣弃棄迁遷钱錢铅鉛浅淺谦謙枪槍墙牆抢搶桥橋",
+  "乔喬侨僑窍竅亲親轻輕倾傾庆慶穷窮区區驱驅趋趨权權劝勸确確让讓饶饒扰擾热熱认認荣榮",
+  "软軟锐銳润潤洒灑伞傘丧喪扫掃杀殺纱紗晒曬伤傷赏賞烧燒绍紹设設摄攝审審婶嬸肾腎渗滲",
+  "声聲绳繩胜勝圣聖师師诗詩狮獅湿濕时時识識实實势勢视視试試饰飾适適释釋寿壽兽獸书書",
+  "输輸属屬术術树樹数數帅帥双雙谁誰税稅顺順说說硕碩丝絲饲飼苏蘇诉訴肃肅虽雖随隨岁歲",
+  "孙孫损損缩縮锁鎖态態摊攤滩灘瘫癱谈談叹嘆汤湯烫燙涛濤讨討腾騰题題体體厅廳听聽头頭",
+  "图圖团團涂塗颓頹驼駝袜襪弯彎湾灣顽頑万萬网網为為违違围圍伟偉卫衛纬緯谓謂温溫闻聞",
+  "稳穩问問窝窩卧臥务務误誤雾霧无無乌烏吴吳戏戲细細虾蝦吓嚇峡峽狭狹厦廈鲜鮮闲閒贤賢",
+  "显顯险險县縣现現线線宪憲献獻乡鄉响響详詳项項协協胁脅写寫泻瀉谢謝兴興选選续續绪緒",
+  "学學寻尋训訓讯訊压壓鸭鴨亚亞烟煙严嚴盐鹽颜顏验驗艳豔扬揚阳陽杨楊养養样樣痒癢药藥",
+  "爷爺叶葉页頁业業医醫仪儀遗遺亿億义義艺藝忆憶议議异異阴陰银銀饮飲隐隱应應樱櫻鹰鷹",
+  "营營蝇蠅赢贏佣傭拥擁涌湧优優忧憂邮郵犹猶鱼魚与與语語狱獄预預誉譽园園员員圆圓远遠",
+  "愿願约約跃躍阅閱云雲运運杂雜灾災载載赞讚脏髒凿鑿枣棗灶竈责責则則泽澤贼賊闸閘诈詐",
+  "斋齋债債毡氈盏盞战戰张張涨漲帐帳胀脹账賬赵趙这這针針侦偵阵陣镇鎮争爭睁睜郑鄭证證",
+  "织織职職执執纸紙质質钟鐘种種肿腫众眾昼晝猪豬烛燭嘱囑筑築铸鑄专專砖磚转轉赚賺庄莊",
+  "装裝壮壯状狀准準浊濁资資总總纵縱邹鄒组組钻鑽请請着著几幾丢丟于於仑侖伦倫伪偽侠俠",
+  "侣侶侧側俩倆偿償储儲兑兌兹茲册冊决決况況净淨凑湊击擊删刪刹剎剂劑勋勳匀勻却卻厌厭",
+  "厕廁厢廂厨廚叙敘叠疊吕呂呐吶呜嗚咏詠哑啞哗嘩啰囉坏壞坛壇坝壩坠墜垄壟夹夾妆妝娱娛",
+  "娄婁婴嬰宠寵宫宮强強怀懷恶惡悦悅忏懺户戶抚撫拢攏拨撥择擇挂掛挣掙掷擲揽攬搀攙摇搖",
+  "撑撐旷曠昙曇晋晉晓曉暂暫条條杰傑栋棟档檔横橫毁毀毙斃沟溝泼潑测測渐漸渔漁滚滾滞滯",
+  "潜潛烦煩牵牽玛瑪盗盜码碼础礎祷禱窃竊笼籠签簽纯純纷紛终終绕繞统統维維综綜缓緩编編",
+  "缘緣肠腸莱萊萝蘿蚀蝕许許译譯诞誕询詢诸諸谊誼谨謹财財贴貼赛賽赠贈践踐踪蹤轰轟辈輩",
+  "辑輯迈邁钥鑰铁鐵铃鈴链鏈销銷闪閃闭閉闷悶韩韓须須顿頓饱飽驶駛鲁魯鸦鴉杆桿秆稈锡錫",
+  "骇駭铜銅锦錦鉴鑑镑鎊馈饋鸽鴿鹅鵝鹤鶴龟龜阁閣闺閨阎閻贞貞贩販贪貪贬貶贷貸贱賤赋賦",
+  "赐賜赎贖赘贅讽諷讶訝诀訣诅詛诊診诫誡诬誣诱誘诲誨谍諜谐諧谣謠谱譜谭譚纠糾纤纖纳納",
+  "纽紐纹紋绅紳绒絨络絡绣繡绢絹绸綢绽綻缀綴缆纜缉緝缎緞缔締缕縷缠纏缤繽钉釘钙鈣钝鈍",
+  "钞鈔钦欽钩鉤钮鈕钳鉗铲鏟锋鋒锯鋸锻鍛镀鍍镶鑲驯馴驰馳驻駐驳駁骚騷骤驟骏駿鹊鵲鸿鴻",
+  "鲍鮑鲨鯊鲸鯨鳄鱷鲤鯉顷頃颁頒颂頌颅顱颗顆颠顛颤顫觅覓轧軋轩軒轴軸辐輻辖轄辕轅辗輾",
+  "闩閂闰閏阐闡贮貯赁賃赡贍歼殲陨隕隶隸雏雛靓靚韧韌颈頸馅餡驹駒骆駱鳞鱗鸠鳩龚龔蕴蘊",
+  "莲蓮荡蕩萨薩蔼藹苍蒼茧繭莹瑩莺鶯蒋蔣",
+].join("");
+
+/** Traditional variants that only map one way, as `traditional + simplified` pairs. */
+export const TRADITIONAL_VARIANTS = [
+  "幹干裏里髮发麵面隻只臺台颱台係系繫系鬆松餘余曆历遊游製制複复瞭了沖冲鍾钟贊赞臟脏",
+  "徵征噁恶週周嚮向捲卷託托纔才祕秘蹟迹佈布鹹咸彙汇喫吃甦苏並并併并傢家歎叹衆众綫线",
+  "爲为僞伪峯峰羣群牀床綵彩",
+].join("");
+
+/** `[simplified, traditional]`; identical pairs keep a character from being converted. */
+export const PHRASE_PAIRS: Array<[string, string]> = [
+  ["头发", "頭髮"],
+  ["理发", "理髮"],
+  ["发型", "髮型"],
+  ["白发", "白髮"],
+  ["干净", "乾淨"],
+  ["干杯", "乾杯"],
+  ["饼干", "餅乾"],
+  ["干燥", "乾燥"],
+  ["干脆", "乾脆"],
+  ["干活", "幹活"],
+  ["干什么", "幹什麼"],
+  ["干吗", "幹嗎"],
+  ["干嘛", "幹嘛"],
+  ["干得好", "幹得好"],
+  ["干掉", "幹掉"],
+  ["干部", "幹部"],
+  ["干劲", "幹勁"],
+  ["干线", "幹線"],
+  ["能干", "能幹"],
+  ["才干", "才幹"],
+  ["实干", "實幹"],
+  ["苦干", "苦幹"],
+  ["树干", "樹幹"],
+  ["主干", "主幹"],
+  ["骨干", "骨幹"],
+  ["干扰", "干擾"],
+  ["干涉", "干涉"],
+  ["干预", "干預"],
+  ["若干", "若干"],
+  ["皇后", "皇后"],
+  ["王后", "王后"],
+  ["太后", "太后"],
+  ["公里", "公里"],
+  ["英里", "英里"],
+  ["里程", "里程"],
+  ["面条", "麵條"],
+  ["方便面", "方便麵"],
+  ["面包", "麵包"],
+  ["手表", "手錶"],
+  ["钟表", "鐘錶"],
+  ["关系", "關係"],
+  ["联系", "聯繫"],
+  ["放松", "放鬆"],
+  ["轻松", "輕鬆"],
+  ["其余", "其餘"],
+  ["多余", "多餘"],
+  ["剩余", "剩餘"],
+  ["复杂", "複雜"],
+  ["重复", "重複"],
+  ["复制", "複製"],
+  ["复印", "複印"],
+  ["日历", "日曆"],
+  ["旅游", "旅遊"],
+  ["游戏", "遊戲"],
+  ["周末", "週末"],
+  ["制作", "製作"],
+  ["制造", "製造"],
+  ["杂志", "雜誌"],
+  ["小丑", "小丑"],
+  ["批准", "批准"],
+  ["准许", "准許"],
+  ["心脏", "心臟"],
+  ["内脏", "內臟"],
+  ["佣金", "佣金"],
+  ["赞助", "贊助"],
+  ["特征", "特徵"],
+  ["象征", "象徵"],
+  ["冲澡", "沖澡"],
+  ["一只", "一隻"],
+  ["两只", "兩隻"],
+  ["台风", "颱風"],
+  ["斗篷", "斗篷"],
+  ["北斗", "北斗"],
+  ["漏斗", "漏斗"],
+  ["乾隆", "乾隆"],
+  ["著名", "著名"],
+  ["著作", "著作"],
+  ["显著", "顯著"],
+  ["名著", "名著"],
+  ["栏杆", "欄杆"],
+];
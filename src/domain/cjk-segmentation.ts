@@ -0,0 +1,62 @@
+import { CJK_STOP_CHARACTERS, CJK_WORDS } from "./cjk-segmentation/dictionary.js";
+
+/** Scripts written without spaces between words, plus Hangul whose words run long. */
+export const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/u;
+
+const DICTIONARY = new Set(CJK_WORDS.flatMap((line) => line.split(" ")));
+const LONGEST_WORD = Math.max(...[...DICTIONARY].map((word) => Array.from(word).length));
+const STOP_CHARACTERS = new Set(Array.from(CJK_STOP_CHARACTERS));
+
+/**
+ * Splits a run of CJK characters into tokens. Dictionary words are matched
+ * longest-first and kept whole (黑客帝国 → 黑客, 帝国); stop characters end a
+ * stretch and are dropped; other stretches become overlapping character
+ * bigrams (肖申克 → 肖申, 申克), or a single token when one character long.
+ */
+export function segmentCjk(run: string): string[] {
+  const characters = Array.from(run);
+  const tokens: string[] = [];
+  let unknown: string[] = [];
+  const flush = () => {
+    tokens.push(...toBigrams(unknown));
+    unknown = [];
+  };
+
+  for (let index = 0; index < characters.length; ) {
+    const word = matchWord(characters, index);
+    if (word !== undefined) {
+      flush();
+      tokens.push(word);
+      index += Array.from(word).length;
+    } else if (STOP_CHARACTERS.has(characters[index])) {
+      flush();
+      index += 1;
+    } else {
+      unknown.push(characters[index]);
+      index += 1;
+    }
+  }
+  flush();
+
+  return tokens;
+}
+
+function matchWord(characters: string[], index: number): string | undefined {
+  const maxLength = Math.min(LONGEST_WORD, characters.length - index);
+  for (let length = maxLength; length >= 2; length -= 1) {
+    const candidate = characters.slice(index, index + length).join("");
+    if (DICTIONARY.has(candidate)) {
+      return candidate;
+    }
+  }
+
+  return undefined;
+}
+
+function toBigrams(characters: string[]): string[] {
+  if (characters.length < 2) {
+    return characters.slice();
+  }
+
+  return characters.slice(1).map((character, index) => characters[index] + character);
+}
@@ -0,0 +1,20 @@
+/**
+ * Bundled words kept whole when segmenting Chinese text, in Simplified and
+ * Traditional forms: common title words and subtitle-release vocabulary.
+ * Anything not listed falls back to character bigrams.
+ */
+export const CJK_WORDS = [
+  "黑客 帝国 帝國 星际 星際 穿越 盗梦 盜夢 空间 空間 泰坦尼克 阿凡达 阿凡達 救赎 救贖",
+  "阿甘 正传 正傳 教父 低俗 小说 小說 俱乐部 俱樂部 骑士 騎士 指环王 指環王 魔戒 哈利波特",
+  "千与千寻 千與千尋 名字 寄生虫 寄生蟲 动物 動物 城市 未来 未來 引力 小丑 沙丘 奥本海默",
+  "奧本海默 流浪 地球 绝命 絕命 毒师 毒師 权力 權力 游戏 遊戲 冰与火之歌 冰與火之歌 老友记",
+  "老友記 生活 大爆炸 神探 夏洛克 福尔摩斯 福爾摩斯 怪奇 物语 物語 越狱 越獄 行尸走肉",
+  "行屍走肉 世界 黑镜 黑鏡 复仇者 復仇者 联盟 聯盟 蜘蛛侠 蜘蛛俠 钢铁侠 鋼鐵俠 蝙蝠侠",
+  "蝙蝠俠 变形金刚 變形金剛 速度与激情 速度與激情 侏罗纪 侏羅紀 公园 公園 超人 英雄",
+  "美国 美國 中国 中國 日本 韩国 韓國 香港 台湾 台灣 电影 電影 剧场版 劇場版 纪录片 紀錄片",
+  "动画 動畫 电视剧 電視劇 字幕 中字 中英 双语 雙語 简体 簡體 繁体 繁體 特效 官方 高清 蓝光",
+  "藍光 导演 導演 剪辑 剪輯 加长 加長 版本 国语 國語 粤语 粵語 英语 英語 日语 日語",
+];
+
+/** Particles dropped from Chinese and Japanese text: 的, 之, の, ... */
+export const CJK_STOP_CHARACTERS = "的之与與和及了在の";
@@ -0,0 +1,503 @@
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join } from "node:path";
+
+import { CliAppError, isCliAppError, type CliWarning } from "../core/index.js";
+
+import { NAMING_SCHEMES } from "./naming.js";
+import { HEARING_IMPAIRED_MODES, isRankingWeightKey, RANKING_WEIGHT_KEYS } from "./ranking.js";
+import { LINT_RULE_IDS } from "./subtitle-lint.js";
+import { SUBTITLE_FORMATS } from "./subtitles.js";
+
+/** `weights` values map ranking weight names to numbers. */
+export type ConfigValue = string | string[] | number | Record<string, number>;
+
+/** Lowest to highest precedence; command-line flags override all of them. */
+export const CONFIG_SOURCES = ["user", "project", "env"] as const;
+
+export type ConfigSource = (typeof CONFIG_SOURCES)[number];
+
+export interface ConfigKey {
+  key: string;
+  type: "string" | "list" | "integer" | "weights";
+  description: string;
+  choices?: readonly string[];
+  /** Flag the value is a default for; `subhd.*` keys configure the provider instead. */
+  flag?: string;
+  /** Flags that, when passed, replace the configured value; defaults to `flag`. */
+  overriddenBy?: string[];
+  /** Commands that take `flag`, or that reach the provider a `subhd.*` key configures. */
+  commands?: string[];
+}
+
+export interface ConfigEntry {
+  key: string;
+  value: ConfigValue;
+  source: ConfigSource;
+  /** File path or environment variable the value came from. */
+  origin: string;
+}
+
+/** A config file or value that could not be read; the rest of the config still applies. */
+export interface ConfigProblem {
+  source: ConfigSource;
+  origin: string;
+  error: CliAppError;
+}
+
+export interface LoadedConfig {
+  userPath: string;
+  /** Nearest `.subchefrc` from the working directory up, when one exists. */
+  projectPath?: string;
+  entries: Map<string, ConfigEntry>;
+  problems: ConfigProblem[];
+  /** Unknown keys, which are ignored. */
+  warnings: CliWarning[];
+}
+
+export interface ConfigEnvironment {
+  env: NodeJS.ProcessEnv;
+  cwd: string;
+  readTextFile: (path: string) => Promise<string | undefined>;
+}
+
+export const PROJECT_CONFIG_FILE = ".subchefrc";
+
+const SEARCH_COMMANDS = ["search", "fetch", "scan", "explain"];
+const NAMING_COMMANDS = ["fetch", "download", "scan"];
+const PROFILE_COMMANDS = ["search", "fetch", "download", "scan", "explain"];
+const SUBHD_COMMANDS = ["search", "fetch", "download", "scan", "explain", "doctor"];
+
+export const CONFIG_KEYS: readonly ConfigKey[] = [
+  {
+    key: "lang",
+    type: "list",
+    description: "Preferred subtitle languages",
+    flag: "lang",
+    overriddenBy: ["lang", "language"],
+    commands: SEARCH_COMMANDS,
+  },
+  {
+    key: "providers",
+    type: "list",
+    description: "Providers to search, or all",
+    flag: "providers",
+    overriddenBy: ["provider", "providers"],
+    commands: SEARCH_COMMANDS,
+  },
+  {
+    key: "limit",
+    type: "integer",
+    description: "Candidates to rank",
+    flag: "limit",
+    commands: SEARCH_COMMANDS,
+  },
+  {
+    key: "weights",
+    type: "weights",
+    description: "Ranking weight overrides, e.g. format.ass=10",
+    flag: "weight",
+    commands: SEARCH_COMMANDS,
+  },
+  {
+    key: "prefer-format",
+    type: "string",
+    description: "Subtitle format ranked ahead of the others",
+    choices: SUBTITLE_FORMATS,
+    flag: "prefer-format",
+    commands: SEARCH_COMMANDS,
+  },
+  {
+    key: "hi",
+    type: "string",
+    description: "Hearing-impaired subtitles: include, exclude or prefer",
+    choices: HEARING_IMPAIRED_MODES,
+    flag: "hi",
+    commands: SEARCH_COMMANDS,
+  },
+  {
+    key: "lang-fallback",
+    type: "list",
+    description: "Language fallback chains, e.g. zh-hk:zh-tw:zh",
+    flag: "lang-fallback",
+    commands: SEARCH_COMMANDS,
+  },
+  {
+    key: "lint-disable",
+    type: "list",
+    description: "Lint rules to skip, e.g. cue-overlap,html-tags",
+    choices: LINT_RULE_IDS,
+    flag: "lint-disable",
+    commands: ["lint", "fetch", "download"],
+  },
+  {
+    key: "output",
+    type: "string",
+    description: "Output file or directory",
+    flag: "output",
+    overriddenBy: ["output", "video"],
+    commands: ["fetch", "download"],
+  },
+  {
+    key: "format",
+    type: "string",
+    description: "Subtitle format to convert downloads to",
+    choices: SUBTITLE_FORMATS,
+    flag: "format",
+    commands: NAMING_COMMANDS,
+  },
+  {
+    key: "naming",
+    type: "string",
+    description: "Output naming scheme",
+    choices: NAMING_SCHEMES,
+    flag: "naming",
+    overriddenBy: ["naming", "naming-template"],
+    commands: NAMING_COMMANDS,
+  },
+  {
+    key: "naming-template",
+    type: "string",
+    description: "Output naming template",
+    flag: "naming-template",
+    overriddenBy: ["naming", "naming-template"],
+    commands: NAMING_COMMANDS,
+  },
+  {
+    key: "profile",
+    type: "string",
+    description: "Profile used when --profile is not given",
+    flag: "profile",
+    commands: PROFILE_COMMANDS,
+  },
+  {
+    key: "subhd.base-url",
+    type: "string",
+    description: "SubHD base URL",
+    commands: SUBHD_COMMANDS,
+  },
+  {
+    key: "subhd.timeout-ms",
+    type: "integer",
+    description: "SubHD request timeout",
+    commands: SUBHD_COMMANDS,
+  },
+  {
+    key: "subhd.retries",
+    type: "integer",
+    description: "SubHD retries per request",
+    commands: SUBHD_COMMANDS,
+  },
+  {
+    key: "subhd.backoff-ms",
+    type: "integer",
+    description: "SubHD initial retry backoff",
+    commands: SUBHD_COMMANDS,
+  },
+];
+
+/** `config` itself and the commands some key applies to; the others never read config. */
+export function commandReadsConfig(command: string): boolean {
+  return (
+    command === "config" ||
+    CONFIG_KEYS.some((definition) => definition.commands?.includes(command))
+  );
+}
+
+export function findConfigKey(key: string): ConfigKey | undefined {
+  return CONFIG_KEYS.find((definition) => definition.key === key);
+}
+
+/** `subhd.timeout-ms` -> `SUBCHEF_SUBHD_TIMEOUT_MS`. */
+export function configEnvName(key: string): string {
+  return `SUBCHEF_${key.toUpperCase().replace(/[.-]/g, "_")}`;
+}
+
+/** `$XDG_CONFIG_HOME/subchef/config.json`, falling back to `~/.config`. */
+export function resolveUserConfigPath(env: NodeJS.ProcessEnv): string {
+  const base =
+    env.XDG_CONFIG_HOME !== undefined && isAbsolute(env.XDG_CONFIG_HOME)
+      ? env.XDG_CONFIG_HOME
+      : join(homedir(), ".config");
+  return join(base, "subchef", "config.json");
+}
+
+/** The config of a command that does not read one. */
+export function createEmptyConfig(env: NodeJS.ProcessEnv): LoadedConfig {
+  return { userPath: resolveUserConfigPath(env), entries: new Map(), problems: [], warnings: [] };
+}
+
+/**
+ * Reads the user config, the nearest project `.subchefrc` and `SUBCHEF_*`
+ * variables; a later source replaces a key set by an earlier one. A file
+ * that is not valid JSON or a value of the wrong type is collected in
+ * `problems` and skipped, so that `sub config` still runs; an unknown key
+ * is a warning.
+ */
+export async function loadConfig(environment: ConfigEnvironment): Promise<LoadedConfig> {
+  const config = createEmptyConfig(environment.env);
+
+  const userText = await environment.readTextFile(config.userPath);
+  if (userText !== undefined) {
+    addFileEntries(config, userText, "user", config.userPath);
+  }
+
+  const project = await findProjectConfig(environment);
+  if (project !== undefined) {
+    config.projectPath = project.path;
+    addFileEntries(config, project.text, "project", project.path);
+  }
+
+  for (const definition of CONFIG_KEYS) {
+    const name = configEnvName(definition.key);
+    const raw = environment.env[name];
+    if (raw !== undefined && raw.trim().length > 0) {
+      addEntry(config, definition, raw, "env", name);
+    }
+  }
+
+  return config;
+}
+
+export function parseJsonObject(text: string, path: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new CliAppError({
+      code: "E_ARG_INVALID",
+      message: `Config file is not valid JSON: ${path}`,
+      details: {
+        path,
+        reason: error instanceof Error ? error.message : String(error),
+      },
+    });
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new CliAppError({
+      code: "E_ARG_INVALID",
+      message: `Config file must contain a JSON object: ${path}`,
+      details: { path },
+    });
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+export function serializeConfigFile(values: Record<string, unknown>): string {
+  const sorted = Object.fromEntries(
+    Object.entries(values).sort(([left], [right]) => left.localeCompare(right)),
+  );
+  return `${JSON.stringify(sorted, null, 2)}\n`;
+}
+
+/**
+ * Lists accept arrays or comma-separated strings, weights objects or
+ * `name=value` lists; integers accept numeric strings.
+ */
+export function coerceConfigValue(
+  definition: ConfigKey,
+  raw: unknown,
+  origin: string,
+): ConfigValue {
+  const invalid = (expected: string) =>
+    new CliAppError({
+      code: "E_ARG_INVALID",
+      message: `Config ${definition.key} must be ${expected} (from ${origin})`,
+      details: {
+        key: definition.key,
+        origin,
+        value: raw,
+        allowed: definition.choices,
+      },
+    });
+
+  if (definition.type === "list") {
+    const items = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : undefined;
+    if (items === undefined || items.some((item) => typeof item !== "string")) {
+      throw invalid("a list of strings");
+    }
+    const values = items.map((item: string) => item.trim()).filter((item) => item.length > 0);
+    const { choices } = definition;
+    if (choices !== undefined && values.some((item) => !choices.includes(item))) {
+      throw invalid(`a list of ${choices.join(", ")}`);
+    }
+    return values;
+  }
+
+  if (definition.type === "weights") {
+    return parseRankingWeights(raw, origin);
+  }
+
+  if (definition.type === "integer") {
+    const value = typeof raw === "string" && /^\d+$/.test(raw.trim()) ? Number(raw) : raw;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      throw invalid("a non-negative integer");
+    }
+    return value;
+  }
+
+  if (typeof raw !== "string" || raw.trim().length === 0) {
+    throw invalid("a non-empty string");
+  }
+  if (definition.choices !== undefined && !definition.choices.includes(raw.trim())) {
+    throw invalid(`one of ${definition.choices.join(", ")}`);
+  }
+  return raw.trim();
+}
+
+/** Lists and weights become comma-separated, as `coerceConfigValue` accepts them back. */
+export function stringifyConfigValue(value: ConfigValue): string {
+  if (Array.isArray(value)) {
+    return value.join(",");
+  }
+  if (typeof value === "object") {
+    return Object.entries(value)
+      .map(([key, weight]) => `${key}=${weight}`)
+      .join(",");
+  }
+  return String(value);
+}
+
+/** An object of weights, or `name=value` items in a comma-separated string or array. */
+export function parseRankingWeights(raw: unknown, origin: string): Record<string, number> {
+  const invalid = () =>
+    new CliAppError({
+      code: "E_ARG_INVALID",
+      message: `Ranking weights must be <name>=<number> items, e.g. format.ass=10 (from ${origin})`,
+      details: { origin, value: raw },
+    });
+
+  let entries: Array<[string, unknown]>;
+  if (typeof raw === "string" || Array.isArray(raw)) {
+    const items = (typeof raw === "string" ? [raw] : raw).flatMap((item) =>
+      typeof item === "string" ? item.split(",") : [item],
+    );
+    entries = items
+      .filter((item) => typeof item !== "string" || item.trim().length > 0)
+      .map((item) => {
+        const separator = typeof item === "string" ? item.indexOf("=") : -1;
+        if (separator <= 0) {
+          throw invalid();
+        }
+        const text = item as string;
+        return [text.slice(0, separator).trim(), text.slice(separator + 1)];
+      });
+  } else if (typeof raw === "object" && raw !== null) {
+    entries = Object.entries(raw);
+  } else {
+    throw invalid();
+  }
+
+  const weights: Record<string, number> = {};
+  for (const [key, value] of entries) {
+    weights[key] = parseRankingWeight(key, value, origin);
+  }
+  return weights;
+}
+
+function parseRankingWeight(key: string, raw: unknown, origin: string): number {
+  if (!isRankingWeightKey(key)) {
+    throw new CliAppError({
+      code: "E_ARG_INVALID",
+      message: `Unknown ranking weight: ${key}`,
+      details: {
+        weight: key,
+        origin,
+        allowed: [...RANKING_WEIGHT_KEYS, "provider.<id>"],
+      },
+    });
+  }
+
+  const value = typeof raw === "string" && raw.trim().length > 0 ? Number(raw) : raw;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new CliAppError({
+      code: "E_ARG_INVALID",
+      message: `Ranking weight ${key} must be a number (from ${origin})`,
+      details: { weight: key, origin, value: raw },
+    });
+  }
+  return value;
+}
+
+export function unknownKeyError(key: string, details: object = {}): CliAppError {
+  return new CliAppError({
+    code: "E_ARG_INVALID",
+    message: `Unknown config key: ${key}`,
+    details: {
+      key,
+      allowed: CONFIG_KEYS.map((definition) => definition.key),
+      ...details,
+    },
+  });
+}
+
+/** A config file is one JSON object keyed by config key. */
+function addFileEntries(
+  config: LoadedConfig,
+  text: string,
+  source: ConfigSource,
+  path: string,
+): void {
+  let values: Record<string, unknown>;
+  try {
+    values = parseJsonObject(text, path);
+  } catch (error) {
+    config.problems.push({ source, origin: path, error: toConfigError(error) });
+    return;
+  }
+
+  for (const [key, raw] of Object.entries(values)) {
+    const definition = findConfigKey(key);
+    if (definition === undefined) {
+      config.warnings.push({
+        code: "W_CONFIG_UNKNOWN_KEY",
+        message: `Unknown config key ${key} in ${path} is ignored`,
+        details: { key, source, origin: path },
+      });
+      continue;
+    }
+    addEntry(config, definition, raw, source, path);
+  }
+}
+
+function addEntry(
+  config: LoadedConfig,
+  definition: ConfigKey,
+  raw: unknown,
+  source: ConfigSource,
+  origin: string,
+): void {
+  try {
+    const value = coerceConfigValue(definition, raw, origin);
+    config.entries.set(definition.key, { key: definition.key, value, source, origin });
+  } catch (error) {
+    config.problems.push({ source, origin, error: toConfigError(error) });
+  }
+}
+
+function toConfigError(error: unknown): CliAppError {
+  if (!isCliAppError(error)) {
+    throw error;
+  }
+  return error;
+}
+
+async function findProjectConfig(
+  environment: ConfigEnvironment,
+): Promise<{ path: string; text: string } | undefined> {
+  let dir = environment.cwd;
+  for (;;) {
+    const path = join(dir, PROJECT_CONFIG_FILE);
+    const text = await environment.readTextFile(path);
+    if (text !== undefined) {
+      return { path, text };
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
@@ -0,0 +1,218 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { CliAppError } from "../core/index.js";
+
+import { providerCacheId } from "./search-cache.js";
+import type { SubtitleDownloadPlan, SubtitlePayload, SubtitleProvider } from "./types.js";
+
+export interface DownloadCacheEntry {
+  providerId: string;
+  subtitleId: string;
+  /** SHA-256 of the payload bytes; the content is stored under this name. */
+  sha256: string;
+  bytes: number;
+  /** Epoch milliseconds. */
+  storedAt: number;
+  plan: SubtitleDownloadPlan;
+}
+
+export interface DownloadCacheStore {
+  location: string;
+  getEntry(key: string): Promise<DownloadCacheEntry | undefined>;
+  setEntry(key: string, entry: DownloadCacheEntry): Promise<void>;
+  readContent(sha256: string): Promise<Uint8Array | undefined>;
+  writeContent(sha256: string, content: Uint8Array): Promise<void>;
+  list(): Promise<DownloadCacheEntry[]>;
+  /** Removes every entry and its content; resolves to the number of entries removed. */
+  clear(): Promise<number>;
+}
+
+export interface DownloadCacheOptions {
+  /** Without a store nothing is cached, but `offline` still blocks upstream calls. */
+  store?: DownloadCacheStore;
+  /** Serve only cached data; searches and downloads that would go upstream fail. */
+  offline?: boolean;
+  now?: () => number;
+}
+
+export function downloadCacheKey(providerCacheId: string, subtitleId: string): string {
+  return hashBytes(new TextEncoder().encode(`${providerCacheId}\n${subtitleId}`));
+}
+
+export function hashBytes(content: Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Wraps a provider so repeated downloads of the same subtitle are served from
+ * the content-addressed store instead of the provider's download gate. In
+ * offline mode every upstream call fails with `E_NOT_FOUND_RESOURCE`; the
+ * search cache sits in front of `search` and answers from its entries first.
+ * Mock providers answer from fixtures and are returned unchanged.
+ */
+export function withDownloadCache(
+  provider: SubtitleProvider,
+  options: DownloadCacheOptions,
+): SubtitleProvider {
+  if (provider.descriptor.mock || (options.store === undefined && !options.offline)) {
+    return provider;
+  }
+
+  const { store } = options;
+  const providerId = provider.descriptor.id;
+  const cacheId = providerCacheId(provider.descriptor);
+  const now = options.now ?? Date.now;
+  const readCached = async (id: string): Promise<SubtitlePayload | undefined> => {
+    const entry = await store?.getEntry(downloadCacheKey(cacheId, id));
+    const content = entry === undefined ? undefined : await store?.readContent(entry.sha256);
+    // A truncated or edited blob is treated as a miss and downloaded again.
+    if (entry === undefined || content === undefined || hashBytes(content) !== entry.sha256) {
+      return undefined;
+    }
+    return { ...entry.plan, content, sha256: entry.sha256, cache: "hit" };
+  };
+
+  return {
+    ...provider,
+    async search(request) {
+      if (options.offline) {
+        throw offlineError(providerId, `Offline: no cached search results for ${providerId}`, {
+          query: request.query,
+        });
+      }
+      return provider.search(request);
+    },
+    async getDownloadPlan(id) {
+      const entry = await store?.getEntry(downloadCacheKey(cacheId, id));
+      if (entry !== undefined) {
+        return entry.plan;
+      }
+      if (options.offline) {
+        throw offlineError(providerId, `Offline: ${providerId} subtitle ${id} is not cached`, {
+          id,
+        });
+      }
+      return provider.getDownloadPlan(id);
+    },
+    async downloadSubtitle(id) {
+      const cached = await readCached(id);
+      if (cached !== undefined) {
+        return cached;
+      }
+      if (options.offline) {
+        throw offlineError(providerId, `Offline: ${providerId} subtitle ${id} is not cached`, {
+          id,
+        });
+      }
+
+      const payload = await provider.downloadSubtitle(id);
+      const sha256 = hashBytes(payload.content);
+      if (store !== undefined) {
+        const { content, ...plan } = payload;
+        // An unwritable cache directory must not fail a download that succeeded.
+        await store
+          .writeContent(sha256, content)
+          .then(() =>
+            store.setEntry(downloadCacheKey(cacheId, id), {
+              providerId,
+              subtitleId: id,
+              sha256,
+              bytes: content.byteLength,
+              storedAt: now(),
+              plan,
+            }),
+          )
+          .catch(() => undefined);
+      }
+      return { ...payload, sha256, cache: "miss" };
+    },
+  };
+}
+
+/** `index/<key>.json` maps provider + subtitle id to `blobs/<sha256>`, shared by equal payloads. */
+export function createFileDownloadCacheStore(dir: string): DownloadCacheStore {
+  const indexDir = join(dir, "index");
+  const blobDir = join(dir, "blobs");
+
+  return {
+    location: dir,
+    async getEntry(key) {
+      return readIndexFile(join(indexDir, `${key}.json`));
+    },
+    async setEntry(key, entry) {
+      await mkdir(indexDir, { recursive: true });
+      await writeFile(join(indexDir, `${key}.json`), JSON.stringify(entry));
+    },
+    async readContent(sha256) {
+      try {
+        return new Uint8Array(await readFile(join(blobDir, sha256)));
+      } catch {
+        return undefined;
+      }
+    },
+    async writeContent(sha256, content) {
+      await mkdir(blobDir, { recursive: true });
+      await writeFile(join(blobDir, sha256), content);
+    },
+    async list() {
+      const entries: DownloadCacheEntry[] = [];
+      for (const name of (await listFiles(indexDir)).filter((item) => item.endsWith(".json"))) {
+        const entry = await readIndexFile(join(indexDir, name));
+        if (entry !== undefined) {
+          entries.push(entry);
+        }
+      }
+      return entries;
+    },
+    async clear() {
+      const removed = (await listFiles(indexDir)).filter((item) => item.endsWith(".json")).length;
+      await rm(indexDir, { recursive: true, force: true });
+      await rm(blobDir, { recursive: true, force: true });
+      return removed;
+    },
+  };
+}
+
+function offlineError(providerId: string, message: string, details: object): CliAppError {
+  return new CliAppError({
+    code: "E_NOT_FOUND_RESOURCE",
+    message,
+    details: {
+      provider: providerId,
+      offline: true,
+      reason: "not-cached",
+      ...details,
+    },
+  });
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  try {
+    return (await readdir(dir)).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function readIndexFile(path: string): Promise<DownloadCacheEntry | undefined> {
+  try {
+    const entry = JSON.parse(await readFile(path, "utf8")) as Partial<DownloadCacheEntry>;
+    if (
+      typeof entry.providerId !== "string" ||
+      typeof entry.subtitleId !== "string" ||
+      typeof entry.sha256 !== "string" ||
+      typeof entry.plan !== "object" ||
+      entry.plan === null
+    ) {
+      return undefined;
+    }
+    return entry as DownloadCacheEntry;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,163 @@
+export interface EpisodeMarkers {
+  season?: number;
+  episode?: number;
+}
+
+export interface EpisodeTarget {
+  season?: number;
+  episode?: number;
+}
+
+const SEASON_EPISODE_PATTERNS = [
+  /(?<![a-z0-9])s(\d{1,2})[ ._-]*e(\d{1,3})(?!\d)/iu,
+  /(?<![a-z0-9])(\d{1,2})x(\d{2,3})(?![a-z0-9])/iu,
+];
+
+const CHINESE_SEASON_PATTERN = /第\s*([\d零〇一二两三四五六七八九十百]{1,4})\s*季/u;
+const CHINESE_EPISODE_PATTERN = /第\s*([\d零〇一二两三四五六七八九十百]{1,4})\s*[集话話]/u;
+/** 全集 ("complete") marks a whole-season or whole-series pack. */
+const CHINESE_COMPLETE_PATTERN = /全\s*集/u;
+
+const SEASON_PATTERNS = [
+  /(?<![a-z0-9])s(\d{1,2})(?![0-9])/iu,
+  /(?<![a-z0-9])season[ ._-]*(\d{1,2})(?!\d)/iu,
+  CHINESE_SEASON_PATTERN,
+];
+
+const EPISODE_PATTERNS = [
+  /(?<![a-z0-9])ep?[ ._-]?(\d{1,3})(?!\d)/iu,
+  /(?<![a-z0-9])episode[ ._-]*(\d{1,3})(?!\d)/iu,
+  CHINESE_EPISODE_PATTERN,
+];
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0,
+  〇: 0,
+  一: 1,
+  二: 2,
+  两: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9,
+};
+
+export interface ChineseEpisodeMarkers extends EpisodeMarkers {
+  /** The text named a 全集 pack. */
+  complete: boolean;
+  /** The text with the markers removed and whitespace collapsed. */
+  rest: string;
+}
+
+/**
+ * Reads season/episode markers (S01E02, 1x02, Season 1, EP02, 第1季, 第二集)
+ * from a release title or archive entry path.
+ */
+export function parseEpisodeMarkers(text: string): EpisodeMarkers {
+  for (const pattern of SEASON_EPISODE_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match !== null) {
+      return {
+        season: Number.parseInt(match[1], 10),
+        episode: Number.parseInt(match[2], 10),
+      };
+    }
+  }
+
+  return {
+    season: matchFirstNumber(text, SEASON_PATTERNS),
+    episode: matchFirstNumber(text, EPISODE_PATTERNS),
+  };
+}
+
+/**
+ * Takes the Chinese markers (第一季, 第3集, 第12话, 全集) out of a query so
+ * they fill `season`/`episode` instead of counting as title words.
+ */
+export function extractChineseEpisodeMarkers(text: string): ChineseEpisodeMarkers {
+  let rest = text;
+  const take = (pattern: RegExp): number | undefined => {
+    const match = pattern.exec(rest);
+    if (match === null) {
+      return undefined;
+    }
+    rest = `${rest.slice(0, match.index)} ${rest.slice(match.index + match[0].length)}`;
+    return parseMarkerNumber(match[1]);
+  };
+
+  const season = take(CHINESE_SEASON_PATTERN);
+  const episode = take(CHINESE_EPISODE_PATTERN);
+  const complete = CHINESE_COMPLETE_PATTERN.test(rest);
+  rest = rest.replace(CHINESE_COMPLETE_PATTERN, " ").replace(/\s+/g, " ").trim();
+
+  return { season, episode, complete, rest };
+}
+
+/** Arabic digits or Chinese numerals up to 999: 3, 十二, 二十三, 一百零五. */
+export function parseMarkerNumber(value: string): number | undefined {
+  if (/^\d+$/.test(value)) {
+    return Number.parseInt(value, 10);
+  }
+
+  let total = 0;
+  let digit: number | undefined;
+  for (const character of value) {
+    if (character === "百" || character === "十") {
+      total += (digit ?? 1) * (character === "百" ? 100 : 10);
+      digit = undefined;
+    } else if (character in CHINESE_DIGITS) {
+      digit = CHINESE_DIGITS[character];
+    } else {
+      return undefined;
+    }
+  }
+
+  return total + (digit ?? 0);
+}
+
+/**
+ * A title satisfies the target when it names the requested season and either
+ * names the requested episode or is a whole-season pack.
+ */
+export function matchesEpisodeTarget(text: string, target: EpisodeTarget): boolean {
+  const markers = parseEpisodeMarkers(text);
+
+  if (typeof target.season === "number" && markers.season !== target.season) {
+    return false;
+  }
+
+  if (typeof target.episode === "number") {
+    if (markers.episode === undefined) {
+      return markers.season !== undefined;
+    }
+
+    return markers.episode === target.episode;
+  }
+
+  return true;
+}
+
+export function formatEpisodeMarker(markers: EpisodeMarkers): string | undefined {
+  if (markers.episode === undefined) {
+    return undefined;
+  }
+
+  const episode = `E${String(markers.episode).padStart(2, "0")}`;
+  return markers.season === undefined
+    ? episode
+    : `S${String(markers.season).padStart(2, "0")}${episode}`;
+}
+
+function matchFirstNumber(text: string, patterns: RegExp[]): number | undefined {
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (match?.[1] !== undefined) {
+      return parseMarkerNumber(match[1]);
+    }
+  }
+
+  return undefined;
+}
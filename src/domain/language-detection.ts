@@ -0,0 +1,244 @@
+import { isCliAppError } from "../core/index.js";
+
+import { countScriptCharacters } from "./chinese-script.js";
+import { LATIN_STOP_WORDS } from "./language-detection/stop-words.js";
+import { cueText, parseSubtitle } from "./subtitles.js";
+import type { SubtitleFormat } from "./types.js";
+
+export interface DetectedLanguage {
+  /** `zh-cn`/`zh-tw` for Chinese, a base code such as `en` or `ja` otherwise. */
+  language: string;
+  /** Share of the text lines written in it, 0 to 1. */
+  proportion: number;
+}
+
+/** Languages on fewer lines are credits, signs or song titles rather than the subtitle. */
+const MIN_PROPORTION = 0.05;
+
+/** A content language must cover this share of lines for `--verify-language`. */
+const VERIFY_MIN_PROPORTION = 0.2;
+
+/** A CJK character carries about as much text as a few Latin letters. */
+const CJK_LETTER_WEIGHT = 3;
+
+type Script = "han" | "kana" | "hangul" | "latin" | keyof typeof SCRIPT_LANGUAGES;
+
+/** Scripts used by one language only. */
+const SCRIPT_LANGUAGES = {
+  cyrillic: "ru",
+  greek: "el",
+  arabic: "ar",
+  hebrew: "he",
+  thai: "th",
+  devanagari: "hi",
+} as const;
+
+const SCRIPT_PATTERNS: Array<[Script, RegExp]> = [
+  ["han", /\p{Script=Han}/u],
+  ["kana", /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ["hangul", /\p{Script=Hangul}/u],
+  ["latin", /\p{Script=Latin}/u],
+  ["cyrillic", /\p{Script=Cyrillic}/u],
+  ["greek", /\p{Script=Greek}/u],
+  ["arabic", /\p{Script=Arabic}/u],
+  ["hebrew", /\p{Script=Hebrew}/u],
+  ["thai", /\p{Script=Thai}/u],
+  ["devanagari", /\p{Script=Devanagari}/u],
+];
+
+const STOP_WORDS = new Map(
+  Object.entries(LATIN_STOP_WORDS).map(([language, words]) => [
+    language,
+    new Set(words.split(" ")),
+  ]),
+);
+
+interface LineEvidence {
+  script: Script;
+  /** Simplified/Traditional characters or stop words per language. */
+  votes: Map<string, number>;
+}
+
+/**
+ * Reads the cue text of a subtitle and reports the languages it is written
+ * in; see `detectTextLanguages`. Text that does not parse is read line by line.
+ */
+export function detectSubtitleLanguages(
+  text: string,
+  format: SubtitleFormat,
+): DetectedLanguage[] {
+  let lines: string[];
+  try {
+    lines = parseSubtitle(text, format).cues.flatMap((cue) => cueText(cue).split("\n"));
+  } catch (error) {
+    if (!isCliAppError(error)) {
+      throw error;
+    }
+    lines = text.split(/\r?\n/);
+  }
+  return detectTextLanguages(lines);
+}
+
+/**
+ * Labels each line by its dominant script: kana means Japanese, Hangul
+ * Korean, Han Chinese split into `zh-cn`/`zh-tw` by characters that differ
+ * between the scripts, and Latin by stop words. Lines without such evidence
+ * take the document's majority for their script.
+ */
+export function detectTextLanguages(lines: string[]): DetectedLanguage[] {
+  const evidence = lines.map(readLine).filter((line) => line !== undefined);
+  const majorities = new Map<Script, string | undefined>();
+  const counts = new Map<string, number>();
+  let labeled = 0;
+
+  for (const line of evidence) {
+    if (!majorities.has(line.script)) {
+      majorities.set(line.script, pickMajority(evidence, line.script));
+    }
+    const language = labelLine(line) ?? majorities.get(line.script);
+    if (language !== undefined) {
+      counts.set(language, (counts.get(language) ?? 0) + 1);
+      labeled += 1;
+    }
+  }
+
+  return [...counts]
+    .map(([language, count]) => ({
+      language,
+      proportion: Number((count / labeled).toFixed(3)),
+    }))
+    .filter((detected) => detected.proportion >= MIN_PROPORTION)
+    .sort(
+      (left, right) =>
+        right.proportion - left.proportion || left.language.localeCompare(right.language),
+    );
+}
+
+/**
+ * Whether the content is written in one of `languages`, compared by base
+ * language so that a script mismatch is left to `--convert-script`. Content
+ * without detectable text passes.
+ */
+export function matchesDetectedLanguage(
+  detected: DetectedLanguage[],
+  languages: string[],
+): boolean {
+  if (detected.length === 0) {
+    return true;
+  }
+
+  const wanted = new Set(languages.map(baseLanguage));
+  return detected.some(
+    (item) =>
+      item.proportion >= VERIFY_MIN_PROPORTION && wanted.has(baseLanguage(item.language)),
+  );
+}
+
+/** `zh-cn 60%, en 40%` */
+export function formatDetectedLanguages(detected: DetectedLanguage[]): string {
+  return detected
+    .map((item) => `${item.language} ${Math.round(item.proportion * 100)}%`)
+    .join(", ");
+}
+
+function readLine(line: string): LineEvidence | undefined {
+  const letters = new Map<Script, number>();
+  for (const character of line) {
+    const match = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(character));
+    if (match !== undefined) {
+      letters.set(match[0], (letters.get(match[0]) ?? 0) + 1);
+    }
+  }
+
+  // Japanese mixes kanji into kana, so any kana claims the Han characters too.
+  const kana = letters.get("kana") ?? 0;
+  if (kana > 0) {
+    letters.set("kana", kana + (letters.get("han") ?? 0));
+    letters.delete("han");
+  }
+
+  let script: Script | undefined;
+  let best = 0;
+  for (const [name, count] of letters) {
+    const cjk = name === "han" || name === "kana" || name === "hangul";
+    const weighted = cjk ? count * CJK_LETTER_WEIGHT : count;
+    if (weighted > best) {
+      script = name;
+      best = weighted;
+    }
+  }
+  if (script === undefined) {
+    return undefined;
+  }
+
+  const votes = new Map<string, number>();
+  if (script === "han") {
+    for (const [language, count] of Object.entries(countScriptCharacters(line))) {
+      votes.set(language, count);
+    }
+  } else if (script === "latin") {
+    for (const word of line.toLowerCase().match(/[\p{L}']+/gu) ?? []) {
+      for (const [language, words] of STOP_WORDS) {
+        if (words.has(word)) {
+          votes.set(language, (votes.get(language) ?? 0) + 1);
+        }
+      }
+    }
+  }
+
+  return { script, votes };
+}
+
+function labelLine(line: LineEvidence): string | undefined {
+  if (line.script === "kana") {
+    return "ja";
+  }
+  if (line.script === "hangul") {
+    return "ko";
+  }
+  if (line.script !== "han" && line.script !== "latin") {
+    return SCRIPT_LANGUAGES[line.script];
+  }
+  return topVote(line.votes);
+}
+
+/**
+ * The language with most votes over all lines of `script`. Han lines without
+ * them are Japanese when kana lines outnumber the marked Chinese ones (kanji
+ * on their own), plain `zh` otherwise.
+ */
+function pickMajority(evidence: LineEvidence[], script: Script): string | undefined {
+  const totals = new Map<string, number>();
+  let marked = 0;
+  for (const line of evidence) {
+    if (line.script === script) {
+      for (const [language, count] of line.votes) {
+        totals.set(language, (totals.get(language) ?? 0) + count);
+      }
+      marked += topVote(line.votes) === undefined ? 0 : 1;
+    }
+  }
+
+  if (script !== "han") {
+    return topVote(totals);
+  }
+  const kana = evidence.filter((line) => line.script === "kana").length;
+  return kana > marked ? "ja" : (topVote(totals) ?? "zh");
+}
+
+/** Ties go to the language listed first. */
+function topVote(votes: Map<string, number>): string | undefined {
+  let language: string | undefined;
+  let best = 0;
+  for (const [name, count] of votes) {
+    if (count > best) {
+      language = name;
+      best = count;
+    }
+  }
+  return language;
+}
+
+function baseLanguage(code: string): string {
+  return code.split("-")[0];
+}
@@ -0,0 +1,14 @@
+/**
+ * Frequent function words of the Latin-script languages told apart by
+ * `detectTextLanguages`, lowercase. A word in several lists counts for each,
+ * so the lists favour words that are common in one language only.
+ */
+export const LATIN_STOP_WORDS: Record<string, string> = {
+  en: "the you and is that it what to this have are not was for with your don't i'm we me my know",
+  fr: "le la les est je vous pas une des et il nous c'est qu'il ce du au mais pour avec qui suis",
+  de: "der die das und ich ist nicht du sie es ein eine zu wir mit was den auf wie bin",
+  es: "el los las es por una qué con para está pero yo lo del muy bien estoy eres",
+  pt: "o os não é um uma com para você está eu isso mas muito do da tem ele",
+  it: "il che non è di un una sono per con mi ti questo cosa gli ma ho sei",
+  nl: "het een en ik je niet dat wat van we zijn met op hij maar",
+};
@@ -0,0 +1,213 @@
+import { CliAppError } from "../core/index.js";
+
+import { convertChineseScript } from "./chinese-script.js";
+import { editDistance } from "./edit-distance.js";
+import {
+  LANGUAGE_ENTRIES,
+  LANGUAGE_VARIANT_ENTRIES,
+  REGION_SUBTAGS,
+  SCRIPT_SUBTAGS,
+} from "./languages/registry.js";
+
+export interface LanguageInfo {
+  /** ISO 639-1, ISO 639-3 without a 639-1 code, or a lowercase BCP 47 tag for variants. */
+  code: string;
+  name: string;
+  nativeName: string;
+  chineseNames: string[];
+  /** ISO 639-2/B, 639-2/T and 639-3 codes and other tags that resolve to `code`. */
+  aliases: string[];
+  /** Variants: the base language (`zh` for `zh-tw`). */
+  parent?: string;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+/** Fallback chains used unless `lang-fallback` configures one for the same language. */
+export const DEFAULT_LANGUAGE_FALLBACKS: Readonly<Record<string, readonly string[]>> = {
+  "zh-hk": ["zh-tw", "zh"],
+};
+
+export const LANGUAGES: readonly LanguageInfo[] = [
+  ...LANGUAGE_ENTRIES.map((entry) => parseEntry(entry)),
+  ...LANGUAGE_VARIANT_ENTRIES.map((entry) => parseEntry(entry, true)),
+];
+
+const SCRIPTS = new Set(SCRIPT_SUBTAGS.split(" "));
+const REGIONS = new Set(REGION_SUBTAGS.split(" "));
+const LOOKUP = buildLookup();
+
+/**
+ * Resolves a code, tag or name to its canonical code: `fre` → `fr`,
+ * `pt_BR` → `pt-br`, `zh-Hant` → `zh-tw`, `Korean`/`韩语`/`한국어` → `ko`.
+ * Tags with a known script or region but no entry of their own keep them
+ * (`en-AU` → `en-au`). Undefined when nothing matches.
+ */
+export function resolveLanguage(value: string): string | undefined {
+  const key = toLookupKey(value.replace(/_/g, "-"));
+  const direct = LOOKUP.get(key);
+  if (direct !== undefined) {
+    return direct.code;
+  }
+
+  const [language, ...subtags] = key.split("-");
+  const base = LOOKUP.get(language);
+  if (base === undefined || base.parent !== undefined || subtags.length > 2) {
+    return undefined;
+  }
+
+  const script = subtags.find((subtag) => SCRIPTS.has(subtag));
+  const region = subtags.find((subtag) => REGIONS.has(subtag));
+  if (subtags.some((subtag) => subtag !== script && subtag !== region)) {
+    return undefined;
+  }
+
+  const tag = [base.code, script, region].filter((part) => part !== undefined).join("-");
+  return LOOKUP.get(tag)?.code ?? tag;
+}
+
+export function findLanguage(code: string): LanguageInfo | undefined {
+  return LANGUAGES.find((language) => language.code === code);
+}
+
+/** Entries whose code, alias or name contains `text`, case- and script-insensitively. */
+export function searchLanguages(text: string): LanguageInfo[] {
+  const needle = toLookupKey(text);
+  if (needle.length === 0) {
+    return [...LANGUAGES];
+  }
+
+  return LANGUAGES.filter((language) =>
+    lookupKeys(language).some((key) => key.includes(needle)),
+  );
+}
+
+/** Codes whose code, alias or name is within two edits of `value`, closest first. */
+export function suggestLanguages(value: string): string[] {
+  const needle = toLookupKey(value);
+  const scored = new Map<string, number>();
+  for (const [key, language] of LOOKUP) {
+    const distance = editDistance(needle, key);
+    if (distance <= 2 && distance < key.length) {
+      scored.set(language.code, Math.min(distance, scored.get(language.code) ?? distance));
+    }
+  }
+
+  return [...scored]
+    .sort((left, right) => left[1] - right[1] || left[0].localeCompare(right[0]))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([code]) => code);
+}
+
+export function unknownLanguageError(value: string, arg: string): CliAppError {
+  const suggestions = suggestLanguages(value);
+  const hint = suggestions.length > 0 ? `; did you mean ${suggestions.join(", ")}?` : "";
+  return new CliAppError({
+    code: "E_ARG_INVALID",
+    message: `Unknown language: ${value}${hint} (see sub languages)`,
+    details: {
+      arg,
+      value,
+      suggestions,
+    },
+  });
+}
+
+/**
+ * Languages other than Chinese named in Chinese in `text`, such as the 韩语
+ * of a SubHD language line, in registry order.
+ */
+export function findChineseLanguageNames(text: string): string[] {
+  const simplified = convertChineseScript(text, "zh-cn").text;
+  return LANGUAGES.filter(
+    (language) =>
+      language.code !== "zh" &&
+      language.parent !== "zh" &&
+      language.chineseNames.some((name) => simplified.includes(name)),
+  ).map((language) => language.code);
+}
+
+/** Whether `variant` is a regional or script variant of `language`, such as `zh-tw` of `zh`. */
+export function isLanguageVariantOf(variant: string, language: string): boolean {
+  return variant.startsWith(`${language}-`);
+}
+
+/**
+ * Parses `zh-hk:zh-tw:zh` chains, each naming a language and the languages to
+ * rank next when it is missing, best first.
+ */
+export function parseLanguageFallbacks(chains: string[], arg: string): Record<string, string[]> {
+  const fallbacks: Record<string, string[]> = {};
+  for (const chain of chains) {
+    const codes = chain.split(":").map((value) => {
+      const code = resolveLanguage(value.trim());
+      if (code === undefined) {
+        throw unknownLanguageError(value.trim(), arg);
+      }
+      return code;
+    });
+    const [language, ...rest] = codes;
+    const fallback = [...new Set(rest)].filter((code) => code !== language);
+    if (fallback.length === 0) {
+      throw new CliAppError({
+        code: "E_ARG_INVALID",
+        message: `Invalid language fallback chain: ${chain} (expected <lang>:<fallback>[:<fallback>]...)`,
+        details: {
+          arg,
+          value: chain,
+        },
+      });
+    }
+    fallbacks[language] = fallback;
+  }
+  return fallbacks;
+}
+
+function parseEntry(entry: string, variant = false): LanguageInfo {
+  const [code, aliases, name, nativeName, chineseNames] = entry.split("|");
+  return {
+    code,
+    name,
+    nativeName,
+    chineseNames: splitWords(chineseNames),
+    aliases: splitWords(aliases),
+    ...(variant ? { parent: code.split("-")[0] } : {}),
+  };
+}
+
+function splitWords(value: string): string[] {
+  return value.split(" ").filter((word) => word.length > 0);
+}
+
+function lookupKeys(language: LanguageInfo): string[] {
+  return [
+    language.code,
+    ...language.aliases,
+    language.name,
+    language.nativeName,
+    ...language.chineseNames,
+  ].map(toLookupKey);
+}
+
+/** Codes and aliases win over names; earlier entries win over later ones. */
+function buildLookup(): Map<string, LanguageInfo> {
+  const lookup = new Map<string, LanguageInfo>();
+  const add = (key: string, language: LanguageInfo) => {
+    if (!lookup.has(key)) {
+      lookup.set(key, language);
+    }
+  };
+
+  for (const language of LANGUAGES) {
+    [language.code, ...language.aliases].forEach((key) => add(toLookupKey(key), language));
+  }
+  for (const language of LANGUAGES) {
+    lookupKeys(language).forEach((key) => add(key, language));
+  }
+  return lookup;
+}
+
+function toLookupKey(value: string): string {
+  const key = value.normalize("NFKC").trim().toLowerCase();
+  return convertChineseScript(key, "zh-cn").text;
+}
@@ -0,0 +1,230 @@
+/**
+ * Bundled language registry. Each entry is `code|aliases|English|native|Chinese`:
+ * the canonical code (ISO 639-1, or ISO 639-3 when there is none), then
+ * space-separated ISO 639-2/B, 639-2/T and 639-3 codes and other spellings,
+ * the English and native names, and Simplified Chinese names.
+ */
+export const LANGUAGE_ENTRIES = [
+  "aa|aar|Afar|Qafaraf|阿法尔语",
+  "ab|abk|Abkhazian|аҧсуа бызшәа|阿布哈兹语",
+  "ae|ave|Avestan|avesta|阿维斯陀语",
+  "af|afr|Afrikaans|Afrikaans|南非荷兰语",
+  "ak|aka|Akan|Akan|阿坎语",
+  "am|amh|Amharic|አማርኛ|阿姆哈拉语",
+  "an|arg|Aragonese|aragonés|阿拉贡语",
+  "ar|ara|Arabic|العربية|阿拉伯语 阿拉伯文",
+  "as|asm|Assamese|অসমীয়া|阿萨姆语",
+  "av|ava|Avaric|авар мацӀ|阿瓦尔语",
+  "ay|aym|Aymara|aymar aru|艾马拉语",
+  "az|aze|Azerbaijani|azərbaycan dili|阿塞拜疆语",
+  "ba|bak|Bashkir|башҡорт теле|巴什基尔语",
+  "be|bel|Belarusian|беларуская|白俄罗斯语",
+  "bg|bul|Bulgarian|български|保加利亚语",
+  "bi|bis|Bislama|Bislama|比斯拉马语",
+  "bm|bam|Bambara|bamanankan|班巴拉语",
+  "bn|ben|Bengali|বাংলা|孟加拉语",
+  "bo|tib bod|Tibetan|བོད་ཡིག|藏语 藏文",
+  "br|bre|Breton|brezhoneg|布列塔尼语",
+  "bs|bos|Bosnian|bosanski|波斯尼亚语",
+  "ca|cat|Catalan|català|加泰罗尼亚语",
+  "ce|che|Chechen|нохчийн мотт|车臣语",
+  "ch|cha|Chamorro|Chamoru|查莫罗语",
+  "co|cos|Corsican|corsu|科西嘉语",
+  "cr|cre|Cree|ᓀᐦᐃᔭᐍᐏᐣ|克里语",
+  "cs|cze ces|Czech|čeština|捷克语",
+  "cu|chu|Church Slavic|ѩзыкъ словѣньскъ|教会斯拉夫语",
+  "cv|chv|Chuvash|чӑваш чӗлхи|楚瓦什语",
+  "cy|wel cym|Welsh|Cymraeg|威尔士语",
+  "da|dan|Danish|dansk|丹麦语",
+  "de|ger deu|German|Deutsch|德语 德文",
+  "dv|div|Divehi|ދިވެހި|迪维希语",
+  "dz|dzo|Dzongkha|རྫོང་ཁ|宗卡语",
+  "ee|ewe|Ewe|Eʋegbe|埃维语",
+  "el|gre ell|Greek|Ελληνικά|希腊语",
+  "en|eng|English|English|英语 英文",
+  "eo|epo|Esperanto|Esperanto|世界语",
+  "es|spa|Spanish|español|西班牙语 西语",
+  "et|est|Estonian|eesti|爱沙尼亚语",
+  "eu|baq eus|Basque|euskara|巴斯克语",
+  "fa|per fas|Persian|فارسی|波斯语",
+  "ff|ful|Fulah|Fulfulde|富拉语",
+  "fi|fin|Finnish|suomi|芬兰语",
+  "fj|fij|Fijian|vosa Vakaviti|斐济语",
+  "fo|fao|Faroese|føroyskt|法罗语",
+  "fr|fre fra|French|français|法语 法文",
+  "fy|fry|Western Frisian|Frysk|西弗里斯兰语",
+  "ga|gle|Irish|Gaeilge|爱尔兰语",
+  "gd|gla|Scottish Gaelic|Gàidhlig|苏格兰盖尔语",
+  "gl|glg|Galician|galego|加利西亚语",
+  "gn|grn|Guarani|Avañe'ẽ|瓜拉尼语",
+  "gu|guj|Gujarati|ગુજરાતી|古吉拉特语",
+  "gv|glv|Manx|Gaelg|马恩语",
+  "ha|hau|Hausa|Hausa|豪萨语",
+  "he|heb iw|Hebrew|עברית|希伯来语",
+  "hi|hin|Hindi|हिन्दी|印地语",
+  "ho|hmo|Hiri Motu|Hiri Motu|希里莫图语",
+  "hr|hrv|Croatian|hrvatski|克罗地亚语",
+  "ht|hat|Haitian Creole|kreyòl ayisyen|海地克里奥尔语",
+  "hu|hun|Hungarian|magyar|匈牙利语",
+  "hy|arm hye|Armenian|հայերեն|亚美尼亚语",
+  "hz|her|Herero|Otjiherero|赫雷罗语",
+  "ia|ina|Interlingua|Interlingua|国际语",
+  "id|ind in|Indonesian|Bahasa Indonesia|印尼语 印度尼西亚语",
+  "ie|ile|Interlingue|Interlingue|西方国际语",
+  "ig|ibo|Igbo|Asụsụ Igbo|伊博语",
+  "ii|iii|Sichuan Yi|ꆈꌠꉙ|四川彝语",
+  "ik|ipk|Inupiaq|Iñupiaq|伊努皮克语",
+  "io|ido|Ido|Ido|伊多语",
+  "is|ice isl|Icelandic|íslenska|冰岛语",
+  "it|ita|Italian|italiano|意大利语 意语",
+  "iu|iku|Inuktitut|ᐃᓄᒃᑎᑐᑦ|因纽特语",
+  "ja|jpn|Japanese|日本語|日语 日文",
+  "jv|jav|Javanese|basa Jawa|爪哇语",
+  "ka|geo kat|Georgian|ქართული|格鲁吉亚语",
+  "kg|kon|Kongo|Kikongo|刚果语",
+  "ki|kik|Kikuyu|Gĩkũyũ|基库尤语",
+  "kj|kua|Kuanyama|Kuanyama|宽亚玛语",
+  "kk|kaz|Kazakh|қазақ тілі|哈萨克语",
+  "kl|kal|Kalaallisut|kalaallisut|格陵兰语",
+  "km|khm|Khmer|ខ្មែរ|高棉语",
+  "kn|kan|Kannada|ಕನ್ನಡ|卡纳达语",
+  "ko|kor|Korean|한국어|韩语 韩文 朝鲜语",
+  "kr|kau|Kanuri|Kanuri|卡努里语",
+  "ks|kas|Kashmiri|कॉशुर|克什米尔语",
+  "ku|kur|Kurdish|Kurdî|库尔德语",
+  "kv|kom|Komi|коми кыв|科米语",
+  "kw|cor|Cornish|Kernewek|康沃尔语",
+  "ky|kir|Kyrgyz|кыргызча|吉尔吉斯语",
+  "la|lat|Latin|latine|拉丁语",
+  "lb|ltz|Luxembourgish|Lëtzebuergesch|卢森堡语",
+  "lg|lug|Ganda|Luganda|干达语",
+  "li|lim|Limburgish|Limburgs|林堡语",
+  "ln|lin|Lingala|lingála|林加拉语",
+  "lo|lao|Lao|ລາວ|老挝语",
+  "lt|lit|Lithuanian|lietuvių|立陶宛语",
+  "lu|lub|Luba-Katanga|Kiluba|卢巴-加丹加语",
+  "lv|lav|Latvian|latviešu|拉脱维亚语",
+  "mg|mlg|Malagasy|Malagasy|马达加斯加语",
+  "mh|mah|Marshallese|Kajin M̧ajeļ|马绍尔语",
+  "mi|mao mri|Maori|te reo Māori|毛利语",
+  "mk|mac mkd|Macedonian|македонски|马其顿语",
+  "ml|mal|Malayalam|മലയാളം|马拉雅拉姆语",
+  "mn|mon|Mongolian|монгол|蒙古语",
+  "mr|mar|Marathi|मराठी|马拉地语",
+  "ms|may msa|Malay|Bahasa Melayu|马来语",
+  "mt|mlt|Maltese|Malti|马耳他语",
+  "my|bur mya|Burmese|မြန်မာ|缅甸语",
+  "na|nau|Nauru|Dorerin Naoero|瑙鲁语",
+  "nb|nob|Norwegian Bokmål|norsk bokmål|书面挪威语",
+  "nd|nde|North Ndebele|isiNdebele|北恩德贝莱语",
+  "ne|nep|Nepali|नेपाली|尼泊尔语",
+  "ng|ndo|Ndonga|Owambo|恩敦加语",
+  "nl|dut nld|Dutch|Nederlands|荷兰语",
+  "nn|nno|Norwegian Nynorsk|norsk nynorsk|新挪威语",
+  "no|nor|Norwegian|norsk|挪威语",
+  "nr|nbl|South Ndebele|isiNdebele|南恩德贝莱语",
+  "nv|nav|Navajo|Diné bizaad|纳瓦霍语",
+  "ny|nya|Chichewa|chiCheŵa|齐切瓦语",
+  "oc|oci|Occitan|occitan|奥克语",
+  "oj|oji|Ojibwa|ᐊᓂᔑᓈᐯᒧᐎᓐ|奥吉布瓦语",
+  "om|orm|Oromo|Afaan Oromoo|奥罗莫语",
+  "or|ori|Odia|ଓଡ଼ିଆ|奥里亚语",
+  "os|oss|Ossetian|ирон æвзаг|奥塞梯语",
+  "pa|pan|Punjabi|ਪੰਜਾਬੀ|旁遮普语",
+  "pi|pli|Pali|पाऴि|巴利语",
+  "pl|pol|Polish|polski|波兰语",
+  "ps|pus|Pashto|پښتو|普什图语",
+  "pt|por|Portuguese|português|葡萄牙语 葡语",
+  "qu|que|Quechua|Runa Simi|克丘亚语",
+  "rm|roh|Romansh|rumantsch|罗曼什语",
+  "rn|run|Rundi|Ikirundi|基隆迪语",
+  "ro|rum ron mo mol|Romanian|română|罗马尼亚语",
+  "ru|rus|Russian|русский|俄语 俄文",
+  "rw|kin|Kinyarwanda|Ikinyarwanda|卢旺达语",
+  "sa|san|Sanskrit|संस्कृतम्|梵语",
+  "sc|srd|Sardinian|sardu|撒丁语",
+  "sd|snd|Sindhi|सिन्धी|信德语",
+  "se|sme|Northern Sami|davvisámegiella|北萨米语",
+  "sg|sag|Sango|yângâ tî sängö|桑戈语",
+  "si|sin|Sinhala|සිංහල|僧伽罗语",
+  "sk|slo slk|Slovak|slovenčina|斯洛伐克语",
+  "sl|slv|Slovenian|slovenščina|斯洛文尼亚语",
+  "sm|smo|Samoan|gagana Sāmoa|萨摩亚语",
+  "sn|sna|Shona|chiShona|绍纳语",
+  "so|som|Somali|Soomaaliga|索马里语",
+  "sq|alb sqi|Albanian|shqip|阿尔巴尼亚语",
+  "sr|srp|Serbian|српски|塞尔维亚语",
+  "ss|ssw|Swati|SiSwati|斯威士语",
+  "st|sot|Southern Sotho|Sesotho|南索托语",
+  "su|sun|Sundanese|basa Sunda|巽他语",
+  "sv|swe|Swedish|svenska|瑞典语",
+  "sw|swa|Swahili|Kiswahili|斯瓦希里语",
+  "ta|tam|Tamil|தமிழ்|泰米尔语",
+  "te|tel|Telugu|తెలుగు|泰卢固语",
+  "tg|tgk|Tajik|тоҷикӣ|塔吉克语",
+  "th|tha|Thai|ไทย|泰语",
+  "ti|tir|Tigrinya|ትግርኛ|提格利尼亚语",
+  "tk|tuk|Turkmen|Türkmençe|土库曼语",
+  "tl|tgl|Tagalog|Tagalog|他加禄语",
+  "tn|tsn|Tswana|Setswana|茨瓦纳语",
+  "to|ton|Tongan|lea faka-Tonga|汤加语",
+  "tr|tur|Turkish|Türkçe|土耳其语",
+  "ts|tso|Tsonga|Xitsonga|聪加语",
+  "tt|tat|Tatar|татар теле|鞑靼语",
+  "tw|twi|Twi|Twi|契维语",
+  "ty|tah|Tahitian|Reo Tahiti|塔希提语",
+  "ug|uig|Uyghur|ئۇيغۇرچە|维吾尔语",
+  "uk|ukr|Ukrainian|українська|乌克兰语",
+  "ur|urd|Urdu|اردو|乌尔都语",
+  "uz|uzb|Uzbek|oʻzbekcha|乌兹别克语",
+  "ve|ven|Venda|Tshivenḓa|文达语",
+  "vi|vie|Vietnamese|Tiếng Việt|越南语",
+  "vo|vol|Volapük|Volapük|沃拉普克语",
+  "wa|wln|Walloon|walon|瓦隆语",
+  "wo|wol|Wolof|Wollof|沃洛夫语",
+  "xh|xho|Xhosa|isiXhosa|科萨语",
+  "yi|yid ji|Yiddish|ייִדיש|意第绪语",
+  "yo|yor|Yoruba|Yorùbá|约鲁巴语",
+  "za|zha|Zhuang|Saɯ cueŋƅ|壮语",
+  "zh|chi zho cmn zh-cmn|Chinese|中文|中文 汉语 华语 国语 普通话",
+  "zu|zul|Zulu|isiZulu|祖鲁语",
+  "fil||Filipino|Filipino|菲律宾语",
+  "yue|zh-yue|Cantonese|粵語|粤语 广东话",
+  "wuu|zh-wuu|Wu Chinese|吳語|吴语 上海话",
+  "nan|zh-nan zh-min-nan|Min Nan Chinese|閩南語|闽南语",
+  "hak|zh-hak zh-hakka|Hakka Chinese|客家話|客家话",
+];
+
+/**
+ * Regional and script variants with their own entry, in the same format. The
+ * part of the code before the first `-` is the base language.
+ */
+export const LANGUAGE_VARIANT_ENTRIES = [
+  "zh-cn|zh-hans zh-hans-cn zh-sg zh-hans-sg chs|Simplified Chinese|简体中文|简体 简中",
+  "zh-tw|zh-hant zh-hant-tw cht|Traditional Chinese|繁體中文|繁体 繁中",
+  "zh-hk|zh-hant-hk zh-mo zh-hant-mo|Chinese (Hong Kong)|香港中文|港繁 香港繁体",
+  "pt-br|pob|Brazilian Portuguese|português brasileiro|巴西葡萄牙语",
+  "pt-pt||European Portuguese|português europeu|欧洲葡萄牙语",
+  "es-419||Latin American Spanish|español latinoamericano|拉美西班牙语",
+  "es-es||European Spanish|español de España|欧洲西班牙语",
+  "en-us||American English|American English|美式英语",
+  "en-gb||British English|British English|英式英语",
+  "fr-ca||Canadian French|français canadien|加拿大法语",
+];
+
+/** BCP 47 script subtags accepted after a language code. */
+export const SCRIPT_SUBTAGS =
+  "arab armn beng cyrl deva ethi geor grek gujr guru hans hant hebr jpan khmr knda kore laoo " +
+  "latn mlym mong mymr orya sinh taml telu thaa thai tibt";
+
+/** BCP 47 region subtags: ISO 3166-1 alpha-2 codes plus UN M.49 `419` (Latin America). */
+export const REGION_SUBTAGS =
+  "ad ae af ag ai al am ao aq ar as at au aw ax az ba bb bd be bf bg bh bi bj bl bm bn bo bq " +
+  "br bs bt bv bw by bz ca cc cd cf cg ch ci ck cl cm cn co cr cu cv cw cx cy cz de dj dk dm " +
+  "do dz ec ee eg eh er es et fi fj fk fm fo fr ga gb gd ge gf gg gh gi gl gm gn gp gq gr gs " +
+  "gt gu gw gy hk hm hn hr ht hu id ie il im in io iq ir is it je jm jo jp ke kg kh ki km kn " +
+  "kp kr kw ky kz la lb lc li lk lr ls lt lu lv ly ma mc md me mf mg mh mk ml mm mn mo mp mq " +
+  "mr ms mt mu mv mw mx my mz na nc ne nf ng ni nl no np nr nu nz om pa pe pf pg ph pk pl pm " +
+  "pn pr ps pt pw py qa re ro rs ru rw sa sb sc sd se sg sh si sj sk sl sm sn so sr ss st sv " +
+  "sx sy sz tc td tf tg th tj tk tl tm tn to tr tt tv tw tz ua ug um us uy uz va vc ve vg vi " +
+  "vn vu wf ws ye yt za zm zw 419";
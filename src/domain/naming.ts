@@ -0,0 +1,104 @@
+import { CliAppError } from "../core/index.js";
+
+import { inferSubtitleFormatFromPath } from "./archive.js";
+import type { SubtitleFormat } from "./types.js";
+
+export const NAMING_SCHEMES = ["plex", "jellyfin", "kodi", "provider", "template"] as const;
+
+export type NamingScheme = (typeof NAMING_SCHEMES)[number];
+
+export interface OutputNaming {
+  scheme: NamingScheme;
+  /** Required for the `template` scheme, e.g. `{stem}.{lang}.{format}`. */
+  template?: string;
+  /** Video file name without extension; the provider file name stem is used when absent. */
+  stem?: string;
+}
+
+/** What is known about one delivered subtitle when its file name is chosen. */
+export interface SubtitleNamingDetails {
+  format: SubtitleFormat;
+  language?: string;
+  hearingImpaired?: boolean;
+  forced?: boolean;
+  season?: number;
+  episode?: number;
+  providerId?: string;
+}
+
+export const NAMING_PLACEHOLDERS = [
+  "stem",
+  "name",
+  "lang",
+  "format",
+  "forced",
+  "sdh",
+  "season",
+  "episode",
+  "provider",
+] as const;
+
+/**
+ * Plex, Jellyfin and Kodi all pick up `<video-stem>.<lang>[.forced][.sdh].<ext>`
+ * next to the video, so the three schemes share one layout.
+ */
+const MEDIA_SERVER_TEMPLATE = "{stem}.{lang}.{forced}.{sdh}.{format}";
+
+const PLACEHOLDER_PATTERN = /\{([a-z]+)\}/g;
+const SUBTITLE_STEM_PATTERN = /\.(srt|ass|ssa|vtt)$/i;
+const FORCED_PATTERN = /(?<![a-z])forced(?![a-z])/i;
+const UNKNOWN_LANGUAGE = "und";
+
+/**
+ * File name for a delivered subtitle under the chosen scheme. Archive names
+ * pass through unchanged since their entries are only named after unpacking.
+ */
+export function applyNamingScheme(
+  naming: OutputNaming,
+  fileName: string,
+  details: SubtitleNamingDetails,
+): string {
+  if (naming.scheme === "provider" || inferSubtitleFormatFromPath(fileName) === undefined) {
+    return fileName;
+  }
+
+  const name = fileName.replace(SUBTITLE_STEM_PATTERN, "");
+  const values: Record<string, string> = {
+    stem: naming.stem ?? name,
+    name,
+    lang: details.language ?? UNKNOWN_LANGUAGE,
+    format: details.format,
+    forced: (details.forced ?? FORCED_PATTERN.test(fileName)) ? "forced" : "",
+    sdh: details.hearingImpaired ? "sdh" : "",
+    season: details.season === undefined ? "" : String(details.season).padStart(2, "0"),
+    episode: details.episode === undefined ? "" : String(details.episode).padStart(2, "0"),
+    provider: details.providerId ?? "",
+  };
+
+  const template = naming.scheme === "template" ? (naming.template ?? "") : MEDIA_SERVER_TEMPLATE;
+  return template
+    .replace(PLACEHOLDER_PATTERN, (_match, key: string) => values[key] ?? "")
+    .replace(/\.{2,}/g, ".")
+    .replace(/^\.|\.$/g, "");
+}
+
+export function validateNamingTemplate(template: string): void {
+  const unknown = [...template.matchAll(PLACEHOLDER_PATTERN)]
+    .map((match) => match[1])
+    .filter((key) => !(NAMING_PLACEHOLDERS as readonly string[]).includes(key));
+
+  if (unknown.length > 0 || !template.includes("{format}")) {
+    throw new CliAppError({
+      code: "E_ARG_INVALID",
+      message:
+        unknown.length > 0
+          ? `Unknown naming placeholder {${unknown[0]}}`
+          : "--naming-template must contain {format}",
+      details: {
+        arg: "naming-template",
+        value: template,
+        allowed: NAMING_PLACEHOLDERS.map((key) => `{${key}}`),
+      },
+    });
+  }
+}
@@ -0,0 +1,123 @@
+import { dirname, join } from "node:path";
+
+import { CliAppError } from "../core/index.js";
+
+import {
+  CONFIG_KEYS,
+  coerceConfigValue,
+  parseJsonObject,
+  resolveUserConfigPath,
+  type ConfigKey,
+  type ConfigValue,
+} from "./config.js";
+import { parseLanguageFallbacks } from "./languages.js";
+import { createRankingPolicy, type HearingImpairedMode, type RankingPolicy } from "./ranking.js";
+import type { SubtitleFormat } from "./types.js";
+
+export interface Profile {
+  name: string;
+  /** Flag defaults keyed by config key: `lang`, `format`, `naming`, `weights`, ... */
+  values: Record<string, ConfigValue>;
+}
+
+/** Keys a profile may set: every config key that defaults a flag, except `profile`. */
+export const PROFILE_KEYS: readonly ConfigKey[] = CONFIG_KEYS.filter(
+  (definition) => definition.flag !== undefined && definition.key !== "profile",
+);
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/** Profiles share one file next to the user config: `<config dir>/profiles.json`. */
+export function resolveProfilesPath(env: NodeJS.ProcessEnv): string {
+  return join(dirname(resolveUserConfigPath(env)), "profiles.json");
+}
+
+export async function loadProfiles(
+  path: string,
+  readTextFile: (path: string) => Promise<string | undefined>,
+): Promise<Profile[]> {
+  const text = await readTextFile(path);
+  return text === undefined ? [] : parseProfilesFile(text, path);
+}
+
+/** The file maps profile names to objects of config keys. */
+export function parseProfilesFile(text: string, path: string): Profile[] {
+  return Object.entries(parseJsonObject(text, path)).map(([name, raw]) => {
+    validateProfileName(name);
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      throw new CliAppError({
+        code: "E_ARG_INVALID",
+        message: `Profile ${name} must be a JSON object: ${path}`,
+        details: { path, profile: name },
+      });
+    }
+
+    const profile: Profile = { name, values: {} };
+    for (const [key, value] of Object.entries(raw)) {
+      const definition = PROFILE_KEYS.find((item) => item.key === key);
+      if (definition === undefined) {
+        throw unknownProfileKeyError(key, { path, profile: name });
+      }
+      profile.values[key] = coerceConfigValue(definition, value, `${path} (${name})`);
+    }
+    return profile;
+  });
+}
+
+export function serializeProfilesFile(profiles: Profile[]): string {
+  const sorted = [...profiles].sort((left, right) => left.name.localeCompare(right.name));
+  const file = Object.fromEntries(sorted.map((profile) => [profile.name, profile.values]));
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+export function findProfile(profiles: Profile[], name: string, details: object = {}): Profile {
+  const profile = profiles.find((item) => item.name === name);
+  if (profile !== undefined) {
+    return profile;
+  }
+
+  throw new CliAppError({
+    code: "E_ARG_INVALID",
+    message: `Unknown profile: ${name}`,
+    details: {
+      profile: name,
+      allowed: profiles.map((item) => item.name),
+      ...details,
+    },
+  });
+}
+
+export function validateProfileName(name: string): void {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new CliAppError({
+      code: "E_ARG_INVALID",
+      message: "Profile names use letters, digits, - and _",
+      details: { profile: name },
+    });
+  }
+}
+
+/** The ranking policy set by a profile's `weights`, `prefer-format` and `hi` keys. */
+export function createProfileRankingPolicy(profile: Profile): RankingPolicy {
+  return createRankingPolicy({
+    weights: profile.values.weights as Record<string, number> | undefined,
+    preferFormat: profile.values["prefer-format"] as SubtitleFormat | undefined,
+    hearingImpaired: profile.values.hi as HearingImpairedMode | undefined,
+    languageFallbacks: parseLanguageFallbacks(
+      (profile.values["lang-fallback"] as string[] | undefined) ?? [],
+      "lang-fallback",
+    ),
+  });
+}
+
+function unknownProfileKeyError(key: string, details: object): CliAppError {
+  return new CliAppError({
+    code: "E_ARG_INVALID",
+    message: `Unknown profile key: ${key}`,
+    details: {
+      key,
+      allowed: PROFILE_KEYS.map((definition) => definition.key),
+      ...details,
+    },
+  });
+}
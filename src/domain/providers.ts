@@ -1,12 +1,47 @@
+import {
+  CliAppError,
+  toCliAppError,
+  type CliErrorCode,
+  type CliWarning,
+} from "../core/index.js";
+
 import { createAssrtMockProvider } from "./providers/assrt-mock.js";
-import { createSubhdProvider } from "./providers/subhd.js";
-import type { SubtitleProvider, SubtitleProviderDescriptor } from "./types.js";
+import { createSubhdProvider, type SubhdProviderOptions } from "./providers/subhd.js";
+import type { CacheStatus, SearchCache } from "./search-cache.js";
+import type {
+  NormalizedSubtitleRequest,
+  ProviderSubtitleResult,
+  SubtitleProvider,
+  SubtitleProviderDescriptor,
+} from "./types.js";
 
 export type SubtitleProviderMap = Record<string, SubtitleProvider>;
 
-export function createDefaultProviderMap(): SubtitleProviderMap {
+export interface ProviderSearchStatus {
+  provider: string;
+  ok: boolean;
+  count: number;
+  durationMs: number;
+  /** Set when the search went through the result cache. */
+  cache?: CacheStatus;
+  error?: {
+    code: CliErrorCode;
+    message: string;
+  };
+}
+
+export interface AggregatedSearch {
+  results: ProviderSubtitleResult[];
+  statuses: ProviderSearchStatus[];
+  /** `stale` if any provider was served stale, `miss` if any searched upstream, else `hit`. */
+  cache?: CacheStatus;
+}
+
+export function createDefaultProviderMap(
+  options: { subhd?: SubhdProviderOptions } = {},
+): SubtitleProviderMap {
   return {
-    subhd: createSubhdProvider(),
+    subhd: createSubhdProvider(options.subhd),
     assrt: createAssrtMockProvider(),
   };
 }
@@ -27,3 +62,160 @@ export function resolveProvider(
 
   return providerMap[providerId];
 }
+
+/** The provider whose id prefixes a subtitle id: `subhd:abc`, `assrt-1001`. */
+export function findIdProvider(
+  providerMap: SubtitleProviderMap,
+  subtitleId: string,
+): SubtitleProvider | undefined {
+  return Object.values(providerMap).find(({ descriptor }) => {
+    const separator = subtitleId.charAt(descriptor.id.length);
+    return subtitleId.startsWith(descriptor.id) && /^[^a-z0-9]$/i.test(separator);
+  });
+}
+
+/** `all` selects every registered provider; unknown ids come back in `unknown`. */
+export function resolveProviders(
+  providerMap: SubtitleProviderMap,
+  providerIds: string[],
+): { providers: SubtitleProvider[]; unknown: string[] } {
+  const ids = providerIds.includes("all")
+    ? listProviders(providerMap).map((item) => item.id)
+    : [...new Set(providerIds)];
+
+  return {
+    providers: ids.flatMap((id) => (providerMap[id] === undefined ? [] : [providerMap[id]])),
+    unknown: ids.filter((id) => providerMap[id] === undefined),
+  };
+}
+
+/**
+ * Queries every provider concurrently and pools the results for one ranking
+ * pass. A failing provider only marks its own status; the search fails when
+ * all of them do, with the first provider's error code. A single provider
+ * keeps its original error.
+ */
+export async function searchProviders(
+  providers: SubtitleProvider[],
+  request: NormalizedSubtitleRequest,
+  cache?: SearchCache,
+): Promise<AggregatedSearch> {
+  if (providers.length === 1) {
+    const [provider] = providers;
+    const startedAt = performance.now();
+    const searched = await searchProvider(provider, request, cache);
+    const statuses = [searchStatus(provider, startedAt, searched)];
+    return {
+      results: searched.results,
+      statuses,
+      cache: summarizeCache(statuses),
+    };
+  }
+
+  const outcomes = await Promise.all(
+    providers.map(async (provider) => {
+      const startedAt = performance.now();
+      try {
+        const searched = await searchProvider(provider, request, cache);
+        return { results: searched.results, status: searchStatus(provider, startedAt, searched) };
+      } catch (error) {
+        const appError = toCliAppError(error);
+        return {
+          results: [],
+          status: {
+            ...searchStatus(provider, startedAt, { results: [] }),
+            ok: false,
+            error: { code: appError.code, message: appError.message },
+          },
+        };
+      }
+    }),
+  );
+
+  const statuses = outcomes.map((outcome) => outcome.status);
+  const failed = statuses.filter((status) => !status.ok);
+  if (failed.length === providers.length) {
+    throw new CliAppError({
+      code: failed[0].error?.code ?? "E_UNKNOWN",
+      message: `All providers failed: ${failed.map((status) => status.provider).join(", ")}`,
+      details: {
+        providers: statuses,
+      },
+    });
+  }
+
+  return {
+    results: outcomes.flatMap((outcome) => outcome.results),
+    statuses,
+    cache: summarizeCache(statuses),
+  };
+}
+
+/** One provider search, through the cache when one is configured. */
+export async function searchProvider(
+  provider: SubtitleProvider,
+  request: NormalizedSubtitleRequest,
+  cache?: SearchCache,
+): Promise<{ results: ProviderSubtitleResult[]; cache?: CacheStatus }> {
+  return cache === undefined
+    ? { results: await provider.search(request) }
+    : cache.search(provider, request);
+}
+
+/** Flags results that came from expired cache entries after an upstream failure. */
+export function createCacheWarnings(search: AggregatedSearch): CliWarning[] {
+  const stale = search.statuses.filter((status) => status.cache === "stale");
+  if (stale.length === 0) {
+    return [];
+  }
+
+  return [
+    {
+      code: "W_CACHE_STALE",
+      message: `Served expired cached results for ${stale.map((status) => status.provider).join(", ")} after the upstream search failed`,
+      details: {
+        providers: stale.map((status) => status.provider),
+      },
+    },
+  ];
+}
+
+/** Routes a selected candidate back to the provider that returned it. */
+export function findResultProvider(
+  providers: SubtitleProvider[],
+  result: Pick<ProviderSubtitleResult, "providerId">,
+): SubtitleProvider {
+  return (
+    providers.find((provider) => provider.descriptor.id === result.providerId) ?? providers[0]
+  );
+}
+
+export function formatProviderStatus(status: ProviderSearchStatus): string {
+  const cache = status.cache === undefined ? "" : `, cache ${status.cache}`;
+  return status.ok
+    ? `${status.provider} ok ${status.count} (${status.durationMs}ms${cache})`
+    : `${status.provider} ${status.error?.code ?? "E_UNKNOWN"} (${status.durationMs}ms)`;
+}
+
+function searchStatus(
+  provider: SubtitleProvider,
+  startedAt: number,
+  searched: { results: ProviderSubtitleResult[]; cache?: CacheStatus },
+): ProviderSearchStatus {
+  return {
+    provider: provider.descriptor.id,
+    ok: true,
+    count: searched.results.length,
+    durationMs: Math.round(performance.now() - startedAt),
+    cache: searched.cache,
+  };
+}
+
+function summarizeCache(statuses: ProviderSearchStatus[]): CacheStatus | undefined {
+  const cached = statuses.flatMap((status) => (status.cache === undefined ? [] : [status.cache]));
+  if (cached.length === 0) {
+    return undefined;
+  }
+
+  return cached.includes("stale") ? "stale" : cached.includes("miss") ? "miss" : "hit";
+}
@@ -1,5 +1,6 @@
 import { CliAppError } from "../../core/index.js";
 
+import { matchesEpisodeTarget } from "../episode-markers.js";
 import { tokenize } from "../request-normalization.js";
 import type {
   NormalizedSubtitleRequest,
@@ -129,23 +130,7 @@ function matchesRequest(request: NormalizedSubtitleRequest, item: ProviderSubtit
     return false;
   }
 
-  if (typeof request.season === "number") {
-    const seasonToken = `s${String(request.season).padStart(2, "0")}`;
-    const normalizedTitle = item.title.toLowerCase();
-    if (!normalizedTitle.includes(seasonToken)) {
-      return false;
-    }
-  }
-
-  if (typeof request.episode === "number") {
-    const episodeToken = `e${String(request.episode).padStart(2, "0")}`;
-    const normalizedTitle = item.title.toLowerCase();
-    if (!normalizedTitle.includes(episodeToken)) {
-      return false;
-    }
-  }
-
-  return true;
+  return matchesEpisodeTarget(item.title, request);
 }
 
 function findById(data: ProviderSubtitleResult[], id: string): ProviderSubtitleResult {
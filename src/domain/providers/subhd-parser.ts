@@ -1,9 +1,12 @@
+import { findChineseLanguageNames } from "../languages.js";
 import type { SubtitleFormat } from "../types.js";
 
 export interface SubhdSearchItem {
   sid: string;
   title: string;
   language: string;
+  /** Every language named on the card, when there is more than one. */
+  languages?: string[];
   format: SubtitleFormat;
   downloads: number;
   hearingImpaired?: boolean;
@@ -41,10 +44,12 @@ export function parseSubhdSearchItems(html: string): SubhdSearchItem[] {
     const downloads = extractDownloadCount(card);
     const hearingImpaired = /听障|聋哑|sdh|\bhi\b/iu.test(`${title} ${languageLine}`);
 
+    const languages = inferLanguages(languageLine, title);
     deduped.set(sid, {
       sid,
       title,
-      language: inferLanguage(languageLine, title),
+      language: languages[0],
+      languages: languages.length > 1 ? languages : undefined,
       format,
       downloads,
       hearingImpaired: hearingImpaired || undefined,
@@ -119,26 +124,34 @@ function extractDownloadCount(cardHtml: string): number {
   return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
 }
 
-function inferLanguage(languageLine: string, title: string): string {
+/** Main language first: a Chinese script, then other named languages, then English. */
+function inferLanguages(languageLine: string, title: string): string[] {
   const text = `${languageLine} ${title}`;
+  const languages: string[] = [];
 
   if (/简体|简中|chs|zh-cn/iu.test(text)) {
-    return "zh-cn";
+    languages.push("zh-cn");
   }
 
   if (/繁体|繁中|cht|zh-tw/iu.test(text)) {
-    return "zh-tw";
+    languages.push("zh-tw");
   }
 
-  if (/英语|英文|\beng\b|\ben\b/iu.test(text)) {
-    return "en";
+  languages.push(...findChineseLanguageNames(text));
+
+  if (/\beng\b|\ben\b/iu.test(text) && !languages.includes("en")) {
+    languages.push("en");
+  }
+
+  if (/双语|中英|中字|中文/iu.test(text) && !languages.some((code) => code.startsWith("zh"))) {
+    languages.push("zh-cn");
   }
 
-  if (/双语|中英|中字|中文/iu.test(text)) {
-    return "zh-cn";
+  if (/中英/u.test(text) && !languages.includes("en")) {
+    languages.push("en");
   }
 
-  return "zh";
+  return languages.length > 0 ? languages : ["zh"];
 }
 
 function extractFirstText(html: string, patterns: RegExp[]): string | undefined {
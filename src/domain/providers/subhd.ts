@@ -7,6 +7,7 @@ import {
   parseSubhdSearchItems,
   sanitizeFileStem,
 } from "./subhd-parser.js";
+import { matchesEpisodeTarget } from "../episode-markers.js";
 import type {
   NormalizedSubtitleRequest,
   ProviderSubtitleResult,
@@ -62,7 +63,7 @@ export function createSubhdProvider(options: SubhdProviderOptions = {}): Subtitl
   });
 
   return {
-    descriptor: SUBHD_DESCRIPTOR,
+    descriptor: { ...SUBHD_DESCRIPTOR, upstream: baseUrl },
 
     async search(request: NormalizedSubtitleRequest): Promise<ProviderSubtitleResult[]> {
       if (request.queryTokens.length === 0) {
@@ -90,6 +91,7 @@ export function createSubhdProvider(options: SubhdProviderOptions = {}): Subtitl
           providerId: "subhd",
           title: item.title,
           language: item.language,
+          languages: item.languages,
           format: item.format,
           downloads: item.downloads,
           hearingImpaired: item.hearingImpaired,
@@ -351,21 +353,7 @@ function matchesRequest(title: string, request: NormalizedSubtitleRequest): bool
     return false;
   }
 
-  if (typeof request.season === "number") {
-    const seasonToken = `s${String(request.season).padStart(2, "0")}`;
-    if (!normalizedTitle.includes(seasonToken)) {
-      return false;
-    }
-  }
-
-  if (typeof request.episode === "number") {
-    const episodeToken = `e${String(request.episode).padStart(2, "0")}`;
-    if (!normalizedTitle.includes(episodeToken)) {
-      return false;
-    }
-  }
-
-  return true;
+  return matchesEpisodeTarget(title, request);
 }
 
 function normalizeErrorMessage(value: unknown): string {
@@ -1,21 +1,191 @@
-import { tokenize } from "./request-normalization.js";
+import { isChineseLanguage, isChineseScript } from "./chinese-script.js";
+import {
+  DEFAULT_LANGUAGE_FALLBACKS,
+  isLanguageVariantOf,
+  resolveLanguage,
+} from "./languages.js";
+import { parseReleaseName } from "./release-name.js";
+import { matchTitle } from "./title-matching.js";
 import type {
   NormalizedSubtitleRequest,
   ProviderSubtitleResult,
   RankedSubtitleResult,
+  RankingFactor,
+  ReleaseInfo,
+  SubtitleFormat,
 } from "./types.js";
 
-const PROVIDER_PRIORITY_BOOST: Record<string, number> = {
-  subhd: 12,
-  assrt: 4,
+/**
+ * Version of the `factors` contract: bumped when a factor id is renamed or
+ * removed, or its weight, value or contribution changes meaning.
+ */
+export const RANKING_FACTORS_VERSION = 1;
+
+/** Score contributions a policy can tune; release and download boosts stay fixed. */
+export interface RankingWeights {
+  queryOverlap: number;
+  language: {
+    primary: number;
+    secondary: number;
+    convertible: number;
+    /** A regional or script variant of a requested language, or its base language. */
+    regional: number;
+    /** The first language of a fallback chain; later ones get a share of it. */
+    fallback: number;
+    mismatch: number;
+    /** Added when a candidate carries two requested languages. */
+    bilingual: number;
+  };
+  format: Record<SubtitleFormat, number>;
+  /** Added on top of `format` for the policy's `preferFormat`. */
+  preferredFormat: number;
+  hearingImpaired: number;
+  provider: Record<string, number>;
+}
+
+export const HEARING_IMPAIRED_MODES = ["include", "exclude", "prefer"] as const;
+
+/**
+ * `include` applies the hearing-impaired weight to HI candidates, `prefer`
+ * applies it to the others instead and `exclude` drops HI candidates.
+ */
+export type HearingImpairedMode = (typeof HEARING_IMPAIRED_MODES)[number];
+
+export interface RankingPolicy {
+  weights: RankingWeights;
+  preferFormat?: SubtitleFormat;
+  hearingImpaired: HearingImpairedMode;
+  /** Languages to rank next when a requested one is missing, best first. */
+  languageFallbacks: Record<string, readonly string[]>;
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  queryOverlap: 60,
+  language: {
+    primary: 30,
+    secondary: 20,
+    convertible: 15,
+    regional: 24,
+    fallback: 18,
+    mismatch: -10,
+    bilingual: 6,
+  },
+  format: {
+    srt: 8,
+    ass: 5,
+    vtt: 4,
+  },
+  preferredFormat: 10,
+  hearingImpaired: -2,
+  provider: {
+    subhd: 12,
+    assrt: 4,
+  },
 };
 
+export const DEFAULT_RANKING_POLICY: RankingPolicy = {
+  weights: DEFAULT_RANKING_WEIGHTS,
+  hearingImpaired: "include",
+  languageFallbacks: DEFAULT_LANGUAGE_FALLBACKS,
+};
+
+/** Weight names used by `--weight` and the `weights` config key, besides `provider.<id>`. */
+export const RANKING_WEIGHT_KEYS = [
+  "query-overlap",
+  "language.primary",
+  "language.secondary",
+  "language.convertible",
+  "language.regional",
+  "language.fallback",
+  "language.mismatch",
+  "language.bilingual",
+  "format.srt",
+  "format.ass",
+  "format.vtt",
+  "format.preferred",
+  "hearing-impaired",
+] as const;
+
+export function isRankingWeightKey(key: string): boolean {
+  return (
+    (RANKING_WEIGHT_KEYS as readonly string[]).includes(key) ||
+    /^provider\.[a-z0-9_-]+$/.test(key)
+  );
+}
+
+/** Returns `base` with the named weights replaced; unknown names are ignored. */
+export function applyRankingWeights(
+  base: RankingWeights,
+  overrides: Record<string, number>,
+): RankingWeights {
+  const weights: RankingWeights = {
+    ...base,
+    language: { ...base.language },
+    format: { ...base.format },
+    provider: { ...base.provider },
+  };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!isRankingWeightKey(key)) {
+      continue;
+    }
+
+    const [group, name] = key.split(".");
+    if (group === "query-overlap") {
+      weights.queryOverlap = value;
+    } else if (group === "hearing-impaired") {
+      weights.hearingImpaired = value;
+    } else if (group === "language") {
+      weights.language[name as keyof RankingWeights["language"]] = value;
+    } else if (key === "format.preferred") {
+      weights.preferredFormat = value;
+    } else if (group === "format") {
+      weights.format[name as SubtitleFormat] = value;
+    } else {
+      weights.provider[name] = value;
+    }
+  }
+
+  return weights;
+}
+
+export function createRankingPolicy(options: {
+  weights?: Record<string, number>;
+  preferFormat?: SubtitleFormat;
+  hearingImpaired?: HearingImpairedMode;
+  /** Replace the default chain of the same language. */
+  languageFallbacks?: Record<string, string[]>;
+}): RankingPolicy {
+  return {
+    weights: applyRankingWeights(DEFAULT_RANKING_WEIGHTS, options.weights ?? {}),
+    preferFormat: options.preferFormat,
+    hearingImpaired: options.hearingImpaired ?? "include",
+    languageFallbacks: { ...DEFAULT_LANGUAGE_FALLBACKS, ...options.languageFallbacks },
+  };
+}
+
+/** Subtitles cut for the same release line up with the video without retiming. */
+const RELEASE_MATCH_BOOST: Array<[keyof ReleaseInfo, number]> = [
+  ["group", 10],
+  ["source", 6],
+  ["resolution", 3],
+  ["codec", 2],
+  ["edition", 2],
+];
+
+const RELEASE_SOURCE_MISMATCH_PENALTY = 4;
+
 export function rankSubtitleCandidates(
   request: NormalizedSubtitleRequest,
   candidates: ProviderSubtitleResult[],
   limit = candidates.length,
+  policy = DEFAULT_RANKING_POLICY,
 ): RankedSubtitleResult[] {
-  const scored = candidates.map((candidate) => scoreSubtitleCandidate(request, candidate));
+  const eligible =
+    policy.hearingImpaired === "exclude"
+      ? candidates.filter((candidate) => !candidate.hearingImpaired)
+      : candidates;
+  const scored = eligible.map((candidate) => scoreSubtitleCandidate(request, candidate, policy));
 
   scored.sort((left, right) => {
     if (right.score !== left.score) {
@@ -43,69 +213,313 @@ export function rankSubtitleCandidates(
 export function scoreSubtitleCandidate(
   request: NormalizedSubtitleRequest,
   candidate: ProviderSubtitleResult,
+  policy = DEFAULT_RANKING_POLICY,
 ): Omit<RankedSubtitleResult, "rank"> {
+  const { score, reasons, factors } = explainSubtitleCandidate(request, candidate, policy);
+  return {
+    ...candidate,
+    score,
+    reasons,
+    factors,
+  };
+}
+
+export interface RankingExplanation {
+  score: number;
+  /** In scoring order; the contributions add up to `score`. */
+  factors: RankingFactor[];
+  reasons: string[];
+}
+
+/** Scores one candidate term by term, keeping each term as a factor and a reason string. */
+export function explainSubtitleCandidate(
+  request: NormalizedSubtitleRequest,
+  candidate: ProviderSubtitleResult,
+  policy = DEFAULT_RANKING_POLICY,
+): RankingExplanation {
+  const { weights } = policy;
+  const factors: RankingFactor[] = [];
   const reasons: string[] = [];
   let score = 0;
-
-  const titleTokens = new Set(tokenize(candidate.title));
-  const overlapCount = request.queryTokens.reduce(
-    (count, token) => count + (titleTokens.has(token) ? 1 : 0),
-    0,
-  );
+  const add: AddFactor = (factor, reason, contribution = factor.weight * factor.value) => {
+    score += contribution;
+    factors.push({ ...factor, contribution: roundScore(contribution) });
+    reasons.push(reason);
+  };
 
   if (request.queryTokens.length > 0) {
-    const overlapRatio = overlapCount / request.queryTokens.length;
-    score += overlapRatio * 60;
-    reasons.push(`query-overlap:${overlapRatio.toFixed(3)}`);
+    const match = matchTitle(request.queryTokens, candidate.title);
+    // Exact-only matches keep the plain reason; other matchers are named.
+    const matchers = match.matchers.some((matcher) => matcher !== "exact")
+      ? match.matchers.join(",")
+      : undefined;
+    add(
+      {
+        id: "query-overlap",
+        weight: weights.queryOverlap,
+        value: roundScore(match.ratio),
+        detail:
+          `${match.matched}/${match.total} tokens` +
+          (matchers === undefined ? "" : ` via ${matchers}`),
+      },
+      `query-overlap:${match.ratio.toFixed(3)}` + (matchers === undefined ? "" : `(${matchers})`),
+      match.ratio * weights.queryOverlap,
+    );
   }
 
-  const preferredIndex = request.languagePreferences.findIndex(
-    (item) => item === candidate.language,
-  );
-  if (preferredIndex === 0) {
-    score += 30;
-    reasons.push("lang:primary");
-  } else if (preferredIndex > 0) {
-    score += 20;
-    reasons.push("lang:secondary");
-  } else if (request.languagePreferences.length > 0) {
-    score -= 10;
-    reasons.push("lang:mismatch");
-  }
-
-  const providerBoost = PROVIDER_PRIORITY_BOOST[candidate.providerId] ?? 0;
+  const languages = [
+    ...new Set(
+      [candidate.language, ...(candidate.languages ?? [])].map(
+        (language) => resolveLanguage(language) ?? language,
+      ),
+    ),
+  ];
+  const language = matchLanguages(request.languagePreferences, languages, policy);
+  if (language !== undefined) {
+    add(
+      {
+        id: "language",
+        weight: weights.language[language.kind],
+        value: roundScore(language.value),
+        detail: language.detail,
+      },
+      `lang:${LANGUAGE_REASONS[language.kind] ?? language.kind}`,
+      weights.language[language.kind] * language.value,
+    );
+  }
+
+  const bilingual = findBilingualLanguages(request.languagePreferences, languages, policy);
+  if (bilingual.length > 1) {
+    add(
+      {
+        id: "bilingual",
+        weight: weights.language.bilingual,
+        value: 1,
+        detail: bilingual.join("+"),
+      },
+      "lang:bilingual",
+    );
+  }
+
+  if (request.release !== undefined) {
+    scoreRelease(request.release, candidate, add);
+  }
+
+  const providerBoost = weights.provider[candidate.providerId] ?? 0;
   if (providerBoost !== 0) {
-    score += providerBoost;
-    reasons.push(`provider:${candidate.providerId}:+${providerBoost.toFixed(3)}`);
+    const sign = providerBoost > 0 ? "+" : "";
+    add(
+      { id: "provider", weight: providerBoost, value: 1, detail: candidate.providerId },
+      `provider:${candidate.providerId}:${sign}${providerBoost.toFixed(3)}`,
+    );
   }
 
-  const downloadBoost = Math.min(15, Math.log10(candidate.downloads + 1) * 5);
-  score += downloadBoost;
-  reasons.push(`downloads:+${downloadBoost.toFixed(3)}`);
+  const downloadValue = Math.log10(candidate.downloads + 1);
+  const downloadBoost = Math.min(DOWNLOAD_BOOST_CAP, downloadValue * DOWNLOAD_BOOST_WEIGHT);
+  add(
+    {
+      id: "downloads",
+      weight: DOWNLOAD_BOOST_WEIGHT,
+      value: roundScore(downloadValue),
+      detail: `${candidate.downloads} downloads, capped at ${DOWNLOAD_BOOST_CAP}`,
+    },
+    `downloads:+${downloadBoost.toFixed(3)}`,
+    downloadBoost,
+  );
 
-  if (candidate.format === "srt") {
-    score += 8;
-    reasons.push("format:srt");
-  } else if (candidate.format === "ass") {
-    score += 5;
-    reasons.push("format:ass");
-  } else {
-    score += 4;
-    reasons.push("format:vtt");
+  add(
+    { id: "format", weight: weights.format[candidate.format], value: 1, detail: candidate.format },
+    `format:${candidate.format}`,
+  );
+  if (policy.preferFormat === candidate.format) {
+    add(
+      {
+        id: "preferred-format",
+        weight: weights.preferredFormat,
+        value: 1,
+        detail: candidate.format,
+      },
+      "format:preferred",
+    );
   }
 
-  if (candidate.hearingImpaired) {
-    score -= 2;
-    reasons.push("hi:-2");
+  const hearingImpaired = candidate.hearingImpaired === true;
+  if (policy.hearingImpaired === "prefer" ? !hearingImpaired : hearingImpaired) {
+    add(
+      {
+        id: "hearing-impaired",
+        weight: weights.hearingImpaired,
+        value: 1,
+        detail: hearingImpaired ? "hearing-impaired" : "not hearing-impaired",
+      },
+      `${hearingImpaired ? "hi" : "not-hi"}:${weights.hearingImpaired}`,
+    );
   }
 
   return {
-    ...candidate,
     score: roundScore(score),
+    factors,
     reasons,
   };
 }
 
+type AddFactor = (
+  factor: Omit<RankingFactor, "contribution">,
+  reason: string,
+  contribution?: number,
+) => void;
+
+const DOWNLOAD_BOOST_WEIGHT = 5;
+const DOWNLOAD_BOOST_CAP = 15;
+
+type LanguageMatchKind = Exclude<keyof RankingWeights["language"], "bilingual">;
+
+interface LanguageMatch {
+  kind: LanguageMatchKind;
+  /** 1, or less for later fallbacks and for matching a language after the first. */
+  value: number;
+  detail: string;
+}
+
+const LANGUAGE_REASONS: Partial<Record<LanguageMatchKind, string>> = {
+  fallback: "regional-fallback",
+};
+
+/** Regional and fallback matches against a later language count this much of the weight. */
+const SECONDARY_LANGUAGE_SHARE = 0.5;
+
+/** The best-scoring match between any candidate language and any requested one. */
+function matchLanguages(
+  preferences: string[],
+  languages: string[],
+  policy: RankingPolicy,
+): LanguageMatch | undefined {
+  if (preferences.length === 0) {
+    return undefined;
+  }
+
+  let best: LanguageMatch = { kind: "mismatch", value: 1, detail: "mismatch" };
+  const contribution = (match: LanguageMatch) =>
+    policy.weights.language[match.kind] * match.value;
+  for (const language of languages) {
+    preferences.forEach((preference, index) => {
+      const match = matchLanguage(preference, index, language, policy);
+      if (match !== undefined && contribution(match) > contribution(best)) {
+        best = match;
+      }
+    });
+  }
+  return best;
+}
+
+/**
+ * A configured fallback chain wins over the language hierarchy, so `zh-hk`
+ * ranks `zh-tw` ahead of plain `zh`.
+ */
+function matchLanguage(
+  preference: string,
+  index: number,
+  language: string,
+  policy: RankingPolicy,
+): LanguageMatch | undefined {
+  if (language === preference) {
+    const kind = index === 0 ? "primary" : "secondary";
+    return { kind, value: 1, detail: kind };
+  }
+
+  const share = index === 0 ? 1 : SECONDARY_LANGUAGE_SHARE;
+  const chain = policy.languageFallbacks[preference] ?? [];
+  const position = chain.indexOf(language);
+  if (position >= 0) {
+    return {
+      kind: "fallback",
+      value: share / (position + 1),
+      detail: `regional-fallback, ${language} for ${preference}`,
+    };
+  }
+  if (isLanguageVariantOf(language, preference) || isLanguageVariantOf(preference, language)) {
+    return { kind: "regional", value: share, detail: `regional, ${language} for ${preference}` };
+  }
+  if (isScriptConvertible(preference, language)) {
+    return { kind: "convertible", value: 1, detail: "convertible" };
+  }
+  return undefined;
+}
+
+/**
+ * Candidate languages that each match a different requested language, such
+ * as `zh-cn` and `en` of a 中英 subtitle asked for with `--lang zh,en`.
+ */
+function findBilingualLanguages(
+  preferences: string[],
+  languages: string[],
+  policy: RankingPolicy,
+): string[] {
+  const used = new Set<string>();
+  const matched: string[] = [];
+  for (const language of languages) {
+    const preference = preferences.find(
+      (item, index) =>
+        !used.has(item) && matchLanguage(item, index, language, policy) !== undefined,
+    );
+    if (preference !== undefined) {
+      used.add(preference);
+      matched.push(language);
+    }
+  }
+  return matched;
+}
+
+/**
+ * Compares the requested release with the one named by the candidate. Only a
+ * different source is penalised: BluRay and WEB cuts often differ in timing,
+ * while resolution or codec changes do not move cues.
+ */
+function scoreRelease(
+  release: ReleaseInfo,
+  candidate: ProviderSubtitleResult,
+  add: AddFactor,
+): void {
+  const candidateRelease = parseReleaseName(candidate.releaseName ?? candidate.title);
+
+  for (const [field, boost] of RELEASE_MATCH_BOOST) {
+    const wanted = release[field];
+    const offered = candidateRelease[field];
+    if (wanted === undefined || offered === undefined) {
+      continue;
+    }
+
+    if (String(wanted).toLowerCase() === String(offered).toLowerCase()) {
+      add(
+        { id: `release-${field}`, weight: boost, value: 1, detail: String(offered) },
+        `release-${field}:match`,
+      );
+    } else if (field === "source") {
+      add(
+        {
+          id: "release-source",
+          weight: -RELEASE_SOURCE_MISMATCH_PENALTY,
+          value: 1,
+          detail: `${offered}, wanted ${wanted}`,
+        },
+        "release-source:mismatch",
+      );
+    }
+  }
+}
+
+/** `query-overlap: +40.000 = 60 x 0.667 (2/3 tokens)` */
+export function formatRankingFactor(factor: RankingFactor): string {
+  const sign = factor.contribution >= 0 ? "+" : "";
+  const detail = factor.detail === undefined ? "" : ` (${factor.detail})`;
+  return `${factor.id}: ${sign}${factor.contribution.toFixed(3)} = ${factor.weight} x ${factor.value}${detail}`;
+}
+
+/** Simplified and Traditional Chinese convert offline, so they count as a partial match. */
+function isScriptConvertible(preference: string, language: string): boolean {
+  return isChineseLanguage(language) && isChineseScript(preference);
+}
+
 function roundScore(value: number): number {
   return Number(value.toFixed(6));
 }
@@ -0,0 +1,177 @@
+import { parseEpisodeMarkers } from "./episode-markers.js";
+import type { ReleaseInfo } from "./types.js";
+
+const VIDEO_EXTENSION_PATTERN = /\.(mkv|mp4|m4v|avi|mov|wmv|ts|m2ts|webm|flv|rmvb)$/i;
+
+const RESOLUTION_PATTERNS: Array<{ value: string; pattern: RegExp }> = [
+  { value: "2160p", pattern: /(?<![a-z0-9])(?:2160p|4k|uhd)(?![a-z0-9])/i },
+  { value: "1080p", pattern: /(?<![a-z0-9])1080[pi](?![a-z0-9])/i },
+  { value: "720p", pattern: /(?<![a-z0-9])720p(?![a-z0-9])/i },
+  { value: "576p", pattern: /(?<![a-z0-9])576p(?![a-z0-9])/i },
+  { value: "480p", pattern: /(?<![a-z0-9])480p(?![a-z0-9])/i },
+];
+
+const SOURCE_PATTERNS: Array<{ value: string; pattern: RegExp }> = [
+  { value: "bluray", pattern: /(?<![a-z0-9])(?:blu-?ray|bdrip|brrip|bdremux)(?![a-z0-9])/i },
+  { value: "web-dl", pattern: /(?<![a-z0-9])web-?dl(?![a-z0-9-])/i },
+  { value: "webrip", pattern: /(?<![a-z0-9])web-?rip(?![a-z0-9])/i },
+  { value: "hdtv", pattern: /(?<![a-z0-9])hdtv(?:rip)?(?![a-z0-9])/i },
+  { value: "dvd", pattern: /(?<![a-z0-9])dvd-?rip(?![a-z0-9])/i },
+];
+
+/** Plain words that name a source only after the title and year: `The.Web.2004.WEB`. */
+const BARE_SOURCE_PATTERNS: Array<{ value: string; pattern: RegExp }> = [
+  { value: "bluray", pattern: /(?<![a-z0-9])bd(?![a-z0-9])/i },
+  { value: "web-dl", pattern: /(?<![a-z0-9])web(?![a-z0-9-])/i },
+  { value: "dvd", pattern: /(?<![a-z0-9])dvd(?![a-z0-9])/i },
+];
+
+const CODEC_PATTERNS: Array<{ value: string; pattern: RegExp }> = [
+  { value: "h264", pattern: /(?<![a-z0-9])(?:x264|h ?264|avc)(?![a-z0-9])/i },
+  { value: "h265", pattern: /(?<![a-z0-9])(?:x265|h ?265|hevc)(?![a-z0-9])/i },
+  { value: "av1", pattern: /(?<![a-z0-9])av1(?![a-z0-9])/i },
+  { value: "xvid", pattern: /(?<![a-z0-9])xvid(?![a-z0-9])/i },
+];
+
+const EDITION_PATTERNS: Array<{ value: string; pattern: RegExp }> = [
+  { value: "extended", pattern: /(?<![a-z0-9])extended(?: cut| edition)?(?![a-z0-9])/i },
+  { value: "directors-cut", pattern: /(?<![a-z0-9])director'?s cut(?![a-z0-9])/i },
+  { value: "unrated", pattern: /(?<![a-z0-9])unrated(?![a-z0-9])/i },
+  { value: "remastered", pattern: /(?<![a-z0-9])remastered(?![a-z0-9])/i },
+  { value: "imax", pattern: /(?<![a-z0-9])imax(?![a-z0-9])/i },
+  { value: "theatrical", pattern: /(?<![a-z0-9])theatrical(?: cut)?(?![a-z0-9])/i },
+];
+
+const YEAR_PATTERN = /(?<![a-z0-9])(19\d{2}|20\d{2})(?![a-z0-9])/gi;
+const EPISODE_MARKER_PATTERN =
+  /(?<![a-z0-9])(?:s\d{1,2}(?:[ ._-]*e\d{1,3})?|\d{1,2}x\d{2,3}|season \d{1,2})(?![a-z0-9])/i;
+/** Fansub numbering without a season: `[Group] Show - 05 (1080p)`, `Show - 12v2`. */
+const ANIME_EPISODE_PATTERN = / - (?!(?:19|20)\d{2}(?!\d))(\d{1,4})(?:v\d)?(?= |$)/;
+const GROUP_SUFFIX_PATTERN = /-([a-z0-9]+)(?:\[[^\]]*\])?$/i;
+const GROUP_PREFIX_PATTERN = /^\[([^\]]+)\]\s*/;
+
+interface ReleaseMarkers {
+  /** Where the title stops: the year or the first episode or quality marker. */
+  titleEnd: number;
+  year?: number;
+  season?: number;
+  episode?: number;
+  resolution?: string;
+  source?: string;
+  codec?: string;
+  edition?: string;
+}
+
+/**
+ * Reads scene/P2P style release names such as
+ * `The.Matrix.1999.1080p.BluRay.x264-GROUP.mkv` or `[Group] Show - S01E02`.
+ * The title is everything before the year, episode or quality markers.
+ */
+export function parseReleaseName(fileName: string): ReleaseInfo {
+  let name = videoFileStem(fileName);
+
+  let group: string | undefined;
+  const prefix = GROUP_PREFIX_PATTERN.exec(name);
+  if (prefix !== null) {
+    group = prefix[1].trim();
+    name = name.slice(prefix[0].length);
+  }
+
+  let spaced = spaceOut(name);
+  let markers = readMarkers(spaced);
+
+  // A `-Name` suffix is a group only after the title and its markers, unlike `Spider-Man`.
+  const suffix = GROUP_SUFFIX_PATTERN.exec(name);
+  if (suffix !== null && !/^(?:dl|rip)$/i.test(suffix[1])) {
+    const rest = spaceOut(name.slice(0, suffix.index));
+    const restMarkers = readMarkers(rest);
+    if (restMarkers.titleEnd < rest.length) {
+      group ??= suffix[1];
+      spaced = rest;
+      markers = restMarkers;
+    }
+  }
+
+  const { titleEnd, ...info } = markers;
+  return {
+    title: spaced.slice(0, titleEnd).replace(/[\s([-]+$/, "").trim(),
+    ...info,
+    group,
+  };
+}
+
+export function isVideoFileName(path: string): boolean {
+  return VIDEO_EXTENSION_PATTERN.test(path);
+}
+
+/** File name of a video without directory and extension, e.g. `The.Matrix.1999.1080p`. */
+export function videoFileStem(path: string): string {
+  return (path.split(/[\\/]/).at(-1) ?? path).replace(VIDEO_EXTENSION_PATTERN, "");
+}
+
+/** One-line summary of the quality attributes, e.g. `1080p bluray h264 -GROUP`. */
+export function formatReleaseInfo(release: ReleaseInfo): string {
+  const parts = [release.resolution, release.source, release.codec, release.edition].filter(
+    (part): part is string => part !== undefined,
+  );
+  if (release.group !== undefined) {
+    parts.push(`-${release.group}`);
+  }
+
+  return parts.length > 0 ? parts.join(" ") : "unknown";
+}
+
+function spaceOut(name: string): string {
+  return name.replace(/[._]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function readMarkers(text: string): ReleaseMarkers {
+  const markers = parseEpisodeMarkers(text);
+  const anime = markers.episode === undefined ? ANIME_EPISODE_PATTERN.exec(text) : null;
+  const resolution = matchFirst(text, RESOLUTION_PATTERNS);
+  const source = matchFirst(text, SOURCE_PATTERNS);
+  const codec = matchFirst(text, CODEC_PATTERNS);
+  const edition = matchFirst(text, EDITION_PATTERNS);
+  const qualityIndex = Math.min(
+    ...[
+      EPISODE_MARKER_PATTERN.exec(text)?.index,
+      anime?.index,
+      resolution?.index,
+      source?.index,
+      codec?.index,
+      edition?.index,
+    ].map((index) => index ?? text.length),
+  );
+
+  // The last year ahead of the markers, so `Blade.Runner.2049.2017` is from 2017; a
+  // leading number is part of the title (`1917`, `2001 A Space Odyssey`).
+  const year = [...text.matchAll(YEAR_PATTERN)]
+    .filter((match) => (match.index ?? 0) > 0 && (match.index ?? 0) < qualityIndex)
+    .at(-1);
+  const titleEnd = year?.index ?? qualityIndex;
+
+  return {
+    titleEnd,
+    year: year === undefined ? undefined : Number.parseInt(year[1], 10),
+    season: markers.season,
+    episode: markers.episode ?? (anime === null ? undefined : Number.parseInt(anime[1], 10)),
+    resolution: resolution?.value,
+    source: source?.value ?? matchFirst(text.slice(titleEnd + 1), BARE_SOURCE_PATTERNS)?.value,
+    codec: codec?.value,
+    edition: edition?.value,
+  };
+}
+
+function matchFirst(
+  text: string,
+  patterns: Array<{ value: string; pattern: RegExp }>,
+): { value: string; index: number } | undefined {
+  for (const { value, pattern } of patterns) {
+    const match = pattern.exec(text);
+    if (match !== null) {
+      return { value, index: match.index };
+    }
+  }
+
+  return undefined;
+}
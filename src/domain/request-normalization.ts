@@ -1,27 +1,20 @@
+import { CJK_RUN, segmentCjk } from "./cjk-segmentation.js";
+import { extractChineseEpisodeMarkers } from "./episode-markers.js";
+import { resolveLanguage, unknownLanguageError } from "./languages.js";
 import type { NormalizedSubtitleRequest, SubtitleRequestInput } from "./types.js";
 
-const LANGUAGE_ALIAS_MAP: Record<string, string> = {
-  zh: "zh",
-  zho: "zh",
-  chinese: "zh",
-  chs: "zh-cn",
-  cht: "zh-tw",
-  "zh-cn": "zh-cn",
-  "zh-hans": "zh-cn",
-  "zh-tw": "zh-tw",
-  "zh-hant": "zh-tw",
-  en: "en",
-  eng: "en",
-  english: "en",
-  ja: "ja",
-  jpn: "ja",
-  japanese: "ja",
-};
+/** English articles and connectives that say nothing about which title is meant. */
+const STOP_WORDS = new Set(["a", "an", "and", "of", "the"]);
 
 export function normalizeSubtitleRequest(input: SubtitleRequestInput): NormalizedSubtitleRequest {
   const query = collapseWhitespace(input.query);
-  const normalizedQuery = query.toLowerCase();
+  // Equivalent spellings (full-width letters, 第一季 vs --season 1) must share
+  // a fingerprint, so markers move into season/episode before it is built.
+  const markers = extractChineseEpisodeMarkers(query.normalize("NFKC"));
+  const normalizedQuery = (markers.rest.length > 0 ? markers.rest : query).toLowerCase();
   const queryTokens = tokenize(normalizedQuery);
+  const season = input.season ?? markers.season;
+  const episode = input.episode ?? markers.episode;
 
   const languagePreferences = normalizeLanguages(input.languages ?? []);
   const canonicalLanguages = [...languagePreferences].sort((a, b) => a.localeCompare(b));
@@ -29,8 +22,8 @@ export function normalizeSubtitleRequest(input: SubtitleRequestInput): Normalize
   const fingerprint = [
     normalizedQuery,
     String(input.year ?? ""),
-    String(input.season ?? ""),
-    String(input.episode ?? ""),
+    String(season ?? ""),
+    String(episode ?? ""),
     canonicalLanguages.join(","),
   ].join("|");
 
@@ -39,27 +32,35 @@ export function normalizeSubtitleRequest(input: SubtitleRequestInput): Normalize
     normalizedQuery,
     queryTokens,
     year: input.year,
-    season: input.season,
-    episode: input.episode,
+    season,
+    episode,
     languagePreferences,
+    release: input.release,
     fingerprint,
   };
 }
 
-export function normalizeLanguage(value: string): string {
-  const normalized = value.trim().toLowerCase();
-  if (normalized.length === 0) {
-    return normalized;
+/**
+ * Canonical registry code for a user-supplied language; unknown values fail
+ * with suggestions rather than passing through to never match a provider.
+ */
+export function normalizeLanguage(value: string, arg = "lang"): string {
+  if (value.trim().length === 0) {
+    return "";
   }
 
-  return LANGUAGE_ALIAS_MAP[normalized] ?? normalized;
+  const code = resolveLanguage(value);
+  if (code === undefined) {
+    throw unknownLanguageError(value.trim(), arg);
+  }
+  return code;
 }
 
-export function normalizeLanguages(values: string[]): string[] {
+export function normalizeLanguages(values: string[], arg = "lang"): string[] {
   const deduped = new Set<string>();
 
   for (const value of values) {
-    const normalized = normalizeLanguage(value);
+    const normalized = normalizeLanguage(value, arg);
     if (normalized.length > 0) {
       deduped.add(normalized);
     }
@@ -73,16 +74,30 @@ export function tokenize(text: string): string[] {
     return [];
   }
 
-  const items = text
-    .toLowerCase()
+  const items = extractChineseEpisodeMarkers(text.normalize("NFKC"))
+    .rest.toLowerCase()
     .split(/[^\p{L}\p{N}]+/u)
+    .flatMap(segmentWord)
     .map((item) => item.trim())
     .filter((item) => item.length > 0);
 
-  const deduped = new Set(items);
+  // A title made only of stop words ("The One") still needs its tokens.
+  const meaningful = items.filter((item) => !STOP_WORDS.has(item));
+  const deduped = new Set(meaningful.length > 0 ? meaningful : items);
   return [...deduped].sort((a, b) => a.localeCompare(b));
 }
 
+/** Space-separated words pass through; CJK runs inside them are segmented. */
+function segmentWord(word: string): string[] {
+  if (!CJK_RUN.test(word)) {
+    return [word];
+  }
+
+  return word
+    .split(new RegExp(`(${CJK_RUN.source})`, "u"))
+    .flatMap((part) => (CJK_RUN.test(part) ? segmentCjk(part) : [part]));
+}
+
 function collapseWhitespace(value: string): string {
   return value.replace(/\s+/g, " ").trim();
 }
@@ -0,0 +1,189 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { isAbsolute, join } from "node:path";
+
+import type {
+  NormalizedSubtitleRequest,
+  ProviderSubtitleResult,
+  SubtitleProvider,
+  SubtitleProviderDescriptor,
+} from "./types.js";
+
+/**
+ * `hit`: served from a fresh entry. `miss`: searched upstream (and stored).
+ * `stale`: an expired entry served because the upstream search failed.
+ */
+export type CacheStatus = "hit" | "miss" | "stale";
+
+export interface SearchCacheEntry {
+  providerId: string;
+  fingerprint: string;
+  /** Epoch milliseconds. */
+  storedAt: number;
+  results: ProviderSubtitleResult[];
+}
+
+export interface StoredSearchCacheEntry {
+  key: string;
+  bytes: number;
+  entry: SearchCacheEntry;
+}
+
+export interface SearchCacheStore {
+  /** Where the entries live, for `sub cache stats`. */
+  location: string;
+  get(key: string): Promise<SearchCacheEntry | undefined>;
+  set(key: string, entry: SearchCacheEntry): Promise<void>;
+  list(): Promise<StoredSearchCacheEntry[]>;
+  delete(key: string): Promise<void>;
+}
+
+export interface SearchCacheOptions {
+  store: SearchCacheStore;
+  ttlMs: number;
+  /** Ignore stored entries and overwrite them with fresh results. */
+  refresh?: boolean;
+  now?: () => number;
+}
+
+export interface SearchCache {
+  search(
+    provider: SubtitleProvider,
+    request: NormalizedSubtitleRequest,
+  ): Promise<{ results: ProviderSubtitleResult[]; cache?: CacheStatus }>;
+}
+
+export const DEFAULT_SEARCH_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** The provider id, plus the upstream when the instance names one. */
+export function providerCacheId(descriptor: SubtitleProviderDescriptor): string {
+  const { id, upstream } = descriptor;
+  return upstream === undefined ? id : `${id}\n${upstream}`;
+}
+
+export function searchCacheKey(providerCacheId: string, fingerprint: string): string {
+  return createHash("sha256").update(`${providerCacheId}\n${fingerprint}`).digest("hex");
+}
+
+/**
+ * Wraps provider searches with a cache keyed by provider id, upstream and
+ * request fingerprint. Expired entries are searched again; when that search fails the
+ * expired results are returned as `stale` rather than failing the command.
+ * Mock providers answer from fixtures and bypass the cache.
+ */
+export function createSearchCache(options: SearchCacheOptions): SearchCache {
+  const now = options.now ?? Date.now;
+
+  return {
+    async search(provider, request) {
+      if (provider.descriptor.mock) {
+        return { results: await provider.search(request) };
+      }
+
+      const key = searchCacheKey(providerCacheId(provider.descriptor), request.fingerprint);
+      const cached = options.refresh ? undefined : await options.store.get(key);
+      if (cached !== undefined && now() - cached.storedAt < options.ttlMs) {
+        return { results: cached.results, cache: "hit" };
+      }
+
+      let results: ProviderSubtitleResult[];
+      try {
+        results = await provider.search(request);
+      } catch (error) {
+        if (cached !== undefined) {
+          return { results: cached.results, cache: "stale" };
+        }
+        throw error;
+      }
+
+      // An unwritable cache directory must not fail a search that succeeded.
+      await options.store
+        .set(key, {
+          providerId: provider.descriptor.id,
+          fingerprint: request.fingerprint,
+          storedAt: now(),
+          results,
+        })
+        .catch(() => undefined);
+      return { results, cache: "miss" };
+    },
+  };
+}
+
+/** `$XDG_CACHE_HOME/subchef/<kind>`, falling back to `~/.cache` as the XDG spec does. */
+export function resolveCacheDir(
+  kind: "search" | "downloads",
+  env: NodeJS.ProcessEnv,
+): string {
+  const base =
+    env.XDG_CACHE_HOME !== undefined && isAbsolute(env.XDG_CACHE_HOME)
+      ? env.XDG_CACHE_HOME
+      : join(homedir(), ".cache");
+  return join(base, "subchef", kind);
+}
+
+/** One JSON file per entry; unreadable or foreign files are ignored. */
+export function createFileSearchCacheStore(dir: string): SearchCacheStore {
+  const entryPath = (key: string) => join(dir, `${key}.json`);
+
+  return {
+    location: dir,
+    async get(key) {
+      return (await readEntryFile(entryPath(key)))?.entry;
+    },
+    async set(key, entry) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(entryPath(key), JSON.stringify(entry));
+    },
+    async list() {
+      let names: string[];
+      try {
+        names = await readdir(dir);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return [];
+        }
+        throw error;
+      }
+
+      const stored: StoredSearchCacheEntry[] = [];
+      for (const name of names.filter((item) => item.endsWith(".json")).sort()) {
+        const read = await readEntryFile(join(dir, name));
+        if (read !== undefined) {
+          stored.push({ key: name.slice(0, -".json".length), ...read });
+        }
+      }
+      return stored;
+    },
+    async delete(key) {
+      await rm(entryPath(key), { force: true });
+    },
+  };
+}
+
+async function readEntryFile(
+  path: string,
+): Promise<{ bytes: number; entry: SearchCacheEntry } | undefined> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const entry = JSON.parse(text) as Partial<SearchCacheEntry>;
+    if (
+      typeof entry.providerId !== "string" ||
+      typeof entry.fingerprint !== "string" ||
+      typeof entry.storedAt !== "number" ||
+      !Array.isArray(entry.results)
+    ) {
+      return undefined;
+    }
+    return { bytes: Buffer.byteLength(text), entry: entry as SearchCacheEntry };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,261 @@
+import { CliAppError, isCliAppError } from "../core/index.js";
+
+import { cueText, parseSubtitle, splitBlocks, type SubtitleDocument } from "./subtitles.js";
+import type { SubtitleFormat } from "./types.js";
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+}
+
+/** Every rule can be turned off with `lint-disable`; syntax errors are always reported. */
+export const LINT_RULES = [
+  { id: "empty-file", severity: "error", description: "The file holds no cues" },
+  {
+    id: "html-document",
+    severity: "error",
+    description: "The file is a web page, such as an error or anti-bot page",
+  },
+  { id: "negative-duration", severity: "error", description: "A cue ends before it starts" },
+  { id: "zero-duration", severity: "warning", description: "A cue ends when it starts" },
+  {
+    id: "cue-order",
+    severity: "warning",
+    description: "A cue starts before the one listed ahead of it",
+  },
+  {
+    id: "cue-overlap",
+    severity: "warning",
+    description: "An SRT or WebVTT cue starts before the previous one ends",
+  },
+  {
+    id: "srt-index",
+    severity: "warning",
+    description: "An SRT cue number is missing or out of sequence",
+  },
+  { id: "empty-cue", severity: "warning", description: "A cue has no text" },
+  {
+    id: "html-tags",
+    severity: "warning",
+    description: "Cue text carries HTML tags or entities that players show verbatim",
+  },
+  {
+    id: "replacement-characters",
+    severity: "warning",
+    description: "Text holds U+FFFD, a sign it was decoded with the wrong encoding",
+  },
+] as const satisfies readonly LintRule[];
+
+export type LintRuleId = (typeof LINT_RULES)[number]["id"];
+
+export const LINT_RULE_IDS: LintRuleId[] = LINT_RULES.map((rule) => rule.id);
+
+export interface LintIssue {
+  /** A `LINT_RULES` id, or `syntax` when the file does not parse. */
+  rule: LintRuleId | "syntax";
+  severity: LintSeverity;
+  message: string;
+  /** 1-based, in file order. */
+  cue?: number;
+}
+
+export interface LintReport {
+  format: SubtitleFormat;
+  cues: number;
+  /** No error-severity issues. */
+  valid: boolean;
+  issues: LintIssue[];
+  summary: { errors: number; warnings: number };
+}
+
+export interface LintOptions {
+  disabled?: readonly string[];
+}
+
+const HTML_DOCUMENT = /^\s*(?:<!doctype html|<html[\s>]|<head[\s>]|<body[\s>])/i;
+
+/** Inline markup SRT and WebVTT players understand; anything else is shown as text. */
+const MARKUP_TAGS = new Set(["i", "b", "u", "s", "font", "c", "v", "lang", "ruby", "rt"]);
+const TAG = /<\/?([a-z][a-z0-9]*)\b[^>]*>/gi;
+const ENTITY = /&(?:[a-z]+|#\d+);/i;
+
+/**
+ * Parses `text` as `format` and checks it against `LINT_RULES`. A file that
+ * is a web page, empty or unparsable stops at that one issue.
+ */
+export function lintSubtitleText(
+  text: string,
+  format: SubtitleFormat,
+  options: LintOptions = {},
+): LintReport {
+  const disabled = new Set(options.disabled ?? []);
+  const issues: LintIssue[] = [];
+  const report = (rule: LintRuleId, message: string, cue?: number) => {
+    if (!disabled.has(rule)) {
+      issues.push({ rule, severity: findRule(rule).severity, message, cue });
+    }
+  };
+
+  const document = parseForLint(text, format, disabled, report, issues);
+  if (document !== undefined) {
+    checkCues(text, document, report);
+  }
+
+  return summarize(format, document?.cues.length ?? 0, issues);
+}
+
+export function formatLintIssue(issue: LintIssue): string {
+  const cue = issue.cue === undefined ? "" : ` cue ${issue.cue}:`;
+  return `[${issue.severity}] ${issue.rule}:${cue} ${issue.message}`;
+}
+
+/** `E_SUBTITLE_VALIDATION_FAILED` for a report with errors, naming the first one. */
+export function createLintFailureError(
+  report: LintReport,
+  subject: string,
+  details: object = {},
+): CliAppError {
+  const first = report.issues.find((issue) => issue.severity === "error");
+  const reason = first === undefined ? "" : `: ${formatLintIssue(first)}`;
+  return new CliAppError({
+    code: "E_SUBTITLE_VALIDATION_FAILED",
+    message: `${subject} is not a valid ${report.format} subtitle${reason}`,
+    details: {
+      ...details,
+      ...report,
+    },
+  });
+}
+
+type Report = (rule: LintRuleId, message: string, cue?: number) => void;
+
+function parseForLint(
+  text: string,
+  format: SubtitleFormat,
+  disabled: Set<string>,
+  report: Report,
+  issues: LintIssue[],
+): SubtitleDocument | undefined {
+  const content = text.replace(/^\uFEFF/, "");
+  if (HTML_DOCUMENT.test(content) && !disabled.has("html-document")) {
+    report("html-document", "The file is an HTML page");
+    return undefined;
+  }
+
+  if (content.trim().length === 0) {
+    report("empty-file", "The file is empty");
+    return undefined;
+  }
+
+  let document: SubtitleDocument;
+  try {
+    document = parseSubtitle(text, format);
+  } catch (error) {
+    if (!isCliAppError(error)) {
+      throw error;
+    }
+    const details = error.details as { cue?: unknown } | undefined;
+    issues.push({
+      rule: "syntax",
+      severity: "error",
+      message: error.message,
+      cue: typeof details?.cue === "number" ? details.cue : undefined,
+    });
+    return undefined;
+  }
+
+  if (document.cues.length === 0) {
+    report("empty-file", `The file has no ${format} cues`);
+  }
+  return document;
+}
+
+function checkCues(text: string, document: SubtitleDocument, report: Report): void {
+  const bodies = document.format === "ass" ? undefined : findCueBodies(text, document.format);
+
+  document.cues.forEach((cue, index) => {
+    const number = index + 1;
+    const previous = document.cues[index - 1];
+    const body = bodies?.[index]?.body ?? cueText(cue);
+
+    if (cue.end < cue.start) {
+      report("negative-duration", `Ends ${cue.start - cue.end} ms before it starts`, number);
+    } else if (cue.end === cue.start) {
+      report("zero-duration", "Starts and ends at the same time", number);
+    }
+
+    if (previous !== undefined && cue.start < previous.start) {
+      report("cue-order", `Starts before cue ${number - 1}`, number);
+    } else if (previous !== undefined && document.format !== "ass" && cue.start < previous.end) {
+      const overlap = previous.end - cue.start;
+      report("cue-overlap", `Starts ${overlap} ms before cue ${number - 1} ends`, number);
+    }
+
+    if (document.format === "srt") {
+      const label = bodies?.[index]?.label;
+      if (label === undefined) {
+        report("srt-index", "Has no cue number", number);
+      } else if (label !== String(number)) {
+        report("srt-index", `Is numbered ${label}`, number);
+      }
+    }
+
+    if (cueText(cue).trim().length === 0) {
+      report("empty-cue", "Has no text", number);
+    }
+
+    const tags = [...body.matchAll(TAG)]
+      .map((match) => match[1].toLowerCase())
+      .filter((name) => !MARKUP_TAGS.has(name));
+    if (tags.length > 0) {
+      report("html-tags", `Carries <${[...new Set(tags)].join(">, <")}>`, number);
+    } else if (document.format === "srt" && ENTITY.test(body)) {
+      report("html-tags", `Carries the HTML entity ${ENTITY.exec(body)?.[0]}`, number);
+    }
+
+    if (body.includes("\uFFFD")) {
+      report("replacement-characters", "Holds U+FFFD replacement characters", number);
+    }
+  });
+}
+
+/**
+ * The raw cue blocks of an SRT or WebVTT file in cue order: the line ahead of
+ * the timing (the SRT number or WebVTT identifier) and the text after it.
+ */
+function findCueBodies(
+  text: string,
+  format: SubtitleFormat,
+): Array<{ label?: string; body: string }> {
+  const blocks = splitBlocks(text).slice(format === "vtt" ? 1 : 0);
+  return blocks
+    .filter((block) => block.includes("-->") && !/^(?:NOTE|STYLE|REGION)(?:\s|$)/.test(block))
+    .map((block) => {
+      const lines = block.split("\n");
+      const timingIndex = lines.findIndex((line) => line.includes("-->"));
+      return {
+        label: timingIndex > 0 ? lines[timingIndex - 1].trim() : undefined,
+        body: lines.slice(timingIndex + 1).join("\n"),
+      };
+    });
+}
+
+function findRule(id: LintRuleId): LintRule {
+  return LINT_RULES.find((rule) => rule.id === id) as LintRule;
+}
+
+function summarize(format: SubtitleFormat, cues: number, issues: LintIssue[]): LintReport {
+  const count = (severity: LintSeverity) =>
+    issues.filter((issue) => issue.severity === severity).length;
+  const summary = { errors: count("error"), warnings: count("warning") };
+  return {
+    format,
+    cues,
+    valid: summary.errors === 0,
+    issues,
+    summary,
+  };
+}
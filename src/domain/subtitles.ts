@@ -0,0 +1,155 @@
+import type { CliWarning } from "../core/index.js";
+
+import type { ChineseScript } from "./chinese-script.js";
+import { parseAss, serializeAss } from "./subtitles/ass.js";
+import type { SerializedSubtitle, SubtitleDocument } from "./subtitles/ast.js";
+import { convertSubtitleScript, type SubtitleScriptReport } from "./subtitles/script.js";
+import { parseSrt, serializeSrt } from "./subtitles/srt.js";
+import {
+  shiftSubtitleDocument,
+  type SubtitleShiftOptions,
+  type SubtitleShiftReport,
+} from "./subtitles/timing.js";
+import { parseVtt, serializeVtt } from "./subtitles/vtt.js";
+import type { SubtitleFormat } from "./types.js";
+
+export {
+  cueText,
+  formatTimestamp,
+  parseTimestamp,
+  splitBlocks,
+  type SerializedSubtitle,
+  type SubtitleCue,
+  type SubtitleDocument,
+  type SubtitleSpan,
+  type SubtitleStyle,
+} from "./subtitles/ast.js";
+export {
+  BILINGUAL_STYLES,
+  mergeSubtitleDocuments,
+  type SubtitleMergeReport,
+} from "./subtitles/merge.js";
+export { convertSubtitleScript, type SubtitleScriptReport } from "./subtitles/script.js";
+export { estimateSubtitleSync, type SubtitleSyncEstimate } from "./subtitles/sync.js";
+export {
+  shiftSubtitleDocument,
+  summarizeTiming,
+  type CueTimeRange,
+  type SubtitleShiftOptions,
+  type SubtitleShiftReport,
+  type SubtitleTimingSummary,
+} from "./subtitles/timing.js";
+
+export interface SubtitleConversion {
+  text: string;
+  from: SubtitleFormat;
+  to: SubtitleFormat;
+  cues: number;
+  warnings: CliWarning[];
+  shift?: SubtitleShiftReport;
+  script?: SubtitleScriptReport;
+}
+
+export interface SubtitleRewriteOptions {
+  to?: SubtitleFormat;
+  shift?: SubtitleShiftOptions;
+  script?: ChineseScript;
+}
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ["srt", "ass", "vtt"];
+
+const SUBTITLE_EXTENSION_PATTERN = /\.(srt|ass|ssa|vtt)$/i;
+
+/** Sniffs the format from the text itself; `fallback` covers bare SRT-like files. */
+export function detectSubtitleFormat(
+  text: string,
+  fallback?: SubtitleFormat,
+): SubtitleFormat | undefined {
+  const head = text.replace(/^\uFEFF/, "").trimStart().slice(0, 512);
+  if (/^WEBVTT(?:[ \t\r\n]|$)/.test(head)) {
+    return "vtt";
+  }
+
+  if (/^\[Script Info\]/i.test(head) || /^\[V4\+? Styles\]/im.test(head)) {
+    return "ass";
+  }
+
+  if (/^\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/.test(head)) {
+    return "srt";
+  }
+
+  return fallback;
+}
+
+export function parseSubtitle(text: string, format: SubtitleFormat): SubtitleDocument {
+  if (format === "ass") {
+    return parseAss(text);
+  }
+
+  if (format === "vtt") {
+    return parseVtt(text);
+  }
+
+  return parseSrt(text);
+}
+
+export function serializeSubtitle(
+  document: SubtitleDocument,
+  format: SubtitleFormat,
+): SerializedSubtitle {
+  if (format === "ass") {
+    return serializeAss(document);
+  }
+
+  if (format === "vtt") {
+    return serializeVtt(document);
+  }
+
+  return serializeSrt(document);
+}
+
+export function convertSubtitleText(
+  text: string,
+  from: SubtitleFormat,
+  to: SubtitleFormat,
+): SubtitleConversion {
+  return rewriteSubtitleText(text, from, { to });
+}
+
+/**
+ * Parse, optionally retime and convert the Chinese script, and serialize in
+ * `to` (default: the source format).
+ */
+export function rewriteSubtitleText(
+  text: string,
+  from: SubtitleFormat,
+  options: SubtitleRewriteOptions,
+): SubtitleConversion {
+  const to = options.to ?? from;
+  const parsed = parseSubtitle(text, from);
+  const shifted =
+    options.shift === undefined ? undefined : shiftSubtitleDocument(parsed, options.shift);
+  const retimed = shifted?.document ?? parsed;
+  const converted =
+    options.script === undefined ? undefined : convertSubtitleScript(retimed, options.script);
+  const document = converted?.document ?? retimed;
+  const serialized = serializeSubtitle(document, to);
+
+  return {
+    text: serialized.text,
+    from,
+    to,
+    cues: document.cues.length,
+    warnings: serialized.warnings,
+    shift: shifted?.report,
+    script: converted?.report,
+  };
+}
+
+export function replaceSubtitleExtension(fileName: string, format: SubtitleFormat): string {
+  if (SUBTITLE_EXTENSION_PATTERN.test(fileName)) {
+    return fileName.replace(SUBTITLE_EXTENSION_PATTERN, `.${format}`);
+  }
+
+  return `${fileName}.${format}`;
+}
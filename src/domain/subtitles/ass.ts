@@ -0,0 +1,386 @@
+import {
+  compactLine,
+  createSubtitleParseError,
+  normalizeNewlines,
+  parseTimestamp,
+  type SerializedSubtitle,
+  type SubtitleCue,
+  type SubtitleDocument,
+  type SubtitleSpan,
+  type SubtitleStyle,
+} from "./ast.js";
+import {
+  ASS_STYLE_FORMAT,
+  assColorToHex,
+  hexToAssColor,
+  styleFromAssFields,
+  styleToAssFields,
+} from "./styles.js";
+
+type SpanStyle = Omit<SubtitleSpan, "text" | "overrides">;
+
+const EVENT_FORMAT = [
+  "Layer",
+  "Start",
+  "End",
+  "Style",
+  "Name",
+  "MarginL",
+  "MarginR",
+  "MarginV",
+  "Effect",
+  "Text",
+];
+
+const DEFAULT_SCRIPT_INFO: Record<string, string> = {
+  ScriptType: "v4.00+",
+  WrapStyle: "0",
+  ScaledBorderAndShadow: "yes",
+};
+
+/** Legacy `\a` alignment values mapped to numpad `\an` positions. */
+const LEGACY_ALIGNMENT: Record<number, number> = {
+  1: 1,
+  2: 2,
+  3: 3,
+  5: 7,
+  6: 8,
+  7: 9,
+  9: 4,
+  10: 5,
+  11: 6,
+};
+
+export function parseAss(text: string): SubtitleDocument {
+  const metadata: Record<string, string> = {};
+  const styles: SubtitleStyle[] = [];
+  const cues: SubtitleCue[] = [];
+  let section = "";
+  let styleFormat = ASS_STYLE_FORMAT;
+  let eventFormat = EVENT_FORMAT;
+
+  normalizeNewlines(text)
+    .split("\n")
+    .forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      if (line.length === 0 || line.startsWith(";")) {
+        return;
+      }
+
+      const header = /^\[(.+)\]$/.exec(line);
+      if (header !== null) {
+        section = header[1].trim().toLowerCase();
+        return;
+      }
+
+      const separator = line.indexOf(":");
+      if (separator < 0) {
+        return;
+      }
+
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim();
+
+      if (section === "script info") {
+        metadata[key] = value;
+        return;
+      }
+
+      if (section === "v4+ styles" || section === "v4 styles") {
+        if (key === "Format") {
+          styleFormat = splitFields(value, Number.POSITIVE_INFINITY);
+        } else if (key === "Style") {
+          const fields = zipFields(styleFormat, splitFields(value, styleFormat.length));
+          styles.push(styleFromAssFields(fields));
+        }
+        return;
+      }
+
+      if (section === "events") {
+        if (key === "Format") {
+          eventFormat = splitFields(value, Number.POSITIVE_INFINITY);
+        } else if (key === "Dialogue") {
+          const fields = zipFields(eventFormat, splitFields(value, eventFormat.length));
+          cues.push(parseDialogue(fields, index + 1));
+        }
+      }
+    });
+
+  if (section === "" && cues.length === 0) {
+    throw createSubtitleParseError("ass", "missing [Script Info] or [Events] section");
+  }
+
+  return { format: "ass", metadata, styles, cues };
+}
+
+export function serializeAss(document: SubtitleDocument): SerializedSubtitle {
+  const styles = [...document.styles];
+  const known = new Set(styles.map((style) => style.name.toLowerCase()));
+  for (const cue of document.cues) {
+    const name = cue.style ?? "Default";
+    if (!known.has(name.toLowerCase())) {
+      known.add(name.toLowerCase());
+      styles.push({ name });
+    }
+  }
+
+  const scriptInfo = { ...document.metadata };
+  for (const [key, value] of Object.entries(DEFAULT_SCRIPT_INFO)) {
+    scriptInfo[key] ??= value;
+  }
+  const lines = [
+    "[Script Info]",
+    ...Object.entries(scriptInfo).map(([key, value]) => `${key}: ${value}`),
+    "",
+    "[V4+ Styles]",
+    `Format: ${ASS_STYLE_FORMAT.join(", ")}`,
+    ...styles.map((style) => {
+      const fields = styleToAssFields(style);
+      return `Style: ${ASS_STYLE_FORMAT.map((key) => fields[key]).join(",")}`;
+    }),
+    "",
+    "[Events]",
+    `Format: ${EVENT_FORMAT.join(", ")}`,
+    ...document.cues.map(
+      (cue) =>
+        `Dialogue: ${[
+          cue.layer ?? 0,
+          formatAssTime(cue.start),
+          formatAssTime(cue.end),
+          cue.style ?? "Default",
+          cue.actor ?? "",
+          cue.fields?.MarginL || "0",
+          cue.fields?.MarginR || "0",
+          cue.fields?.MarginV || "0",
+          cue.fields?.Effect ?? "",
+          serializeAssText(cue),
+        ].join(",")}`,
+    ),
+  ];
+
+  return { text: `${lines.join("\n")}\n`, warnings: [] };
+}
+
+function parseDialogue(fields: Record<string, string>, line: number): SubtitleCue {
+  const start = parseTimestamp(fields.Start ?? "");
+  const end = parseTimestamp(fields.End ?? "");
+  if (start === undefined || end === undefined) {
+    throw createSubtitleParseError("ass", "malformed timestamp", {
+      line,
+      start: fields.Start,
+      end: fields.End,
+    });
+  }
+
+  const { Text: text = "", ...eventFields } = fields;
+  const layer = Number(fields.Layer);
+  const parsed = parseAssText(text);
+  return {
+    start,
+    end,
+    lines: parsed.lines,
+    style: fields.Style?.replace(/^\*/, "") || undefined,
+    actor: fields.Name || undefined,
+    layer: Number.isFinite(layer) && layer !== 0 ? layer : undefined,
+    alignment: parsed.alignment,
+    fields: eventFields,
+  };
+}
+
+function parseAssText(text: string): { lines: SubtitleSpan[][]; alignment?: number } {
+  const lines: SubtitleSpan[][] = [[]];
+  let state: SpanStyle = {};
+  let pendingOverrides: string[] = [];
+  let alignment: number | undefined;
+
+  const pushText = (value: string) => {
+    const overrides = pendingOverrides.length > 0 ? pendingOverrides.join("") : undefined;
+    pendingOverrides = [];
+    lines[lines.length - 1].push({ text: value, ...state, overrides });
+  };
+
+  for (const token of text.split(/(\{[^}]*\}|\\[Nnh])/)) {
+    if (token === "\\N") {
+      if (pendingOverrides.length > 0) {
+        pushText("");
+      }
+      lines.push([]);
+      continue;
+    }
+
+    if (token === "\\n" || token === "\\h") {
+      pushText(token === "\\h" ? "\u00a0" : " ");
+      continue;
+    }
+
+    if (token.startsWith("{") && token.endsWith("}")) {
+      for (const tag of tokenizeOverrideBlock(token.slice(1, -1))) {
+        const applied = applyOverrideTag(state, tag);
+        if (applied === undefined) {
+          pendingOverrides.push(tag);
+        } else if (typeof applied === "number") {
+          alignment = applied;
+        } else {
+          state = applied;
+        }
+      }
+      continue;
+    }
+
+    if (token.length > 0) {
+      pushText(token);
+    }
+  }
+
+  if (pendingOverrides.length > 0) {
+    pushText("");
+  }
+
+  return { lines: lines.map(compactLine), alignment };
+}
+
+/**
+ * Splits `\b1\pos(1,2)\t(0,100,\fs20)` into tags while keeping backslashes
+ * nested inside parentheses with their parent tag. Comments (text without
+ * a leading backslash) are discarded.
+ */
+function tokenizeOverrideBlock(block: string): string[] {
+  const tags: string[] = [];
+  let current = "";
+  let depth = 0;
+
+  for (const char of block) {
+    if (char === "\\" && depth === 0) {
+      if (current.startsWith("\\")) {
+        tags.push(current);
+      }
+      current = char;
+      continue;
+    }
+
+    if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth = Math.max(0, depth - 1);
+    }
+    current += char;
+  }
+
+  if (current.startsWith("\\")) {
+    tags.push(current);
+  }
+
+  return tags.map((tag) => tag.trim());
+}
+
+/**
+ * Returns the new span style, an alignment number, or undefined when the tag
+ * has no structured equivalent and must be kept verbatim.
+ */
+function applyOverrideTag(state: SpanStyle, tag: string): SpanStyle | number | undefined {
+  const toggle = /^\\([bius])(\d+)?$/.exec(tag);
+  if (toggle !== null) {
+    const key = ({ b: "bold", i: "italic", u: "underline", s: "strikeout" } as const)[
+      toggle[1] as "b" | "i" | "u" | "s"
+    ];
+    if (toggle[2] === undefined) {
+      return { ...state, [key]: undefined };
+    }
+
+    // \b also accepts font weights; 700 and above render bold.
+    const value = Number(toggle[2]);
+    return { ...state, [key]: key === "bold" ? value === 1 || value >= 700 : value !== 0 };
+  }
+
+  const color = /^\\1?c(&H[0-9a-f]+&?)?$/i.exec(tag);
+  if (color !== null) {
+    return { ...state, color: color[1] === undefined ? undefined : assColorToHex(color[1]) };
+  }
+
+  if (/^\\r$/.test(tag)) {
+    return {};
+  }
+
+  const numpad = /^\\an([1-9])$/.exec(tag);
+  if (numpad !== null) {
+    return Number(numpad[1]);
+  }
+
+  const legacy = /^\\a(\d+)$/.exec(tag);
+  if (legacy !== null && LEGACY_ALIGNMENT[Number(legacy[1])] !== undefined) {
+    return LEGACY_ALIGNMENT[Number(legacy[1])];
+  }
+
+  return undefined;
+}
+
+function serializeAssText(cue: SubtitleCue): string {
+  let state: SpanStyle = {};
+  const prefix = cue.alignment === undefined ? "" : `{\\an${cue.alignment}}`;
+
+  const lines = cue.lines.map((line) =>
+    line
+      .map((span) => {
+        const tags: string[] = [];
+        if (span.bold !== state.bold) {
+          tags.push(span.bold === undefined ? "\\b" : `\\b${span.bold ? 1 : 0}`);
+        }
+        if (span.italic !== state.italic) {
+          tags.push(span.italic === undefined ? "\\i" : `\\i${span.italic ? 1 : 0}`);
+        }
+        if (span.underline !== state.underline) {
+          tags.push(span.underline === undefined ? "\\u" : `\\u${span.underline ? 1 : 0}`);
+        }
+        if (span.strikeout !== state.strikeout) {
+          tags.push(span.strikeout === undefined ? "\\s" : `\\s${span.strikeout ? 1 : 0}`);
+        }
+        if (span.color !== state.color) {
+          tags.push(span.color === undefined ? "\\c" : `\\c${hexToAssColor(span.color, false)}`);
+        }
+        if (span.overrides !== undefined) {
+          tags.push(span.overrides);
+        }
+
+        state = {
+          bold: span.bold,
+          italic: span.italic,
+          underline: span.underline,
+          strikeout: span.strikeout,
+          color: span.color,
+        };
+
+        const text = span.text.replace(/\u00a0/g, "\\h");
+        return tags.length > 0 ? `{${tags.join("")}}${text}` : text;
+      })
+      .join(""),
+  );
+
+  return `${prefix}${lines.join("\\N")}`;
+}
+
+function formatAssTime(ms: number): string {
+  const total = Math.max(0, Math.round(ms / 10));
+  const hours = Math.floor(total / 360_000);
+  const minutes = Math.floor(total / 6000) % 60;
+  const seconds = Math.floor(total / 100) % 60;
+  const centis = total % 100;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(centis)}`;
+}
+
+/** Splits on commas, leaving any extra commas in the last field (Text). */
+function splitFields(value: string, count: number): string[] {
+  const parts = value.split(",");
+  if (parts.length <= count) {
+    return parts.map((part) => part.trim());
+  }
+
+  return [
+    ...parts.slice(0, count - 1).map((part) => part.trim()),
+    parts.slice(count - 1).join(","),
+  ];
+}
+
+function zipFields(format: string[], values: string[]): Record<string, string> {
+  return Object.fromEntries(format.map((key, index) => [key, values[index] ?? ""]));
+}
@@ -0,0 +1,143 @@
+import { CliAppError, type CliWarning } from "../../core/index.js";
+import type { SubtitleFormat } from "../types.js";
+
+/**
+ * Inline run of text with uniform styling. `overrides` keeps ASS override
+ * tags that have no structured equivalent (`\pos`, `\fad`, ...) so ASS to
+ * ASS conversions stay lossless.
+ */
+export interface SubtitleSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikeout?: boolean;
+  color?: string;
+  overrides?: string;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: SubtitleSpan[][];
+  identifier?: string;
+  style?: string;
+  actor?: string;
+  layer?: number;
+  alignment?: number;
+  /** Raw ASS event columns (margins, effect) kept for ASS output. */
+  fields?: Record<string, string>;
+}
+
+/**
+ * Named style. Typed fields cover what SRT/VTT can express; `fields` keeps
+ * every raw ASS column for round trips.
+ */
+export interface SubtitleStyle {
+  name: string;
+  fontName?: string;
+  fontSize?: number;
+  color?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikeout?: boolean;
+  alignment?: number;
+  fields?: Record<string, string>;
+}
+
+export interface SubtitleDocument {
+  format: SubtitleFormat;
+  metadata: Record<string, string>;
+  styles: SubtitleStyle[];
+  cues: SubtitleCue[];
+}
+
+export interface SerializedSubtitle {
+  text: string;
+  warnings: CliWarning[];
+}
+
+export function createSubtitleParseError(
+  format: SubtitleFormat,
+  reason: string,
+  details: Record<string, unknown> = {},
+): CliAppError {
+  return new CliAppError({
+    code: "E_SUBTITLE_INVALID",
+    message: `Invalid ${format} subtitle: ${reason}`,
+    details: {
+      format,
+      reason,
+      ...details,
+    },
+  });
+}
+
+/** Parses `[h]h:mm:ss[.,]fff` and `mm:ss.fff`; returns milliseconds. */
+export function parseTimestamp(value: string): number | undefined {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/.exec(value.trim());
+  if (match === null) {
+    return undefined;
+  }
+
+  const [, hours = "0", minutes, seconds, fraction = "0"] = match;
+  const millis = Number(fraction.padEnd(3, "0"));
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + millis;
+}
+
+export function formatTimestamp(ms: number, separator: "," | "."): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor(total / 60_000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const millis = total % 1000;
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}${separator}${pad(millis, 3)}`;
+}
+
+export function cueText(cue: SubtitleCue): string {
+  return cue.lines.map((line) => line.map((span) => span.text).join("")).join("\n");
+}
+
+export function splitBlocks(text: string): string[] {
+  return normalizeNewlines(text)
+    .split(/\n[ \t]*\n/)
+    .map((block) => block.replace(/^\n+|\s+$/g, ""))
+    .filter((block) => block.length > 0);
+}
+
+export function normalizeNewlines(text: string): string {
+  return text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+/** Drops empty spans and merges neighbours that share the same styling. */
+export function compactLine(spans: SubtitleSpan[]): SubtitleSpan[] {
+  const result: SubtitleSpan[] = [];
+  for (const span of spans) {
+    const previous = result.at(-1);
+    if (span.text.length === 0 && span.overrides === undefined) {
+      continue;
+    }
+    if (previous !== undefined && span.overrides === undefined && sameStyling(previous, span)) {
+      previous.text += span.text;
+      continue;
+    }
+    result.push({ ...span });
+  }
+
+  return result.length > 0 ? result : [{ text: "" }];
+}
+
+function sameStyling(left: SubtitleSpan, right: SubtitleSpan): boolean {
+  return (
+    left.bold === right.bold &&
+    left.italic === right.italic &&
+    left.underline === right.underline &&
+    left.strikeout === right.strikeout &&
+    left.color === right.color
+  );
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, "0");
+}
@@ -0,0 +1,204 @@
+import { compactLine, type SubtitleSpan } from "./ast.js";
+
+export interface ParsedMarkup {
+  lines: SubtitleSpan[][];
+  classes: string[];
+  voices: string[];
+}
+
+type SpanStyle = Omit<SubtitleSpan, "text" | "overrides">;
+
+interface OpenTag {
+  name: string;
+  style: SpanStyle;
+}
+
+const NAMED_COLORS: Record<string, string> = {
+  white: "#ffffff",
+  black: "#000000",
+  red: "#ff0000",
+  lime: "#00ff00",
+  green: "#008000",
+  blue: "#0000ff",
+  yellow: "#ffff00",
+  cyan: "#00ffff",
+  magenta: "#ff00ff",
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  lrm: "\u200e",
+  rlm: "\u200f",
+};
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z]+|\d[\d:.]*)([^>]*)>/g;
+
+/**
+ * Parses the HTML-like inline markup shared by SRT and WebVTT. Unknown tags
+ * are dropped and their text kept; `classes` and `voices` collect `<c.x>` and
+ * `<v name>` annotations for the caller to interpret.
+ */
+export function parseInlineMarkup(text: string, decodeEntities: boolean): ParsedMarkup {
+  const classes: string[] = [];
+  const voices: string[] = [];
+  // Ruby annotations have no equivalent outside WebVTT; keep the base text.
+  const source = text.replace(/<rt>[\s\S]*?<\/rt>/gi, "").split("\n");
+  const lines = source.map(() => [] as SubtitleSpan[]);
+  const stack: OpenTag[] = [];
+  const current = (): SpanStyle => stack.at(-1)?.style ?? {};
+  const decode = (value: string) => (decodeEntities ? decodeHtmlEntities(value) : value);
+
+  source.forEach((line, lineIndex) => {
+    let cursor = 0;
+    for (const match of line.matchAll(TAG_PATTERN)) {
+      const raw = line.slice(cursor, match.index);
+      if (raw.length > 0) {
+        lines[lineIndex].push({ text: decode(raw), ...current() });
+      }
+      cursor = match.index + match[0].length;
+
+      const [, closing, rawName, rest] = match;
+      const [name, ...tagClasses] = rawName.toLowerCase().concat(rest.split(/\s/)[0]).split(".");
+      if (/^\d/.test(name)) {
+        continue;
+      }
+
+      if (closing === "/") {
+        const openIndex = stack.map((item) => item.name).lastIndexOf(name);
+        if (openIndex >= 0) {
+          stack.splice(openIndex);
+        }
+        continue;
+      }
+
+      const style = { ...current() };
+      if (name === "b") {
+        style.bold = true;
+      } else if (name === "i") {
+        style.italic = true;
+      } else if (name === "u") {
+        style.underline = true;
+      } else if (name === "s") {
+        style.strikeout = true;
+      } else if (name === "font") {
+        const color = /color\s*=\s*["']?([^"'\s>]+)/i.exec(rest)?.[1];
+        const normalized = color === undefined ? undefined : normalizeColor(color);
+        if (normalized !== undefined) {
+          style.color = normalized;
+        }
+      } else if (name === "c") {
+        for (const className of tagClasses) {
+          const color = NAMED_COLORS[className.toLowerCase()];
+          if (color !== undefined) {
+            style.color = color;
+          } else if (/^c_[0-9a-f]{6}$/i.test(className)) {
+            style.color = `#${className.slice(2).toLowerCase()}`;
+          } else {
+            classes.push(className);
+          }
+        }
+      } else if (name === "v") {
+        const voice = rest.trim();
+        if (voice.length > 0) {
+          voices.push(voice);
+        }
+      }
+
+      stack.push({ name, style });
+    }
+
+    const tail = line.slice(cursor);
+    if (tail.length > 0) {
+      lines[lineIndex].push({ text: decode(tail), ...current() });
+    }
+  });
+
+  return {
+    lines: lines.map(compactLine),
+    classes: [...new Set(classes)],
+    voices: [...new Set(voices)],
+  };
+}
+
+/**
+ * Inverse of {@link parseInlineMarkup}. `colorTag` decides how colors are
+ * spelled (`<font color>` for SRT, `<c.class>` for WebVTT).
+ */
+export function serializeInlineMarkup(
+  lines: SubtitleSpan[][],
+  options: { escape: boolean; colorTag: (color: string) => [string, string] },
+): string {
+  return lines
+    .map((line) =>
+      line
+        .map((span) => {
+          let text = options.escape ? escapeHtml(span.text) : span.text;
+          if (span.color !== undefined) {
+            const [open, close] = options.colorTag(span.color);
+            text = `${open}${text}${close}`;
+          }
+          if (span.strikeout) {
+            text = `<s>${text}</s>`;
+          }
+          if (span.underline) {
+            text = `<u>${text}</u>`;
+          }
+          if (span.italic) {
+            text = `<i>${text}</i>`;
+          }
+          if (span.bold) {
+            text = `<b>${text}</b>`;
+          }
+          return text;
+        })
+        .join(""),
+    )
+    .join("\n");
+}
+
+export function normalizeColor(value: string): string | undefined {
+  const trimmed = value.trim().toLowerCase();
+  const named = NAMED_COLORS[trimmed];
+  if (named !== undefined) {
+    return named;
+  }
+
+  const hex = /^#?([0-9a-f]{6})$/.exec(trimmed)?.[1];
+  if (hex !== undefined) {
+    return `#${hex}`;
+  }
+
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/.exec(trimmed);
+  if (short !== null) {
+    return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`;
+  }
+
+  return undefined;
+}
+
+export function namedColorClass(color: string): string | undefined {
+  return Object.entries(NAMED_COLORS).find(
+    ([name, value]) => value === color && name !== "green",
+  )?.[0];
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body.startsWith("#x") || body.startsWith("#X")) {
+      return String.fromCodePoint(Number.parseInt(body.slice(2), 16));
+    }
+    if (body.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(body.slice(1), 10));
+    }
+    return ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
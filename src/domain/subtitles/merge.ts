@@ -0,0 +1,114 @@
+import type { SubtitleFormat } from "../types.js";
+import type { SubtitleCue, SubtitleDocument, SubtitleStyle } from "./ast.js";
+
+export interface SubtitleMergeReport {
+  cues: number;
+  /** Top cues that received at least one bottom cue. */
+  paired: number;
+  topOnly: number;
+  bottomOnly: number;
+}
+
+export const BILINGUAL_STYLES: SubtitleStyle[] = [
+  { name: "Top", fontSize: 64, alignment: 2, fields: { MarginV: "70" } },
+  { name: "Bottom", fontSize: 48, alignment: 2, fields: { MarginV: "20" } },
+];
+
+/** A bottom cue must spend this share of its time under a top cue to be paired with it. */
+const MIN_OVERLAP_RATIO = 0.3;
+
+/**
+ * Pairs every bottom cue with the top cue it overlaps most and stacks the
+ * two. ASS output keeps one event per language with `Top`/`Bottom` styles;
+ * SRT and WebVTT get a single cue with the top lines above the bottom lines.
+ * Paired cues use the top timing; unpaired cues from either side are kept.
+ */
+export function mergeSubtitleDocuments(
+  top: SubtitleDocument,
+  bottom: SubtitleDocument,
+  format: SubtitleFormat,
+): { document: SubtitleDocument; report: SubtitleMergeReport } {
+  const topCues = [...top.cues].sort((left, right) => left.start - right.start);
+  const assigned = new Map<SubtitleCue, SubtitleCue[]>(topCues.map((cue) => [cue, []]));
+  const bottomOnly: SubtitleCue[] = [];
+
+  for (const cue of bottom.cues) {
+    const match = findBestOverlap(topCues, cue);
+    if (match === undefined) {
+      bottomOnly.push(cue);
+    } else {
+      assigned.get(match)?.push(cue);
+    }
+  }
+
+  const cues: SubtitleCue[] = [];
+  for (const [cue, partners] of assigned) {
+    cues.push(...stackCues(cue, partners, format));
+  }
+  for (const cue of bottomOnly) {
+    cues.push(format === "ass" ? styled(cue, "Bottom") : plain(cue));
+  }
+  cues.sort((left, right) => left.start - right.start);
+
+  const paired = [...assigned.values()].filter((partners) => partners.length > 0).length;
+  return {
+    document: {
+      format,
+      metadata: format === "ass" ? { PlayResX: "1920", PlayResY: "1080" } : {},
+      styles: format === "ass" ? BILINGUAL_STYLES : [],
+      cues,
+    },
+    report: {
+      cues: cues.length,
+      paired,
+      topOnly: topCues.length - paired,
+      bottomOnly: bottomOnly.length,
+    },
+  };
+}
+
+function findBestOverlap(topCues: SubtitleCue[], cue: SubtitleCue): SubtitleCue | undefined {
+  let best: SubtitleCue | undefined;
+  let bestOverlap = 0;
+  for (const candidate of topCues) {
+    if (candidate.start >= cue.end) {
+      break;
+    }
+
+    const overlap = Math.min(candidate.end, cue.end) - Math.max(candidate.start, cue.start);
+    if (overlap > bestOverlap) {
+      best = candidate;
+      bestOverlap = overlap;
+    }
+  }
+
+  const duration = Math.max(1, cue.end - cue.start);
+  return bestOverlap / duration >= MIN_OVERLAP_RATIO ? best : undefined;
+}
+
+function stackCues(
+  top: SubtitleCue,
+  partners: SubtitleCue[],
+  format: SubtitleFormat,
+): SubtitleCue[] {
+  const bottomLines = partners.flatMap((cue) => cue.lines);
+  if (format !== "ass") {
+    return [{ ...plain(top), lines: [...top.lines, ...bottomLines] }];
+  }
+
+  const events = [styled(top, "Top")];
+  if (bottomLines.length > 0) {
+    events.push({ start: top.start, end: top.end, lines: bottomLines, style: "Bottom" });
+  }
+
+  return events;
+}
+
+function styled(cue: SubtitleCue, style: string): SubtitleCue {
+  return { start: cue.start, end: cue.end, lines: cue.lines, style, alignment: cue.alignment };
+}
+
+/** Identifiers, styles and ASS columns belong to the source file and are dropped. */
+function plain(cue: SubtitleCue): SubtitleCue {
+  return { start: cue.start, end: cue.end, lines: cue.lines, alignment: cue.alignment };
+}
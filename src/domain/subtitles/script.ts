@@ -0,0 +1,33 @@
+import { convertChineseScript, type ChineseScript } from "../chinese-script.js";
+import type { SubtitleDocument } from "./ast.js";
+
+export interface SubtitleScriptReport {
+  to: ChineseScript;
+  changedCharacters: number;
+}
+
+/**
+ * Converts cue text only, so ASS style names, fonts and script metadata keep
+ * the exact names the renderer looks up.
+ */
+export function convertSubtitleScript(
+  document: SubtitleDocument,
+  to: ChineseScript,
+): { document: SubtitleDocument; report: SubtitleScriptReport } {
+  let changedCharacters = 0;
+  const cues = document.cues.map((cue) => ({
+    ...cue,
+    lines: cue.lines.map((line) =>
+      line.map((span) => {
+        const converted = convertChineseScript(span.text, to);
+        changedCharacters += converted.changed;
+        return { ...span, text: converted.text };
+      }),
+    ),
+  }));
+
+  return {
+    document: { ...document, cues },
+    report: { to, changedCharacters },
+  };
+}
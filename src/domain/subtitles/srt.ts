@@ -0,0 +1,77 @@
+import {
+  createSubtitleParseError,
+  formatTimestamp,
+  parseTimestamp,
+  splitBlocks,
+  type SerializedSubtitle,
+  type SubtitleCue,
+  type SubtitleDocument,
+} from "./ast.js";
+import { parseInlineMarkup, serializeInlineMarkup } from "./markup.js";
+import {
+  applyCueStyle,
+  collectDroppedStyleWarnings,
+  resolveCueAlignment,
+} from "./styles.js";
+
+const TIMING_PATTERN = /^\s*(\S+)\s*-->\s*(\S+)/;
+const ALIGNMENT_TAG = /\{\\an([1-9])\}/;
+
+export function parseSrt(text: string): SubtitleDocument {
+  const cues: SubtitleCue[] = [];
+
+  for (const block of splitBlocks(text)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex < 0 || timingIndex > 1) {
+      throw createSubtitleParseError("srt", "missing timing line", {
+        cue: cues.length + 1,
+        block: lines[0],
+      });
+    }
+
+    const timing = TIMING_PATTERN.exec(lines[timingIndex]);
+    const start = timing === null ? undefined : parseTimestamp(timing[1]);
+    const end = timing === null ? undefined : parseTimestamp(timing[2]);
+    if (start === undefined || end === undefined) {
+      throw createSubtitleParseError("srt", "malformed timestamp", {
+        cue: cues.length + 1,
+        line: lines[timingIndex],
+      });
+    }
+
+    const body = lines.slice(timingIndex + 1).join("\n");
+    const alignment = ALIGNMENT_TAG.exec(body)?.[1];
+    const markup = parseInlineMarkup(body.replace(/\{\\[^}]*\}/g, ""), false);
+
+    cues.push({
+      start,
+      end,
+      lines: markup.lines,
+      alignment: alignment === undefined ? undefined : Number(alignment),
+    });
+  }
+
+  return { format: "srt", metadata: {}, styles: [], cues };
+}
+
+export function serializeSrt(document: SubtitleDocument): SerializedSubtitle {
+  const warnings = collectDroppedStyleWarnings(document, "srt");
+  const blocks = document.cues.map((cue, index) => {
+    const lines = applyCueStyle(document, cue);
+    const alignment = resolveCueAlignment(document, cue);
+    const alignmentTag = alignment !== undefined && alignment !== 2 ? `{\\an${alignment}}` : "";
+    const body = serializeInlineMarkup(lines, {
+      escape: false,
+      colorTag: (color) => [`<font color="${color}">`, "</font>"],
+    });
+
+    return [
+      String(index + 1),
+      `${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}`,
+      `${alignmentTag}${body}`,
+    ].join("\n");
+  });
+
+  return { text: blocks.length === 0 ? "" : `${blocks.join("\n\n")}\n`, warnings };
+}
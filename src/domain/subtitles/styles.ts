@@ -0,0 +1,229 @@
+import type { CliWarning } from "../../core/index.js";
+import type { SubtitleFormat } from "../types.js";
+import type { SubtitleCue, SubtitleDocument, SubtitleSpan, SubtitleStyle } from "./ast.js";
+
+export const ASS_STYLE_FORMAT = [
+  "Name",
+  "Fontname",
+  "Fontsize",
+  "PrimaryColour",
+  "SecondaryColour",
+  "OutlineColour",
+  "BackColour",
+  "Bold",
+  "Italic",
+  "Underline",
+  "StrikeOut",
+  "ScaleX",
+  "ScaleY",
+  "Spacing",
+  "Angle",
+  "BorderStyle",
+  "Outline",
+  "Shadow",
+  "Alignment",
+  "MarginL",
+  "MarginR",
+  "MarginV",
+  "Encoding",
+];
+
+export const ASS_DEFAULT_STYLE: Record<string, string> = {
+  Name: "Default",
+  Fontname: "Arial",
+  Fontsize: "20",
+  PrimaryColour: "&H00FFFFFF",
+  SecondaryColour: "&H000000FF",
+  OutlineColour: "&H00000000",
+  BackColour: "&H00000000",
+  Bold: "0",
+  Italic: "0",
+  Underline: "0",
+  StrikeOut: "0",
+  ScaleX: "100",
+  ScaleY: "100",
+  Spacing: "0",
+  Angle: "0",
+  BorderStyle: "1",
+  Outline: "2",
+  Shadow: "2",
+  Alignment: "2",
+  MarginL: "10",
+  MarginR: "10",
+  MarginV: "10",
+  Encoding: "1",
+};
+
+/** Style properties each text format can carry, by ASS column name. */
+const REPRESENTABLE_FIELDS: Record<SubtitleFormat, string[]> = {
+  ass: ASS_STYLE_FORMAT,
+  vtt: [
+    "Name",
+    "Fontname",
+    "PrimaryColour",
+    "Bold",
+    "Italic",
+    "Underline",
+    "StrikeOut",
+    "Alignment",
+  ],
+  srt: ["Name", "PrimaryColour", "Bold", "Italic", "Underline", "StrikeOut", "Alignment"],
+};
+
+const DEFAULT_COLOR = "#ffffff";
+
+/** `&HAABBGGRR` (alpha optional) to `#rrggbb`. */
+export function assColorToHex(value: string): string | undefined {
+  const match = /^&H([0-9a-f]{2})?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})&?$/i.exec(value.trim());
+  if (match === null) {
+    return undefined;
+  }
+
+  const [, , blue, green, red] = match;
+  return `#${red}${green}${blue}`.toLowerCase();
+}
+
+export function hexToAssColor(color: string, withAlpha: boolean): string {
+  const hex = color.replace("#", "").toUpperCase();
+  const bgr = `${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`;
+  return withAlpha ? `&H00${bgr}` : `&H${bgr}&`;
+}
+
+export function styleFromAssFields(fields: Record<string, string>): SubtitleStyle {
+  const flag = (key: string) => fields[key] !== undefined && fields[key] !== "0";
+  const fontSize = Number(fields.Fontsize);
+  const alignment = Number(fields.Alignment);
+
+  return {
+    name: fields.Name ?? "Default",
+    fontName: fields.Fontname,
+    fontSize: Number.isFinite(fontSize) ? fontSize : undefined,
+    color: fields.PrimaryColour === undefined ? undefined : assColorToHex(fields.PrimaryColour),
+    bold: flag("Bold"),
+    italic: flag("Italic"),
+    underline: flag("Underline"),
+    strikeout: flag("StrikeOut"),
+    alignment: alignment >= 1 && alignment <= 9 ? alignment : undefined,
+    fields,
+  };
+}
+
+export function styleToAssFields(style: SubtitleStyle): Record<string, string> {
+  const flag = (value: boolean | undefined, raw: string | undefined) =>
+    value === undefined ? (raw ?? "0") : value ? "-1" : "0";
+  const fields = { ...ASS_DEFAULT_STYLE, ...style.fields };
+
+  return {
+    ...fields,
+    Name: style.name,
+    Fontname: style.fontName ?? fields.Fontname,
+    Fontsize: style.fontSize === undefined ? fields.Fontsize : String(style.fontSize),
+    PrimaryColour:
+      style.color === undefined ? fields.PrimaryColour : hexToAssColor(style.color, true),
+    Bold: flag(style.bold, style.fields?.Bold),
+    Italic: flag(style.italic, style.fields?.Italic),
+    Underline: flag(style.underline, style.fields?.Underline),
+    StrikeOut: flag(style.strikeout, style.fields?.StrikeOut),
+    Alignment: style.alignment === undefined ? fields.Alignment : String(style.alignment),
+  };
+}
+
+export function findCueStyle(
+  document: SubtitleDocument,
+  cue: SubtitleCue,
+): SubtitleStyle | undefined {
+  if (cue.style === undefined) {
+    return undefined;
+  }
+
+  return (
+    document.styles.find((style) => style.name === cue.style) ??
+    document.styles.find((style) => style.name.toLowerCase() === cue.style?.toLowerCase())
+  );
+}
+
+export function resolveCueAlignment(
+  document: SubtitleDocument,
+  cue: SubtitleCue,
+): number | undefined {
+  return cue.alignment ?? findCueStyle(document, cue)?.alignment;
+}
+
+/**
+ * Folds the cue's named style into its spans for formats without style
+ * sheets. Explicit span values win, so `{\b0}` inside a bold style stays
+ * regular.
+ */
+export function applyCueStyle(document: SubtitleDocument, cue: SubtitleCue): SubtitleSpan[][] {
+  const style = findCueStyle(document, cue);
+  if (style === undefined) {
+    return cue.lines;
+  }
+
+  const color = style.color === DEFAULT_COLOR ? undefined : style.color;
+  return cue.lines.map((line) =>
+    line.map((span) => ({
+      ...span,
+      bold: span.bold ?? (style.bold || undefined),
+      italic: span.italic ?? (style.italic || undefined),
+      underline: span.underline ?? (style.underline || undefined),
+      strikeout: span.strikeout ?? (style.strikeout || undefined),
+      color: span.color ?? color,
+    })),
+  );
+}
+
+/**
+ * One warning per used style whose non-default properties the target cannot
+ * carry, plus one for ASS override tags that only ASS understands.
+ */
+export function collectDroppedStyleWarnings(
+  document: SubtitleDocument,
+  target: SubtitleFormat,
+): CliWarning[] {
+  const warnings: CliWarning[] = [];
+  const usedStyles = new Set(document.cues.map((cue) => findCueStyle(document, cue)?.name));
+  const representable = new Set(REPRESENTABLE_FIELDS[target]);
+
+  for (const style of document.styles) {
+    if (!usedStyles.has(style.name)) {
+      continue;
+    }
+
+    const fields = styleToAssFields(style);
+    const dropped = ASS_STYLE_FORMAT.filter(
+      (key) => !representable.has(key) && fields[key] !== ASS_DEFAULT_STYLE[key],
+    );
+    if (dropped.length === 0) {
+      continue;
+    }
+
+    warnings.push({
+      code: "W_STYLE_DROPPED",
+      message: `Style "${style.name}" properties not supported by ${target}: ${dropped.join(", ")}`,
+      details: {
+        style: style.name,
+        target,
+        properties: dropped,
+      },
+    });
+  }
+
+  if (target !== "ass") {
+    const overrides = document.cues.filter((cue) =>
+      cue.lines.some((line) => line.some((span) => span.overrides !== undefined)),
+    ).length;
+    if (overrides > 0) {
+      warnings.push({
+        code: "W_OVERRIDE_DROPPED",
+        message: `${overrides} cue(s) use ASS override tags not supported by ${target}`,
+        details: {
+          target,
+          cues: overrides,
+        },
+      });
+    }
+  }
+
+  return warnings;
+}
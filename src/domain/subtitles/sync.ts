@@ -0,0 +1,197 @@
+import type { SubtitleCue } from "./ast.js";
+
+export interface SubtitleSyncEstimate {
+  /** Applied after scaling, as in `shiftSubtitleDocument`. */
+  offsetMs: number;
+  scale: number;
+  /** Share of cues (of the shorter file) whose start lands on a reference cue, 0..1. */
+  confidence: number;
+  matchedCues: number;
+  /** Median distance between aligned and reference cue starts. */
+  residualMs: number;
+}
+
+interface CuePair {
+  input: number;
+  reference: number;
+}
+
+const COMMON_FRAMERATES = [23.976, 24, 25, 29.97];
+const OFFSET_BUCKET_MS = 100;
+const MAX_OFFSET_MS = 30 * 60 * 1000;
+const MATCH_TOLERANCE_MS = 500;
+const MIN_DURATION_SIMILARITY = 0.5;
+const REFINE_ROUNDS = 3;
+
+/**
+ * Finds `scale` and `offsetMs` so that `start * scale + offsetMs` lines the
+ * input cues up with the reference. Every input/reference pair with a similar
+ * duration votes for an offset under each common framerate ratio; the densest
+ * vote wins and is then refined by least squares over the matched starts.
+ */
+export function estimateSubtitleSync(
+  input: SubtitleCue[],
+  reference: SubtitleCue[],
+): SubtitleSyncEstimate {
+  const inputCues = sortByStart(input);
+  const referenceCues = sortByStart(reference);
+  if (inputCues.length === 0 || referenceCues.length === 0) {
+    return { offsetMs: 0, scale: 1, confidence: 0, matchedCues: 0, residualMs: 0 };
+  }
+
+  let { scale, offsetMs } = voteForAlignment(inputCues, referenceCues);
+  for (let round = 0; round < REFINE_ROUNDS; round += 1) {
+    const refined = fitLine(matchCues(inputCues, referenceCues, scale, offsetMs));
+    if (refined === undefined) {
+      break;
+    }
+
+    ({ scale, offsetMs } = refined);
+  }
+
+  const pairs = matchCues(inputCues, referenceCues, scale, offsetMs);
+  const residuals = pairs.map((pair) => Math.abs(pair.input * scale + offsetMs - pair.reference));
+  const coverage = pairs.length / Math.min(inputCues.length, referenceCues.length);
+
+  return {
+    offsetMs: Math.round(offsetMs),
+    scale: Number(scale.toFixed(6)),
+    confidence: Number(Math.min(1, coverage).toFixed(2)),
+    matchedCues: pairs.length,
+    residualMs: Math.round(median(residuals)),
+  };
+}
+
+function voteForAlignment(
+  input: SubtitleCue[],
+  reference: SubtitleCue[],
+): { scale: number; offsetMs: number } {
+  let best = { scale: 1, offsetMs: 0, votes: 0 };
+
+  for (const scale of candidateScales()) {
+    const buckets = new Map<number, number>();
+    for (const cue of input) {
+      const start = cue.start * scale;
+      const duration = (cue.end - cue.start) * scale;
+      for (const target of reference) {
+        const offset = target.start - start;
+        const similarity = durationSimilarity(duration, target.end - target.start);
+        if (Math.abs(offset) > MAX_OFFSET_MS || similarity < MIN_DURATION_SIMILARITY) {
+          continue;
+        }
+
+        const bucket = Math.round(offset / OFFSET_BUCKET_MS);
+        buckets.set(bucket, (buckets.get(bucket) ?? 0) + similarity);
+      }
+    }
+
+    for (const bucket of buckets.keys()) {
+      const votes =
+        (buckets.get(bucket - 1) ?? 0) +
+        (buckets.get(bucket) ?? 0) +
+        (buckets.get(bucket + 1) ?? 0);
+      if (votes > best.votes) {
+        best = { scale, offsetMs: bucket * OFFSET_BUCKET_MS, votes };
+      }
+    }
+  }
+
+  return { scale: best.scale, offsetMs: best.offsetMs };
+}
+
+/** 1 first, so an unshifted framerate wins ties. */
+function candidateScales(): number[] {
+  const scales = [1];
+  for (const from of COMMON_FRAMERATES) {
+    for (const to of COMMON_FRAMERATES) {
+      if (from !== to) {
+        scales.push(from / to);
+      }
+    }
+  }
+
+  return scales;
+}
+
+function matchCues(
+  input: SubtitleCue[],
+  reference: SubtitleCue[],
+  scale: number,
+  offsetMs: number,
+): CuePair[] {
+  const pairs: CuePair[] = [];
+
+  for (const cue of input) {
+    const predicted = cue.start * scale + offsetMs;
+    const target = reference[nearestStartIndex(reference, predicted)];
+    const similarity = durationSimilarity((cue.end - cue.start) * scale, target.end - target.start);
+    if (
+      Math.abs(target.start - predicted) <= MATCH_TOLERANCE_MS &&
+      similarity >= MIN_DURATION_SIMILARITY
+    ) {
+      pairs.push({ input: cue.start, reference: target.start });
+    }
+  }
+
+  return pairs;
+}
+
+function fitLine(pairs: CuePair[]): { scale: number; offsetMs: number } | undefined {
+  if (pairs.length < 2) {
+    return undefined;
+  }
+
+  const meanX = pairs.reduce((sum, pair) => sum + pair.input, 0) / pairs.length;
+  const meanY = pairs.reduce((sum, pair) => sum + pair.reference, 0) / pairs.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const pair of pairs) {
+    covariance += (pair.input - meanX) * (pair.reference - meanY);
+    variance += (pair.input - meanX) ** 2;
+  }
+
+  if (variance === 0) {
+    return undefined;
+  }
+
+  const scale = covariance / variance;
+  return { scale, offsetMs: meanY - scale * meanX };
+}
+
+function nearestStartIndex(cues: SubtitleCue[], time: number): number {
+  let low = 0;
+  let high = cues.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (cues[middle].start < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  if (low > 0 && time - cues[low - 1].start < cues[low].start - time) {
+    return low - 1;
+  }
+
+  return low;
+}
+
+function durationSimilarity(left: number, right: number): number {
+  const longer = Math.max(left, right);
+  return longer <= 0 ? 1 : Math.min(left, right) / longer;
+}
+
+function sortByStart(cues: SubtitleCue[]): SubtitleCue[] {
+  return [...cues].sort((left, right) => left.start - right.start);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((left, right) => left - right);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
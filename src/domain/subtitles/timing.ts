@@ -0,0 +1,83 @@
+import type { SubtitleCue, SubtitleDocument } from "./ast.js";
+
+export interface SubtitleShiftOptions {
+  offsetMs?: number;
+  fromFps?: number;
+  toFps?: number;
+  /** Raw time scale, used when no framerate pair is given (e.g. from `sub sync`). */
+  scale?: number;
+}
+
+export interface CueTimeRange {
+  start: number;
+  end: number;
+}
+
+export interface SubtitleTimingSummary {
+  cues: number;
+  first?: CueTimeRange;
+  last?: CueTimeRange;
+}
+
+export interface SubtitleShiftReport {
+  offsetMs: number;
+  scale: number;
+  fromFps?: number;
+  toFps?: number;
+  droppedCues: number;
+  before: SubtitleTimingSummary;
+  after: SubtitleTimingSummary;
+}
+
+/**
+ * Rescales then offsets every cue: `t' = t * fromFps / toFps + offsetMs`
+ * (or `t * scale + offsetMs` without a framerate pair).
+ * Cues pushed entirely before zero are dropped; partially negative cues are
+ * clamped to start at zero.
+ */
+export function shiftSubtitleDocument(
+  document: SubtitleDocument,
+  options: SubtitleShiftOptions,
+): { document: SubtitleDocument; report: SubtitleShiftReport } {
+  const offsetMs = options.offsetMs ?? 0;
+  const scale =
+    options.fromFps !== undefined && options.toFps !== undefined
+      ? options.fromFps / options.toFps
+      : (options.scale ?? 1);
+
+  const shifted = document.cues
+    .map((cue) => ({
+      ...cue,
+      start: Math.round(cue.start * scale + offsetMs),
+      end: Math.round(cue.end * scale + offsetMs),
+    }))
+    .filter((cue) => cue.end > 0)
+    .map((cue) => ({ ...cue, start: Math.max(0, cue.start) }));
+
+  return {
+    document: { ...document, cues: shifted },
+    report: {
+      offsetMs,
+      scale: Number(scale.toFixed(6)),
+      fromFps: options.fromFps,
+      toFps: options.toFps,
+      droppedCues: document.cues.length - shifted.length,
+      before: summarizeTiming(document.cues),
+      after: summarizeTiming(shifted),
+    },
+  };
+}
+
+export function summarizeTiming(cues: SubtitleCue[]): SubtitleTimingSummary {
+  if (cues.length === 0) {
+    return { cues: 0 };
+  }
+
+  const first = cues.reduce((best, cue) => (cue.start < best.start ? cue : best));
+  const last = cues.reduce((best, cue) => (cue.end > best.end ? cue : best));
+  return {
+    cues: cues.length,
+    first: { start: first.start, end: first.end },
+    last: { start: last.start, end: last.end },
+  };
+}
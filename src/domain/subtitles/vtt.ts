@@ -0,0 +1,230 @@
+import {
+  createSubtitleParseError,
+  formatTimestamp,
+  parseTimestamp,
+  splitBlocks,
+  type SerializedSubtitle,
+  type SubtitleCue,
+  type SubtitleDocument,
+  type SubtitleStyle,
+} from "./ast.js";
+import {
+  namedColorClass,
+  normalizeColor,
+  parseInlineMarkup,
+  serializeInlineMarkup,
+} from "./markup.js";
+import { collectDroppedStyleWarnings, findCueStyle, resolveCueAlignment } from "./styles.js";
+
+const TIMING_PATTERN = /^\s*(\S+)\s+-->\s+(\S+)(.*)$/;
+const STYLE_RULE_PATTERN = /::cue\(\.([A-Za-z0-9_-]+)\)\s*\{([^}]*)\}/g;
+const DEFAULT_COLOR = "#ffffff";
+
+export function parseVtt(text: string): SubtitleDocument {
+  const blocks = splitBlocks(text);
+  if (blocks.length === 0 || !/^WEBVTT(?:[ \t].*)?$/.test(blocks[0].split("\n")[0])) {
+    throw createSubtitleParseError("vtt", "missing WEBVTT header");
+  }
+
+  const styles: SubtitleStyle[] = [];
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks.slice(1)) {
+    if (/^NOTE(?:\s|$)/.test(block) || /^REGION(?:\s|$)/.test(block)) {
+      continue;
+    }
+
+    if (/^STYLE(?:\s|$)/.test(block)) {
+      styles.push(...parseStyleBlock(block));
+      continue;
+    }
+
+    const lines = block.split("\n");
+    const timingIndex = lines[0].includes("-->") ? 0 : 1;
+    const timing = TIMING_PATTERN.exec(lines[timingIndex] ?? "");
+    const start = timing === null ? undefined : parseTimestamp(timing[1]);
+    const end = timing === null ? undefined : parseTimestamp(timing[2]);
+    if (timing === null || start === undefined || end === undefined) {
+      throw createSubtitleParseError("vtt", "malformed cue timing", {
+        cue: cues.length + 1,
+        line: lines[timingIndex],
+      });
+    }
+
+    const markup = parseInlineMarkup(lines.slice(timingIndex + 1).join("\n"), true);
+    const style = markup.classes.find((className) =>
+      styles.some((item) => item.name === className),
+    );
+
+    cues.push({
+      start,
+      end,
+      lines: markup.lines,
+      identifier: timingIndex === 1 ? lines[0] : undefined,
+      style,
+      actor: markup.voices[0],
+      alignment: parseCueSettings(timing[3]),
+    });
+  }
+
+  return { format: "vtt", metadata: {}, styles, cues };
+}
+
+export function serializeVtt(document: SubtitleDocument): SerializedSubtitle {
+  const warnings = collectDroppedStyleWarnings(document, "vtt");
+  const usedStyles = new Map<string, SubtitleStyle>();
+  const colors = new Set<string>();
+
+  const cues = document.cues.map((cue) => {
+    const style = findCueStyle(document, cue);
+    if (style !== undefined) {
+      usedStyles.set(style.name, style);
+    }
+
+    let body = serializeInlineMarkup(cue.lines, {
+      escape: true,
+      colorTag: (color) => {
+        const named = namedColorClass(color);
+        if (named === undefined) {
+          colors.add(color);
+        }
+        return [`<c.${named ?? colorClass(color)}>`, "</c>"];
+      },
+    });
+    if (style !== undefined) {
+      body = `<c.${styleClass(style.name)}>${body}</c>`;
+    }
+    if (cue.actor !== undefined) {
+      body = `<v ${cue.actor}>${body}`;
+    }
+
+    const settings = formatCueSettings(resolveCueAlignment(document, cue));
+    return [
+      ...(cue.identifier === undefined ? [] : [cue.identifier]),
+      `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}${settings}`,
+      body,
+    ].join("\n");
+  });
+
+  const rules = [
+    ...[...usedStyles.values()].map(
+      (style) => `::cue(.${styleClass(style.name)}) { ${styleDeclarations(style).join(" ")} }`,
+    ),
+    ...[...colors].map((color) => `::cue(.${colorClass(color)}) { color: ${color}; }`),
+  ];
+
+  const blocks = ["WEBVTT", ...(rules.length > 0 ? [["STYLE", ...rules].join("\n")] : []), ...cues];
+  return { text: `${blocks.join("\n\n")}\n`, warnings };
+}
+
+function parseStyleBlock(block: string): SubtitleStyle[] {
+  const styles: SubtitleStyle[] = [];
+  for (const match of block.matchAll(STYLE_RULE_PATTERN)) {
+    const [, name, body] = match;
+    if (/^c_[0-9a-f]{6}$/i.test(name)) {
+      continue;
+    }
+
+    const declarations = Object.fromEntries(
+      body
+        .split(";")
+        .map((item) => item.split(":").map((part) => part.trim()))
+        .filter((parts) => parts.length === 2 && parts[0].length > 0)
+        .map(([key, value]) => [key.toLowerCase(), value]),
+    );
+
+    const decoration = declarations["text-decoration"] ?? "";
+    styles.push({
+      name,
+      fontName: declarations["font-family"]?.replace(/^["']|["']$/g, ""),
+      color: declarations.color === undefined ? undefined : normalizeColor(declarations.color),
+      bold: /bold|[6-9]00/.test(declarations["font-weight"] ?? "") || undefined,
+      italic: /italic|oblique/.test(declarations["font-style"] ?? "") || undefined,
+      underline: decoration.includes("underline") || undefined,
+      strikeout: decoration.includes("line-through") || undefined,
+    });
+  }
+
+  return styles;
+}
+
+function styleDeclarations(style: SubtitleStyle): string[] {
+  const declarations: string[] = [];
+  if (style.color !== undefined && style.color !== DEFAULT_COLOR) {
+    declarations.push(`color: ${style.color};`);
+  }
+  if (style.fontName !== undefined) {
+    declarations.push(`font-family: "${style.fontName}";`);
+  }
+  if (style.bold) {
+    declarations.push("font-weight: bold;");
+  }
+  if (style.italic) {
+    declarations.push("font-style: italic;");
+  }
+
+  const decorations = [
+    ...(style.underline ? ["underline"] : []),
+    ...(style.strikeout ? ["line-through"] : []),
+  ];
+  if (decorations.length > 0) {
+    declarations.push(`text-decoration: ${decorations.join(" ")};`);
+  }
+
+  return declarations;
+}
+
+/** Maps `line`/`align` cue settings onto numpad alignment (1-9). */
+function parseCueSettings(settings: string): number | undefined {
+  const values = Object.fromEntries(
+    settings
+      .trim()
+      .split(/\s+/)
+      .map((item) => item.split(":"))
+      .filter((parts) => parts.length === 2),
+  );
+
+  if (values.line === undefined && values.align === undefined) {
+    return undefined;
+  }
+
+  let row = 0;
+  const line = values.line?.split(",")[0];
+  if (line !== undefined && line.endsWith("%")) {
+    const percent = Number.parseFloat(line);
+    row = percent < 34 ? 2 : percent < 67 ? 1 : 0;
+  } else if (line !== undefined && Number.parseFloat(line) >= 0) {
+    row = 2;
+  }
+
+  const align = values.align;
+  let column = 2;
+  if (align === "start" || align === "left") {
+    column = 1;
+  } else if (align === "end" || align === "right") {
+    column = 3;
+  }
+  return row * 3 + column;
+}
+
+function formatCueSettings(alignment: number | undefined): string {
+  if (alignment === undefined || alignment === 2) {
+    return "";
+  }
+
+  const row = Math.floor((alignment - 1) / 3);
+  const column = (alignment - 1) % 3;
+  const settings = [
+    ...(row === 2 ? ["line:0"] : row === 1 ? ["line:50%"] : []),
+    ...(column === 0 ? ["align:start"] : column === 2 ? ["align:end"] : []),
+  ];
+  return settings.length === 0 ? "" : ` ${settings.join(" ")}`;
+}
+
+function styleClass(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+function colorClass(color: string): string {
+  return `c_${color.slice(1)}`;
+}
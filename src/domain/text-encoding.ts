@@ -0,0 +1,213 @@
+export type OutputEncodingMode = "auto" | "keep" | "utf-8" | "utf-8-bom";
+
+export const OUTPUT_ENCODING_MODES: OutputEncodingMode[] = ["auto", "keep", "utf-8", "utf-8-bom"];
+
+export interface EncodingDetection {
+  encoding: string;
+  confidence: number;
+  bom: boolean;
+}
+
+export interface EncodingReport {
+  detectedEncoding: string;
+  confidence: number;
+  outputEncoding: string;
+}
+
+export interface TranscodedText {
+  content: Uint8Array;
+  text: string;
+  encoding: EncodingReport;
+}
+
+const SAMPLE_BYTES = 64 * 1024;
+
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+const UTF16LE_BOM = [0xff, 0xfe];
+const UTF16BE_BOM = [0xfe, 0xff];
+
+const LEGACY_CJK_ENCODINGS = ["gb18030", "big5"] as const;
+
+/**
+ * Frequent Han characters in both simplified and traditional forms. Text
+ * decoded with the wrong legacy code page lands on rare characters instead.
+ */
+const FREQUENT_HAN = new Set(
+  Array.from(
+    "的一是不了人我在有他这這中大来來上个個国國到说說们們为為子和你地出道也时時年得就那要下以生会會自着著去之过過家学學对對可她里裏後后小么麼心多天而能好都然没沒日于起还還发發成事只作当當想看文无無开開手十用主行方又如前所本见見经經头頭面公同三已老从從动動两兩长長知民样樣现現分将將外但身些与與高意进進把法此实實回二理美点點月明其种種声聲全工己话話儿兒者向情部正名定女问問力机機给給等几幾很业業最间間新什打便位因重被走电電四第门門相次东東海口使教西再平真听聽世气氣信北少关關并內内加化由却卻代军軍产產入先山五太水万萬市眼体體别別处處总總才场場师師书書比住员員九笑性通目报報立马馬命张張活难難神数數件安表原车車白应應路期叫死常提感金何更反合放做系计計或司利受光王果亲親界及今京务務制解各任至清物台象记記边邊共风風战戰干接它许許八特觉覺望直服毛林题題建南度统統色字请請交爱愛让讓认認算论論百吃义義怎元社术術结結六功指思非流每青管夫连連远遠资資队隊跟带帶花快条條院变變联聯言权權往展该該领領传傳近留红紅治决決周保达達办辦运運武半候七必城父强強步完革深区區即求品士转轉量空甚众眾技轻輕程告江语語英基派满滿式李息写寫呢识識极極令黄黃德收脸臉钱錢党黨倒未持取设設始版双雙视視吗嗎啊吧哦嗯呀谢謝对不起没事走吧快点",
+  ),
+);
+
+export function detectTextEncoding(bytes: Uint8Array): EncodingDetection {
+  if (startsWith(bytes, UTF8_BOM)) {
+    return { encoding: "utf-8", confidence: 1, bom: true };
+  }
+
+  if (startsWith(bytes, UTF16LE_BOM)) {
+    return { encoding: "utf-16le", confidence: 1, bom: true };
+  }
+
+  if (startsWith(bytes, UTF16BE_BOM)) {
+    return { encoding: "utf-16be", confidence: 1, bom: true };
+  }
+
+  const sample = bytes.subarray(0, SAMPLE_BYTES);
+  const utf16 = detectBomlessUtf16(sample);
+  if (utf16 !== undefined) {
+    return { encoding: utf16, confidence: 0.9, bom: false };
+  }
+
+  if (sample.every((byte) => byte < 0x80)) {
+    return { encoding: "utf-8", confidence: 1, bom: false };
+  }
+
+  if (tryDecode(trimPartialUtf8(sample, bytes.length), "utf-8") !== undefined) {
+    return { encoding: "utf-8", confidence: 0.99, bom: false };
+  }
+
+  const scored = LEGACY_CJK_ENCODINGS.map((encoding) => ({
+    encoding,
+    score: scoreHanText(tryDecode(sample, encoding, false) ?? ""),
+  })).sort((left, right) => right.score - left.score);
+
+  const [best, runnerUp] = scored;
+  if (best.score <= 0) {
+    return { encoding: "windows-1252", confidence: 0.3, bom: false };
+  }
+
+  const margin = (best.score - runnerUp.score) / best.score;
+  return {
+    encoding: best.encoding,
+    confidence: roundConfidence(0.5 + 0.49 * margin),
+    bom: false,
+  };
+}
+
+export function decodeText(bytes: Uint8Array, encoding: string): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+/**
+ * Normalizes subtitle bytes for players that assume UTF-8. `auto` leaves UTF-8
+ * input untouched and converts everything else to UTF-8 without BOM.
+ */
+export function transcodeSubtitleText(
+  bytes: Uint8Array,
+  mode: OutputEncodingMode = "auto",
+): TranscodedText {
+  const detection = detectTextEncoding(bytes);
+  const detectedEncoding = detection.bom ? `${detection.encoding}-bom` : detection.encoding;
+  const text = decodeText(bytes, detection.encoding);
+
+  const isUtf8 = detection.encoding === "utf-8";
+  if (mode === "keep" || (mode === "auto" && isUtf8)) {
+    return {
+      content: bytes,
+      text,
+      encoding: {
+        detectedEncoding,
+        confidence: detection.confidence,
+        outputEncoding: detectedEncoding,
+      },
+    };
+  }
+
+  return {
+    content: encodeUtf8Text(text, mode === "utf-8-bom"),
+    text,
+    encoding: {
+      detectedEncoding,
+      confidence: detection.confidence,
+      outputEncoding: mode === "utf-8-bom" ? "utf-8-bom" : "utf-8",
+    },
+  };
+}
+
+export function encodeUtf8Text(text: string, bom: boolean): Uint8Array {
+  const encoded = new TextEncoder().encode(text);
+  return bom ? concatBytes(Uint8Array.from(UTF8_BOM), encoded) : encoded;
+}
+
+function detectBomlessUtf16(sample: Uint8Array): "utf-16le" | "utf-16be" | undefined {
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs < 4) {
+    return undefined;
+  }
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let index = 0; index < pairs * 2; index += 2) {
+    if (sample[index] === 0) {
+      evenZeros += 1;
+    }
+    if (sample[index + 1] === 0) {
+      oddZeros += 1;
+    }
+  }
+
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) {
+    return "utf-16le";
+  }
+
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) {
+    return "utf-16be";
+  }
+
+  return undefined;
+}
+
+function scoreHanText(text: string): number {
+  let frequent = 0;
+  let penalty = 0;
+
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) ?? 0;
+    if (FREQUENT_HAN.has(char)) {
+      frequent += 1;
+    } else if (
+      codePoint === 0xfffd ||
+      (codePoint >= 0xe000 && codePoint <= 0xf8ff) ||
+      (codePoint >= 0x3400 && codePoint <= 0x4dbf)
+    ) {
+      penalty += 1;
+    }
+  }
+
+  return frequent - penalty * 2;
+}
+
+function trimPartialUtf8(sample: Uint8Array, totalLength: number): Uint8Array {
+  if (sample.length === totalLength) {
+    return sample;
+  }
+
+  let end = sample.length;
+  while (end > 0 && end > sample.length - 4 && (sample[end - 1] & 0xc0) === 0x80) {
+    end -= 1;
+  }
+
+  return sample.subarray(0, Math.max(0, end - 1));
+}
+
+function tryDecode(bytes: Uint8Array, encoding: string, fatal = true): string | undefined {
+  try {
+    return new TextDecoder(encoding, { fatal }).decode(bytes);
+  } catch {
+    return undefined;
+  }
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return prefix.every((byte, index) => bytes[index] === byte);
+}
+
+function concatBytes(left: Uint8Array, right: Uint8Array): Uint8Array {
+  const result = new Uint8Array(left.length + right.length);
+  result.set(left, 0);
+  result.set(right, left.length);
+  return result;
+}
+
+function roundConfidence(value: number): number {
+  return Number(Math.min(1, Math.max(0, value)).toFixed(3));
+}
@@ -0,0 +1,177 @@
+import { convertChineseScript } from "./chinese-script.js";
+import { editDistance } from "./edit-distance.js";
+import { tokenize } from "./request-normalization.js";
+import { TITLE_ALIASES } from "./title-matching/aliases.js";
+import { PINYIN_SYLLABLES } from "./title-matching/pinyin.js";
+
+/** How a query token was found in a title, strongest first. */
+export const TITLE_MATCHERS = ["exact", "alias", "pinyin", "fuzzy"] as const;
+
+export type TitleMatcher = (typeof TITLE_MATCHERS)[number];
+
+export interface TitleMatch {
+  /** Query tokens found in the title by any matcher. */
+  matched: number;
+  total: number;
+  /** Matched tokens weighted by matcher credit, over `total`. */
+  ratio: number;
+  /** Matchers that found at least one token, in `TITLE_MATCHERS` order. */
+  matchers: TitleMatcher[];
+}
+
+/** An edit-distance match is likelier to be a different word than an exact one. */
+const MATCHER_CREDIT: Record<TitleMatcher, number> = {
+  exact: 1,
+  alias: 1,
+  pinyin: 1,
+  fuzzy: 0.8,
+};
+
+/** Shorter words sit within one edit of too many others to be typos: Heat/Heart, Fargo/Cargo. */
+const FUZZY_MIN_LENGTH = 6;
+
+const HAN_RUN = /\p{Script=Han}+/gu;
+const LATIN_WORD = /^[a-z]+$/;
+
+const PINYIN = buildPinyinTable();
+const ALIASES = TITLE_ALIASES.map((names) => names.map((name) => tokenize(toSimplified(name))));
+
+/**
+ * Looks for each query token in `title`: as a title token, through a bundled
+ * alias of the same work (The Matrix / 黑客帝国), as the pinyin of the title's
+ * Chinese characters, or within an edit or two of a title word. Both sides are
+ * compared in Simplified characters.
+ */
+export function matchTitle(queryTokens: string[], title: string): TitleMatch {
+  const query = [...new Set(queryTokens.map(toSimplified))];
+  const simplifiedTitle = toSimplified(title);
+  const titleTokens = new Set(tokenize(simplifiedTitle));
+  const aliasTokens = findAliasTokens(query, titleTokens);
+  let pinyinTokens: Set<string> | undefined;
+
+  const found = query.map((token): TitleMatcher | undefined => {
+    if (titleTokens.has(token)) {
+      return "exact";
+    }
+    if (aliasTokens.has(token)) {
+      return "alias";
+    }
+    if (LATIN_WORD.test(token)) {
+      pinyinTokens ??= romanize(simplifiedTitle);
+      if (pinyinTokens.has(token)) {
+        return "pinyin";
+      }
+      if (hasFuzzyMatch(token, titleTokens)) {
+        return "fuzzy";
+      }
+    }
+    return undefined;
+  });
+
+  const matchers = TITLE_MATCHERS.filter((matcher) => found.includes(matcher));
+  const credit = found.reduce(
+    (sum, matcher) => sum + (matcher === undefined ? 0 : MATCHER_CREDIT[matcher]),
+    0,
+  );
+
+  return {
+    matched: found.filter((matcher) => matcher !== undefined).length,
+    total: query.length,
+    ratio: query.length === 0 ? 0 : credit / query.length,
+    matchers,
+  };
+}
+
+/**
+ * Query tokens belonging to an alias name that the query contains, when the
+ * title contains another name of the same work.
+ */
+function findAliasTokens(query: string[], titleTokens: Set<string>): Set<string> {
+  const querySet = new Set(query);
+  const covered = new Set<string>();
+
+  for (const names of ALIASES) {
+    const inQuery = names.filter((tokens) => containsAll(querySet, tokens));
+    if (inQuery.length > 0 && names.some((tokens) => containsAll(titleTokens, tokens))) {
+      inQuery.flat().forEach((token) => covered.add(token));
+    }
+  }
+
+  return covered;
+}
+
+function containsAll(set: Set<string>, tokens: string[]): boolean {
+  return tokens.length > 0 && tokens.every((token) => set.has(token));
+}
+
+/**
+ * Pinyin spellings a romanized query may use for the title's Chinese: each
+ * adjacent pair of syllables and each whole run (heike, heikediguo). A single
+ * syllable is left out, since it reads as an English word too often (long,
+ * men). Characters missing from the table break a run.
+ */
+function romanize(title: string): Set<string> {
+  const spellings = new Set<string>();
+
+  for (const run of title.match(HAN_RUN) ?? []) {
+    const syllables = Array.from(run, (character) => PINYIN.get(character));
+    const segments: string[][] = [[]];
+    for (const syllable of syllables) {
+      if (syllable === undefined) {
+        segments.push([]);
+      } else {
+        segments[segments.length - 1].push(syllable);
+      }
+    }
+
+    for (const segment of segments) {
+      segment.forEach((syllable, index) => {
+        if (index + 1 < segment.length) {
+          spellings.add(syllable + segment[index + 1]);
+        }
+      });
+      if (segment.length > 2) {
+        spellings.add(segment.join(""));
+      }
+    }
+  }
+
+  return spellings;
+}
+
+function hasFuzzyMatch(token: string, titleTokens: Set<string>): boolean {
+  if (token.length < FUZZY_MIN_LENGTH) {
+    return false;
+  }
+
+  const tolerance = token.length >= 8 ? 2 : 1;
+  for (const candidate of titleTokens) {
+    if (
+      LATIN_WORD.test(candidate) &&
+      Math.abs(candidate.length - token.length) <= tolerance &&
+      editDistance(token, candidate) <= tolerance
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function toSimplified(text: string): string {
+  return convertChineseScript(text, "zh-cn").text;
+}
+
+function buildPinyinTable(): Map<string, string> {
+  const table = new Map<string, string>();
+  for (const line of PINYIN_SYLLABLES) {
+    for (const [, syllable, characters] of line.matchAll(/([a-z]+)(\p{Script=Han}+)/gu)) {
+      for (const character of characters) {
+        if (!table.has(character)) {
+          table.set(character, syllable);
+        }
+      }
+    }
+  }
+  return table;
+}
@@ -0,0 +1,41 @@
+/**
+ * Bundled title aliases: each entry lists names one work is released under,
+ * English first, then Mainland and Taiwan titles in Simplified characters
+ * (titles are converted to Simplified before matching).
+ */
+export const TITLE_ALIASES: readonly (readonly string[])[] = [
+  ["The Matrix", "黑客帝国", "骇客任务"],
+  ["Interstellar", "星际穿越", "星际效应"],
+  ["Inception", "盗梦空间", "全面启动"],
+  ["Titanic", "泰坦尼克号", "铁达尼号"],
+  ["Avatar", "阿凡达"],
+  ["The Shawshank Redemption", "肖申克的救赎", "刺激1995"],
+  ["Forrest Gump", "阿甘正传"],
+  ["The Godfather", "教父"],
+  ["Pulp Fiction", "低俗小说", "黑色追缉令"],
+  ["Fight Club", "搏击俱乐部", "斗阵俱乐部"],
+  ["The Dark Knight", "黑暗骑士"],
+  ["The Lord of the Rings", "指环王", "魔戒"],
+  ["Harry Potter", "哈利波特", "哈利·波特"],
+  ["Spirited Away", "千与千寻", "神隐少女"],
+  ["Your Name", "你的名字"],
+  ["Parasite", "寄生虫", "寄生上流"],
+  ["Coco", "寻梦环游记", "可可夜总会"],
+  ["Zootopia", "疯狂动物城", "动物方城市"],
+  ["Back to the Future", "回到未来"],
+  ["Gravity", "地心引力"],
+  ["Joker", "小丑"],
+  ["Dune", "沙丘"],
+  ["Oppenheimer", "奥本海默"],
+  ["The Wandering Earth", "流浪地球"],
+  ["Breaking Bad", "绝命毒师"],
+  ["Game of Thrones", "权力的游戏", "冰与火之歌"],
+  ["Friends", "老友记", "六人行"],
+  ["The Big Bang Theory", "生活大爆炸", "宅男行不行"],
+  ["Sherlock", "神探夏洛克", "新世纪福尔摩斯"],
+  ["Stranger Things", "怪奇物语"],
+  ["Prison Break", "越狱", "越狱风云"],
+  ["The Walking Dead", "行尸走肉", "阴尸路"],
+  ["Westworld", "西部世界", "西方极乐园"],
+  ["Black Mirror", "黑镜"],
+];
@@ -0,0 +1,22 @@
+/**
+ * Toneless pinyin for Simplified characters common in film and series titles.
+ * Each string is a run of `syllable` + characters read that way; a character
+ * with several readings is listed once, under the one titles use most.
+ */
+export const PINYIN_SYLLABLES = [
+  "a阿 ai爱 an暗案 ao奥 ba八 bai白 bao爆 bei北 ben本 bian蝙变 bing冰 bo搏波 bu不部",
+  "cha察 chang长 chao超 cheng城 chong虫 chou丑仇 chuan穿船 ci刺 da大达 dai代 dao盗到",
+  "de的 di帝地低第 dian电 dong动东 dou斗 du毒度 dui队 er尔二儿 fan凡 fang方房 feng风疯",
+  "fu福父蝠复 gan甘 gang刚钢 ge歌个 gong公宫 gu故 guai怪 guang光 guo国 ha哈 hai骇海",
+  "hao号 he和 hei黑 hong红 hou后 hu湖 hua花 huan环 hui回会 huo火活 ji际激记纪极寄击缉机级季集",
+  "jia家 jian间剑件 jiang江 jiao教 jie戒界 jin金 jing镜京警 jiu救九 ju俱 jue绝 ke客克可",
+  "kong空 kuang狂 lai来 lan蓝 lang浪 lao老 le乐 li力利离 lian联 ling令 liu六流 long龙 lu路",
+  "luo洛罗 lv绿 mei美 men们 meng梦盟 mian面 ming命名 mo魔摩默 nan男南 ni尼你 nian年 nv女",
+  "qi启奇骑七器 qian千 qing情 qiu丘球 quan全权 ren任人 ri日 rou肉 san三 se色 sha沙杀",
+  "shan山 shang上 shao少 shen神申 sheng生 shi师世士尸市时事十是 shou手 shu赎书 shuang双",
+  "shui水 shuo说 si斯四死 su俗速 ta他她 tai泰 tan坦探 tao逃 te特 tian天 tie铁 wang王亡",
+  "wei未 wo我 wu务物五无 xi戏西 xia夏侠 xiao效肖小 xin新心 xing星行形 xiong雄 xun寻",
+  "ye夜 yi一 yin隐阴引 ying应英影 you游友有 yu与语狱 yuan园 yue越月 yun云 zai在 zha炸",
+  "zhai宅 zhan战 zhe者 zhen阵 zheng正争 zhi之指蜘 zhong中 zhu蛛侏 zhuan传 zhui追 zi字子",
+  "zong总 zou走",
+];
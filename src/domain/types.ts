@@ -1,11 +1,27 @@
 export type SubtitleFormat = "srt" | "ass" | "vtt";
 
+export type ArchiveFormat = "zip" | "rar" | "7z";
+
+/** Attributes read from a video release name such as `Title.2020.1080p.WEB-DL.x264-GROUP`. */
+export interface ReleaseInfo {
+  title: string;
+  year?: number;
+  season?: number;
+  episode?: number;
+  resolution?: string;
+  source?: string;
+  codec?: string;
+  group?: string;
+  edition?: string;
+}
+
 export interface SubtitleRequestInput {
   query: string;
   year?: number;
   season?: number;
   episode?: number;
   languages?: string[];
+  release?: ReleaseInfo;
 }
 
 export interface NormalizedSubtitleRequest {
@@ -16,6 +32,7 @@ export interface NormalizedSubtitleRequest {
   season?: number;
   episode?: number;
   languagePreferences: string[];
+  release?: ReleaseInfo;
   fingerprint: string;
 }
 
@@ -24,16 +41,34 @@ export interface ProviderSubtitleResult {
   providerId: string;
   title: string;
   language: string;
+  /** Every language of a bilingual subtitle, `language` first. */
+  languages?: string[];
   format: SubtitleFormat;
   downloads: number;
   hearingImpaired?: boolean;
+  /** Only covers foreign-language or sign parts of the video. */
+  forced?: boolean;
   releaseName?: string;
 }
 
 export interface RankedSubtitleResult extends ProviderSubtitleResult {
   rank: number;
   score: number;
+  /** Same terms as `factors`, as `name:value` strings. */
   reasons: string[];
+  factors: RankingFactor[];
+}
+
+/**
+ * One term of a candidate's score: `contribution` is `weight` scaled by
+ * `value`, except where `detail` notes a cap. See `RANKING_FACTORS_VERSION`.
+ */
+export interface RankingFactor {
+  id: string;
+  weight: number;
+  value: number;
+  contribution: number;
+  detail?: string;
 }
 
 export interface SubtitleDownloadPlan {
@@ -46,6 +81,18 @@ export interface SubtitleDownloadPlan {
 
 export interface SubtitlePayload extends SubtitleDownloadPlan {
   content: Uint8Array;
+  /** SHA-256 of `content`; set when the download went through the download cache. */
+  sha256?: string;
+  cache?: "hit" | "miss";
+}
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  packedSize: number;
+  method: string;
+  directory: boolean;
+  encrypted: boolean;
 }
 
 export interface SubtitleProviderDoctor {
@@ -58,6 +105,8 @@ export interface SubtitleProviderDescriptor {
   id: string;
   name: string;
   mock: boolean;
+  /** Site the instance talks to, e.g. the configured SubHD base URL; caches keep sites apart. */
+  upstream?: string;
   capabilities: {
     search: boolean;
     download: boolean;
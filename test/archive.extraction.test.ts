@@ -0,0 +1,171 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { detectArchiveFormat, openArchive, type ArchiveTool } from "../src/domain/archive.js";
+import type { SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const FIXTURE_DIR = join(import.meta.dirname, "fixtures", "archives");
+
+async function readFixture(name: string): Promise<Uint8Array> {
+  return new Uint8Array(await readFile(join(FIXTURE_DIR, name)));
+}
+
+function decode(bytes: Uint8Array): string {
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+function createStandInTool(content: Uint8Array): ArchiveTool & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    id: "stand-in",
+    calls,
+    async list() {
+      calls.push("list");
+      return [];
+    },
+    async extract(_archive, _format, path) {
+      calls.push(`extract:${path}`);
+      return content;
+    },
+  };
+}
+
+describe("archive extraction", () => {
+  it("detects archive containers from magic bytes", async () => {
+    expect(detectArchiveFormat(await readFixture("matrix.zip"))).toBe("zip");
+    expect(detectArchiveFormat(await readFixture("matrix.rar"))).toBe("rar");
+    expect(detectArchiveFormat(await readFixture("matrix.rar4.rar"))).toBe("rar");
+    expect(detectArchiveFormat(await readFixture("matrix.7z"))).toBe("7z");
+    expect(detectArchiveFormat(new TextEncoder().encode("1\n00:00:01,000 --> "))).toBe(undefined);
+  });
+
+  it("lists and inflates ZIP entries", async () => {
+    const archive = await openArchive(await readFixture("matrix.zip"), "zip");
+
+    expect(archive.entries.map((entry) => entry.path)).toEqual([
+      "The.Matrix.1999.chs.srt",
+      "readme.txt",
+      "__MACOSX/._The.Matrix.1999.chs.srt",
+    ]);
+    expect(archive.entries[0]).toMatchObject({ method: "deflate", size: 97, directory: false });
+    expect(decode(await archive.extract("The.Matrix.1999.chs.srt"))).toContain("Wake up, Neo.");
+  });
+
+  it("reads stored RAR5 and RAR4 entries including GBK file names", async () => {
+    const rar5 = await openArchive(await readFixture("matrix.rar"), "rar");
+    expect(rar5.entries).toMatchObject([{ path: "The.Matrix.1999.cht.srt", method: "store" }]);
+    expect(decode(await rar5.extract("The.Matrix.1999.cht.srt"))).toContain("Wake up, Neo.");
+
+    const rar4 = await openArchive(await readFixture("matrix.rar4.rar"), "rar");
+    expect(rar4.entries).toMatchObject([{ path: "黑客帝国.srt", method: "store", size: 97 }]);
+    expect(decode(await rar4.extract("黑客帝国.srt"))).toContain("Wake up, Neo.");
+  });
+
+  it("reads stored 7z entries and delegates compressed ones to the archive tool", async () => {
+    const stored = await openArchive(await readFixture("matrix.7z"), "7z");
+    expect(stored.entries).toMatchObject([{ path: "The.Matrix.1999.en.srt", method: "copy" }]);
+    expect(decode(await stored.extract("The.Matrix.1999.en.srt"))).toContain("Wake up, Neo.");
+
+    const tool = createStandInTool(new TextEncoder().encode("from tool"));
+    const compressed = await openArchive(await readFixture("matrix.lzma.7z"), "7z", { tool });
+    expect(compressed.entries).toMatchObject([{ path: "The.Matrix.1999.en.srt", method: "lzma" }]);
+    expect(decode(await compressed.extract("The.Matrix.1999.en.srt"))).toBe("from tool");
+    expect(tool.calls).toEqual(["extract:The.Matrix.1999.en.srt"]);
+  });
+
+  it("classifies unreadable archives", async () => {
+    await expect(
+      openArchive(await readFixture("matrix.lzma.7z"), "7z").then((archive) =>
+        archive.extract("The.Matrix.1999.en.srt"),
+      ),
+    ).rejects.toMatchObject({
+      code: "E_ARCHIVE_UNSUPPORTED",
+      details: { format: "7z", method: "lzma" },
+    });
+
+    const zip = await readFixture("matrix.zip");
+    await expect(openArchive(zip.subarray(0, zip.length - 30), "zip")).rejects.toMatchObject({
+      code: "E_ARCHIVE_INVALID",
+    });
+  });
+
+  it("download writes the extracted subtitle and reports archive entries", async () => {
+    const zip = await readFixture("matrix.zip");
+    const writes: Array<{ path: string; content: string }> = [];
+
+    const provider: SubtitleProvider = {
+      descriptor: {
+        id: "subhd",
+        name: "SubHD test",
+        mock: true,
+        capabilities: { search: true, download: true, doctor: false },
+      },
+      async search() {
+        return [];
+      },
+      async getDownloadPlan(id) {
+        return {
+          id,
+          providerId: "subhd",
+          fileName: "matrix.zip",
+          sourceUrl: "https://dl.subhd.test/matrix.zip",
+          format: "srt",
+        };
+      },
+      async downloadSubtitle(id) {
+        return { ...(await this.getDownloadPlan(id)), content: zip };
+      },
+    };
+
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      ["download", "--id", "subhd:xD0xeo", "--output", "/tmp/matrix.srt", "--json"],
+      {
+        providers: { subhd: provider },
+        stdout,
+        stderr: new BufferWriter(),
+        fileWriter: async (path, content) => {
+          writes.push({ path, content: decode(content) });
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(writes).toHaveLength(1);
+    expect(writes[0]?.content).toContain("Wake up, Neo.");
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      ok: true,
+      data: {
+        fileName: "The.Matrix.1999.chs.srt",
+        format: "srt",
+        bytesWritten: 97,
+        archive: {
+          format: "zip",
+          fileName: "matrix.zip",
+          selectedEntry: "The.Matrix.1999.chs.srt",
+          entries: [
+            { path: "The.Matrix.1999.chs.srt", subtitle: true },
+            { path: "readme.txt", subtitle: false },
+            { path: "__MACOSX/._The.Matrix.1999.chs.srt", subtitle: false },
+          ],
+        },
+      },
+    });
+  });
+});
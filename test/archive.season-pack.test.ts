@@ -0,0 +1,202 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { selectSubtitleEntries } from "../src/domain/archive.js";
+import type { ArchiveEntry, SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const FIXTURE_DIR = join(import.meta.dirname, "fixtures", "archives");
+
+function entry(path: string): ArchiveEntry {
+  return {
+    path,
+    size: 10,
+    packedSize: 10,
+    method: "deflate",
+    directory: false,
+    encrypted: false,
+  };
+}
+
+const SEASON_PACK = [
+  entry("Show.S01/Show.S01E01.chs.ass"),
+  entry("Show.S01/Show.S01E01.chs.srt"),
+  entry("Show.S01/Show.S01E01.eng.srt"),
+  entry("Show.S01/Show.S01E02.cht.srt"),
+  entry("Show.S01/Show.S01E02.eng.srt"),
+  entry("Show.S01/readme.txt"),
+];
+
+function createArchiveProvider(content: Uint8Array): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: true,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search() {
+      return [
+        {
+          id: "subhd:pack01",
+          providerId: "subhd",
+          title: "Breaking Bad S01 第一季 中英字幕",
+          language: "zh-cn",
+          format: "srt",
+          downloads: 500,
+        },
+      ];
+    },
+    async getDownloadPlan(id) {
+      return {
+        id,
+        providerId: "subhd",
+        fileName: "Breaking.Bad.S01.zip",
+        sourceUrl: "https://dl.subhd.test/Breaking.Bad.S01.zip",
+        format: "srt",
+      };
+    },
+    async downloadSubtitle(id) {
+      return { ...(await this.getDownloadPlan(id)), content };
+    },
+  };
+}
+
+describe("season-pack entry selection", () => {
+  it("picks the requested episode in the preferred language and format", () => {
+    expect(
+      selectSubtitleEntries(SEASON_PACK, { season: 1, episode: 1, languages: ["zh-cn", "en"] }),
+    ).toMatchObject([
+      { path: "Show.S01/Show.S01E01.chs.srt", language: "zh-cn", season: 1, episode: 1 },
+    ]);
+
+    expect(
+      selectSubtitleEntries(SEASON_PACK, { season: 1, episode: 2, languages: ["zh-cn", "en"] }),
+    ).toMatchObject([{ path: "Show.S01/Show.S01E02.cht.srt", language: "zh-tw" }]);
+
+    expect(selectSubtitleEntries(SEASON_PACK, { episode: 2, languages: ["en"] })).toMatchObject([
+      { path: "Show.S01/Show.S01E02.eng.srt" },
+    ]);
+  });
+
+  it("honors --entry globs and reports missing episodes", () => {
+    expect(
+      selectSubtitleEntries(SEASON_PACK, { episode: 1, languages: ["en"], pattern: "*.ass" }),
+    ).toMatchObject([{ path: "Show.S01/Show.S01E01.chs.ass", format: "ass" }]);
+
+    expect(() => selectSubtitleEntries(SEASON_PACK, { pattern: "*.vtt" })).toThrowError(
+      expect.objectContaining({
+        code: "E_NOT_FOUND_RESOURCE",
+        details: expect.objectContaining({ reason: "entry-pattern" }),
+      }),
+    );
+
+    expect(() => selectSubtitleEntries(SEASON_PACK, { season: 1, episode: 9 })).toThrowError(
+      expect.objectContaining({
+        code: "E_NOT_FOUND_RESOURCE",
+        details: expect.objectContaining({ reason: "episode", episode: 9 }),
+      }),
+    );
+  });
+
+  it("keeps the best entry of every episode in all-entries mode", () => {
+    const selected = selectSubtitleEntries(SEASON_PACK, { languages: ["en"], all: true });
+
+    expect(selected.map((item) => item.path)).toEqual([
+      "Show.S01/Show.S01E01.eng.srt",
+      "Show.S01/Show.S01E02.eng.srt",
+    ]);
+  });
+
+  it("fetch --all-entries extracts every episode with episode-aware names", async () => {
+    const zip = new Uint8Array(await readFile(join(FIXTURE_DIR, "breaking-bad.s01.zip")));
+    const writes = new Map<string, string>();
+    const stdout = new BufferWriter();
+
+    const exitCode = await runCli(
+      [
+        "fetch",
+        "--query",
+        "Breaking Bad",
+        "--season",
+        "1",
+        "--lang",
+        "zh-cn,en",
+        "--output",
+        FIXTURE_DIR,
+        "--all-entries",
+        "--json",
+      ],
+      {
+        providers: { subhd: createArchiveProvider(zip) },
+        stdout,
+        stderr: new BufferWriter(),
+        fileWriter: async (path, content) => {
+          writes.set(path, new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect([...writes.keys()]).toEqual([
+      join(FIXTURE_DIR, "Breaking.Bad.S01E01.chs.srt"),
+      join(FIXTURE_DIR, "Breaking.Bad.S01E02.chs.srt"),
+      join(FIXTURE_DIR, "第3集.简体.S01E03.srt"),
+    ]);
+
+    const payload = JSON.parse(stdout.read());
+    expect(payload.data.files).toMatchObject([
+      { entry: "Breaking.Bad.S01/Breaking.Bad.S01E01.chs.srt", season: 1, episode: 1 },
+      { entry: "Breaking.Bad.S01/Breaking.Bad.S01E02.chs.srt", season: 1, episode: 2 },
+      { entry: "Breaking.Bad.S01/第3集.简体.srt", season: 1, episode: 3, language: "zh-cn" },
+    ]);
+    expect(payload.data.archive.selectedEntries).toHaveLength(3);
+  });
+
+  it("fetch --episode extracts only the matching entry", async () => {
+    const zip = new Uint8Array(await readFile(join(FIXTURE_DIR, "breaking-bad.s01.zip")));
+    const writes: string[] = [];
+
+    const exitCode = await runCli(
+      [
+        "fetch",
+        "--query",
+        "Breaking Bad",
+        "--season",
+        "1",
+        "--episode",
+        "2",
+        "--lang",
+        "en",
+        "--output",
+        "/tmp/bb.srt",
+      ],
+      {
+        providers: { subhd: createArchiveProvider(zip) },
+        stdout: new BufferWriter(),
+        stderr: new BufferWriter(),
+        fileWriter: async (_path, content) => {
+          writes.push(new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(writes).toEqual([expect.stringContaining("E02 English")]);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { convertChineseScript } from "../src/domain/chinese-script.js";
+import { rankSubtitleCandidates } from "../src/domain/ranking.js";
+import { normalizeSubtitleRequest } from "../src/domain/request-normalization.js";
+import type { ProviderSubtitleResult, SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const TRADITIONAL_SRT = [
+  "1",
+  "00:00:01,000 --> 00:00:03,000",
+  "<i>這裡</i>是錫安，我們的頭髮都亂了。",
+  "",
+  "2",
+  "00:00:04,000 --> 00:00:06,000",
+  "他是著名的駭客，幹得好！",
+  "",
+].join("\n");
+
+const TRADITIONAL_CANDIDATE: ProviderSubtitleResult = {
+  id: "assrt-tw",
+  providerId: "assrt",
+  title: "The Matrix 1999 繁中",
+  language: "zh-tw",
+  format: "srt",
+  downloads: 100,
+};
+
+function createTraditionalProvider(): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "assrt",
+      name: "ASSRT test",
+      mock: true,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search() {
+      return [TRADITIONAL_CANDIDATE];
+    },
+    async getDownloadPlan(id) {
+      return {
+        id,
+        providerId: "assrt",
+        fileName: "The.Matrix.1999.cht.srt",
+        sourceUrl: "https://assrt.test/matrix.srt",
+        format: "srt",
+      };
+    },
+    async downloadSubtitle(id) {
+      return {
+        ...(await this.getDownloadPlan(id)),
+        content: new TextEncoder().encode(TRADITIONAL_SRT),
+      };
+    },
+  };
+}
+
+describe("Simplified/Traditional Chinese conversion", () => {
+  it("converts characters and resolves ambiguous ones from phrases", () => {
+    expect(convertChineseScript("头发干净，干得好，以后见", "zh-tw")).toEqual({
+      text: "頭髮乾淨，幹得好，以後見",
+      changed: 7,
+    });
+    expect(convertChineseScript("天气很干，你在干什么？树干", "zh-tw").text).toBe(
+      "天氣很乾，你在幹什麼？樹幹",
+    );
+    expect(convertChineseScript("乾杯，幹活，干擾", "zh-cn").text).toBe("干杯，干活，干扰");
+    expect(convertChineseScript("皇后在這裡，著名的作品著實不錯", "zh-cn").text).toBe(
+      "皇后在这里，著名的作品着实不错",
+    );
+    expect(convertChineseScript("The Matrix 1999", "zh-cn")).toEqual({
+      text: "The Matrix 1999",
+      changed: 0,
+    });
+  });
+
+  it("convert-script rewrites only cue text and keeps markup", async () => {
+    const writes = new Map<string, string>();
+    const stdout = new BufferWriter();
+
+    const exitCode = await runCli(
+      [
+        "convert-script",
+        "--input",
+        "/subs/cht.srt",
+        "--to",
+        "chs",
+        "--output",
+        "/subs/chs.srt",
+        "--json",
+      ],
+      {
+        stdout,
+        stderr: new BufferWriter(),
+        fileReader: async () => new TextEncoder().encode(TRADITIONAL_SRT),
+        fileWriter: async (path, content) => {
+          writes.set(path, new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(writes.get("/subs/chs.srt")).toContain("<i>这里</i>是锡安，我们的头发都乱了。");
+    expect(writes.get("/subs/chs.srt")).toContain("他是著名的骇客，干得好！");
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      ok: true,
+      data: { to: "zh-cn", format: "srt", cues: 2, outputPath: "/subs/chs.srt" },
+    });
+  });
+
+  it("rejects targets other than zh-cn and zh-tw", async () => {
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      ["convert-script", "--input", "/subs/cht.srt", "--to", "ja", "--json"],
+      { stdout, stderr: new BufferWriter() },
+    );
+
+    expect(exitCode).toBe(2);
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      ok: false,
+      error: { code: "E_ARG_INVALID", details: { arg: "to", allowed: ["zh-cn", "zh-tw"] } },
+    });
+  });
+
+  it("ranks a convertible script as a partial language match", () => {
+    const request = normalizeSubtitleRequest({ query: "The Matrix", languages: ["zh-cn"] });
+    const [ranked] = rankSubtitleCandidates(request, [TRADITIONAL_CANDIDATE]);
+    expect(ranked.reasons).toContain("lang:convertible");
+
+    const english = normalizeSubtitleRequest({ query: "The Matrix", languages: ["en"] });
+    expect(rankSubtitleCandidates(english, [TRADITIONAL_CANDIDATE])[0].reasons).toContain(
+      "lang:mismatch",
+    );
+  });
+
+  it("fetch --convert-script converts a zh-tw download for a zh-cn request", async () => {
+    const writes: string[] = [];
+    const stdout = new BufferWriter();
+
+    const exitCode = await runCli(
+      [
+        "fetch",
+        "--query",
+        "matrix",
+        "--provider",
+        "assrt",
+        "--lang",
+        "zh-cn",
+        "--output",
+        "/tmp/m.srt",
+        "--convert-script",
+        "--json",
+      ],
+      {
+        providers: { assrt: createTraditionalProvider() },
+        stdout,
+        stderr: new BufferWriter(),
+        fileWriter: async (_path, content) => {
+          writes.push(new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(writes[0]).toContain("这里");
+    expect(JSON.parse(stdout.read()).data.files[0].script).toMatchObject({ to: "zh-cn" });
+  });
+});
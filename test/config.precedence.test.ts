@@ -0,0 +1,248 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import type {
+  NormalizedSubtitleRequest,
+  ProviderSubtitleResult,
+  SubtitleProvider,
+} from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const USER_CONFIG = "/home/test/.config/subchef/config.json";
+
+const MOVIE_RESULT: ProviderSubtitleResult = {
+  id: "subhd:movie",
+  providerId: "subhd",
+  title: "Movie 2020",
+  language: "zh-cn",
+  format: "srt",
+  downloads: 10,
+};
+
+function createProvider(
+  requests: NormalizedSubtitleRequest[],
+  results: ProviderSubtitleResult[] = [],
+): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: true,
+      capabilities: { search: true, download: false, doctor: false },
+    },
+    async search(request) {
+      requests.push(request);
+      return results;
+    },
+    async getDownloadPlan(id) {
+      return {
+        id,
+        providerId: "subhd",
+        fileName: "movie.srt",
+        sourceUrl: "https://subhd.test/movie.srt",
+        format: "srt",
+      };
+    },
+    async downloadSubtitle() {
+      throw new Error("not used");
+    },
+  };
+}
+
+async function run(
+  args: string[],
+  files: Map<string, string>,
+  env: NodeJS.ProcessEnv = {},
+  requests: NormalizedSubtitleRequest[] = [],
+) {
+  const stdout = new BufferWriter();
+  const exitCode = await runCli([...args, "--json"], {
+    providers: { subhd: createProvider(requests, [MOVIE_RESULT]) },
+    env: { XDG_CONFIG_HOME: "/home/test/.config", ...env },
+    cwd: "/work/show/season1",
+    configReader: async (path) => files.get(path),
+    configWriter: async (path, text) => {
+      files.set(path, text);
+    },
+    stdout,
+    stderr: new BufferWriter(),
+  });
+  return { exitCode, requests, payload: JSON.parse(stdout.read()) };
+}
+
+describe("config precedence", () => {
+  it("layers user config, project .subchefrc, environment and flags", async () => {
+    const files = new Map([
+      [USER_CONFIG, JSON.stringify({ lang: ["en"], limit: 3, providers: "subhd" })],
+      ["/work/show/.subchefrc", JSON.stringify({ lang: "zh-cn,en", limit: 4 })],
+    ]);
+
+    const configured = await run(["search", "--query", "matrix", "--verbose"], files, {
+      SUBCHEF_LIMIT: "5",
+    });
+    expect(configured.exitCode).toBe(0);
+    expect(configured.requests[0].languagePreferences).toEqual(["zh-cn", "en"]);
+    expect(configured.payload.meta.config).toEqual(
+      expect.arrayContaining([
+        {
+          key: "lang",
+          value: ["zh-cn", "en"],
+          source: "project",
+          origin: "/work/show/.subchefrc",
+        },
+        { key: "limit", value: 5, source: "env", origin: "SUBCHEF_LIMIT" },
+        { key: "providers", value: ["subhd"], source: "user", origin: USER_CONFIG },
+        { key: "output", source: "default" },
+      ]),
+    );
+
+    const flagged = await run(
+      ["search", "--query", "matrix", "--language", "ja", "--verbose"],
+      files,
+    );
+    expect(flagged.requests[0].languagePreferences).toEqual(["ja"]);
+    expect(flagged.payload.meta.config).toContainEqual({
+      key: "lang",
+      source: "flag",
+      origin: "--language",
+    });
+  });
+
+  it("leaves a configured output unused when fetch is given --video", async () => {
+    const files = new Map([[USER_CONFIG, JSON.stringify({ output: "/subs" })]]);
+
+    const video = await run(
+      ["fetch", "--video", "/media/Movie.2020.mkv", "--dry-run", "--verbose"],
+      files,
+    );
+    expect(video.exitCode).toBe(0);
+    expect(video.payload.data.outputPath).toBe("/media/Movie.2020.zh-cn.srt");
+    expect(video.payload.meta.config).toContainEqual({
+      key: "output",
+      source: "flag",
+      origin: "--video",
+    });
+
+    const query = await run(["fetch", "--query", "movie", "--dry-run"], files);
+    expect(query.exitCode).toBe(0);
+    expect(query.payload.data.outputPath).toBe("/subs");
+  });
+
+  it("sets, gets and removes keys through sub config", async () => {
+    const files = new Map<string, string>();
+
+    const set = await run(["config", "set", "subhd.timeout-ms", "20000"], files);
+    expect(set.payload.data).toMatchObject({ action: "set", value: 20000, path: USER_CONFIG });
+    expect(JSON.parse(files.get(USER_CONFIG) ?? "")).toEqual({ "subhd.timeout-ms": 20000 });
+
+    const project = await run(["config", "set", "naming", "plex", "--project"], files);
+    expect(project.payload.data.path).toBe("/work/show/season1/.subchefrc");
+
+    const get = await run(["config", "get", "subhd.timeout-ms"], files);
+    expect(get.payload.data).toMatchObject({ value: 20000, source: "user", origin: USER_CONFIG });
+
+    const list = await run(["config", "list"], files);
+    expect(list.payload.data.values).toContainEqual(
+      expect.objectContaining({ key: "naming", value: "plex", source: "project" }),
+    );
+
+    const removed = await run(["config", "set", "subhd.timeout-ms", ""], files);
+    expect(removed.payload.data.removed).toBe(true);
+    expect(JSON.parse(files.get(USER_CONFIG) ?? "")).toEqual({});
+
+    const path = await run(["config", "path"], files);
+    expect(path.payload.data).toMatchObject({
+      path: USER_CONFIG,
+      project: "/work/show/season1/.subchefrc",
+    });
+  });
+
+  it("warns when a higher-precedence source overrides the written value", async () => {
+    const files = new Map<string, string>();
+    const set = await run(["config", "set", "lang", "en"], files, { SUBCHEF_LANG: "zh" });
+
+    expect(set.payload.data.value).toEqual(["en"]);
+    expect(set.payload.warnings).toEqual([
+      expect.objectContaining({
+        code: "W_CONFIG_OVERRIDDEN",
+        details: { key: "lang", source: "env", origin: "SUBCHEF_LANG" },
+      }),
+    ]);
+  });
+
+  it("rejects unknown keys and invalid values", async () => {
+    const files = new Map<string, string>();
+    const unknown = await run(["config", "set", "colour", "red"], files);
+    expect(unknown.exitCode).toBe(2);
+    expect(unknown.payload.error).toMatchObject({
+      code: "E_ARG_INVALID",
+      details: { key: "colour" },
+    });
+
+    const invalid = await run(["search", "--query", "matrix"], files, { SUBCHEF_LIMIT: "many" });
+    expect(invalid.exitCode).toBe(2);
+    expect(invalid.payload.error.details).toMatchObject({ key: "limit", origin: "SUBCHEF_LIMIT" });
+
+    files.set(USER_CONFIG, "{ not json");
+    const broken = await run(["search", "--query", "matrix"], files);
+    expect(broken.exitCode).toBe(2);
+    expect(broken.payload.error.details).toMatchObject({ path: USER_CONFIG });
+  });
+
+  it("runs sub config and commands without config keys against a broken config", async () => {
+    const files = new Map([[USER_CONFIG, "{ not json"]]);
+
+    const providers = await run(["providers"], files);
+    expect(providers.exitCode).toBe(0);
+    expect(providers.payload.warnings).toBeUndefined();
+
+    const path = await run(["config", "path"], files, { SUBCHEF_HI: "sometimes" });
+    expect(path.exitCode).toBe(0);
+    expect(path.payload.data.path).toBe(USER_CONFIG);
+    expect(path.payload.warnings).toEqual([
+      expect.objectContaining({
+        code: "W_CONFIG_INVALID",
+        details: expect.objectContaining({ source: "user", origin: USER_CONFIG }),
+      }),
+      expect.objectContaining({
+        code: "W_CONFIG_INVALID",
+        details: expect.objectContaining({ source: "env", origin: "SUBCHEF_HI", key: "hi" }),
+      }),
+    ]);
+
+    files.set(USER_CONFIG, JSON.stringify({ limit: "many", lang: "en", colour: "red" }));
+    const fixed = await run(["config", "set", "limit", "4"], files);
+    expect(fixed.exitCode).toBe(0);
+    expect(JSON.parse(files.get(USER_CONFIG) ?? "")).toEqual({
+      colour: "red",
+      lang: "en",
+      limit: 4,
+    });
+    expect(fixed.payload.warnings).toEqual([
+      expect.objectContaining({
+        code: "W_CONFIG_UNKNOWN_KEY",
+        details: expect.objectContaining({ key: "colour" }),
+      }),
+    ]);
+
+    const requests: NormalizedSubtitleRequest[] = [];
+    const search = await run(["search", "--query", "matrix"], files, {}, requests);
+    expect(search.exitCode).toBe(0);
+    expect(requests[0].languagePreferences).toEqual(["en"]);
+    expect(search.payload.warnings).toEqual([
+      expect.objectContaining({ code: "W_CONFIG_UNKNOWN_KEY" }),
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import {
+  hashBytes,
+  type DownloadCacheEntry,
+  type DownloadCacheStore,
+} from "../src/domain/download-cache.js";
+import type { SearchCacheEntry, SearchCacheStore } from "../src/domain/search-cache.js";
+import type { SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const SRT = ["1", "00:00:01,000 --> 00:00:02,000", "Hello.", ""].join("\n");
+
+interface MemoryCaches {
+  search: SearchCacheStore;
+  downloads: DownloadCacheStore & { blobs: Map<string, Uint8Array> };
+}
+
+function createCaches(): MemoryCaches {
+  const searches = new Map<string, SearchCacheEntry>();
+  const entries = new Map<string, DownloadCacheEntry>();
+  const blobs = new Map<string, Uint8Array>();
+  return {
+    search: {
+      location: "memory",
+      async get(key) {
+        return searches.get(key);
+      },
+      async set(key, entry) {
+        searches.set(key, entry);
+      },
+      async list() {
+        return [...searches.entries()].map(([key, entry]) => ({ key, entry, bytes: 1 }));
+      },
+      async delete(key) {
+        searches.delete(key);
+      },
+    },
+    downloads: {
+      blobs,
+      location: "memory-downloads",
+      async getEntry(key) {
+        return entries.get(key);
+      },
+      async setEntry(key, entry) {
+        entries.set(key, entry);
+      },
+      async readContent(sha256) {
+        return blobs.get(sha256);
+      },
+      async writeContent(sha256, content) {
+        blobs.set(sha256, content);
+      },
+      async list() {
+        return [...entries.values()];
+      },
+      async clear() {
+        const removed = entries.size;
+        entries.clear();
+        blobs.clear();
+        return removed;
+      },
+    },
+  };
+}
+
+function createProvider(calls: string[], upstream?: string): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: false,
+      upstream,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search() {
+      calls.push("search");
+      return ["subhd:a", "subhd:b"].map((id) => ({
+        id,
+        providerId: "subhd",
+        title: "The Matrix 1999",
+        language: "zh-cn",
+        format: "srt" as const,
+        downloads: id === "subhd:a" ? 20 : 10,
+      }));
+    },
+    async getDownloadPlan(id) {
+      calls.push(`plan:${id}`);
+      return {
+        id,
+        providerId: "subhd",
+        fileName: "matrix.srt",
+        sourceUrl: `https://dl.subhd.test/${id}`,
+        format: "srt",
+      };
+    },
+    async downloadSubtitle(id) {
+      calls.push(`download:${id}`);
+      return { ...(await this.getDownloadPlan(id)), content: new TextEncoder().encode(SRT) };
+    },
+  };
+}
+
+async function run(
+  args: string[],
+  caches: MemoryCaches,
+  calls: string[] = [],
+  upstream?: string,
+) {
+  const stdout = new BufferWriter();
+  const exitCode = await runCli([...args, "--json"], {
+    providers: { subhd: createProvider(calls, upstream) },
+    searchCacheStore: caches.search,
+    downloadCacheStore: caches.downloads,
+    stdout,
+    stderr: new BufferWriter(),
+    fileWriter: async () => {},
+  });
+  return { exitCode, calls, payload: JSON.parse(stdout.read()) };
+}
+
+const DOWNLOAD = ["download", "--id", "subhd:a", "--output", "/tmp/a.srt"];
+const FETCH = ["fetch", "--query", "matrix", "--output", "/tmp/m.srt"];
+
+describe("download cache", () => {
+  it("serves a repeated download from the cache with its content hash", async () => {
+    const caches = createCaches();
+    const first = await run(DOWNLOAD, caches);
+    const second = await run(DOWNLOAD, caches);
+
+    expect(first.payload.data).toMatchObject({
+      downloadCache: "miss",
+      sha256: hashBytes(new TextEncoder().encode(SRT)),
+    });
+    expect(second.payload.data).toMatchObject({
+      downloadCache: "hit",
+      sha256: first.payload.data.sha256,
+      sourceUrl: "https://dl.subhd.test/subhd:a",
+    });
+    expect(second.calls).toEqual([]);
+  });
+
+  it("stores equal payloads once and re-downloads a corrupted one", async () => {
+    const caches = createCaches();
+    await run(DOWNLOAD, caches);
+    await run(["download", "--id", "subhd:b", "--output", "/tmp/b.srt"], caches);
+    expect(caches.downloads.blobs.size).toBe(1);
+
+    const [hash] = caches.downloads.blobs.keys();
+    caches.downloads.blobs.set(hash, new TextEncoder().encode("truncated"));
+    const repaired = await run(DOWNLOAD, caches);
+    expect(repaired.payload.data.downloadCache).toBe("miss");
+    expect(repaired.calls).toContain("download:subhd:a");
+  });
+
+  it("keeps the caches of different upstreams apart", async () => {
+    const caches = createCaches();
+    await run(FETCH, caches, [], "https://subhd.tv/");
+
+    const mirror = await run(FETCH, caches, [], "https://mirror.subhd.test/");
+    expect(mirror.calls).toEqual(["search", "download:subhd:a", "plan:subhd:a"]);
+    expect(mirror.payload.data).toMatchObject({ cache: "miss", downloadCache: "miss" });
+
+    const again = await run(FETCH, caches, [], "https://subhd.tv/");
+    expect(again.calls).toEqual([]);
+    expect(again.payload.data).toMatchObject({ cache: "hit", downloadCache: "hit" });
+  });
+
+  it("--offline fetches from the caches without calling the provider", async () => {
+    const caches = createCaches();
+    await run(FETCH, caches);
+
+    const offline = await run([...FETCH, "--offline"], caches);
+
+    expect(offline.exitCode).toBe(0);
+    expect(offline.calls).toEqual([]);
+    expect(offline.payload.data).toMatchObject({
+      cache: "hit",
+      downloadCache: "hit",
+      selected: { id: "subhd:a" },
+    });
+  });
+
+  it("--offline fails with not-found when nothing is cached", async () => {
+    const caches = createCaches();
+    const search = await run(["search", "--query", "matrix", "--offline"], caches);
+    expect(search.exitCode).toBe(4);
+    expect(search.payload.error).toMatchObject({
+      code: "E_NOT_FOUND_RESOURCE",
+      details: { provider: "subhd", offline: true, reason: "not-cached" },
+    });
+
+    const download = await run([...DOWNLOAD, "--offline"], caches);
+    expect(download.exitCode).toBe(4);
+    expect(download.calls).toEqual([]);
+
+    const conflict = await run([...FETCH, "--offline", "--no-cache"], caches);
+    expect(conflict.exitCode).toBe(2);
+    expect(conflict.payload.error.details).toMatchObject({ arg: "offline" });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { CliAppError } from "../src/core/index.js";
+import type { ProviderSubtitleResult, SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const SRT = ["1", "00:00:01,000 --> 00:00:02,000", "Hello.", ""].join("\n");
+
+const ANTI_BOT = new CliAppError({
+  code: "E_UPSTREAM_BAD_RESPONSE",
+  message: "SubHD returned an anti-bot challenge",
+  details: { classification: "anti-bot" },
+});
+
+function createProvider(
+  id: string,
+  results: ProviderSubtitleResult[],
+  failing: string[],
+  downloads: string[],
+  searches: string[],
+): SubtitleProvider {
+  return {
+    descriptor: {
+      id,
+      name: `${id} test`,
+      mock: true,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search() {
+      searches.push(id);
+      return results;
+    },
+    async getDownloadPlan(subtitleId) {
+      return {
+        id: subtitleId,
+        providerId: id,
+        fileName: `${subtitleId.replace(/\W+/g, "-")}.srt`,
+        sourceUrl: `https://${id}.test/${subtitleId}`,
+        format: "srt",
+      };
+    },
+    async downloadSubtitle(subtitleId) {
+      downloads.push(subtitleId);
+      if (failing.includes(subtitleId)) {
+        throw ANTI_BOT;
+      }
+      return {
+        ...(await this.getDownloadPlan(subtitleId)),
+        content: new TextEncoder().encode(SRT),
+      };
+    },
+  };
+}
+
+function result(providerId: string, id: string, downloads: number): ProviderSubtitleResult {
+  return { id, providerId, title: "The Matrix 1999", language: "zh-cn", format: "srt", downloads };
+}
+
+async function fetchWith(args: string[], failing: string[]) {
+  const downloads: string[] = [];
+  const searches: string[] = [];
+  const stdout = new BufferWriter();
+  const exitCode = await runCli(
+    ["fetch", "--query", "matrix", "--output", "/tmp/m.srt", ...args, "--json"],
+    {
+      providers: {
+        subhd: createProvider(
+          "subhd",
+          [result("subhd", "subhd:a", 50), result("subhd", "subhd:b", 10)],
+          failing,
+          downloads,
+          searches,
+        ),
+        assrt: createProvider(
+          "assrt",
+          [result("assrt", "assrt-1", 5)],
+          failing,
+          downloads,
+          searches,
+        ),
+      },
+      stdout,
+      stderr: new BufferWriter(),
+      fileWriter: async () => {},
+    },
+  );
+
+  return { exitCode, downloads, searches, payload: JSON.parse(stdout.read()) };
+}
+
+describe("fetch download fallback", () => {
+  it("keeps the original error without --fallback", async () => {
+    const { exitCode, downloads, payload } = await fetchWith(["--provider", "subhd"], ["subhd:a"]);
+
+    expect(exitCode).toBe(5);
+    expect(downloads).toEqual(["subhd:a"]);
+    expect(payload.error).toMatchObject({
+      code: "E_UPSTREAM_BAD_RESPONSE",
+      details: { classification: "anti-bot" },
+    });
+  });
+
+  it("tries the next ranked candidate and records every attempt", async () => {
+    const { exitCode, downloads, payload } = await fetchWith(
+      ["--provider", "subhd", "--fallback", "candidates"],
+      ["subhd:a"],
+    );
+
+    expect(exitCode).toBe(0);
+    expect(downloads).toEqual(["subhd:a", "subhd:b"]);
+    expect(payload.data.selected.id).toBe("subhd:b");
+    expect(payload.data.attempts).toEqual([
+      {
+        stage: "download",
+        providerId: "subhd",
+        candidateId: "subhd:a",
+        ok: false,
+        error: {
+          code: "E_UPSTREAM_BAD_RESPONSE",
+          message: "SubHD returned an anti-bot challenge",
+          classification: "anti-bot",
+        },
+      },
+      { stage: "download", providerId: "subhd", candidateId: "subhd:b", ok: true },
+    ]);
+  });
+
+  it("falls back to a provider that was not searched up front", async () => {
+    const { exitCode, downloads, payload } = await fetchWith(
+      ["--provider", "subhd", "--fallback", "providers"],
+      ["subhd:a"],
+    );
+
+    expect(exitCode).toBe(0);
+    expect(downloads).toEqual(["subhd:a", "assrt-1"]);
+    expect(payload.data).toMatchObject({
+      selected: { id: "assrt-1", providerId: "assrt" },
+      sourceUrl: "https://assrt.test/assrt-1",
+    });
+  });
+
+  it("stops at --max-attempts with the last error and every attempt", async () => {
+    const { exitCode, downloads, searches, payload } = await fetchWith(
+      ["--provider", "subhd", "--fallback", "all", "--max-attempts", "2"],
+      ["subhd:a", "subhd:b", "assrt-1"],
+    );
+
+    expect(exitCode).toBe(5);
+    expect(downloads).toEqual(["subhd:a", "subhd:b"]);
+    // The spent budget leaves the assrt fallback pool unsearched.
+    expect(searches).toEqual(["subhd"]);
+    expect(payload.error).toMatchObject({
+      code: "E_UPSTREAM_BAD_RESPONSE",
+      details: { fallback: "all", attempts: [{ ok: false }, { ok: false }] },
+    });
+  });
+
+  it("rejects --max-attempts without a fallback policy", async () => {
+    const { exitCode, payload } = await fetchWith(["--max-attempts", "2"], []);
+
+    expect(exitCode).toBe(2);
+    expect(payload.error).toMatchObject({
+      code: "E_ARG_CONFLICT",
+      details: { arg: "max-attempts" },
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { detectSubtitleLanguages, detectTextLanguages } from "../src/domain/language-detection.js";
+import type { ProviderSubtitleResult, SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+function srt(cues: string[]): string {
+  return cues
+    .map((text, index) => `${index + 1}\n00:00:0${index},000 --> 00:00:0${index},900\n${text}\n`)
+    .join("\n");
+}
+
+const CHINESE = srt(["你好，这是真的吗？", "我们现在就走。", "谢谢你。"]);
+const ENGLISH = srt(["What is the Matrix?", "I know you are looking for him.", "Follow me."]);
+const BILINGUAL = srt([
+  "你知道这是什么吗？\nDo you know what this is?",
+  "我们没有时间了。\nWe don't have time.",
+]);
+
+function createProvider(contents: Record<string, string>, downloads: string[]): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: true,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search() {
+      return Object.keys(contents).map(
+        (id, index): ProviderSubtitleResult => ({
+          id,
+          providerId: "subhd",
+          title: "The Matrix 1999",
+          language: "zh-cn",
+          format: "srt",
+          downloads: 100 - index,
+        }),
+      );
+    },
+    async getDownloadPlan(subtitleId) {
+      return {
+        id: subtitleId,
+        providerId: "subhd",
+        fileName: `${subtitleId.replace(/\W+/g, "-")}.srt`,
+        sourceUrl: `https://subhd.test/${subtitleId}`,
+        format: "srt",
+      };
+    },
+    async downloadSubtitle(subtitleId) {
+      downloads.push(subtitleId);
+      return {
+        ...(await this.getDownloadPlan(subtitleId)),
+        content: new TextEncoder().encode(contents[subtitleId]),
+      };
+    },
+  };
+}
+
+async function fetchWith(args: string[], contents: Record<string, string>) {
+  const downloads: string[] = [];
+  const written: string[] = [];
+  const stdout = new BufferWriter();
+  const exitCode = await runCli(
+    ["fetch", "--query", "matrix", "--lang", "zh-cn", "--output", "/tmp/m.srt", ...args, "--json"],
+    {
+      providers: { subhd: createProvider(contents, downloads) },
+      stdout,
+      stderr: new BufferWriter(),
+      fileWriter: async (path) => {
+        written.push(path);
+      },
+    },
+  );
+
+  return { exitCode, downloads, written, payload: JSON.parse(stdout.read()) };
+}
+
+describe("content language detection", () => {
+  it("reports the languages of the cue text with their share of lines", () => {
+    expect(detectSubtitleLanguages(CHINESE, "srt")).toEqual([
+      { language: "zh-cn", proportion: 1 },
+    ]);
+    expect(detectSubtitleLanguages(BILINGUAL, "srt")).toEqual([
+      { language: "en", proportion: 0.5 },
+      { language: "zh-cn", proportion: 0.5 },
+    ]);
+    expect(detectTextLanguages(["我們現在就走。", "好。"])).toEqual([
+      { language: "zh-tw", proportion: 1 },
+    ]);
+    expect(detectTextLanguages(["お前はもう死んでいる。", "何？"])).toEqual([
+      { language: "ja", proportion: 1 },
+    ]);
+    expect(detectTextLanguages(["Je ne sais pas ce que vous voulez.", "Merci."])).toEqual([
+      { language: "fr", proportion: 1 },
+    ]);
+    expect(detectTextLanguages(["Ich weiß nicht, was du willst."])[0]?.language).toBe("de");
+    expect(detectTextLanguages(["♪ ♪", "123"])).toEqual([]);
+  });
+
+  it("reports detected languages on fetch", async () => {
+    const { exitCode, payload } = await fetchWith([], { "subhd:a": BILINGUAL });
+
+    expect(exitCode).toBe(0);
+    expect(payload.data.detectedLanguages).toEqual([
+      { language: "en", proportion: 0.5 },
+      { language: "zh-cn", proportion: 0.5 },
+    ]);
+    expect(payload.data.files[0].detectedLanguages).toEqual(payload.data.detectedLanguages);
+  });
+
+  it("rejects mislabeled content with --verify-language and tries the next candidate", async () => {
+    const contents = { "subhd:a": ENGLISH, "subhd:b": CHINESE };
+    const { exitCode, downloads, written, payload } = await fetchWith(
+      ["--verify-language"],
+      contents,
+    );
+
+    expect(exitCode).toBe(0);
+    expect(downloads).toEqual(["subhd:a", "subhd:b"]);
+    expect(written).toEqual(["/tmp/m.srt"]);
+    expect(payload.data.selected.id).toBe("subhd:b");
+    expect(payload.data.attempts[0]).toMatchObject({
+      candidateId: "subhd:a",
+      ok: false,
+      error: { code: "E_SUBTITLE_LANGUAGE_MISMATCH" },
+    });
+
+    const strict = await fetchWith(["--verify-language", "--fallback", "none"], contents);
+    expect(strict.exitCode).toBe(6);
+    expect(strict.written).toEqual([]);
+    expect(strict.payload.error).toMatchObject({
+      code: "E_SUBTITLE_LANGUAGE_MISMATCH",
+      details: { expected: ["zh-cn"], detectedLanguages: [{ language: "en", proportion: 1 }] },
+    });
+  });
+});
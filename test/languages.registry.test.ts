@@ -0,0 +1,96 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { resolveLanguage, suggestLanguages } from "../src/domain/languages.js";
+import { parseSubhdSearchItems } from "../src/domain/providers/subhd-parser.js";
+import { normalizeLanguages } from "../src/domain/request-normalization.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+async function run(args: string[]) {
+  const stdout = new BufferWriter();
+  const exitCode = await runCli([...args, "--json"], {
+    env: {},
+    configReader: async () => undefined,
+    stdout,
+    stderr: new BufferWriter(),
+  });
+  return { exitCode, payload: JSON.parse(stdout.read()) };
+}
+
+describe("language registry", () => {
+  it("resolves ISO 639 codes, BCP 47 tags and names to canonical codes", () => {
+    expect(
+      ["ko", "fre", "pt-BR", "pt_br", "zh-Hant", "zh-Hans-CN", "en-AU", "sr-Latn", "yue"].map(
+        (value) => resolveLanguage(value),
+      ),
+    ).toEqual(["ko", "fr", "pt-br", "pt-br", "zh-tw", "zh-cn", "en-au", "sr-latn", "yue"]);
+    expect(["Korean", "韩语", "韓語", "한국어", "français", "法语"].map(resolveLanguage)).toEqual([
+      "ko",
+      "ko",
+      "ko",
+      "ko",
+      "fr",
+      "fr",
+    ]);
+    expect(
+      ["cmn", "zh-cmn", "cmn-Hant-TW", "國語", "国语", "粵語", "廣東話", "nan", "zh-hakka"].map(
+        (value) => resolveLanguage(value),
+      ),
+    ).toEqual(["zh", "zh", "zh-tw", "zh", "zh", "yue", "yue", "nan", "hak"]);
+    expect(normalizeLanguages(["chs", "zh-cn", "ENG", "japanese"])).toEqual(["zh-cn", "en", "ja"]);
+    expect(resolveLanguage("en-zz")).toBeUndefined();
+    expect(suggestLanguages("frn")).toContain("fr");
+  });
+
+  it("rejects unknown languages with suggestions", async () => {
+    const result = await run(["search", "--query", "The Matrix", "--lang", "englsh"]);
+
+    expect(result.exitCode).toBe(2);
+    expect(result.payload.error).toMatchObject({
+      code: "E_ARG_INVALID",
+      details: { arg: "lang", value: "englsh", suggestions: ["en"] },
+    });
+  });
+
+  it("lists and searches supported languages", async () => {
+    const all = await run(["languages"]);
+    expect(all.payload.data.total).toBeGreaterThan(180);
+
+    const korean = await run(["languages", "--search", "韓"]);
+    expect(korean.payload.data.languages).toEqual([
+      expect.objectContaining({ code: "ko", name: "Korean", aliases: ["kor"] }),
+    ]);
+  });
+
+  it("labels SubHD results by the language named on the card", async () => {
+    const html = await readFile(
+      join(import.meta.dirname, "fixtures", "subhd", "search.matrix.html"),
+      "utf8",
+    );
+    const korean = html.replace(
+      '<span class="p-1 fw-bold">简体</span><span class="p-1 fw-bold">英语</span>',
+      '<span class="p-1 fw-bold">韩语</span>',
+    );
+
+    expect(parseSubhdSearchItems(html)[0]).toMatchObject({
+      language: "zh-cn",
+      languages: ["zh-cn", "en"],
+    });
+    expect(parseSubhdSearchItems(korean)[0]?.language).toBe("ko");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { applyNamingScheme } from "../src/domain/naming.js";
+import type { SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const SRT = ["1", "00:00:01,000 --> 00:00:02,000", "Wake up, Neo.", ""].join("\n");
+
+function createProvider(): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: true,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search() {
+      return [
+        {
+          id: "subhd:sdh",
+          providerId: "subhd",
+          title: "The Matrix 1999",
+          language: "en",
+          format: "srt",
+          downloads: 10,
+          hearingImpaired: true,
+        },
+      ];
+    },
+    async getDownloadPlan(id) {
+      return {
+        id,
+        providerId: "subhd",
+        fileName: "matrix_provider_upload.srt",
+        sourceUrl: `https://dl.subhd.test/${id}`,
+        format: "srt",
+      };
+    },
+    async downloadSubtitle(id) {
+      return { ...(await this.getDownloadPlan(id)), content: new TextEncoder().encode(SRT) };
+    },
+  };
+}
+
+async function fetchWith(args: string[]): Promise<{ exitCode: number; payload: unknown }> {
+  const stdout = new BufferWriter();
+  const exitCode = await runCli(["fetch", "--query", "matrix", ...args, "--json"], {
+    providers: { subhd: createProvider() },
+    stdout,
+    stderr: new BufferWriter(),
+    fileWriter: async () => {},
+  });
+  return { exitCode, payload: JSON.parse(stdout.read()) };
+}
+
+describe("output naming", () => {
+  it("builds media-server and template names", () => {
+    const details = { format: "srt" as const, language: "zh-cn", forced: true };
+
+    expect(applyNamingScheme({ scheme: "plex", stem: "Movie (1999)" }, "a.srt", details)).toBe(
+      "Movie (1999).zh-cn.forced.srt",
+    );
+    expect(applyNamingScheme({ scheme: "kodi" }, "upload.ass", { format: "ass" })).toBe(
+      "upload.und.ass",
+    );
+    const template = "{stem}.S{season}E{episode}.{lang}.{format}";
+    expect(
+      applyNamingScheme({ scheme: "template", template, stem: "Show" }, "x.srt", {
+        format: "vtt",
+        language: "en",
+        season: 1,
+        episode: 3,
+      }),
+    ).toBe("Show.S01E03.en.vtt");
+    expect(applyNamingScheme({ scheme: "provider" }, "x.srt", details)).toBe("x.srt");
+    expect(applyNamingScheme({ scheme: "plex", stem: "Movie" }, "pack.zip", details)).toBe(
+      "pack.zip",
+    );
+  });
+
+  it("fetch writes next to a video given as --output", async () => {
+    const { exitCode, payload } = await fetchWith(["--output", "/movies/The.Matrix.1999.mkv"]);
+
+    expect(exitCode).toBe(0);
+    expect(payload).toMatchObject({
+      data: {
+        naming: "plex",
+        outputPath: "/movies/The.Matrix.1999.en.sdh.srt",
+        fileName: "matrix_provider_upload.srt",
+      },
+    });
+  });
+
+  it("fetch applies --naming-template", async () => {
+    const { exitCode, payload } = await fetchWith([
+      "--output",
+      "/movies/The.Matrix.1999.mkv",
+      "--naming-template",
+      "{stem}.{provider}.{lang}.{format}",
+      "--dry-run",
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(payload).toMatchObject({
+      data: { naming: "template", outputPath: "/movies/The.Matrix.1999.subhd.en.srt" },
+    });
+  });
+
+  it("rejects unknown template placeholders", async () => {
+    const { exitCode, payload } = await fetchWith([
+      "--output",
+      "/movies/The.Matrix.1999.mkv",
+      "--naming-template",
+      "{stem}.{language}.{format}",
+    ]);
+
+    expect(exitCode).toBe(2);
+    expect(payload).toMatchObject({
+      ok: false,
+      error: { code: "E_ARG_INVALID", details: { arg: "naming-template" } },
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import type { NormalizedSubtitleRequest, SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const PROFILES = "/home/test/.config/subchef/profiles.json";
+
+function createProvider(requests: NormalizedSubtitleRequest[]): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: true,
+      capabilities: { search: true, download: false, doctor: false },
+    },
+    async search(request) {
+      requests.push(request);
+      return (["srt", "ass"] as const).map((format) => ({
+        id: `subhd:${format}`,
+        providerId: "subhd",
+        title: "Frieren S01E01",
+        language: "zh-tw",
+        format,
+        downloads: 10,
+      }));
+    },
+    async getDownloadPlan() {
+      throw new Error("not used");
+    },
+    async downloadSubtitle() {
+      throw new Error("not used");
+    },
+  };
+}
+
+async function run(
+  args: string[],
+  files: Map<string, string>,
+  env: NodeJS.ProcessEnv = {},
+  requests: NormalizedSubtitleRequest[] = [],
+) {
+  const stdout = new BufferWriter();
+  const exitCode = await runCli([...args, "--json"], {
+    providers: { subhd: createProvider(requests) },
+    env: { XDG_CONFIG_HOME: "/home/test/.config", ...env },
+    cwd: "/media/anime",
+    configReader: async (path) => files.get(path),
+    configWriter: async (path, text) => {
+      files.set(path, text);
+    },
+    stdout,
+    stderr: new BufferWriter(),
+  });
+  return { exitCode, requests, payload: JSON.parse(stdout.read()) };
+}
+
+const CREATE_ANIME = [
+  "profile",
+  "create",
+  "anime",
+  "--lang",
+  "zh-tw",
+  "--naming",
+  "jellyfin",
+  "--weight",
+  "format.ass=10",
+];
+
+describe("profiles", () => {
+  it("applies a profile's languages and ranking weights and reports it in meta", async () => {
+    const files = new Map<string, string>();
+    const created = await run(CREATE_ANIME, files);
+    expect(created.payload.data.profile).toEqual({
+      name: "anime",
+      values: { lang: ["zh-tw"], naming: "jellyfin", weights: { "format.ass": 10 } },
+    });
+
+    const plain = await run(["search", "--query", "frieren"], files);
+    expect(plain.payload.data.items[0].id).toBe("subhd:srt");
+    expect(plain.payload.meta.profile).toBeUndefined();
+
+    const profiled = await run(
+      ["search", "--query", "frieren", "--profile", "anime", "--verbose"],
+      files,
+      { SUBCHEF_LANG: "en" },
+    );
+    expect(profiled.payload.meta.profile).toBe("anime");
+    expect(profiled.requests[0].languagePreferences).toEqual(["zh-tw"]);
+    expect(profiled.payload.data.items[0].id).toBe("subhd:ass");
+    expect(profiled.payload.meta.config).toContainEqual({
+      key: "lang",
+      value: ["zh-tw"],
+      source: "profile",
+      origin: "anime",
+    });
+
+    const overridden = await run(
+      ["search", "--query", "frieren", "--profile", "anime", "--lang", "ja"],
+      files,
+    );
+    expect(overridden.requests[0].languagePreferences).toEqual(["ja"]);
+  });
+
+  it("selects the profile named by .subchefrc and rejects unknown ones", async () => {
+    const files = new Map<string, string>();
+    await run(CREATE_ANIME, files);
+    files.set("/media/anime/.subchefrc", JSON.stringify({ profile: "anime" }));
+
+    const search = await run(["search", "--query", "frieren"], files);
+    expect(search.payload.meta.profile).toBe("anime");
+    expect(search.payload.data.items[0].id).toBe("subhd:ass");
+
+    const unknown = await run(["search", "--query", "frieren", "--profile", "movies"], files);
+    expect(unknown.exitCode).toBe(2);
+    expect(unknown.payload.error).toMatchObject({
+      code: "E_ARG_INVALID",
+      details: { profile: "movies", allowed: ["anime"], arg: "profile" },
+    });
+  });
+
+  it("lists, shows, replaces and deletes profiles", async () => {
+    const files = new Map<string, string>();
+    await run(CREATE_ANIME, files);
+    await run(["profile", "create", "movies", "--lang", "zh-cn,en", "--format", "srt"], files);
+
+    const list = await run(["profile", "list"], files);
+    expect(list.payload.data.profiles.map((profile: { name: string }) => profile.name)).toEqual([
+      "anime",
+      "movies",
+    ]);
+
+    const show = await run(["profile", "show", "anime"], files);
+    expect(show.payload.data.ranking.weights.format).toEqual({ srt: 8, ass: 10, vtt: 4 });
+
+    const conflict = await run(["profile", "create", "movies", "--lang", "en"], files);
+    expect(conflict.exitCode).toBe(2);
+    expect(conflict.payload.error.code).toBe("E_ARG_CONFLICT");
+
+    const replaced = await run(["profile", "create", "movies", "--lang", "en", "--force"], files);
+    expect(replaced.payload.data).toMatchObject({
+      replaced: true,
+      profile: { values: { lang: ["en"] } },
+    });
+
+    const invalid = await run(["profile", "create", "bad", "--weight", "colour=1"], files);
+    expect(invalid.payload.error).toMatchObject({
+      code: "E_ARG_INVALID",
+      details: { weight: "colour" },
+    });
+
+    await run(["profile", "delete", "anime"], files);
+    expect(Object.keys(JSON.parse(files.get(PROFILES) ?? "{}"))).toEqual(["movies"]);
+  });
+});
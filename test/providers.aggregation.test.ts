@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { CliAppError } from "../src/core/index.js";
+import type { ProviderSubtitleResult, SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const SRT = ["1", "00:00:01,000 --> 00:00:02,000", "Hello.", ""].join("\n");
+
+function createProvider(
+  id: string,
+  results: ProviderSubtitleResult[] | CliAppError,
+  downloads: string[] = [],
+): SubtitleProvider {
+  return {
+    descriptor: {
+      id,
+      name: `${id} test`,
+      mock: true,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search() {
+      if (results instanceof CliAppError) {
+        throw results;
+      }
+      return results;
+    },
+    async getDownloadPlan(subtitleId) {
+      return {
+        id: subtitleId,
+        providerId: id,
+        fileName: `${subtitleId.replace(/\W+/g, "-")}.srt`,
+        sourceUrl: `https://${id}.test/${subtitleId}`,
+        format: "srt",
+      };
+    },
+    async downloadSubtitle(subtitleId) {
+      downloads.push(`${id}:${subtitleId}`);
+      return {
+        ...(await this.getDownloadPlan(subtitleId)),
+        content: new TextEncoder().encode(SRT),
+      };
+    },
+  };
+}
+
+function result(providerId: string, id: string, downloads: number): ProviderSubtitleResult {
+  return { id, providerId, title: "The Matrix 1999", language: "zh-cn", format: "srt", downloads };
+}
+
+const TIMEOUT = new CliAppError({ code: "E_UPSTREAM_TIMEOUT", message: "opensubs timed out" });
+
+describe("multi-provider search", () => {
+  it("ranks results from every provider together and reports each provider", async () => {
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      ["search", "--query", "matrix", "--lang", "zh-cn", "--provider", "all", "--json"],
+      {
+        providers: {
+          subhd: createProvider("subhd", [result("subhd", "subhd:a", 10)]),
+          assrt: createProvider("assrt", [result("assrt", "assrt-1", 100)]),
+          opensubs: createProvider("opensubs", TIMEOUT),
+        },
+        stdout,
+        stderr: new BufferWriter(),
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    const payload = JSON.parse(stdout.read());
+    expect(payload.data.provider).toBe("assrt,opensubs,subhd");
+    expect(payload.data.items.map((item: { id: string }) => item.id)).toEqual([
+      "subhd:a",
+      "assrt-1",
+    ]);
+    expect(payload.data.providers).toEqual([
+      { provider: "assrt", ok: true, count: 1, durationMs: expect.any(Number) },
+      {
+        provider: "opensubs",
+        ok: false,
+        count: 0,
+        durationMs: expect.any(Number),
+        error: { code: "E_UPSTREAM_TIMEOUT", message: "opensubs timed out" },
+      },
+      { provider: "subhd", ok: true, count: 1, durationMs: expect.any(Number) },
+    ]);
+  });
+
+  it("fetch downloads from the provider that returned the winner", async () => {
+    const downloads: string[] = [];
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      [
+        "fetch",
+        "--query",
+        "matrix",
+        "--providers",
+        "subhd,assrt",
+        "--output",
+        "/tmp/m.srt",
+        "--json",
+      ],
+      {
+        providers: {
+          subhd: createProvider("subhd", [], downloads),
+          assrt: createProvider("assrt", [result("assrt", "assrt-1", 5)], downloads),
+        },
+        stdout,
+        stderr: new BufferWriter(),
+        fileWriter: async () => {},
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(downloads).toEqual(["assrt:assrt-1"]);
+    expect(JSON.parse(stdout.read()).data).toMatchObject({
+      provider: "subhd,assrt",
+      selected: { id: "assrt-1", providerId: "assrt" },
+      sourceUrl: "https://assrt.test/assrt-1",
+    });
+  });
+
+  it("fails with the upstream code only when every provider fails", async () => {
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      ["search", "--query", "matrix", "--providers", "subhd,opensubs", "--json"],
+      {
+        providers: {
+          subhd: createProvider("subhd", TIMEOUT),
+          opensubs: createProvider("opensubs", TIMEOUT),
+        },
+        stdout,
+        stderr: new BufferWriter(),
+      },
+    );
+
+    expect(exitCode).toBe(5);
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      ok: false,
+      error: { code: "E_UPSTREAM_TIMEOUT", details: { providers: [{ ok: false }, { ok: false }] } },
+    });
+  });
+
+  it("rejects unknown provider ids", async () => {
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      ["search", "--query", "matrix", "--providers", "subhd,nope", "--json"],
+      { stdout, stderr: new BufferWriter() },
+    );
+
+    expect(exitCode).toBe(2);
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      error: { code: "E_ARG_INVALID", details: { arg: "providers", value: "nope" } },
+    });
+  });
+});
@@ -50,7 +50,7 @@ describe("request normalization + ranking determinism", () => {
     expect(normalized).toMatchObject({
       query: "The Matrix",
       normalizedQuery: "the matrix",
-      queryTokens: ["matrix", "the"],
+      queryTokens: ["matrix"],
       languagePreferences: ["en", "zh-cn"],
       fingerprint: "the matrix|1999|||en,zh-cn",
     });
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import { parseLanguageFallbacks } from "../src/domain/languages.js";
+import { createRankingPolicy, explainSubtitleCandidate } from "../src/domain/ranking.js";
+import { normalizeSubtitleRequest } from "../src/domain/request-normalization.js";
+import type { ProviderSubtitleResult } from "../src/domain/types.js";
+
+function candidate(language: string, languages?: string[]): ProviderSubtitleResult {
+  return {
+    id: `subhd:${language}`,
+    providerId: "subhd",
+    title: "The Matrix 1999",
+    language,
+    languages,
+    format: "srt",
+    downloads: 0,
+  };
+}
+
+function languageFactors(languages: string[], subtitle: ProviderSubtitleResult, policy?: object) {
+  const request = normalizeSubtitleRequest({ query: "The Matrix", languages });
+  const explanation = explainSubtitleCandidate(
+    request,
+    subtitle,
+    policy === undefined ? undefined : createRankingPolicy(policy),
+  );
+  return {
+    reasons: explanation.reasons.filter((reason) => reason.startsWith("lang:")),
+    factors: explanation.factors.filter((factor) => ["language", "bilingual"].includes(factor.id)),
+  };
+}
+
+describe("language ranking", () => {
+  it("matches regional variants and base languages at the regional weight", () => {
+    expect(languageFactors(["zh"], candidate("zh-cn"))).toEqual({
+      reasons: ["lang:regional"],
+      factors: [expect.objectContaining({ weight: 24, value: 1, contribution: 24 })],
+    });
+    expect(languageFactors(["pt-br"], candidate("pt")).reasons).toEqual(["lang:regional"]);
+    expect(languageFactors(["zh-cn"], candidate("zh-tw")).reasons).toEqual(["lang:convertible"]);
+    expect(languageFactors(["en", "zh"], candidate("zh-tw")).factors).toEqual([
+      expect.objectContaining({ weight: 24, value: 0.5, contribution: 12 }),
+    ]);
+    expect(languageFactors(["pt"], candidate("es")).reasons).toEqual(["lang:mismatch"]);
+  });
+
+  it("follows fallback chains ahead of the hierarchy", () => {
+    const [first, second] = ["zh-tw", "zh"].map(
+      (language) => languageFactors(["zh-hk"], candidate(language)).factors[0],
+    );
+    expect(first).toMatchObject({ weight: 18, value: 1, contribution: 18 });
+    expect(second).toMatchObject({ weight: 18, value: 0.5, contribution: 9 });
+    expect(languageFactors(["zh-hk"], candidate("zh")).reasons).toEqual([
+      "lang:regional-fallback",
+    ]);
+
+    const languageFallbacks = parseLanguageFallbacks(["pt-PT:pt-BR", "zh-hk:zh-cn"], "test");
+    expect(languageFallbacks).toEqual({ "pt-pt": ["pt-br"], "zh-hk": ["zh-cn"] });
+    expect(languageFactors(["pt-pt"], candidate("pt-br"), { languageFallbacks }).reasons).toEqual(
+      ["lang:regional-fallback"],
+    );
+    expect(languageFactors(["zh-hk"], candidate("zh-tw"), { languageFallbacks }).reasons).toEqual(
+      ["lang:mismatch"],
+    );
+    expect(() => parseLanguageFallbacks(["zh-hk"], "lang-fallback")).toThrow(
+      /Invalid language fallback chain/,
+    );
+  });
+
+  it("counts bilingual candidates for both languages", () => {
+    const bilingual = candidate("zh-cn", ["zh-cn", "en"]);
+
+    expect(languageFactors(["en"], bilingual).reasons).toEqual(["lang:primary"]);
+    expect(languageFactors(["zh-cn", "en"], bilingual)).toEqual({
+      reasons: ["lang:primary", "lang:bilingual"],
+      factors: [
+        expect.objectContaining({ id: "language", contribution: 30 }),
+        expect.objectContaining({ id: "bilingual", contribution: 6, detail: "zh-cn+en" }),
+      ],
+    });
+    expect(languageFactors(["zh-cn", "zh-tw"], bilingual).reasons).toEqual(["lang:primary"]);
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import {
+  createRankingPolicy,
+  explainSubtitleCandidate,
+  RANKING_FACTORS_VERSION,
+  rankSubtitleCandidates,
+} from "../src/domain/ranking.js";
+import { normalizeSubtitleRequest } from "../src/domain/request-normalization.js";
+import type { ProviderSubtitleResult, SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const CANDIDATES: ProviderSubtitleResult[] = [
+  {
+    id: "subhd:srt",
+    providerId: "subhd",
+    title: "The Matrix 1999",
+    language: "zh-cn",
+    format: "srt",
+    downloads: 100,
+  },
+  {
+    id: "subhd:ass",
+    providerId: "subhd",
+    title: "The Matrix 1999",
+    language: "zh-cn",
+    format: "ass",
+    downloads: 100,
+  },
+  {
+    id: "subhd:sdh",
+    providerId: "subhd",
+    title: "The Matrix 1999",
+    language: "zh-cn",
+    format: "srt",
+    downloads: 100,
+    hearingImpaired: true,
+  },
+];
+
+const REQUEST = normalizeSubtitleRequest({ query: "The Matrix", languages: ["zh-cn"] });
+
+function createProvider(): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: true,
+      capabilities: { search: true, download: false, doctor: false },
+    },
+    async search() {
+      return CANDIDATES;
+    },
+    async getDownloadPlan() {
+      throw new Error("not used");
+    },
+    async downloadSubtitle() {
+      throw new Error("not used");
+    },
+  };
+}
+
+async function run(args: string[]) {
+  const stdout = new BufferWriter();
+  const exitCode = await runCli([...args, "--json"], {
+    providers: { subhd: createProvider() },
+    env: {},
+    configReader: async () => undefined,
+    stdout,
+    stderr: new BufferWriter(),
+  });
+  return { exitCode, payload: JSON.parse(stdout.read()) };
+}
+
+const ids = (policy: Parameters<typeof createRankingPolicy>[0]) =>
+  rankSubtitleCandidates(REQUEST, CANDIDATES, undefined, createRankingPolicy(policy)).map(
+    (item) => item.id,
+  );
+
+describe("ranking policy", () => {
+  it("applies format preference, weights and hearing-impaired modes", () => {
+    expect(ids({})).toEqual(["subhd:srt", "subhd:sdh", "subhd:ass"]);
+    expect(ids({ preferFormat: "ass" })[0]).toBe("subhd:ass");
+    expect(ids({ weights: { "format.ass": 20 } })[0]).toBe("subhd:ass");
+    expect(ids({ hearingImpaired: "exclude" })).not.toContain("subhd:sdh");
+    expect(ids({ hearingImpaired: "prefer" })[0]).toBe("subhd:sdh");
+  });
+
+  it("breaks a score down into factors that add up to it", () => {
+    const explanation = explainSubtitleCandidate(REQUEST, CANDIDATES[2]);
+    const total = explanation.factors.reduce((sum, factor) => sum + factor.contribution, 0);
+
+    expect(total).toBeCloseTo(explanation.score, 5);
+    expect(explanation.factors.map((factor) => factor.id)).toEqual([
+      "query-overlap",
+      "language",
+      "provider",
+      "downloads",
+      "format",
+      "hearing-impaired",
+    ]);
+    expect(explanation.factors[1]).toEqual({
+      id: "language",
+      weight: 30,
+      value: 1,
+      contribution: 30,
+      detail: "primary",
+    });
+  });
+
+  it("signs negative provider weights in the reasons", () => {
+    const policy = createRankingPolicy({ weights: { "provider.subhd": -5 } });
+    const [ranked] = rankSubtitleCandidates(REQUEST, CANDIDATES, undefined, policy);
+
+    expect(ranked.reasons).toContain("provider:subhd:-5.000");
+  });
+
+  it("sub explain reports the candidate's rank, factors and policy", async () => {
+    const explained = await run([
+      "explain",
+      "--id",
+      "subhd:ass",
+      "--query",
+      "The Matrix",
+      "--lang",
+      "zh-cn",
+      "--prefer-format",
+      "ass",
+    ]);
+
+    expect(explained.exitCode).toBe(0);
+    expect(explained.payload.data).toMatchObject({
+      candidate: { id: "subhd:ass" },
+      rank: 1,
+      totalCandidates: 3,
+      policy: { preferFormat: "ass", hearingImpaired: "include" },
+    });
+    expect(explained.payload.data.factors).toContainEqual({
+      id: "preferred-format",
+      weight: 10,
+      value: 1,
+      contribution: 10,
+      detail: "ass",
+    });
+
+    const missing = await run(["explain", "--id", "subhd:nope", "--query", "The Matrix"]);
+    expect(missing.exitCode).toBe(4);
+
+    const invalid = await run(["search", "--query", "The Matrix", "--weight", "speed=3"]);
+    expect(invalid.exitCode).toBe(2);
+    expect(invalid.payload.error.details).toMatchObject({ weight: "speed", origin: "--weight" });
+  });
+
+  it("sub explain searches the provider that owns the id unless one is passed", async () => {
+    const assrt: SubtitleProvider = {
+      ...createProvider(),
+      descriptor: { ...createProvider().descriptor, id: "assrt" },
+      async search() {
+        return [{ ...CANDIDATES[0], id: "assrt-1001", providerId: "assrt" }];
+      },
+    };
+    const explain = async (args: string[]) => {
+      const stdout = new BufferWriter();
+      const exitCode = await runCli(
+        ["explain", "--id", "assrt-1001", "--query", "The Matrix", ...args, "--json"],
+        {
+          providers: { subhd: createProvider(), assrt },
+          env: { SUBCHEF_PROVIDERS: "subhd" },
+          configReader: async () => undefined,
+          stdout,
+          stderr: new BufferWriter(),
+        },
+      );
+      return { exitCode, payload: JSON.parse(stdout.read()) };
+    };
+
+    const owned = await explain([]);
+    expect(owned.exitCode).toBe(0);
+    expect(owned.payload.data.candidate).toMatchObject({ id: "assrt-1001", providerId: "assrt" });
+
+    const elsewhere = await explain(["--provider", "subhd"]);
+    expect(elsewhere.exitCode).toBe(4);
+  });
+
+  it("search items carry versioned factors and --explain prints them", async () => {
+    const searched = await run(["search", "--query", "The Matrix", "--lang", "zh-cn"]);
+    const [top] = searched.payload.data.items;
+
+    expect(searched.payload.data.factorsVersion).toBe(RANKING_FACTORS_VERSION);
+    expect(top.factors).toEqual(explainSubtitleCandidate(REQUEST, CANDIDATES[0]).factors);
+    expect(top.reasons).toHaveLength(top.factors.length);
+
+    const stdout = new BufferWriter();
+    await runCli(["search", "--query", "The Matrix", "--lang", "zh-cn", "--explain"], {
+      providers: { subhd: createProvider() },
+      env: {},
+      configReader: async () => undefined,
+      stdout,
+      stderr: new BufferWriter(),
+    });
+    const lines = stdout.read().split("\n");
+    const first = lines.findIndex((line) => line.startsWith("1. subhd:srt"));
+
+    expect(lines[first + 1]).toBe("   query-overlap: +60.000 = 60 x 1 (1/1 tokens)");
+    expect(lines[first + 2]).toBe("   language: +30.000 = 30 x 1 (primary)");
+  });
+});
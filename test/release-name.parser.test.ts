@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { rankSubtitleCandidates } from "../src/domain/ranking.js";
+import { parseReleaseName } from "../src/domain/release-name.js";
+import { normalizeSubtitleRequest } from "../src/domain/request-normalization.js";
+import type {
+  NormalizedSubtitleRequest,
+  ProviderSubtitleResult,
+  SubtitleProvider,
+} from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const CANDIDATES: ProviderSubtitleResult[] = [
+  {
+    id: "subhd:web",
+    providerId: "subhd",
+    title: "黑客帝国 The Matrix",
+    releaseName: "The.Matrix.1999.1080p.WEB-DL.H264-OTHER",
+    language: "zh-cn",
+    format: "srt",
+    downloads: 900,
+  },
+  {
+    id: "subhd:bluray",
+    providerId: "subhd",
+    title: "黑客帝国 The Matrix",
+    releaseName: "The.Matrix.1999.1080p.BluRay.x264-GROUP",
+    language: "zh-cn",
+    format: "srt",
+    downloads: 300,
+  },
+];
+
+describe("release name parsing", () => {
+  it("parses a scene movie release", () => {
+    expect(parseReleaseName("/media/The.Matrix.1999.1080p.BluRay.x264-GROUP.mkv")).toEqual({
+      title: "The Matrix",
+      year: 1999,
+      season: undefined,
+      episode: undefined,
+      resolution: "1080p",
+      source: "bluray",
+      codec: "h264",
+      group: "GROUP",
+      edition: undefined,
+    });
+  });
+
+  it("parses episodes, editions and bracketed groups", () => {
+    expect(parseReleaseName("Breaking.Bad.S01E02.720p.WEB-DL.DD5.1.H.264-NTb.mkv")).toMatchObject({
+      title: "Breaking Bad",
+      season: 1,
+      episode: 2,
+      resolution: "720p",
+      source: "web-dl",
+      codec: "h264",
+      group: "NTb",
+    });
+    expect(parseReleaseName("Blade.Runner.1982.Directors.Cut.2160p.BluRay.x265-X.mkv")).toMatchObject({
+      title: "Blade Runner",
+      year: 1982,
+      resolution: "2160p",
+      edition: "directors-cut",
+      codec: "h265",
+    });
+    expect(parseReleaseName("[SubsPlease] Frieren - S01E05 (1080p).mkv")).toMatchObject({
+      title: "Frieren",
+      season: 1,
+      episode: 5,
+      resolution: "1080p",
+      group: "SubsPlease",
+    });
+    expect(parseReleaseName("1917.2019.1080p.BluRay.x264.mkv")).toMatchObject({
+      title: "1917",
+      year: 2019,
+      group: undefined,
+    });
+  });
+
+  it("keeps years, source words and hyphens that belong to the title", () => {
+    expect(parseReleaseName("Blade.Runner.2049.2017.1080p.BluRay.x264-GRP.mkv")).toMatchObject({
+      title: "Blade Runner 2049",
+      year: 2017,
+      source: "bluray",
+      group: "GRP",
+    });
+    expect(parseReleaseName("The.Web.2004.720p.mkv")).toMatchObject({
+      title: "The Web",
+      year: 2004,
+      resolution: "720p",
+      source: undefined,
+    });
+    expect(parseReleaseName("Sneakers.1992.720p.WEB.H264-GRP.mkv")).toMatchObject({
+      title: "Sneakers",
+      source: "web-dl",
+      group: "GRP",
+    });
+    expect(parseReleaseName("Spider-Man.mkv")).toMatchObject({
+      title: "Spider-Man",
+      group: undefined,
+    });
+    expect(parseReleaseName("[SubsPlease] Frieren - 05 (1080p).mkv")).toMatchObject({
+      title: "Frieren",
+      season: undefined,
+      episode: 5,
+      resolution: "1080p",
+      group: "SubsPlease",
+    });
+  });
+
+  it("ranks candidates from the same release above more popular ones", () => {
+    const release = parseReleaseName("The.Matrix.1999.1080p.BluRay.x264-GROUP.mkv");
+    const request = normalizeSubtitleRequest({
+      query: release.title,
+      languages: ["zh-cn"],
+      release,
+    });
+    const ranked = rankSubtitleCandidates(request, CANDIDATES);
+
+    expect(ranked.map((item) => item.id)).toEqual(["subhd:bluray", "subhd:web"]);
+    expect(ranked[0].reasons).toEqual(
+      expect.arrayContaining([
+        "release-group:match",
+        "release-source:match",
+        "release-resolution:match",
+        "release-codec:match",
+      ]),
+    );
+    expect(ranked[1].reasons).toContain("release-source:mismatch");
+  });
+
+  it("search --video derives the request from the file name", async () => {
+    let seen: NormalizedSubtitleRequest | undefined;
+    const provider: SubtitleProvider = {
+      descriptor: {
+        id: "subhd",
+        name: "SubHD test",
+        mock: true,
+        capabilities: { search: true, download: true, doctor: false },
+      },
+      async search(request) {
+        seen = request;
+        return CANDIDATES;
+      },
+      async getDownloadPlan() {
+        throw new Error("not used");
+      },
+      async downloadSubtitle() {
+        throw new Error("not used");
+      },
+    };
+    const stdout = new BufferWriter();
+
+    const exitCode = await runCli(
+      ["search", "--video", "/movies/The.Matrix.1999.1080p.BluRay.x264-GROUP.mkv", "--json"],
+      { providers: { subhd: provider }, stdout, stderr: new BufferWriter() },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(seen).toMatchObject({ query: "The Matrix", year: 1999 });
+    const payload = JSON.parse(stdout.read());
+    expect(payload.data.request.release).toMatchObject({ group: "GROUP", source: "bluray" });
+    expect(payload.data.items[0]).toMatchObject({ id: "subhd:bluray" });
+  });
+});
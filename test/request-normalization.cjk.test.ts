@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { parseEpisodeMarkers } from "../src/domain/episode-markers.js";
+import { normalizeSubtitleRequest, tokenize } from "../src/domain/request-normalization.js";
+
+describe("CJK request normalization", () => {
+  it("segments CJK runs by dictionary words, bigrams and stop characters", () => {
+    expect(tokenize("黑客帝国 1999")).toEqual(expect.arrayContaining(["黑客", "帝国", "1999"]));
+    expect(tokenize("黑客帝国 1999")).toHaveLength(3);
+    expect(new Set(tokenize("肖申克的救赎"))).toEqual(new Set(["肖申", "申克", "救赎"]));
+    expect(new Set(tokenize("千と千尋の神隠し"))).toContain("神隠");
+    expect(tokenize("The Lord of the Rings")).toEqual(["lord", "rings"]);
+    expect(tokenize("The The")).toEqual(["the"]);
+  });
+
+  it("moves Chinese season and episode markers into the request", () => {
+    const request = normalizeSubtitleRequest({ query: "绝命毒师第一季" });
+    expect(request).toMatchObject({
+      query: "绝命毒师第一季",
+      normalizedQuery: "绝命毒师",
+      season: 1,
+    });
+    expect(new Set(request.queryTokens)).toEqual(new Set(["绝命", "毒师"]));
+    expect(normalizeSubtitleRequest({ query: "老友记 第十季 第12集" })).toMatchObject({
+      season: 10,
+      episode: 12,
+    });
+    expect(normalizeSubtitleRequest({ query: "越狱 全集" }).normalizedQuery).toBe("越狱");
+    expect(normalizeSubtitleRequest({ query: "越狱 第二季", season: 3 }).season).toBe(3);
+    expect(parseEpisodeMarkers("绝命毒师.第二季.第二十三集")).toEqual({ season: 2, episode: 23 });
+  });
+
+  it("keeps the fingerprint stable across equivalent inputs", () => {
+    const fingerprints = [
+      { query: "绝命毒师 第一季" },
+      { query: "第1季  绝命毒师" },
+      { query: "绝命毒师", season: 1 },
+    ].map((input) => normalizeSubtitleRequest(input).fingerprint);
+
+    expect(new Set(fingerprints).size).toBe(1);
+    expect(normalizeSubtitleRequest({ query: "Ｔｈｅ Ｍａｔｒｉｘ" }).fingerprint).toBe(
+      normalizeSubtitleRequest({ query: "the  matrix" }).fingerprint,
+    );
+  });
+});
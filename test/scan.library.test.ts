@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import type { DirectoryEntry } from "../src/commands/scan.js";
+import type { SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const SRT = ["1", "00:00:01,000 --> 00:00:02,000", "Hello.", ""].join("\n");
+
+const LIBRARY: Record<string, DirectoryEntry[]> = {
+  "/media": [
+    { name: "The.Matrix.1999.1080p.BluRay.x264-GROUP.mkv", directory: false },
+    { name: "The.Matrix.1999.1080p.BluRay.x264-GROUP.zh-cn.srt", directory: false },
+    { name: "Unknown.Film.2001.mkv", directory: false },
+    { name: "notes.txt", directory: false },
+    { name: "Show", directory: true },
+    { name: ".trash", directory: true },
+  ],
+  "/media/Show": [{ name: "Show.S01E02.720p.WEB-DL.mkv", directory: false }],
+  "/shared": [
+    { name: "Movie.2020.mkv", directory: false },
+    { name: "Movie.2020.Extended.mkv", directory: false },
+    { name: "Movie.2020.Extended.zh.srt", directory: false },
+    { name: "Movie.2020.en.forced.srt", directory: false },
+  ],
+};
+
+function createProvider(): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: true,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search(request) {
+      if (request.query === "Unknown Film") {
+        return [];
+      }
+
+      return [
+        {
+          id: `subhd:${request.normalizedQuery.replace(/\s+/g, "-")}:zh`,
+          providerId: "subhd",
+          title: request.query,
+          language: "zh-cn",
+          format: "srt",
+          downloads: 20,
+        },
+        {
+          id: `subhd:${request.normalizedQuery.replace(/\s+/g, "-")}:en`,
+          providerId: "subhd",
+          title: request.query,
+          language: "en",
+          format: "srt",
+          downloads: 10,
+        },
+      ];
+    },
+    async getDownloadPlan(id) {
+      return {
+        id,
+        providerId: "subhd",
+        fileName: "upload.srt",
+        sourceUrl: `https://dl.subhd.test/${id}`,
+        format: "srt",
+      };
+    },
+    async downloadSubtitle(id) {
+      return { ...(await this.getDownloadPlan(id)), content: new TextEncoder().encode(SRT) };
+    },
+  };
+}
+
+async function scan(args: string[]) {
+  const writes: string[] = [];
+  const stdout = new BufferWriter();
+  const exitCode = await runCli(["scan", "--dir", "/media", ...args, "--json"], {
+    providers: { subhd: createProvider() },
+    stdout,
+    stderr: new BufferWriter(),
+    directoryReader: async (path) => {
+      const entries = LIBRARY[path];
+      if (entries === undefined) {
+        throw Object.assign(new Error(`ENOENT: ${path}`), { code: "ENOENT" });
+      }
+      return entries;
+    },
+    fileWriter: async (path) => {
+      writes.push(path);
+    },
+  });
+
+  return { exitCode, writes, payload: JSON.parse(stdout.read()) };
+}
+
+describe("sub scan", () => {
+  it("fetches missing languages next to each video and reports failures", async () => {
+    const { exitCode, writes, payload } = await scan(["--lang", "zh,en", "--recursive"]);
+
+    expect(exitCode).toBe(0);
+    expect(writes).toEqual([
+      "/media/The.Matrix.1999.1080p.BluRay.x264-GROUP.en.srt",
+      "/media/Show/Show.S01E02.720p.WEB-DL.zh-cn.srt",
+      "/media/Show/Show.S01E02.720p.WEB-DL.en.srt",
+    ]);
+    expect(payload.data.videos.map((video: { path: string }) => video.path)).toEqual([
+      "/media/The.Matrix.1999.1080p.BluRay.x264-GROUP.mkv",
+      "/media/Unknown.Film.2001.mkv",
+      "/media/Show/Show.S01E02.720p.WEB-DL.mkv",
+    ]);
+    expect(payload.data.videos[0].languages).toEqual([
+      {
+        language: "zh",
+        status: "found",
+        path: "/media/The.Matrix.1999.1080p.BluRay.x264-GROUP.zh-cn.srt",
+      },
+      {
+        language: "en",
+        status: "fetched",
+        path: "/media/The.Matrix.1999.1080p.BluRay.x264-GROUP.en.srt",
+        candidateId: "subhd:the-matrix:en",
+      },
+    ]);
+    expect(payload.data.videos[1].languages[0]).toMatchObject({
+      status: "failed",
+      error: { code: "E_NOT_FOUND_RESOURCE" },
+    });
+    expect(payload.data.summary).toEqual({
+      videos: 3,
+      found: 1,
+      missing: 0,
+      fetched: 3,
+      failed: 2,
+    });
+    expect(payload.warnings).toEqual([
+      expect.objectContaining({ code: "W_SCAN_INCOMPLETE" }),
+    ]);
+  });
+
+  it("dry run plans without writing and skips subdirectories by default", async () => {
+    const { exitCode, writes, payload } = await scan(["--lang", "en", "--dry-run"]);
+
+    expect(exitCode).toBe(0);
+    expect(writes).toEqual([]);
+    expect(payload.data.summary).toEqual({
+      videos: 2,
+      found: 0,
+      missing: 1,
+      fetched: 0,
+      failed: 1,
+    });
+  });
+
+  it("matches sidecars only to the video whose stem they extend", async () => {
+    const { exitCode, payload } = await scan(["--dir", "/shared", "--lang", "zh,en", "--dry-run"]);
+
+    expect(exitCode).toBe(0);
+    expect(
+      payload.data.videos.map((video: { path: string; languages: Array<{ status: string }> }) => [
+        video.path,
+        video.languages.map((item) => item.status),
+      ]),
+    ).toEqual([
+      ["/shared/Movie.2020.Extended.mkv", ["found", "missing"]],
+      ["/shared/Movie.2020.mkv", ["missing", "found"]],
+    ]);
+  });
+
+  it("fails when the directory does not exist", async () => {
+    const { exitCode, payload } = await scan(["--dir", "/nowhere"]);
+
+    expect(exitCode).toBe(4);
+    expect(payload).toMatchObject({
+      ok: false,
+      error: { code: "E_NOT_FOUND_RESOURCE", details: { arg: "dir" } },
+    });
+  });
+});
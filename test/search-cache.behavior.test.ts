@@ -0,0 +1,225 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { CliAppError } from "../src/core/index.js";
+import type { DownloadCacheStore } from "../src/domain/download-cache.js";
+import {
+  searchCacheKey,
+  type SearchCacheEntry,
+  type SearchCacheStore,
+} from "../src/domain/search-cache.js";
+import type { SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-03-01T00:00:00.000Z");
+
+function createMemoryStore(): SearchCacheStore & { map: Map<string, SearchCacheEntry> } {
+  const map = new Map<string, SearchCacheEntry>();
+  return {
+    map,
+    location: "memory",
+    async get(key) {
+      return map.get(key);
+    },
+    async set(key, entry) {
+      map.set(key, entry);
+    },
+    async list() {
+      return [...map.entries()].map(([key, entry]) => ({
+        key,
+        entry,
+        bytes: JSON.stringify(entry).length,
+      }));
+    },
+    async delete(key) {
+      map.delete(key);
+    },
+  };
+}
+
+const EMPTY_DOWNLOADS: DownloadCacheStore = {
+  location: "memory-downloads",
+  async getEntry() {
+    return undefined;
+  },
+  async setEntry() {},
+  async readContent() {
+    return undefined;
+  },
+  async writeContent() {},
+  async list() {
+    return [];
+  },
+  async clear() {
+    return 0;
+  },
+};
+
+function createProvider(state: { searches: number; failing: boolean }): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: false,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search() {
+      state.searches += 1;
+      if (state.failing) {
+        throw new CliAppError({ code: "E_UPSTREAM_TIMEOUT", message: "SubHD timed out" });
+      }
+      return [
+        {
+          id: `subhd:${state.searches}`,
+          providerId: "subhd",
+          title: "The Matrix 1999",
+          language: "zh-cn",
+          format: "srt",
+          downloads: 1,
+        },
+      ];
+    },
+    async getDownloadPlan(id) {
+      return {
+        id,
+        providerId: "subhd",
+        fileName: "a.srt",
+        sourceUrl: "https://dl.subhd.test/a",
+        format: "srt",
+      };
+    },
+    async downloadSubtitle() {
+      throw new Error("not used");
+    },
+  };
+}
+
+async function run(
+  args: string[],
+  store: SearchCacheStore,
+  state = { searches: 0, failing: false },
+  now = NOW,
+) {
+  const stdout = new BufferWriter();
+  const exitCode = await runCli([...args, "--json"], {
+    providers: { subhd: createProvider(state) },
+    searchCacheStore: store,
+    downloadCacheStore: EMPTY_DOWNLOADS,
+    now: () => new Date(now),
+    stdout,
+    stderr: new BufferWriter(),
+  });
+  return { exitCode, payload: JSON.parse(stdout.read()) };
+}
+
+const SEARCH = ["search", "--query", "The Matrix", "--lang", "zh-cn"];
+
+describe("search result cache", () => {
+  it("stores a miss and serves the next search from the cache", async () => {
+    const store = createMemoryStore();
+    const state = { searches: 0, failing: false };
+
+    const first = await run(SEARCH, store, state);
+    const second = await run(SEARCH, store, state);
+
+    expect(first.payload.data.cache).toBe("miss");
+    expect(second.payload.data.cache).toBe("hit");
+    expect(second.payload.data.items[0].id).toBe("subhd:1");
+    expect(state.searches).toBe(1);
+    expect([...store.map.keys()]).toEqual([
+      searchCacheKey("subhd", first.payload.data.request.fingerprint),
+    ]);
+  });
+
+  it("serves expired results as stale when the upstream search fails", async () => {
+    const store = createMemoryStore();
+    await run(SEARCH, store);
+
+    const state = { searches: 0, failing: true };
+    const { exitCode, payload } = await run(SEARCH, store, state, NOW + 2 * DAY_MS);
+
+    expect(exitCode).toBe(0);
+    expect(state.searches).toBe(1);
+    expect(payload.data.cache).toBe("stale");
+    expect(payload.warnings).toEqual([expect.objectContaining({ code: "W_CACHE_STALE" })]);
+  });
+
+  it("--refresh searches upstream and --no-cache leaves the cache alone", async () => {
+    const store = createMemoryStore();
+    const state = { searches: 0, failing: false };
+    await run(SEARCH, store, state);
+
+    const refreshed = await run([...SEARCH, "--refresh"], store, state);
+    expect(refreshed.payload.data.cache).toBe("miss");
+    expect([...store.map.values()][0].results[0].id).toBe("subhd:2");
+
+    const uncached = await run([...SEARCH, "--no-cache"], store, state);
+    expect(uncached.payload.data.cache).toBeUndefined();
+    expect([...store.map.values()][0].results[0].id).toBe("subhd:2");
+    expect(state.searches).toBe(3);
+
+    const conflict = await run([...SEARCH, "--no-cache", "--refresh"], store, state);
+    expect(conflict.exitCode).toBe(2);
+    expect(conflict.payload.error.code).toBe("E_ARG_CONFLICT");
+  });
+
+  it("cache stats, prune and clear", async () => {
+    const store = createMemoryStore();
+    await run(SEARCH, store, undefined, NOW - 2 * DAY_MS);
+    await run(["search", "--query", "Inception"], store);
+
+    const stats = await run(["cache", "stats"], store);
+    expect(stats.payload.data).toMatchObject({
+      action: "stats",
+      dir: "memory",
+      removed: 0,
+      entries: 2,
+      fresh: 1,
+      expired: 1,
+      providers: { subhd: 2 },
+    });
+
+    const pruned = await run(["cache", "prune", "--cache-ttl", "7d"], store);
+    expect(pruned.payload.data).toMatchObject({ removed: 0, entries: 2, ttlSeconds: 604800 });
+
+    const prunedDefault = await run(["cache", "prune"], store);
+    expect(prunedDefault.payload.data).toMatchObject({ removed: 1, entries: 1, expired: 0 });
+
+    const cleared = await run(["cache", "clear"], store);
+    expect(cleared.payload.data).toMatchObject({ removed: 1, entries: 0, bytes: 0 });
+
+    const invalid = await run(["cache", "purge"], store);
+    expect(invalid.exitCode).toBe(2);
+    expect(invalid.payload.error.details).toMatchObject({ arg: "action", value: "purge" });
+  });
+
+  it("cache commands use the injected XDG_CACHE_HOME", async () => {
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(["cache", "stats", "--json"], {
+      providers: { subhd: createProvider({ searches: 0, failing: false }) },
+      env: { XDG_CACHE_HOME: "/nonexistent/cache" },
+      stdout,
+      stderr: new BufferWriter(),
+    });
+
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout.read()).data).toMatchObject({
+      dir: "/nonexistent/cache/subchef/search",
+      entries: 0,
+      downloads: { dir: "/nonexistent/cache/subchef/downloads", entries: 0 },
+    });
+  });
+});
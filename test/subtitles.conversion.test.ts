@@ -0,0 +1,274 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import {
+  convertSubtitleText,
+  cueText,
+  detectSubtitleFormat,
+  parseSubtitle,
+} from "../src/domain/subtitles.js";
+import type { SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const FIXTURE_DIR = join(import.meta.dirname, "fixtures", "subtitles");
+
+async function readFixture(name: string): Promise<string> {
+  return readFile(join(FIXTURE_DIR, name), "utf8");
+}
+
+const SRT = [
+  "1",
+  "00:00:01,000 --> 00:00:03,500",
+  "Wake up, <i>Neo</i>.",
+  "The Matrix has you.",
+  "",
+  "2",
+  "00:01:04,250 --> 00:01:06,000",
+  '{\\an8}<font color="#ffff00">Follow the white rabbit.</font>',
+  "",
+].join("\r\n");
+
+describe("subtitle format conversion", () => {
+  it("parses ASS styles, override tags and alignment", async () => {
+    const document = parseSubtitle(await readFixture("matrix.ass"), "ass");
+
+    expect(document.metadata).toMatchObject({ Title: "The Matrix", PlayResY: "1080" });
+    expect(document.styles.map((style) => style.name)).toEqual(["Default", "Sign"]);
+    expect(document.styles[1]).toMatchObject({
+      fontName: "Microsoft YaHei",
+      fontSize: 48,
+      color: "#ffff00",
+      bold: true,
+      alignment: 8,
+    });
+    expect(document.cues).toHaveLength(3);
+    expect(document.cues[0]).toMatchObject({ start: 1000, end: 3500, actor: "Morpheus" });
+    expect(cueText(document.cues[0])).toBe("Wake up, Neo.\nThe Matrix has you.");
+    expect(document.cues[1].lines[0][0]).toMatchObject({
+      text: "锡安",
+      overrides: "\\pos(960,100)\\fad(200,200)",
+    });
+    expect(document.cues[2]).toMatchObject({ alignment: 8 });
+    expect(document.cues[2].lines[0][0]).toMatchObject({ text: "Follow", color: "#ff0000" });
+  });
+
+  it("flattens ASS styles into SRT tags and warns about the rest", async () => {
+    const result = convertSubtitleText(await readFixture("matrix.ass"), "ass", "srt");
+
+    expect(result.text).toBe(
+      [
+        "1",
+        "00:00:01,000 --> 00:00:03,500",
+        "Wake up, <i>Neo</i>.",
+        "The Matrix has you.",
+        "",
+        "2",
+        "00:00:04,000 --> 00:00:06,250",
+        '{\\an8}<b><font color="#ffff00">锡安</font></b>',
+        "",
+        "3",
+        "00:00:07,000 --> 00:00:09,000",
+        '{\\an8}<font color="#ff0000">Follow</font> the white rabbit.',
+        "",
+      ].join("\n"),
+    );
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        code: "W_STYLE_DROPPED",
+        details: {
+          style: "Sign",
+          target: "srt",
+          properties: expect.arrayContaining(["Fontname", "Fontsize", "Outline", "MarginV"]),
+        },
+      }),
+      expect.objectContaining({ code: "W_OVERRIDE_DROPPED", details: { target: "srt", cues: 1 } }),
+    ]);
+  });
+
+  it("keeps ASS styles as WebVTT STYLE rules and cue settings", async () => {
+    const result = convertSubtitleText(await readFixture("matrix.ass"), "ass", "vtt");
+
+    expect(result.text).toContain(
+      '::cue(.Sign) { color: #ffff00; font-family: "Microsoft YaHei"; font-weight: bold; }',
+    );
+    expect(result.text).toContain("00:00:04.000 --> 00:00:06.250 line:0\n<c.Sign>锡安</c>");
+    expect(result.text).toContain("<v Morpheus><c.Default>Wake up, <i>Neo</i>.");
+    expect(result.warnings[0].details).toMatchObject({
+      style: "Sign",
+      properties: expect.not.arrayContaining(["Fontname"]),
+    });
+
+    const back = parseSubtitle(result.text, "vtt");
+    expect(back.cues[1]).toMatchObject({ style: "Sign", alignment: 8 });
+    expect(back.styles.find((style) => style.name === "Sign")).toMatchObject({
+      fontName: "Microsoft YaHei",
+      bold: true,
+    });
+  });
+
+  it("round-trips SRT through WebVTT and ASS", () => {
+    const vtt = convertSubtitleText(SRT, "srt", "vtt");
+    expect(detectSubtitleFormat(vtt.text)).toBe("vtt");
+    expect(vtt.text).toContain("00:01:04.250 --> 00:01:06.000 line:0\n<c.yellow>Follow");
+
+    const ass = convertSubtitleText(vtt.text, "vtt", "ass");
+    expect(ass.text).toContain(
+      "Dialogue: 0,0:00:01.00,0:00:03.50,Default,,0,0,0,,Wake up, {\\i1}Neo{\\i}.\\NThe Matrix has you.",
+    );
+
+    const srt = convertSubtitleText(ass.text, "ass", "srt");
+    expect(srt.text).toBe(`${SRT.replace(/\r\n/g, "\n").trimEnd()}\n`);
+    expect(srt.warnings).toEqual([]);
+  });
+
+  it("reads WebVTT identifiers, notes and entities", () => {
+    const document = parseSubtitle(
+      [
+        "WEBVTT - Matrix",
+        "",
+        "NOTE translated by fans",
+        "",
+        "intro",
+        "00:01.000 --> 00:02.500 align:start",
+        "<v Trinity>Tom &amp; Jerry &lt;3</v>",
+      ].join("\n"),
+      "vtt",
+    );
+
+    expect(document.cues).toEqual([
+      {
+        start: 1000,
+        end: 2500,
+        identifier: "intro",
+        actor: "Trinity",
+        alignment: 1,
+        style: undefined,
+        lines: [[{ text: "Tom & Jerry <3" }]],
+      },
+    ]);
+  });
+
+  it("convert command writes the target format and lifts warnings into the envelope", async () => {
+    const ass = await readFixture("matrix.ass");
+    const writes = new Map<string, string>();
+    const stdout = new BufferWriter();
+
+    const exitCode = await runCli(
+      ["convert", "--input", "/subs/matrix.ass", "--to", "srt", "--output", "/out/m.srt", "--json"],
+      {
+        stdout,
+        stderr: new BufferWriter(),
+        fileReader: async () => new TextEncoder().encode(ass),
+        fileWriter: async (path, content) => {
+          writes.set(path, new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(writes.get("/out/m.srt")).toContain("Wake up, <i>Neo</i>.");
+
+    const payload = JSON.parse(stdout.read());
+    expect(payload).toMatchObject({
+      ok: true,
+      data: { from: "ass", to: "srt", cues: 3, outputPath: "/out/m.srt" },
+      warnings: [{ code: "W_STYLE_DROPPED" }, { code: "W_OVERRIDE_DROPPED" }],
+    });
+    expect(payload.data.warnings).toBeUndefined();
+  });
+
+  it("convert reports malformed input with E_SUBTITLE_INVALID", async () => {
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      ["convert", "--input", "/subs/broken.srt", "--to", "vtt", "--output", "/out", "--json"],
+      {
+        stdout,
+        stderr: new BufferWriter(),
+        fileReader: async () => new TextEncoder().encode("1\n00:00:01 --> soon\nHello\n"),
+        fileWriter: async () => undefined,
+      },
+    );
+
+    expect(exitCode).toBe(6);
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      ok: false,
+      error: {
+        code: "E_SUBTITLE_INVALID",
+        details: { format: "srt", reason: "malformed timestamp" },
+      },
+    });
+  });
+
+  it("fetch --format converts the download and renames the output", async () => {
+    const writes = new Map<string, string>();
+    const provider: SubtitleProvider = {
+      descriptor: {
+        id: "subhd",
+        name: "SubHD test",
+        mock: true,
+        capabilities: { search: true, download: true, doctor: false },
+      },
+      async search() {
+        return [
+          {
+            id: "subhd:srt",
+            providerId: "subhd",
+            title: "The Matrix 1999",
+            language: "en",
+            format: "srt",
+            downloads: 10,
+          },
+        ];
+      },
+      async getDownloadPlan(id) {
+        return {
+          id,
+          providerId: "subhd",
+          fileName: "The.Matrix.1999.srt",
+          sourceUrl: "https://dl.subhd.test/matrix.srt",
+          format: "srt",
+        };
+      },
+      async downloadSubtitle(id) {
+        return { ...(await this.getDownloadPlan(id)), content: new TextEncoder().encode(SRT) };
+      },
+    };
+
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      ["fetch", "--query", "matrix", "--output", FIXTURE_DIR, "--format", "vtt", "--json"],
+      {
+        providers: { subhd: provider },
+        stdout,
+        stderr: new BufferWriter(),
+        fileWriter: async (path, content) => {
+          writes.set(path, new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    const outputPath = join(FIXTURE_DIR, "The.Matrix.1999.vtt");
+    expect(writes.get(outputPath)).toMatch(/^WEBVTT\n/);
+    expect(JSON.parse(stdout.read()).data).toMatchObject({
+      outputPath,
+      format: "vtt",
+      files: [{ format: "vtt", convertedFrom: "srt" }],
+    });
+  });
+});
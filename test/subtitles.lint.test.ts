@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { lintSubtitleText } from "../src/domain/subtitle-lint.js";
+import type { ProviderSubtitleResult, SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const VALID = [
+  "1",
+  "00:00:01,000 --> 00:00:02,000",
+  "<i>Hello</i>",
+  "",
+  "2",
+  "00:00:03,000 --> 00:00:04,000",
+  "World",
+  "",
+].join("\n");
+
+const BROKEN = [
+  "1",
+  "00:00:01,000 --> 00:00:03,000",
+  "Hello &amp; welcome",
+  "",
+  "00:00:02,000 --> 00:00:04,000",
+  "<div>Overlap</div>",
+  "",
+  "7",
+  "00:00:06,000 --> 00:00:05,000",
+  "Backwards",
+  "",
+].join("\n");
+
+const HTML_PAGE = "<!DOCTYPE html>\n<html><body>Too many requests</body></html>\n";
+
+function createProvider(contents: Record<string, string>, downloads: string[]): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: true,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search() {
+      return Object.keys(contents).map(
+        (id, index): ProviderSubtitleResult => ({
+          id,
+          providerId: "subhd",
+          title: "The Matrix 1999",
+          language: "zh-cn",
+          format: "srt",
+          downloads: 100 - index,
+        }),
+      );
+    },
+    async getDownloadPlan(subtitleId) {
+      return {
+        id: subtitleId,
+        providerId: "subhd",
+        fileName: `${subtitleId.replace(/\W+/g, "-")}.srt`,
+        sourceUrl: `https://subhd.test/${subtitleId}`,
+        format: "srt",
+      };
+    },
+    async downloadSubtitle(subtitleId) {
+      downloads.push(subtitleId);
+      return {
+        ...(await this.getDownloadPlan(subtitleId)),
+        content: new TextEncoder().encode(contents[subtitleId]),
+      };
+    },
+  };
+}
+
+async function run(
+  args: string[],
+  options: { contents?: Record<string, string>; file?: string; env?: NodeJS.ProcessEnv } = {},
+) {
+  const downloads: string[] = [];
+  const written: string[] = [];
+  const stdout = new BufferWriter();
+  const exitCode = await runCli([...args, "--json"], {
+    providers: { subhd: createProvider(options.contents ?? {}, downloads) },
+    env: { XDG_CONFIG_HOME: "/home/test/.config", ...options.env },
+    cwd: "/work",
+    configReader: async () => undefined,
+    fileReader: async () => new TextEncoder().encode(options.file ?? ""),
+    fileWriter: async (path) => {
+      written.push(path);
+    },
+    stdout,
+    stderr: new BufferWriter(),
+  });
+
+  return { exitCode, downloads, written, payload: JSON.parse(stdout.read()) };
+}
+
+describe("subtitle lint", () => {
+  it("reports each issue with its rule, severity and cue", () => {
+    const report = lintSubtitleText(BROKEN, "srt");
+
+    expect(report).toMatchObject({ format: "srt", cues: 3, valid: false });
+    expect(report.summary).toEqual({ errors: 1, warnings: 5 });
+    expect(report.issues.map(({ rule, severity, cue }) => [rule, severity, cue])).toEqual([
+      ["html-tags", "warning", 1],
+      ["cue-overlap", "warning", 2],
+      ["srt-index", "warning", 2],
+      ["html-tags", "warning", 2],
+      ["negative-duration", "error", 3],
+      ["srt-index", "warning", 3],
+    ]);
+
+    expect(lintSubtitleText(VALID, "srt")).toMatchObject({ valid: true, issues: [] });
+    expect(
+      lintSubtitleText(BROKEN, "srt", { disabled: ["negative-duration", "html-tags"] }),
+    ).toMatchObject({ valid: true, summary: { errors: 0, warnings: 3 } });
+  });
+
+  it("stops at files that are web pages, empty or unparsable", () => {
+    expect(lintSubtitleText(HTML_PAGE, "srt").issues).toEqual([
+      { rule: "html-document", severity: "error", message: "The file is an HTML page" },
+    ]);
+    expect(lintSubtitleText("\n\n", "vtt").issues[0]?.rule).toBe("empty-file");
+    expect(lintSubtitleText("1\n00:00:01 --> soon\nHello\n", "srt").issues).toEqual([
+      expect.objectContaining({ rule: "syntax", severity: "error" }),
+    ]);
+  });
+
+  it("fails sub lint on errors with exit code 6 and honours lint-disable", async () => {
+    const failed = await run(["lint", "--input", "/work/broken.srt"], { file: BROKEN });
+    expect(failed.exitCode).toBe(6);
+    expect(failed.payload.error).toMatchObject({
+      code: "E_SUBTITLE_VALIDATION_FAILED",
+      details: { inputPath: "/work/broken.srt", summary: { errors: 1, warnings: 5 } },
+    });
+
+    const configured = await run(["lint", "--input", "/work/broken.srt"], {
+      file: BROKEN,
+      env: { SUBCHEF_LINT_DISABLE: "negative-duration,srt-index" },
+    });
+    expect(configured.exitCode).toBe(0);
+    expect(configured.payload.data).toMatchObject({
+      valid: true,
+      disabled: ["negative-duration", "srt-index"],
+      summary: { errors: 0, warnings: 3 },
+    });
+
+    const unknown = await run(
+      ["lint", "--input", "/work/broken.srt", "--lint-disable", "no-such-rule"],
+      { file: BROKEN },
+    );
+    expect(unknown.exitCode).toBe(2);
+    expect(unknown.payload.error).toMatchObject({
+      code: "E_ARG_INVALID",
+      details: { arg: "lint-disable", value: "no-such-rule" },
+    });
+
+    const badConfig = await run(["lint", "--input", "/work/broken.srt"], {
+      file: BROKEN,
+      env: { SUBCHEF_LINT_DISABLE: "overlap" },
+    });
+    expect(badConfig.exitCode).toBe(2);
+  });
+
+  it("refuses to write broken downloads with --validate", async () => {
+    const download = await run(
+      ["download", "--id", "subhd:page", "--output", "/tmp/m.srt", "--validate"],
+      { contents: { "subhd:page": HTML_PAGE } },
+    );
+    expect(download.exitCode).toBe(6);
+    expect(download.written).toEqual([]);
+    expect(download.payload.error).toMatchObject({
+      code: "E_SUBTITLE_VALIDATION_FAILED",
+      details: { valid: false, issues: [{ rule: "html-document" }] },
+    });
+
+    const unchecked = await run(["download", "--id", "subhd:b", "--output", "/tmp/m.srt"], {
+      contents: { "subhd:b": BROKEN },
+    });
+    expect(unchecked.exitCode).toBe(0);
+    expect(unchecked.written).toEqual(["/tmp/m.srt"]);
+  });
+
+  it("moves on to the next candidate when --validate rejects a fetch", async () => {
+    const contents = { "subhd:a": BROKEN, "subhd:b": VALID };
+    const fetch = await run(
+      [
+        "fetch",
+        "--query",
+        "matrix",
+        "--output",
+        "/tmp/m.srt",
+        "--validate",
+        "--fallback",
+        "candidates",
+      ],
+      { contents },
+    );
+
+    expect(fetch.exitCode).toBe(0);
+    expect(fetch.downloads).toEqual(["subhd:a", "subhd:b"]);
+    expect(fetch.written).toEqual(["/tmp/m.srt"]);
+    expect(fetch.payload.data.selected.id).toBe("subhd:b");
+    expect(fetch.payload.data.attempts[0]).toMatchObject({
+      candidateId: "subhd:a",
+      ok: false,
+      error: { code: "E_SUBTITLE_VALIDATION_FAILED" },
+    });
+  });
+});
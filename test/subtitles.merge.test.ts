@@ -0,0 +1,305 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { cueText, mergeSubtitleDocuments, parseSubtitle } from "../src/domain/subtitles.js";
+import type { ProviderSubtitleResult, SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const CHINESE_SRT = [
+  "1",
+  "00:00:01,000 --> 00:00:04,000",
+  "醒醒，尼奥。",
+  "",
+  "2",
+  "00:00:05,000 --> 00:00:07,000",
+  "跟着白兔走。",
+  "",
+  "3",
+  "00:00:09,000 --> 00:00:10,000",
+  "（敲门声）",
+  "",
+].join("\n");
+
+const ENGLISH_SRT = [
+  "1",
+  "00:00:01,100 --> 00:00:02,400",
+  "Wake up,",
+  "",
+  "2",
+  "00:00:02,500 --> 00:00:03,900",
+  "<i>Neo.</i>",
+  "",
+  "3",
+  "00:00:05,200 --> 00:00:07,100",
+  "Follow the white rabbit.",
+  "",
+  "4",
+  "00:00:12,000 --> 00:00:13,000",
+  "Knock, knock.",
+  "",
+].join("\n");
+
+function createBilingualProvider(
+  extra: Array<{ result: ProviderSubtitleResult; text: string }> = [],
+  downloads: string[] = [],
+): SubtitleProvider {
+  const files: Record<string, string> = {
+    "subhd:zh": CHINESE_SRT,
+    "subhd:en": ENGLISH_SRT,
+    ...Object.fromEntries(extra.map(({ result, text }) => [result.id, text])),
+  };
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: true,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search() {
+      return [
+        {
+          id: "subhd:en",
+          providerId: "subhd",
+          title: "The Matrix 1999",
+          language: "en",
+          format: "srt",
+          downloads: 50,
+        },
+        {
+          id: "subhd:zh",
+          providerId: "subhd",
+          title: "The Matrix 1999 简体",
+          language: "zh-cn",
+          format: "srt",
+          downloads: 80,
+        },
+        ...extra.map(({ result }) => result),
+      ];
+    },
+    async getDownloadPlan(id) {
+      return {
+        id,
+        providerId: "subhd",
+        fileName: `The.Matrix.1999.${id.slice(6)}.srt`,
+        sourceUrl: `https://dl.subhd.test/${id}`,
+        format: "srt",
+      };
+    },
+    async downloadSubtitle(id) {
+      downloads.push(id);
+      return { ...(await this.getDownloadPlan(id)), content: new TextEncoder().encode(files[id]) };
+    },
+  };
+}
+
+describe("bilingual subtitle merge", () => {
+  it("pairs cues by overlap and stacks the bottom lines under the top ones", () => {
+    const { document, report } = mergeSubtitleDocuments(
+      parseSubtitle(CHINESE_SRT, "srt"),
+      parseSubtitle(ENGLISH_SRT, "srt"),
+      "srt",
+    );
+
+    expect(document.cues.map((cue) => [cue.start, cue.end, cueText(cue)])).toEqual([
+      [1000, 4000, "醒醒，尼奥。\nWake up,\nNeo."],
+      [5000, 7000, "跟着白兔走。\nFollow the white rabbit."],
+      [9000, 10_000, "（敲门声）"],
+      [12_000, 13_000, "Knock, knock."],
+    ]);
+    expect(report).toEqual({ cues: 4, paired: 2, topOnly: 1, bottomOnly: 1 });
+  });
+
+  it("merge command writes ASS with Top and Bottom styles", async () => {
+    const files = new Map([
+      ["/subs/zh.srt", CHINESE_SRT],
+      ["/subs/en.srt", ENGLISH_SRT],
+    ]);
+    const writes = new Map<string, string>();
+    const stdout = new BufferWriter();
+
+    const exitCode = await runCli(
+      [
+        "merge",
+        "--top",
+        "/subs/zh.srt",
+        "--bottom",
+        "/subs/en.srt",
+        "--output",
+        "/subs/dual.ass",
+        "--json",
+      ],
+      {
+        stdout,
+        stderr: new BufferWriter(),
+        fileReader: async (path) => new TextEncoder().encode(files.get(path) ?? ""),
+        fileWriter: async (path, content) => {
+          writes.set(path, new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    const ass = writes.get("/subs/dual.ass") ?? "";
+    expect(ass).toContain("Style: Top,Arial,64,");
+    expect(ass).toContain("Style: Bottom,Arial,48,");
+    expect(ass).toContain("Dialogue: 0,0:00:01.00,0:00:04.00,Top,,0,0,0,,醒醒，尼奥。");
+    expect(ass).toContain(
+      "Dialogue: 0,0:00:01.00,0:00:04.00,Bottom,,0,0,0,,Wake up,\\N{\\i1}Neo.",
+    );
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      ok: true,
+      data: { format: "ass", cues: 6, paired: 2, topOnly: 1, bottomOnly: 1 },
+    });
+  });
+
+  it("fetch --bilingual downloads one candidate per language and merges them", async () => {
+    const writes = new Map<string, string>();
+    const stdout = new BufferWriter();
+
+    const exitCode = await runCli(
+      ["fetch", "--query", "matrix", "--output", "/tmp/dual.srt", "--bilingual", "zh,en", "--json"],
+      {
+        providers: { subhd: createBilingualProvider() },
+        stdout,
+        stderr: new BufferWriter(),
+        fileWriter: async (path, content) => {
+          writes.set(path, new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(writes.get("/tmp/dual.srt")).toContain("跟着白兔走。\nFollow the white rabbit.");
+
+    const payload = JSON.parse(stdout.read());
+    expect(payload.data).toMatchObject({
+      selected: { id: "subhd:zh" },
+      format: "srt",
+      bilingual: {
+        languages: ["zh", "en"],
+        selected: [{ id: "subhd:zh" }, { id: "subhd:en" }],
+        merge: { paired: 2 },
+      },
+    });
+    expect(payload.data.request.languagePreferences).toEqual(["zh", "en"]);
+  });
+
+  it("fetch --bilingual tries the next candidate when one fails verification", async () => {
+    const downloads: string[] = [];
+    const writes = new Map<string, string>();
+    const stdout = new BufferWriter();
+    const mislabelled: ProviderSubtitleResult = {
+      id: "subhd:en-chs",
+      providerId: "subhd",
+      title: "The Matrix 1999 English",
+      language: "en",
+      format: "srt",
+      downloads: 500,
+    };
+
+    const exitCode = await runCli(
+      [
+        "fetch",
+        "--query",
+        "matrix",
+        "--output",
+        "/tmp/dual.srt",
+        "--bilingual",
+        "zh,en",
+        "--verify-language",
+        "--json",
+      ],
+      {
+        providers: {
+          subhd: createBilingualProvider([{ result: mislabelled, text: CHINESE_SRT }], downloads),
+        },
+        stdout,
+        stderr: new BufferWriter(),
+        fileWriter: async (path, content) => {
+          writes.set(path, new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(downloads).toEqual(["subhd:zh", "subhd:en-chs", "subhd:en"]);
+    expect(writes.get("/tmp/dual.srt")).toContain("跟着白兔走。\nFollow the white rabbit.");
+    const payload = JSON.parse(stdout.read());
+    expect(payload.data.bilingual.selected).toMatchObject([{ id: "subhd:zh" }, { id: "subhd:en" }]);
+    expect(payload.data.attempts).toMatchObject([
+      { candidateId: "subhd:zh", ok: true },
+      { candidateId: "subhd:en-chs", ok: false, error: { code: "E_SUBTITLE_LANGUAGE_MISMATCH" } },
+      { candidateId: "subhd:en", ok: true },
+    ]);
+  });
+
+  it("fetch --bilingual --validate follows --fallback to the next candidate", async () => {
+    const downloads: string[] = [];
+    const stdout = new BufferWriter();
+    const broken: ProviderSubtitleResult = {
+      id: "subhd:en-page",
+      providerId: "subhd",
+      title: "The Matrix 1999 English",
+      language: "en",
+      format: "srt",
+      downloads: 500,
+    };
+    const page = "<!DOCTYPE html>\n<html><body>Too many requests</body></html>\n";
+    const args = [
+      "fetch",
+      "--query",
+      "matrix",
+      "--output",
+      "/tmp/dual.srt",
+      "--bilingual",
+      "zh,en",
+      "--validate",
+      "--json",
+    ];
+    const run = (extra: string[], output: BufferWriter) =>
+      runCli([...args, ...extra], {
+        providers: { subhd: createBilingualProvider([{ result: broken, text: page }], downloads) },
+        stdout: output,
+        stderr: new BufferWriter(),
+        fileWriter: async () => undefined,
+      });
+
+    expect(await run(["--fallback", "candidates"], stdout)).toBe(0);
+    expect(downloads).toEqual(["subhd:zh", "subhd:en-page", "subhd:en"]);
+    expect(JSON.parse(stdout.read()).data.attempts).toMatchObject([
+      { candidateId: "subhd:zh", ok: true },
+      { candidateId: "subhd:en-page", ok: false, error: { code: "E_SUBTITLE_VALIDATION_FAILED" } },
+      { candidateId: "subhd:en", ok: true },
+    ]);
+
+    const strict = new BufferWriter();
+    expect(await run([], strict)).toBe(6);
+    expect(JSON.parse(strict.read()).error.code).toBe("E_SUBTITLE_VALIDATION_FAILED");
+  });
+
+  it("fetch --bilingual needs exactly two languages", async () => {
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      ["fetch", "--query", "matrix", "--output", "/tmp/dual.srt", "--bilingual", "zh", "--json"],
+      { providers: { subhd: createBilingualProvider() }, stdout, stderr: new BufferWriter() },
+    );
+
+    expect(exitCode).toBe(2);
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      ok: false,
+      error: { code: "E_ARG_INVALID", details: { arg: "bilingual" } },
+    });
+  });
+});
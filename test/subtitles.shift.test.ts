@@ -0,0 +1,201 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { parseSubtitle, shiftSubtitleDocument } from "../src/domain/subtitles.js";
+import type { SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const FIXTURE_DIR = join(import.meta.dirname, "fixtures", "subtitles");
+
+const SRT = [
+  "1",
+  "00:00:01,000 --> 00:00:02,000",
+  "Too early.",
+  "",
+  "2",
+  "00:00:02,500 --> 00:00:04,000",
+  "Clamped.",
+  "",
+  "3",
+  "00:01:00,000 --> 00:01:02,500",
+  "Last line.",
+  "",
+].join("\n");
+
+function createSrtProvider(content: string): SubtitleProvider {
+  return {
+    descriptor: {
+      id: "subhd",
+      name: "SubHD test",
+      mock: true,
+      capabilities: { search: true, download: true, doctor: false },
+    },
+    async search() {
+      return [
+        {
+          id: "subhd:srt",
+          providerId: "subhd",
+          title: "The Matrix 1999",
+          language: "en",
+          format: "srt",
+          downloads: 10,
+        },
+      ];
+    },
+    async getDownloadPlan(id) {
+      return {
+        id,
+        providerId: "subhd",
+        fileName: "The.Matrix.1999.srt",
+        sourceUrl: "https://dl.subhd.test/matrix.srt",
+        format: "srt",
+      };
+    },
+    async downloadSubtitle(id) {
+      return { ...(await this.getDownloadPlan(id)), content: new TextEncoder().encode(content) };
+    },
+  };
+}
+
+describe("subtitle timing shift", () => {
+  it("offsets cues, clamps at zero and drops cues that end before it", () => {
+    const { document, report } = shiftSubtitleDocument(parseSubtitle(SRT, "srt"), {
+      offsetMs: -3000,
+    });
+
+    expect(document.cues.map((cue) => [cue.start, cue.end])).toEqual([
+      [0, 1000],
+      [57_000, 59_500],
+    ]);
+    expect(report).toMatchObject({
+      offsetMs: -3000,
+      scale: 1,
+      droppedCues: 1,
+      before: { cues: 3, first: { start: 1000, end: 2000 }, last: { start: 60_000, end: 62_500 } },
+      after: { cues: 2, first: { start: 0, end: 1000 }, last: { start: 57_000, end: 59_500 } },
+    });
+  });
+
+  it("rescales timestamps between framerates before applying the offset", () => {
+    const { document, report } = shiftSubtitleDocument(parseSubtitle(SRT, "srt"), {
+      fromFps: 25,
+      toFps: 23.976,
+      offsetMs: 100,
+    });
+
+    expect(report.scale).toBe(1.042709);
+    expect(document.cues[2]).toMatchObject({ start: 62_663, end: 65_269 });
+  });
+
+  it("shift command accepts negative offsets and rewrites the file in place", async () => {
+    const writes = new Map<string, string>();
+    const stdout = new BufferWriter();
+
+    const exitCode = await runCli(
+      ["shift", "--input", "/subs/matrix.srt", "--offset", "-1500", "--json"],
+      {
+        stdout,
+        stderr: new BufferWriter(),
+        fileReader: async () => new TextEncoder().encode(SRT),
+        fileWriter: async (path, content) => {
+          writes.set(path, new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(writes.get("/subs/matrix.srt")).toContain("00:00:01,000 --> 00:00:02,500\nClamped.");
+
+    const payload = JSON.parse(stdout.read());
+    expect(payload).toMatchObject({
+      ok: true,
+      data: {
+        outputPath: "/subs/matrix.srt",
+        format: "srt",
+        cues: 3,
+        offsetMs: -1500,
+        before: { first: { start: 1000 }, last: { end: 62_500 } },
+        after: { first: { start: 0 }, last: { end: 61_000 } },
+      },
+    });
+  });
+
+  it("keeps ASS styles and event margins when shifting", async () => {
+    const ass = await readFile(join(FIXTURE_DIR, "matrix.ass"), "utf8");
+    const withMargins = ass.replace(
+      "Dialogue: 0,0:00:07.00,0:00:09.00,Default,,0,0,0,,",
+      "Dialogue: 0,0:00:07.00,0:00:09.00,Default,,15,15,30,Banner;20,",
+    );
+    const writes: string[] = [];
+
+    const exitCode = await runCli(
+      ["shift", "--input", "/subs/matrix.ass", "--offset", "+250", "--output", "/out/m.ass"],
+      {
+        stdout: new BufferWriter(),
+        stderr: new BufferWriter(),
+        fileReader: async () => new TextEncoder().encode(withMargins),
+        fileWriter: async (_path, content) => {
+          writes.push(new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(writes[0]).toContain("Style: Sign,Microsoft YaHei,48,&H0000FFFF");
+    expect(writes[0]).toContain("Dialogue: 1,0:00:04.25,0:00:06.50,Sign,,0,0,0,,{\\pos(960,100)");
+    expect(writes[0]).toContain("Dialogue: 0,0:00:07.25,0:00:09.25,Default,,15,15,30,Banner;20,");
+  });
+
+  it("fetch applies --offset after download", async () => {
+    const writes: string[] = [];
+    const stdout = new BufferWriter();
+
+    const exitCode = await runCli(
+      ["fetch", "--query", "matrix", "--output", "/tmp/m.srt", "--offset", "500", "--json"],
+      {
+        providers: { subhd: createSrtProvider(SRT) },
+        stdout,
+        stderr: new BufferWriter(),
+        fileWriter: async (_path, content) => {
+          writes.push(new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(writes[0]).toContain("00:00:01,500 --> 00:00:02,500");
+    expect(JSON.parse(stdout.read()).data.files[0].shift).toMatchObject({
+      offsetMs: 500,
+      after: { first: { start: 1500 } },
+    });
+  });
+
+  it("requires --from-fps and --to-fps together", async () => {
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      ["shift", "--input", "/subs/matrix.srt", "--from-fps", "25", "--json"],
+      { stdout, stderr: new BufferWriter() },
+    );
+
+    expect(exitCode).toBe(2);
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      ok: false,
+      error: { code: "E_ARG_MISSING", details: { arg: "to-fps" } },
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import {
+  estimateSubtitleSync,
+  parseSubtitle,
+  serializeSubtitle,
+  type SubtitleCue,
+} from "../src/domain/subtitles.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+/** Irregular but deterministic cue rhythm, like real dialogue. */
+function createReferenceCues(count: number): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let seed = 7;
+  let time = 5_000;
+  const next = (min: number, max: number) => {
+    seed = (seed * 1_103_515_245 + 12_345) % 2_147_483_648;
+    return min + (seed % (max - min));
+  };
+
+  for (let index = 0; index < count; index += 1) {
+    time += next(200, 3_000);
+    const duration = next(800, 4_000);
+    cues.push({ start: time, end: time + duration, lines: [[{ text: `Line ${index + 1}` }]] });
+    time += duration;
+  }
+
+  return cues;
+}
+
+/** Inverse of `t * scale + offsetMs`, i.e. the drifted copy the aligner should undo. */
+function drift(cues: SubtitleCue[], scale: number, offsetMs: number): SubtitleCue[] {
+  return cues.map((cue) => ({
+    ...cue,
+    start: Math.round((cue.start - offsetMs) / scale),
+    end: Math.round((cue.end - offsetMs) / scale),
+  }));
+}
+
+function toSrt(cues: SubtitleCue[]): string {
+  return serializeSubtitle({ format: "srt", metadata: {}, styles: [], cues }, "srt").text;
+}
+
+describe("subtitle sync", () => {
+  it("recovers a constant offset", () => {
+    const reference = createReferenceCues(60);
+    const estimate = estimateSubtitleSync(drift(reference, 1, -2_300), reference);
+
+    expect(estimate).toMatchObject({ offsetMs: -2_300, scale: 1, confidence: 1, matchedCues: 60 });
+    expect(estimate.residualMs).toBeLessThanOrEqual(1);
+  });
+
+  it("recovers framerate drift when the translation skips cues", () => {
+    const reference = createReferenceCues(80);
+    const input = drift(reference, 25 / 23.976, 1_200).filter((_cue, index) => index % 7 !== 3);
+    const estimate = estimateSubtitleSync(input, reference);
+
+    expect(estimate.scale).toBeCloseTo(25 / 23.976, 4);
+    expect(Math.abs(estimate.offsetMs - 1_200)).toBeLessThanOrEqual(2);
+    expect(estimate.confidence).toBe(1);
+    expect(estimate.matchedCues).toBe(input.length);
+  });
+
+  it("reports low confidence for unrelated timing", () => {
+    const reference = createReferenceCues(40);
+    const unrelated = createReferenceCues(40).map((cue, index) => ({
+      ...cue,
+      start: index * 9_000,
+      end: index * 9_000 + 500 + (index % 2) * 5_000,
+    }));
+
+    expect(estimateSubtitleSync(unrelated, reference).confidence).toBeLessThan(0.5);
+  });
+
+  it("sync command writes the aligned file and reports offset, scale and confidence", async () => {
+    const reference = createReferenceCues(50);
+    const files = new Map([
+      ["/subs/en.srt", toSrt(reference)],
+      ["/subs/zh.srt", toSrt(drift(reference, 25 / 24, -800))],
+    ]);
+    const writes = new Map<string, string>();
+    const stdout = new BufferWriter();
+
+    const exitCode = await runCli(
+      [
+        "sync",
+        "--input",
+        "/subs/zh.srt",
+        "--reference",
+        "/subs/en.srt",
+        "--output",
+        "/subs/zh.synced.srt",
+        "--json",
+      ],
+      {
+        stdout,
+        stderr: new BufferWriter(),
+        fileReader: async (path) => new TextEncoder().encode(files.get(path) ?? ""),
+        fileWriter: async (path, content) => {
+          writes.set(path, new TextDecoder().decode(content));
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    const payload = JSON.parse(stdout.read());
+    expect(payload).toMatchObject({
+      ok: true,
+      data: {
+        outputPath: "/subs/zh.synced.srt",
+        format: "srt",
+        cues: 50,
+        referenceCues: 50,
+        confidence: 1,
+      },
+    });
+    expect(payload.data.scale).toBeCloseTo(25 / 24, 4);
+    expect(payload.warnings).toBeUndefined();
+
+    const synced = parseSubtitle(writes.get("/subs/zh.synced.srt") ?? "", "srt");
+    synced.cues.forEach((cue, index) => {
+      expect(Math.abs(cue.start - reference[index].start)).toBeLessThanOrEqual(3);
+    });
+  });
+
+  it("sync command requires --reference", async () => {
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      ["sync", "--input", "/subs/zh.srt", "--output", "/subs/out.srt", "--json"],
+      { stdout, stderr: new BufferWriter() },
+    );
+
+    expect(exitCode).toBe(2);
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      ok: false,
+      error: { code: "E_ARG_MISSING", details: { arg: "reference" } },
+    });
+  });
+});
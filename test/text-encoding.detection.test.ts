@@ -0,0 +1,181 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli.js";
+import { detectTextEncoding, transcodeSubtitleText } from "../src/domain/text-encoding.js";
+import type { SubtitleProvider } from "../src/domain/types.js";
+
+class BufferWriter {
+  public chunks: string[] = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public read(): string {
+    return this.chunks.join("");
+  }
+}
+
+const FIXTURE_DIR = join(import.meta.dirname, "fixtures", "encodings");
+
+async function readFixture(name: string): Promise<Uint8Array> {
+  return new Uint8Array(await readFile(join(FIXTURE_DIR, name)));
+}
+
+function encodeUtf16(text: string, littleEndian: boolean, bom: boolean): Uint8Array {
+  const units = Array.from(text, (char) => char.charCodeAt(0));
+  const bytes = new Uint8Array((units.length + (bom ? 1 : 0)) * 2);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  if (bom) {
+    view.setUint16(0, 0xfeff, littleEndian);
+    offset = 2;
+  }
+
+  units.forEach((unit, index) => view.setUint16(offset + index * 2, unit, littleEndian));
+  return bytes;
+}
+
+const SAMPLE_SRT = "1\n00:00:01,000 --> 00:00:03,000\n醒醒吧，尼奥。\n";
+
+describe("subtitle text encoding", () => {
+  it("tells GB18030 and Big5 apart", async () => {
+    const gb = detectTextEncoding(await readFixture("matrix.gb18030.srt"));
+    expect(gb.encoding).toBe("gb18030");
+    expect(gb.confidence).toBeGreaterThan(0.6);
+
+    const big5 = detectTextEncoding(await readFixture("matrix.big5.srt"));
+    expect(big5.encoding).toBe("big5");
+    expect(big5.confidence).toBeGreaterThan(0.6);
+  });
+
+  it("detects UTF-16 with and without BOM and UTF-8 BOM", () => {
+    expect(detectTextEncoding(encodeUtf16(SAMPLE_SRT, true, true))).toMatchObject({
+      encoding: "utf-16le",
+      bom: true,
+    });
+    expect(detectTextEncoding(encodeUtf16(SAMPLE_SRT, false, false))).toMatchObject({
+      encoding: "utf-16be",
+      bom: false,
+    });
+    expect(
+      detectTextEncoding(new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode("1")])),
+    ).toMatchObject({ encoding: "utf-8", bom: true, confidence: 1 });
+  });
+
+  it("transcodes legacy encodings to UTF-8 according to the mode", async () => {
+    const gb = await readFixture("matrix.gb18030.srt");
+
+    const auto = transcodeSubtitleText(gb, "auto");
+    expect(new TextDecoder().decode(auto.content)).toContain("这是一个什么样的世界");
+    expect(auto.encoding).toMatchObject({
+      detectedEncoding: "gb18030",
+      outputEncoding: "utf-8",
+    });
+
+    const withBom = transcodeSubtitleText(gb, "utf-8-bom");
+    expect(Array.from(withBom.content.subarray(0, 3))).toEqual([0xef, 0xbb, 0xbf]);
+    expect(withBom.encoding.outputEncoding).toBe("utf-8-bom");
+
+    const kept = transcodeSubtitleText(gb, "keep");
+    expect(kept.content).toBe(gb);
+    expect(kept.encoding.outputEncoding).toBe("gb18030");
+
+    const utf8 = new TextEncoder().encode(SAMPLE_SRT);
+    expect(transcodeSubtitleText(utf8, "auto").content).toBe(utf8);
+  });
+
+  it("fetch writes UTF-8 and reports the detected encoding", async () => {
+    const big5 = await readFixture("matrix.big5.srt");
+    const writes: Uint8Array[] = [];
+
+    const provider: SubtitleProvider = {
+      descriptor: {
+        id: "subhd",
+        name: "SubHD test",
+        mock: true,
+        capabilities: { search: true, download: true, doctor: false },
+      },
+      async search() {
+        return [
+          {
+            id: "subhd:big5",
+            providerId: "subhd",
+            title: "The Matrix 1999 繁体",
+            language: "zh-tw",
+            format: "srt",
+            downloads: 10,
+          },
+        ];
+      },
+      async getDownloadPlan(id) {
+        return {
+          id,
+          providerId: "subhd",
+          fileName: "matrix.srt",
+          sourceUrl: "https://dl.subhd.test/matrix.srt",
+          format: "srt",
+        };
+      },
+      async downloadSubtitle(id) {
+        return { ...(await this.getDownloadPlan(id)), content: big5 };
+      },
+    };
+
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      ["fetch", "--query", "matrix", "--output", "/tmp/matrix.srt", "--json"],
+      {
+        providers: { subhd: provider },
+        stdout,
+        stderr: new BufferWriter(),
+        fileWriter: async (_path, content) => {
+          writes.push(content);
+        },
+      },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(new TextDecoder("utf-8", { fatal: true }).decode(writes[0])).toContain("這是一個");
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      ok: true,
+      data: {
+        encoding: {
+          detectedEncoding: "big5",
+          confidence: expect.any(Number),
+          outputEncoding: "utf-8",
+        },
+      },
+    });
+  });
+
+  it("rejects unknown --encoding modes", async () => {
+    const stdout = new BufferWriter();
+    const exitCode = await runCli(
+      [
+        "fetch",
+        "--query",
+        "matrix",
+        "--output",
+        "/tmp/x.srt",
+        "--encoding",
+        "latin1",
+        "--provider",
+        "assrt",
+        "--json",
+      ],
+      { stdout, stderr: new BufferWriter() },
+    );
+
+    expect(exitCode).toBe(2);
+    expect(JSON.parse(stdout.read())).toMatchObject({
+      ok: false,
+      error: { code: "E_ARG_INVALID", details: { arg: "encoding" } },
+    });
+  });
+});
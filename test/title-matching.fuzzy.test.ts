@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { explainSubtitleCandidate } from "../src/domain/ranking.js";
+import { normalizeSubtitleRequest, tokenize } from "../src/domain/request-normalization.js";
+import { editDistance } from "../src/domain/edit-distance.js";
+import { matchTitle } from "../src/domain/title-matching.js";
+import type { ProviderSubtitleResult } from "../src/domain/types.js";
+
+function candidate(title: string): ProviderSubtitleResult {
+  return {
+    id: `subhd:${title}`,
+    providerId: "subhd",
+    title,
+    language: "zh-cn",
+    format: "srt",
+    downloads: 0,
+  };
+}
+
+describe("title matching", () => {
+  it("splits Chinese runs into dictionary words", () => {
+    expect(tokenize("黑客帝国 1999")).toEqual(["1999", "帝国", "黑客"]);
+    expect(tokenize("越狱 S01")).toEqual(["s01", "越狱"]);
+  });
+
+  it("matches across scripts through aliases, pinyin and edit distance", () => {
+    expect(matchTitle(tokenize("The Matrix"), "黑客帝国.1999.BluRay")).toEqual({
+      matched: 1,
+      total: 1,
+      ratio: 1,
+      matchers: ["alias"],
+    });
+    expect(matchTitle(tokenize("黑客帝国"), "駭客任務 The Matrix").matchers).toEqual(["alias"]);
+    expect(matchTitle(tokenize("黑客帝国"), "黑客帝國").matchers).toEqual(["exact"]);
+    expect(matchTitle(tokenize("heike diguo"), "黑客帝国").matchers).toEqual(["pinyin"]);
+    expect(matchTitle(tokenize("Interstelar"), "Interstellar 2014")).toMatchObject({
+      matched: 1,
+      ratio: 0.8,
+      matchers: ["fuzzy"],
+    });
+    // "The" is a stop word, so only "ant" is looked for, and it is too short for a fuzzy match.
+    expect(matchTitle(tokenize("The Ant"), "The And")).toMatchObject({
+      matched: 0,
+      total: 1,
+      matchers: [],
+    });
+    expect(editDistance("interstellar", "interstelar")).toBe(1);
+  });
+
+  it("does not match short words by edit distance or single pinyin syllables", () => {
+    expect(matchTitle(tokenize("Heat"), "Heart 1987").matchers).toEqual([]);
+    expect(matchTitle(tokenize("Fargo"), "Cargo 2017").matchers).toEqual([]);
+    expect(matchTitle(tokenize("Long Shot"), "龙门客栈").matched).toBe(0);
+    expect(matchTitle(tokenize("hei"), "黑客帝国").matchers).toEqual([]);
+    expect(matchTitle(tokenize("heike"), "黑客帝国").matchers).toEqual(["pinyin"]);
+  });
+
+  it("records the matcher in the ranking reasons", () => {
+    const request = normalizeSubtitleRequest({ query: "The Matrix", languages: ["zh-cn"] });
+    const aliased = explainSubtitleCandidate(request, candidate("黑客帝国 1999"));
+    const unrelated = explainSubtitleCandidate(request, candidate("星际穿越 2014"));
+
+    expect(aliased.reasons[0]).toBe("query-overlap:1.000(alias)");
+    expect(aliased.factors[0].detail).toBe("1/1 tokens via alias");
+    expect(aliased.score).toBeGreaterThan(unrelated.score);
+    expect(
+      explainSubtitleCandidate(request, candidate("The Matrix Reloaded")).reasons[0],
+    ).toBe("query-overlap:1.000");
+  });
+});